@@ -36,5 +36,17 @@ module.exports = {
         BINANCE_PROCESS_ROLE: 'alert',
       },
     },
+    {
+      name: 'binance-maintenance',
+      script: './dist/index.js',
+      instances: 1,
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '512M',
+      env: {
+        NODE_ENV: 'production',
+        BINANCE_PROCESS_ROLE: 'maintenance',
+      },
+    },
   ],
 };
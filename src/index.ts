@@ -1,11 +1,11 @@
 import './utils/setup-logging';
 import { logger } from './utils/logger';
 
-type ProcessRole = 'ingest' | 'aggregate' | 'alert';
+type ProcessRole = 'ingest' | 'aggregate' | 'alert' | 'maintenance';
 
 function resolveProcessRole(): ProcessRole {
   const raw = (process.env['BINANCE_PROCESS_ROLE'] ?? 'ingest').trim().toLowerCase();
-  if (raw === 'ingest' || raw === 'aggregate' || raw === 'alert') {
+  if (raw === 'ingest' || raw === 'aggregate' || raw === 'alert' || raw === 'maintenance') {
     return raw;
   }
   logger.error(`Unknown BINANCE_PROCESS_ROLE value: ${raw}`);
@@ -24,6 +24,9 @@ switch (role) {
   case 'alert':
     void import('./processes/alert');
     break;
+  case 'maintenance':
+    void import('./processes/maintenance');
+    break;
   default:
     logger.error('Unhandled process role');
     process.exit(1);
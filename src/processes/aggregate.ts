@@ -3,6 +3,7 @@ import { initializeConfig, getConfig } from '../utils/config';
 import { logger } from '../utils/logger';
 import { DatabaseManager } from '../services';
 import { CvdAggregationWorker } from '../services/cvd-aggregation-worker';
+import { LiquidationAggregationWorker } from '../services/liquidation-aggregation-worker';
 
 async function bootstrap(): Promise<void> {
   await initializeConfig();
@@ -27,10 +28,22 @@ async function bootstrap(): Promise<void> {
     }
   );
 
+  const liquidationWorker = new LiquidationAggregationWorker(databaseManager, {
+    batchSize: config.cvdAggregationBatchSize,
+    pollIntervalMs: config.cvdAggregationPollIntervalMs,
+    zScoreThreshold: config.liquidationZScoreThreshold,
+    zScoreWindowMinutes: config.liquidationZScoreWindowMinutes,
+    alertsEnabled: config.enableLiquidationAlerts,
+    minAlertNotional: config.liquidationAlertMinNotional,
+    suppressionWindowMinutes: config.liquidationAlertSuppressionMinutes,
+  });
+
   bindWorkerEvents(worker);
-  setupProcessHandlers(worker);
+  bindLiquidationWorkerEvents(liquidationWorker);
+  setupProcessHandlers(worker, liquidationWorker);
 
   await worker.start();
+  await liquidationWorker.start();
   logger.info('Binance CVD aggregation worker is running');
 }
 
@@ -44,12 +57,38 @@ function bindWorkerEvents(worker: CvdAggregationWorker): void {
   });
 }
 
-function setupProcessHandlers(worker: CvdAggregationWorker): void {
+function bindLiquidationWorkerEvents(worker: LiquidationAggregationWorker): void {
+  worker.on('batchProcessed', ({ count, buckets }) => {
+    logger.debug(`Aggregated ${count} liquidation events into ${buckets} buckets`);
+  });
+
+  worker.on('alertEnqueued', (payload) => {
+    logger.info('Enqueued liquidation spike alert', {
+      symbol: payload.symbol,
+      interval: payload.interval,
+      side: payload.side,
+      notional: payload.notional,
+      zScore: payload.zScore,
+    });
+  });
+
+  worker.on('error', (error) => {
+    logger.error('Liquidation aggregation worker error', error);
+  });
+}
+
+function setupProcessHandlers(
+  worker: CvdAggregationWorker,
+  liquidationWorker: LiquidationAggregationWorker
+): void {
   const shutdown = async (signal: NodeJS.Signals) => {
     logger.info(`Received ${signal}, shutting down CVD aggregation worker...`);
     await worker.stop().catch((error) => {
       logger.error('Failed to stop CVD aggregation worker gracefully', error);
     });
+    await liquidationWorker.stop().catch((error) => {
+      logger.error('Failed to stop liquidation aggregation worker gracefully', error);
+    });
     process.exit(0);
   };
 
@@ -11,8 +11,8 @@ async function bootstrap(): Promise<void> {
 
   logger.setLevel(config.logLevel);
 
-  if (!config.enableCvdAlerts) {
-    logger.warn('CVD alerts are disabled; keeping dispatcher idle to avoid PM2 restarts.');
+  if (!config.enableCvdAlerts && !config.enableLiquidationAlerts) {
+    logger.warn('CVD and liquidation alerts are disabled; keeping dispatcher idle to avoid PM2 restarts.');
     setupProcessHandlers();
     await waitIndefinitely();
     return;
@@ -52,6 +52,15 @@ function buildDisplayNameMap(aggregators: CvdAggregatorConfig[]): Record<string,
 
 function bindProcessorEvents(processor: AlertQueueProcessor): void {
   processor.on('alertSent', (record) => {
+    if (record.alertType === 'LIQUIDATION_SPIKE') {
+      logger.info('Dispatched Binance liquidation alert', {
+        alertId: record.id,
+        symbol: record.payload.symbol,
+        side: record.payload.side,
+        zScore: record.payload.zScore,
+      });
+      return;
+    }
     logger.info('Dispatched Binance CVD alert', {
       alertId: record.id,
       symbol: record.payload.symbol,
@@ -61,7 +70,8 @@ function bindProcessorEvents(processor: AlertQueueProcessor): void {
   });
 
   processor.on('alertFailed', ({ record, error }) => {
-    logger.error('Failed to dispatch Binance CVD alert', {
+    logger.error('Failed to dispatch Binance alert', {
+      alertType: record.alertType,
       alertId: record.id,
       symbol: record.payload.symbol,
       error: error.message,
@@ -7,13 +7,25 @@ import {
   SymbolManager,
   RateLimiter,
   BinanceRestClient,
+  FUTURES_DATA_RATE_LIMIT_KEY,
+  REQUEST_WEIGHT_RATE_LIMIT_KEYS,
+  USDM_FUNDING_RATE_LIMIT_KEY,
+  BinanceStreamManager,
   AggTradeDatabaseManager,
   DataCollector,
   AggTradeCollector,
   TradeDataCollector,
   LiquidationDataCollector,
+  DepthDataCollector,
+  OrderBookMetricsWorker,
+  FundingDataCollector,
+  KlineDataCollector,
+  KlineBackfillCollector,
+  OpenInterestCollector,
+  MetricsRegistry,
+  MetricsServer,
 } from '../services';
-import { CvdAggregatorConfig, CvdStreamConfig, MarketType } from '../types';
+import { CvdAggregatorConfig, CvdStreamConfig, LiquidationStreamConfig, MarketType } from '../types';
 
 async function bootstrap(): Promise<void> {
   await initializeConfig();
@@ -45,11 +57,25 @@ async function bootstrap(): Promise<void> {
 
   const aggTradeDatabaseManager = new AggTradeDatabaseManager(config.aggTradeDataDirectory);
 
+  // トレード・清算・板・マーク価格のストリームは同じ接続群に SUBSCRIBE して多重化する
+  const streamManager = new BinanceStreamManager({
+    spotUrl: config.binanceSpotWsUrl,
+    usdMUrl: config.binanceUsdMWsUrl,
+    coinMUrl: config.binanceCoinMWsUrl,
+    maxStreamsPerConnection: config.wsMaxStreamsPerConnection,
+    reconnectDelayMs: config.wsReconnectBaseDelayMs,
+    maxReconnectDelayMs: config.wsReconnectMaxDelayMs,
+    rolloverAfterMs: config.wsRolloverMs,
+    staleThresholdMs: config.wsStaleThresholdMs,
+  });
+
   const tradeDataCollector = new TradeDataCollector(databaseManager, {
     spotWsUrl: config.binanceSpotWsUrl,
     usdMWsUrl: config.binanceUsdMWsUrl,
     coinMWsUrl: config.binanceCoinMWsUrl,
     subscriptions: buildTradeSubscriptions(config.cvdAggregators),
+    streamManager,
+    restClient,
     flushIntervalMs: config.tradeFlushIntervalMs,
     maxBufferSize: config.tradeMaxBufferSize,
   });
@@ -57,20 +83,66 @@ async function bootstrap(): Promise<void> {
   const liquidationCollector = new LiquidationDataCollector(databaseManager, {
     usdMWsUrl: config.binanceUsdMWsUrl,
     coinMWsUrl: config.binanceCoinMWsUrl,
-    subscriptions: buildLiquidationSubscriptions(config.cvdAggregators),
+    ...buildLiquidationSubscriptions(config.liquidationStreams),
+    streamManager,
+    restClient,
+    symbolManager,
     flushIntervalMs: config.liquidationFlushIntervalMs,
     maxBufferSize: config.liquidationMaxBufferSize,
   });
 
+  const depthCollector = new DepthDataCollector(databaseManager, {
+    spotWsUrl: config.binanceSpotWsUrl,
+    usdMWsUrl: config.binanceUsdMWsUrl,
+    coinMWsUrl: config.binanceCoinMWsUrl,
+    subscriptions: config.depthStreams,
+    restClient,
+    streamManager,
+    restLimit: config.depthRestLimit,
+    snapshotLevels: config.depthSnapshotLevels,
+    snapshotIntervalMs: config.depthSnapshotIntervalMs,
+  });
+
+  const orderBookMetricsWorker = new OrderBookMetricsWorker(databaseManager, depthCollector, {
+    bandsBps: config.depthMetricsBandsBps,
+    intervalMs: config.depthMetricsIntervalMs,
+  });
+
+  const fundingCollector = new FundingDataCollector(databaseManager, {
+    usdMWsUrl: config.binanceUsdMWsUrl,
+    coinMWsUrl: config.binanceCoinMWsUrl,
+    streams: config.markPriceStreams,
+    restClient,
+    symbolManager,
+    streamManager,
+    sampleIntervalMs: config.markPriceSampleIntervalMs,
+    fundingBackfillIntervalMs: config.fundingBackfillIntervalMs,
+    initialLookbackMs: config.fundingInitialLookbackMs,
+    maxRetries: 3,
+    retryDelayMs: 5_000,
+  });
+
+  const klineCollector = new KlineDataCollector(databaseManager, symbolManager, {
+    spotWsUrl: config.binanceSpotWsUrl,
+    usdMWsUrl: config.binanceUsdMWsUrl,
+    coinMWsUrl: config.binanceCoinMWsUrl,
+    streamManager,
+    flushIntervalMs: config.klineFlushIntervalMs,
+    maxBufferSize: config.klineMaxBufferSize,
+  });
+
   const dataCollector = new DataCollector(
     databaseManager,
     symbolManager,
     restClient,
     {
       topTraderIntervalMs: 5 * 60 * 1000,
-      topTraderRequestDelayMs: 3_000,
+      rateLimiter,
       topTraderMaxRetries: 3,
       topTraderRetryDelayMs: 5_000,
+      topTraderMarkets: config.topTraderMarkets,
+      topTraderPeriods: config.topTraderPeriods,
+      topTraderBackfillMs: config.topTraderBackfillMs,
     }
   );
 
@@ -80,6 +152,12 @@ async function bootstrap(): Promise<void> {
     restClient,
     {
       assetListPath: path.resolve(process.cwd(), 'coinmarketcap_top100.csv'),
+      spotWsUrl: config.binanceSpotWsUrl,
+      usdMWsUrl: config.binanceUsdMWsUrl,
+      coinMWsUrl: config.binanceCoinMWsUrl,
+      streamManager,
+      wsFlushIntervalMs: config.tradeFlushIntervalMs,
+      wsMaxBufferSize: config.tradeMaxBufferSize,
       fetchIntervalMs: 60 * 60 * 1000,
       restLimit: 1_000,
       initialLookbackMs: 12 * 60 * 60 * 1000,
@@ -88,20 +166,89 @@ async function bootstrap(): Promise<void> {
     }
   );
 
+  const klineBackfillCollector = new KlineBackfillCollector(
+    databaseManager,
+    symbolManager,
+    restClient,
+    {
+      timeframes: ['30m', '1d'],
+      fetchIntervalMs: 30 * 60 * 1000,
+      maxRetries: 3,
+      retryDelayMs: 5_000,
+    }
+  );
+
+  const openInterestCollector = new OpenInterestCollector(
+    databaseManager,
+    symbolManager,
+    restClient,
+    {
+      fetchIntervalMs: config.openInterestIntervalMs,
+      initialLookbackMs: config.openInterestInitialLookbackMs,
+      maxRetries: 3,
+      retryDelayMs: 5_000,
+    }
+  );
+
   bindTradeCollectorEvents(tradeDataCollector);
   bindDataCollectorEvents(dataCollector);
   bindLiquidationCollectorEvents(liquidationCollector);
+  bindDepthCollectorEvents(depthCollector, orderBookMetricsWorker);
+  bindFundingCollectorEvents(fundingCollector);
+  bindKlineCollectorEvents(klineCollector);
+  bindKlineBackfillEvents(klineBackfillCollector);
+  bindAggTradeCollectorEvents(aggTradeCollector);
+  bindOpenInterestCollectorEvents(openInterestCollector);
+
+  const metricsServer = config.metricsEnabled
+    ? new MetricsServer(new MetricsRegistry(), {
+        host: config.metricsHost,
+        port: config.metricsPort,
+        disconnectThresholdMs: config.healthWsDisconnectThresholdMs,
+      })
+    : null;
+  if (metricsServer) {
+    bindIngestMetrics(metricsServer, {
+      rateLimiter,
+      streamManager,
+      tradeDataCollector,
+      liquidationCollector,
+      depthCollector,
+      orderBookMetricsWorker,
+      fundingCollector,
+      openInterestCollector,
+      aggTradeCollector,
+      dataCollector,
+    });
+  }
 
   setupProcessHandlers({
+    metricsServer,
     dataCollector,
     tradeDataCollector,
     aggTradeCollector,
     liquidationCollector,
+    depthCollector,
+    orderBookMetricsWorker,
+    fundingCollector,
+    klineCollector,
+    klineBackfillCollector,
+    openInterestCollector,
   });
 
+  if (metricsServer) {
+    await metricsServer.start();
+  }
+
   await tradeDataCollector.start();
   await liquidationCollector.start();
+  await depthCollector.start();
+  orderBookMetricsWorker.start();
+  await fundingCollector.start();
   await dataCollector.start();
+  await klineCollector.start();
+  await klineBackfillCollector.start();
+  await openInterestCollector.start();
   await aggTradeCollector.start();
 
   logger.info('Binance ingestion process is running');
@@ -111,16 +258,14 @@ function registerRateLimiters(rateLimiter: RateLimiter, buffer: number): void {
   const minute = 60_000;
   const applyBuffer = (base: number) => Math.max(1, Math.floor(base * (1 - buffer)));
 
-  rateLimiter.registerEndpoint('exchangeInfo:spot', applyBuffer(1_200), minute);
-  rateLimiter.registerEndpoint('exchangeInfo:usdm', applyBuffer(1_200), minute);
-  rateLimiter.registerEndpoint('exchangeInfo:coinm', applyBuffer(1_200), minute);
-  rateLimiter.registerEndpoint('klines:SPOT', applyBuffer(1_200), minute);
-  rateLimiter.registerEndpoint('klines:USDT-M', applyBuffer(1_200), minute);
-  rateLimiter.registerEndpoint('klines:COIN-M', applyBuffer(1_200), minute);
-  rateLimiter.registerEndpoint('aggTrades:SPOT', applyBuffer(1_200), minute);
-  rateLimiter.registerEndpoint('aggTrades:USDT-M', applyBuffer(1_200), minute);
-  rateLimiter.registerEndpoint('topTrader:positions', applyBuffer(1_200), minute);
-  rateLimiter.registerEndpoint('topTrader:accounts', applyBuffer(1_200), minute);
+  // ウェイト制のエンドポイントは市場ごとに IP あたり 1 分のウェイト上限 (Spot 6000 / 先物 2400) を共有する
+  rateLimiter.registerEndpoint(REQUEST_WEIGHT_RATE_LIMIT_KEYS['SPOT'], applyBuffer(6_000), minute);
+  rateLimiter.registerEndpoint(REQUEST_WEIGHT_RATE_LIMIT_KEYS['USDT-M'], applyBuffer(2_400), minute);
+  rateLimiter.registerEndpoint(REQUEST_WEIGHT_RATE_LIMIT_KEYS['COIN-M'], applyBuffer(2_400), minute);
+  // USDT-M の fundingRate は他エンドポイントと別枠で 5 分あたり 500 リクエストに制限される
+  rateLimiter.registerEndpoint(USDM_FUNDING_RATE_LIMIT_KEY, applyBuffer(500), 5 * minute);
+  // /futures/data 系は市場を問わず IP あたり 5 分 1000 リクエストの 1 つの枠を共有する
+  rateLimiter.registerEndpoint(FUTURES_DATA_RATE_LIMIT_KEY, applyBuffer(1_000), 5 * minute);
 }
 
 function buildTradeSubscriptions(
@@ -146,33 +291,32 @@ function buildTradeSubscriptions(
   return Array.from(deduped.values());
 }
 
-function buildLiquidationSubscriptions(
-  aggregators: CvdAggregatorConfig[]
-): Array<{ symbol: string; marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'> }> {
-  const deduped = new Map<string, { symbol: string; marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'> }>();
-
-  for (const aggregator of aggregators) {
-    for (const stream of aggregator.streams) {
-      if (stream.marketType !== 'USDT-M' && stream.marketType !== 'COIN-M') {
-        continue;
-      }
-
-      const symbol = stream.symbol.toUpperCase();
-      // 現状はBTC系の先物清算のみ追跡する
-      if (!symbol.includes('BTC')) {
-        continue;
-      }
-
-      const market = stream.marketType;
-      const key = `${market}:${symbol}`;
+function buildLiquidationSubscriptions(streams: LiquidationStreamConfig[]): {
+  subscriptions: Array<{ symbol: string; marketType: LiquidationStreamConfig['marketType'] }>;
+  allMarketStreams: Array<LiquidationStreamConfig['marketType']>;
+} {
+  const deduped = new Map<string, { symbol: string; marketType: LiquidationStreamConfig['marketType'] }>();
+  const allMarketStreams = new Set<LiquidationStreamConfig['marketType']>();
+
+  for (const stream of streams) {
+    if (stream.symbols === 'ALL') {
+      allMarketStreams.add(stream.marketType);
+      continue;
+    }
 
+    for (const rawSymbol of stream.symbols) {
+      const symbol = rawSymbol.toUpperCase();
+      const key = `${stream.marketType}:${symbol}`;
       if (!deduped.has(key)) {
-        deduped.set(key, { symbol, marketType: market });
+        deduped.set(key, { symbol, marketType: stream.marketType });
       }
     }
   }
 
-  return Array.from(deduped.values());
+  return {
+    subscriptions: Array.from(deduped.values()),
+    allMarketStreams: Array.from(allMarketStreams),
+  };
 }
 
 function bindTradeCollectorEvents(tradeCollector: TradeDataCollector): void {
@@ -184,6 +328,10 @@ function bindTradeCollectorEvents(tradeCollector: TradeDataCollector): void {
     logger.error('Binance trade WebSocket error', error);
   });
 
+  tradeCollector.on('tradeBackfillCompleted', (result) => {
+    logger.info('Backfilled Binance trades missed during WebSocket outage', result);
+  });
+
   tradeCollector.on('error', (error) => {
     logger.error('Binance trade collector error', error);
   });
@@ -201,6 +349,121 @@ function bindLiquidationCollectorEvents(liquidationCollector: LiquidationDataCol
   liquidationCollector.on('error', (error) => {
     logger.error('Binance liquidation collector error', error);
   });
+
+  liquidationCollector.on('coverageCrossChecked', (gap, checks) => {
+    logger.info('Cross-checked liquidation coverage gap with kline taker volume', {
+      coverageId: gap.id,
+      marketType: gap.marketType,
+      crossCheck: gap.crossCheck,
+      symbols: checks.length,
+      incomplete: checks.filter((check) => !check.complete).length,
+    });
+  });
+}
+
+function bindDepthCollectorEvents(
+  depthCollector: DepthDataCollector,
+  orderBookMetricsWorker: OrderBookMetricsWorker
+): void {
+  depthCollector.on('depthSnapshotStored', (count: number) => {
+    logger.debug(`Persisted ${count} Binance order book snapshots`);
+  });
+
+  depthCollector.on('resynced', (result) => {
+    logger.info('Binance order book synchronized from REST snapshot', result);
+  });
+
+  depthCollector.on('websocketError', (error) => {
+    logger.error('Binance depth WebSocket error', error);
+  });
+
+  depthCollector.on('error', (error) => {
+    logger.error('Binance depth collector error', error);
+  });
+
+  orderBookMetricsWorker.on('metricsStored', (count: number) => {
+    logger.debug(`Persisted ${count} order book metric rows`);
+  });
+
+  orderBookMetricsWorker.on('error', (error) => {
+    logger.error('Order book metrics worker error', error);
+  });
+}
+
+function bindFundingCollectorEvents(fundingCollector: FundingDataCollector): void {
+  fundingCollector.on('markPriceSaved', (count: number) => {
+    logger.debug(`Persisted ${count} Binance mark price samples`);
+  });
+
+  fundingCollector.on('fundingBackfillCompleted', (summary) => {
+    logger.info('Binance funding rate backfill cycle completed', summary);
+  });
+
+  fundingCollector.on('websocketError', (error) => {
+    logger.error('Binance mark price WebSocket error', error);
+  });
+
+  fundingCollector.on('error', (error) => {
+    logger.error('Binance funding collector error', error);
+  });
+}
+
+function bindKlineCollectorEvents(klineCollector: KlineDataCollector): void {
+  klineCollector.on('klineDataSaved', (count: number) => {
+    logger.debug(`Persisted ${count} Binance 1m klines`);
+  });
+
+  klineCollector.on('subscriptionsUpdated', (payload) => {
+    logger.info('Binance kline subscriptions updated', payload);
+  });
+
+  klineCollector.on('websocketError', (error) => {
+    logger.error('Binance kline WebSocket error', error);
+  });
+
+  klineCollector.on('error', (error) => {
+    logger.error('Binance kline collector error', error);
+  });
+}
+
+function bindKlineBackfillEvents(backfillCollector: KlineBackfillCollector): void {
+  backfillCollector.on('progress', (payload) => {
+    if (payload.stored > 0) {
+      logger.debug('Backfilled Binance klines', payload);
+    }
+  });
+
+  backfillCollector.on('cycleCompleted', (payload) => {
+    logger.info('Binance kline backfill cycle completed', payload);
+  });
+
+  backfillCollector.on('error', (error) => {
+    logger.error('Binance kline backfill error', error);
+  });
+}
+
+function bindAggTradeCollectorEvents(aggTradeCollector: AggTradeCollector): void {
+  aggTradeCollector.on('tradeStored', (count, source) => {
+    logger.debug(`Persisted ${count} Binance agg trades (${source})`);
+  });
+
+  aggTradeCollector.on('websocketError', (error) => {
+    logger.error('Binance aggTrade WebSocket error', error);
+  });
+
+  aggTradeCollector.on('error', (error) => {
+    logger.error('Binance aggTrade collector error', error);
+  });
+}
+
+function bindOpenInterestCollectorEvents(openInterestCollector: OpenInterestCollector): void {
+  openInterestCollector.on('cycleCompleted', (summary) => {
+    logger.info('Binance open interest cycle completed', summary);
+  });
+
+  openInterestCollector.on('error', (error) => {
+    logger.error('Binance open interest collector error', error);
+  });
 }
 
 function bindDataCollectorEvents(dataCollector: DataCollector): void {
@@ -211,22 +474,293 @@ function bindDataCollectorEvents(dataCollector: DataCollector): void {
   dataCollector.on('topTraderStored', (payload) => {
     logger.info('Stored Binance top trader snapshots', payload);
   });
+
+  dataCollector.on('topTraderCycleCompleted', (summary) => {
+    logger.info('Binance top trader cycle completed', summary);
+  });
+}
+
+function bindIngestMetrics(
+  metricsServer: MetricsServer,
+  sources: {
+    rateLimiter: RateLimiter;
+    streamManager: BinanceStreamManager;
+    tradeDataCollector: TradeDataCollector;
+    liquidationCollector: LiquidationDataCollector;
+    depthCollector: DepthDataCollector;
+    orderBookMetricsWorker: OrderBookMetricsWorker;
+    fundingCollector: FundingDataCollector;
+    openInterestCollector: OpenInterestCollector;
+    aggTradeCollector: AggTradeCollector;
+    dataCollector: DataCollector;
+  }
+): void {
+  const { registry } = metricsServer;
+  const {
+    rateLimiter,
+    streamManager,
+    tradeDataCollector,
+    liquidationCollector,
+    depthCollector,
+    orderBookMetricsWorker,
+    fundingCollector,
+    openInterestCollector,
+    aggTradeCollector,
+    dataCollector,
+  } = sources;
+
+  const recordWrite = (component: string, source: string, count: number, durationMs: number) => {
+    const labels = { component, source };
+    registry.incrementCounter('binance_db_rows_written_total', 'Rows persisted to SQLite', labels, count);
+    registry.observe(
+      'binance_db_write_duration_ms',
+      'Duration of SQLite batch writes in milliseconds',
+      labels,
+      durationMs
+    );
+  };
+  const recordError = (component: string, kind: 'websocket' | 'collector') => {
+    registry.incrementCounter('binance_collector_errors_total', 'Errors emitted by collectors', {
+      component,
+      kind,
+    });
+  };
+
+  streamManager.on('stale', (market) => {
+    registry.incrementCounter(
+      'binance_ws_stale_recycles_total',
+      'Shared WebSocket connections recycled after receiving no data',
+      { market }
+    );
+  });
+  streamManager.on('rollover', (market) => {
+    registry.incrementCounter(
+      'binance_ws_rollovers_total',
+      'Shared WebSocket connections replaced ahead of the 24h limit',
+      { market }
+    );
+  });
+
+  tradeDataCollector.on('websocketConnected', (market, connectionId) => {
+    metricsServer.trackConnection('trade', market, String(connectionId), true);
+  });
+  tradeDataCollector.on('websocketDisconnected', (market, connectionId) => {
+    metricsServer.trackConnection('trade', market, String(connectionId), false);
+  });
+  tradeDataCollector.on('tradeDataSaved', (count, durationMs) => {
+    recordWrite('trade', 'ws', count, durationMs);
+  });
+  tradeDataCollector.on('tradeBackfillCompleted', ({ count, durationMs }) => {
+    recordWrite('trade', 'rest', count, durationMs);
+  });
+  tradeDataCollector.on('websocketError', () => recordError('trade', 'websocket'));
+  tradeDataCollector.on('error', () => recordError('trade', 'collector'));
+
+  liquidationCollector.on('websocketConnected', (market, connectionId) => {
+    metricsServer.trackConnection('liquidation', market, String(connectionId), true);
+  });
+  liquidationCollector.on('websocketDisconnected', (market, connectionId) => {
+    metricsServer.trackConnection('liquidation', market, String(connectionId), false);
+  });
+  liquidationCollector.on('liquidationDataSaved', (count, durationMs) => {
+    recordWrite('liquidation', 'ws', count, durationMs);
+  });
+  liquidationCollector.on('websocketError', () => recordError('liquidation', 'websocket'));
+  liquidationCollector.on('error', () => recordError('liquidation', 'collector'));
+  liquidationCollector.on('coverageGap', (gap) => {
+    registry.incrementCounter(
+      'binance_liquidation_coverage_gap_seconds_total',
+      'Seconds without liquidation stream coverage',
+      { market: gap.marketType, reason: gap.reason },
+      (gap.windowEnd - gap.windowStart) / 1000
+    );
+  });
+
+  depthCollector.on('websocketConnected', (market, connectionId) => {
+    metricsServer.trackConnection('depth', market, String(connectionId), true);
+  });
+  depthCollector.on('websocketDisconnected', (market, connectionId) => {
+    metricsServer.trackConnection('depth', market, String(connectionId), false);
+  });
+  depthCollector.on('depthSnapshotStored', (count, durationMs) => {
+    recordWrite('depth', 'ws', count, durationMs);
+  });
+  depthCollector.on('desync', (desync) => {
+    registry.incrementCounter(
+      'binance_depth_desyncs_total',
+      'Depth diff events that broke update ID continuity',
+      { market: desync.marketType }
+    );
+  });
+  depthCollector.on('resynced', (result) => {
+    registry.incrementCounter(
+      'binance_depth_resyncs_total',
+      'Order books rebuilt from a REST depth snapshot',
+      { market: result.marketType, reason: result.reason }
+    );
+  });
+  depthCollector.on('websocketError', () => recordError('depth', 'websocket'));
+  depthCollector.on('error', () => recordError('depth', 'collector'));
+  orderBookMetricsWorker.on('metricsStored', (count, durationMs) => {
+    recordWrite('orderBookMetrics', 'depth', count, durationMs);
+  });
+  orderBookMetricsWorker.on('error', () => recordError('orderBookMetrics', 'collector'));
+
+  fundingCollector.on('websocketConnected', (market, connectionId) => {
+    metricsServer.trackConnection('markPrice', market, String(connectionId), true);
+  });
+  fundingCollector.on('websocketDisconnected', (market, connectionId) => {
+    metricsServer.trackConnection('markPrice', market, String(connectionId), false);
+  });
+  fundingCollector.on('markPriceSaved', (count, durationMs) => {
+    recordWrite('markPrice', 'ws', count, durationMs);
+  });
+  fundingCollector.on('fundingRatesStored', ({ count, durationMs }) => {
+    recordWrite('funding', 'rest', count, durationMs);
+  });
+  fundingCollector.on('websocketError', () => recordError('markPrice', 'websocket'));
+  fundingCollector.on('error', () => recordError('funding', 'collector'));
+
+  openInterestCollector.on('openInterestStored', ({ source, count, durationMs }) => {
+    recordWrite('openInterest', source, count, durationMs);
+  });
+  openInterestCollector.on('error', () => recordError('openInterest', 'collector'));
+
+  dataCollector.on('topTraderCycleCompleted', (summary) => {
+    registry.observe(
+      'binance_top_trader_cycle_duration_ms',
+      'Duration of top trader collection cycles in milliseconds',
+      {},
+      summary.durationMs
+    );
+    registry.incrementCounter(
+      'binance_top_trader_skipped_symbols_total',
+      'Top trader symbols deferred to the next cycle because the interval elapsed',
+      {},
+      summary.skipped
+    );
+  });
+  dataCollector.on('restError', () => recordError('topTrader', 'collector'));
+
+  aggTradeCollector.on('websocketConnected', (market, connectionId) => {
+    metricsServer.trackConnection('aggTrade', market, String(connectionId), true);
+  });
+  aggTradeCollector.on('websocketDisconnected', (market, connectionId) => {
+    metricsServer.trackConnection('aggTrade', market, String(connectionId), false);
+  });
+  aggTradeCollector.on('tradeStored', (count, source, durationMs) => {
+    recordWrite('aggTrade', source, count, durationMs);
+  });
+  aggTradeCollector.on('gapScanCompleted', (summary) => {
+    registry.incrementCounter(
+      'binance_agg_trade_gaps_detected_total',
+      'Agg trade trade_id gaps detected',
+      {},
+      summary.detectedGaps
+    );
+    registry.incrementCounter(
+      'binance_agg_trade_gaps_repaired_total',
+      'Agg trade trade_id gaps fully repaired',
+      {},
+      summary.repairedGaps
+    );
+    registry.incrementCounter(
+      'binance_agg_trade_repaired_trades_total',
+      'Agg trades restored by gap repair',
+      {},
+      summary.repairedTrades
+    );
+  });
+  aggTradeCollector.on('websocketError', () => recordError('aggTrade', 'websocket'));
+  aggTradeCollector.on('error', () => recordError('aggTrade', 'collector'));
+
+  registry.registerCollector(() => {
+    const bufferDepths: Array<[string, number]> = [
+      ['trade', tradeDataCollector.getBufferSize()],
+      ['liquidation', liquidationCollector.getBufferSize()],
+      ['markPrice', fundingCollector.getBufferSize()],
+      ['aggTrade', aggTradeCollector.getBufferSize()],
+    ];
+    for (const [component, depth] of bufferDepths) {
+      registry.setGauge(
+        'binance_collector_buffer_depth',
+        'Records buffered in memory awaiting a SQLite flush',
+        { component },
+        depth
+      );
+    }
+
+    registry.setGauge(
+      'binance_depth_books_synced',
+      'Local order books currently in sync with the depth stream',
+      {},
+      depthCollector.getSyncedBookCount()
+    );
+
+    for (const endpoint of rateLimiter.getUsageSnapshot().endpoints) {
+      const labels = { endpoint: endpoint.key };
+      registry.setGauge(
+        'binance_rate_limiter_queue_length',
+        'Requests waiting for rate limiter tokens',
+        labels,
+        endpoint.queueLength
+      );
+      registry.setGauge(
+        'binance_rate_limiter_available_tokens',
+        'Rate limiter tokens currently available',
+        labels,
+        endpoint.availableTokens
+      );
+      registry.setGauge(
+        'binance_rate_limiter_capacity',
+        'Rate limiter token capacity per refill interval',
+        labels,
+        endpoint.capacity
+      );
+    }
+  });
 }
 
 function setupProcessHandlers(params: {
+  metricsServer: MetricsServer | null;
   dataCollector: DataCollector;
   tradeDataCollector: TradeDataCollector;
   aggTradeCollector: AggTradeCollector;
   liquidationCollector: LiquidationDataCollector;
+  depthCollector: DepthDataCollector;
+  orderBookMetricsWorker: OrderBookMetricsWorker;
+  fundingCollector: FundingDataCollector;
+  klineCollector: KlineDataCollector;
+  klineBackfillCollector: KlineBackfillCollector;
+  openInterestCollector: OpenInterestCollector;
 }): void {
-  const { dataCollector, tradeDataCollector, aggTradeCollector, liquidationCollector } = params;
+  const {
+    metricsServer,
+    dataCollector,
+    tradeDataCollector,
+    aggTradeCollector,
+    liquidationCollector,
+    depthCollector,
+    orderBookMetricsWorker,
+    fundingCollector,
+    klineCollector,
+    klineBackfillCollector,
+    openInterestCollector,
+  } = params;
 
   const shutdown = async (signal: NodeJS.Signals) => {
     logger.info(`Received ${signal}, shutting down ingestion process...`);
+    await openInterestCollector.stop();
     await aggTradeCollector.stop();
+    await klineBackfillCollector.stop();
+    await klineCollector.stop();
+    await fundingCollector.stop();
+    await orderBookMetricsWorker.stop();
+    await depthCollector.stop();
     await liquidationCollector.stop();
     await tradeDataCollector.stopCollection();
     await dataCollector.stop();
+    await metricsServer?.stop();
     process.exit(0);
   };
 
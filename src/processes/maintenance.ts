@@ -0,0 +1,107 @@
+import path from 'path';
+import '../utils/setup-logging';
+import { initializeConfig, getConfig } from '../utils/config';
+import { logger } from '../utils/logger';
+import { DatabaseManager, DatabaseBackupScheduler } from '../services';
+import { DatabaseBackupSchedulerOptions } from '../services/database-backup-scheduler';
+
+async function bootstrap(): Promise<void> {
+  await initializeConfig();
+  const config = getConfig();
+
+  logger.setLevel(config.logLevel);
+
+  if (!config.databaseBackupEnabled && !config.databasePruneEnabled) {
+    logger.warn('Database backups and pruning are disabled; keeping maintenance process idle to avoid PM2 restarts.');
+    setupProcessHandlers();
+    await waitIndefinitely();
+    return;
+  }
+
+  logger.info('Starting Binance maintenance process');
+
+  const databaseManager = new DatabaseManager(config.databasePath);
+  await databaseManager.initialize();
+  await databaseManager.runMigrations();
+
+  const schedulerOptions: DatabaseBackupSchedulerOptions = {
+    sourcePath: config.databasePath,
+    targetDirectory: config.databaseBackupDirectory,
+    intervalMs: config.databaseBackupInterval,
+    databaseManager,
+    backupEnabled: config.databaseBackupEnabled,
+    pruneEnabled: config.databasePruneEnabled,
+    dataRetentionMs: config.databaseRetentionMs,
+    tableRetentionMs: config.tableRetentionMs,
+    pruneBatchSize: config.databasePruneBatchSize,
+    cvdAggregatorIds: config.cvdAggregators.map((aggregator) => aggregator.id),
+    aggTradeDirectory: config.aggTradeDataDirectory,
+  };
+  if (config.databaseBackupSingleFile) {
+    // 単一ファイルモードではソース DB と同じファイル名で上書きし、世代管理は行わない
+    schedulerOptions.singleFileName = path.basename(config.databasePath);
+  }
+
+  const scheduler = new DatabaseBackupScheduler(schedulerOptions);
+  bindSchedulerEvents(scheduler);
+  setupProcessHandlers(scheduler);
+
+  scheduler.start();
+  logger.info('Binance maintenance process is running', {
+    backupEnabled: config.databaseBackupEnabled,
+    pruneEnabled: config.databasePruneEnabled,
+    targetDirectory: config.databaseBackupDirectory,
+    intervalMs: config.databaseBackupInterval,
+    singleFile: config.databaseBackupSingleFile,
+    retentionMs: config.databaseRetentionMs,
+  });
+}
+
+function bindSchedulerEvents(scheduler: DatabaseBackupScheduler): void {
+  scheduler.on('backupCompleted', (manifest) => {
+    logger.info('Verified database backup snapshot', {
+      backupPath: manifest.backupPath,
+      sizeBytes: manifest.sizeBytes,
+      sha256: manifest.sha256,
+    });
+  });
+
+  scheduler.on('backupSkipped', (context) => {
+    logger.debug('Skipped unchanged database backup', context);
+  });
+
+  scheduler.on('backupFailed', (error, context) => {
+    logger.error('Database backup snapshot failed', { ...context, error: error.message });
+  });
+}
+
+function setupProcessHandlers(scheduler?: DatabaseBackupScheduler): void {
+  const shutdown = (signal: NodeJS.Signals) => {
+    logger.info(`Received ${signal}, shutting down maintenance process...`);
+    scheduler?.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled promise rejection', reason);
+  });
+
+  process.on('uncaughtException', (error) => {
+    logger.error('Uncaught exception', error);
+    process.exit(1);
+  });
+}
+
+async function waitIndefinitely(): Promise<void> {
+  await new Promise<void>(() => {
+    // noop promise keeps the process alive until an explicit signal triggers exit
+  });
+}
+
+void bootstrap().catch((error) => {
+  logger.error('Fatal error during maintenance bootstrap', error);
+  process.exit(1);
+});
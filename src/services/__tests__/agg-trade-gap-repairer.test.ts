@@ -0,0 +1,125 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AggTradeDatabaseManager } from '../../services/agg-trade-database-manager';
+import { AggTradeGapRepairer } from '../../services/agg-trade-gap-repairer';
+import { BinanceRestClient } from '../../services/binance-rest-client';
+import { AggTrade } from '../../types';
+
+const buildTrade = (tradeId: number, source: AggTrade['source']): AggTrade => ({
+  symbol: 'BTCUSDT',
+  marketType: 'SPOT',
+  tradeId,
+  price: 50_000 + tradeId,
+  quantity: 0.01,
+  firstTradeId: tradeId * 10,
+  lastTradeId: tradeId * 10 + 1,
+  tradeTime: Date.now() - 60_000 + tradeId,
+  isBuyerMaker: tradeId % 2 === 0,
+  isBestMatch: true,
+  source,
+});
+
+describe('AggTradeGapRepairer', () => {
+  let directory: string;
+  let manager: AggTradeDatabaseManager;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'binance-agg-'));
+    manager = new AggTradeDatabaseManager(directory);
+    await manager.initialize();
+  });
+
+  afterEach(async () => {
+    await manager.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('detects trade_id holes, repairs them via fromId and logs the counts', async () => {
+    await manager.saveAggTrades(
+      'BTC',
+      [1, 2, 3, 7, 8, 12].map((id) => buildTrade(id, 'ws'))
+    );
+
+    const fetchAggTrades = jest.fn(
+      async (_symbol: string, _market: AggTrade['marketType'], options: { fromId?: number; limit?: number }) => {
+        const trades: AggTrade[] = [];
+        const fromId = options.fromId ?? 0;
+        for (let id = fromId; id < fromId + (options.limit ?? 1000); id += 1) {
+          // 9 番は取引所側でも返らないケースを想定
+          if (id !== 9) {
+            trades.push(buildTrade(id, 'rest'));
+          }
+        }
+        return trades;
+      }
+    );
+    const restClient = { fetchAggTrades } as unknown as BinanceRestClient;
+
+    const repairer = new AggTradeGapRepairer(manager, restClient);
+    const summary = await repairer.scan([{ asset: 'BTC', symbol: 'BTCUSDT', marketType: 'SPOT' }]);
+
+    expect(fetchAggTrades).toHaveBeenCalledWith('BTCUSDT', 'SPOT', { fromId: 4, limit: 3 });
+    expect(fetchAggTrades).toHaveBeenCalledWith('BTCUSDT', 'SPOT', { fromId: 9, limit: 3 });
+    expect(summary).toEqual(
+      expect.objectContaining({
+        pairs: 1,
+        detectedGaps: 2,
+        repairedGaps: 1,
+        missingTrades: 6,
+        repairedTrades: 5,
+      })
+    );
+
+    const remaining = await manager.findAggTradeGaps('BTC', 'BTCUSDT', 'SPOT');
+    expect(remaining).toEqual([
+      { symbol: 'BTCUSDT', marketType: 'SPOT', startTradeId: 9, endTradeId: 9, missingCount: 1 },
+    ]);
+
+    expect(await manager.getAggTradeGapStats('BTC')).toEqual({
+      detectedGaps: 2,
+      repairedGaps: 1,
+      missingTrades: 6,
+      repairedTrades: 5,
+    });
+  });
+
+  it('keeps failed gaps out of the scan limit until their retry delay passes', async () => {
+    await manager.saveAggTrades(
+      'BTC',
+      [1, 2, 3, 7, 8, 12].map((id) => buildTrade(id, 'ws'))
+    );
+
+    let failFirstGap = true;
+    const fetchAggTrades = jest.fn(
+      async (_symbol: string, _market: AggTrade['marketType'], options: { fromId?: number; limit?: number }) => {
+        const fromId = options.fromId ?? 0;
+        if (fromId === 4 && failFirstGap) {
+          throw new Error('socket hang up');
+        }
+        return Array.from({ length: options.limit ?? 1000 }, (_, index) => buildTrade(fromId + index, 'rest'));
+      }
+    );
+    const restClient = { fetchAggTrades } as unknown as BinanceRestClient;
+    const target = { asset: 'BTC', symbol: 'BTCUSDT', marketType: 'SPOT' as const };
+
+    const repairer = new AggTradeGapRepairer(manager, restClient, { maxGapsPerPair: 1, maxAttempts: 1 });
+    repairer.on('error', () => undefined);
+    await repairer.scan([target]);
+    expect(fetchAggTrades).toHaveBeenCalledTimes(1);
+
+    // failed の区間は LIMIT を消費せず、後続の欠番を補完する
+    fetchAggTrades.mockClear();
+    await repairer.scan([target]);
+    expect(fetchAggTrades.mock.calls.map((call) => call[2])).toEqual([{ fromId: 9, limit: 3 }]);
+
+    // 待ち時間を過ぎた failed の区間は再試行する
+    failFirstGap = false;
+    fetchAggTrades.mockClear();
+    const retrying = new AggTradeGapRepairer(manager, restClient, { maxAttempts: 1, failedRetryDelayMs: 0 });
+    const summary = await retrying.scan([target]);
+    expect(fetchAggTrades.mock.calls.map((call) => call[2])).toEqual([{ fromId: 4, limit: 3 }]);
+    expect(summary.repairedGaps).toBe(1);
+    expect(await manager.findAggTradeGaps('BTC', 'BTCUSDT', 'SPOT')).toEqual([]);
+  });
+});
@@ -0,0 +1,19 @@
+import { BinanceLiquidationWebSocketClient } from '../binance-liquidation-websocket-client';
+
+describe('BinanceLiquidationWebSocketClient', () => {
+  it('replaces per-symbol streams with the all-market stream when requested', () => {
+    const client = new BinanceLiquidationWebSocketClient({
+      usdMUrl: 'wss://fstream.binance.com/stream',
+      coinMUrl: 'wss://dstream.binance.com/stream',
+      subscriptions: [
+        { symbol: 'BTCUSDT', marketType: 'USDT-M' },
+        { symbol: 'ETHUSDT', marketType: 'USDT-M' },
+        { symbol: 'BTCUSD_PERP', marketType: 'COIN-M' },
+        { symbol: 'BTCUSD_PERP', marketType: 'COIN-M' },
+      ],
+      allMarketStreams: ['USDT-M'],
+    });
+
+    expect(client.getStreamNames()).toEqual(['!forceOrder@arr', 'btcusd_perp@forceOrder']);
+  });
+});
@@ -48,8 +48,13 @@ describe('BinanceRestClient', () => {
             return Promise.resolve({ data: fixtures.topTraderAccounts });
           }
         }
-        if (baseURL.includes('dapi.binance.com') && url === '/dapi/v1/klines') {
-          return Promise.resolve({ data: fixtures.coinmKlines });
+        if (baseURL.includes('dapi.binance.com')) {
+          if (url === '/dapi/v1/klines') {
+            return Promise.resolve({ data: fixtures.coinmKlines });
+          }
+          if (url === '/futures/data/topLongShortPositionRatio' || url === '/futures/data/topLongShortAccountRatio') {
+            return Promise.resolve({ data: [] });
+          }
         }
         throw new Error(`Unexpected request ${baseURL}${url}`);
       });
@@ -113,4 +118,25 @@ describe('BinanceRestClient', () => {
     expect(accounts[0]).toBeDefined();
     expect(typeof accounts[0]!.longAccount).toBe('number');
   });
+
+  it('sends pair to the COIN-M position ratio and symbol to the COIN-M account ratio', async () => {
+    const client = new BinanceRestClient(rateLimiter, {
+      spotBaseUrl: 'https://api.binance.com',
+      usdMBaseUrl: 'https://fapi.binance.com',
+      coinMBaseUrl: 'https://dapi.binance.com',
+      timeout: 10_000,
+    });
+    const coinMGet = (mockedAxios.create.mock.results[2]!.value as { get: jest.Mock }).get;
+
+    const window = { market: 'COIN-M' as const, period: '1h' as const, startTime: 1_000, endTime: 2_000, limit: 500 };
+    await client.fetchTopTraderPositions('BTCUSD', window);
+    await client.fetchTopTraderAccounts('BTCUSD', window);
+
+    expect(coinMGet).toHaveBeenNthCalledWith(1, '/futures/data/topLongShortPositionRatio', {
+      params: { pair: 'BTCUSD', period: '1h', limit: 500, startTime: 1_000, endTime: 2_000 },
+    });
+    expect(coinMGet).toHaveBeenNthCalledWith(2, '/futures/data/topLongShortAccountRatio', {
+      params: { symbol: 'BTCUSD', period: '1h', limit: 500, startTime: 1_000, endTime: 2_000 },
+    });
+  });
 });
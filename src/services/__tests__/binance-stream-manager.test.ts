@@ -0,0 +1,139 @@
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { BinanceStreamManager } from '../binance-stream-manager';
+
+interface ReceivedRequest {
+  socket: WebSocket;
+  method: string;
+  params: string[];
+}
+
+describe('BinanceStreamManager', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let requests: ReceivedRequest[];
+  let sockets: WebSocket[];
+
+  beforeEach(async () => {
+    requests = [];
+    sockets = [];
+    server = new WebSocketServer({ port: 0 });
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/stream`;
+    server.on('connection', (socket) => {
+      sockets.push(socket);
+      socket.on('message', (raw) => {
+        const request = JSON.parse(raw.toString());
+        requests.push({ socket, method: request.method, params: request.params });
+        socket.send(JSON.stringify({ result: null, id: request.id }));
+      });
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const waitFor = async (predicate: () => boolean): Promise<void> => {
+    for (let attempt = 0; attempt < 200 && !predicate(); attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  it('shards streams by the per-connection cap and routes messages by stream name', async () => {
+    const manager = new BinanceStreamManager({
+      usdMUrl: url,
+      maxStreamsPerConnection: 2,
+      messageIntervalMs: 0,
+    });
+
+    const trades: string[] = [];
+    const liquidations: string[] = [];
+    const tradeHandler = (data: { s: string }) => trades.push(data.s);
+    await manager.subscribe('USDT-M', ['btcusdt@aggTrade', 'ethusdt@aggTrade'], tradeHandler);
+    await manager.subscribe('USDT-M', ['btcusdt@forceOrder'], (data: { s: string }) => liquidations.push(data.s));
+
+    await waitFor(() => requests.length === 2);
+    expect(sockets).toHaveLength(2);
+    expect(requests.map((request) => request.params)).toEqual([
+      ['btcusdt@aggTrade', 'ethusdt@aggTrade'],
+      ['btcusdt@forceOrder'],
+    ]);
+
+    sockets[0]!.send(JSON.stringify({ stream: 'ethusdt@aggTrade', data: { s: 'ETHUSDT' } }));
+    sockets[1]!.send(JSON.stringify({ stream: 'btcusdt@forceOrder', data: { s: 'BTCUSDT' } }));
+    sockets[1]!.send(JSON.stringify({ stream: 'xrpusdt@aggTrade', data: { s: 'XRPUSDT' } }));
+    await waitFor(() => trades.length === 1 && liquidations.length === 1);
+    expect(trades).toEqual(['ETHUSDT']);
+    expect(liquidations).toEqual(['BTCUSDT']);
+
+    // 購読中の接続には既存接続のまま UNSUBSCRIBE を送る
+    manager.unsubscribe('USDT-M', ['ethusdt@aggTrade'], tradeHandler);
+    await waitFor(() => requests.length === 3);
+    expect(requests[2]).toMatchObject({ socket: sockets[0], method: 'UNSUBSCRIBE', params: ['ethusdt@aggTrade'] });
+    expect(manager.getStreams('USDT-M')).toEqual(['btcusdt@aggTrade', 'btcusdt@forceOrder']);
+
+    manager.close();
+  });
+
+  it('opens the replacement socket before closing the old one on rollover', async () => {
+    const manager = new BinanceStreamManager({ usdMUrl: url, messageIntervalMs: 0, rolloverAfterMs: 100 });
+    const disconnected: number[] = [];
+    const rolledOver: number[] = [];
+    manager.on('disconnected', (_market, connectionId) => disconnected.push(connectionId));
+    manager.on('rollover', (_market, connectionId) => rolledOver.push(connectionId));
+
+    const received: string[] = [];
+    await manager.subscribe('USDT-M', ['btcusdt@aggTrade'], (data: { s: string }) => received.push(data.s));
+
+    await waitFor(() => rolledOver.length === 1);
+    expect(requests.map((request) => request.socket)).toEqual([sockets[0], sockets[1]]);
+    await waitFor(() => sockets[0]!.readyState === WebSocket.CLOSED);
+    expect(sockets[0]!.readyState).toBe(WebSocket.CLOSED);
+
+    sockets[1]!.send(JSON.stringify({ stream: 'btcusdt@aggTrade', data: { s: 'BTCUSDT' } }));
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual(['BTCUSDT']);
+    expect(disconnected).toEqual([]);
+
+    manager.close();
+  });
+
+  it('reconnects and resubscribes when the server closes with a normal close code', async () => {
+    const manager = new BinanceStreamManager({ usdMUrl: url, messageIntervalMs: 0, reconnectDelayMs: 10 });
+    const disconnected: number[] = [];
+    manager.on('disconnected', (_market, _connectionId, code) => disconnected.push(code));
+
+    await manager.subscribe('USDT-M', ['btcusdt@markPrice@1s'], () => undefined);
+    await waitFor(() => requests.length === 1);
+
+    sockets[0]!.close(1000, 'maintenance');
+    await waitFor(() => requests.length === 2);
+    manager.close();
+
+    expect(disconnected).toEqual([1000]);
+    expect(sockets).toHaveLength(2);
+    expect(requests[1]).toMatchObject({ socket: sockets[1], method: 'SUBSCRIBE', params: ['btcusdt@markPrice@1s'] });
+  });
+
+  it('recycles a connection that stops delivering data', async () => {
+    const manager = new BinanceStreamManager({
+      usdMUrl: url,
+      messageIntervalMs: 0,
+      reconnectDelayMs: 10,
+      staleThresholdMs: { 'USDT-M': 150 },
+    });
+    const stale: number[] = [];
+    manager.on('stale', (_market, _connectionId, idleMs) => stale.push(idleMs));
+
+    await manager.subscribe('USDT-M', ['btcusdt@forceOrder'], () => undefined);
+
+    await waitFor(() => requests.length === 2);
+    manager.close();
+
+    expect(stale.length).toBeGreaterThanOrEqual(1);
+    expect(stale[0]).toBeGreaterThanOrEqual(150);
+    expect(sockets).toHaveLength(2);
+    expect(requests[1]).toMatchObject({ method: 'SUBSCRIBE', params: ['btcusdt@forceOrder'] });
+  });
+});
@@ -0,0 +1,186 @@
+import { DataCollector, TopTraderCycleSummary } from '../../services/data-collector';
+import { BinanceRestClient, TopTraderRequestOptions } from '../../services/binance-rest-client';
+import { SymbolManager } from '../../services/symbol-manager';
+import { IDatabaseManager, IRateLimiter } from '../../services/interfaces';
+import { MarketType, TopTraderAccountData, TopTraderPositionData } from '../../types';
+
+const FIVE_MINUTES_MS = 5 * 60 * 1000;
+
+describe('DataCollector', () => {
+  it('catches up top trader ratios per symbol from the last stored timestamp', async () => {
+    const now = Date.now();
+    const lastStored = Math.floor(now / FIVE_MINUTES_MS) * FIVE_MINUTES_MS - 3 * FIVE_MINUTES_MS;
+
+    const savedPositions: TopTraderPositionData[] = [];
+    const savedAccounts: TopTraderAccountData[] = [];
+    const db = {
+      initialize: jest.fn(async () => undefined),
+      runMigrations: jest.fn(async () => undefined),
+      getQuoteVolumesSince: jest.fn(async () => ({})),
+      getLastTopTraderTimestamp: jest.fn(async (symbol: string) => (symbol === 'BTCUSDT' ? lastStored : undefined)),
+      getLastGlobalLongShortAccountTimestamp: jest.fn(async () => undefined),
+      getLastTakerBuySellVolumeTimestamp: jest.fn(async () => undefined),
+      saveTopTraderPositions: jest.fn(async (data: TopTraderPositionData[]) => {
+        savedPositions.push(...data);
+      }),
+      saveTopTraderAccounts: jest.fn(async (data: TopTraderAccountData[]) => {
+        savedAccounts.push(...data);
+      }),
+      saveGlobalLongShortAccounts: jest.fn(async () => undefined),
+      saveTakerBuySellVolumes: jest.fn(async () => undefined),
+    } as unknown as IDatabaseManager;
+
+    const symbolManager = {
+      on: jest.fn(),
+      updateSymbols: jest.fn(async () => undefined),
+      scheduleDailyUpdate: jest.fn(),
+      getActiveSymbolsByMarket: jest.fn(async (market: MarketType) =>
+        market === 'USDT-M' ? [{ symbol: 'BTCUSDT', contractType: 'PERPETUAL' }] : []
+      ),
+    } as unknown as SymbolManager;
+
+    const buildRows = (symbol: string, options: TopTraderRequestOptions) => {
+      const rows: TopTraderPositionData[] = [];
+      // 要求区間の直前の期間も返されるケースを含める
+      for (let timestamp = lastStored; timestamp <= options.endTime!; timestamp += FIVE_MINUTES_MS) {
+        rows.push({
+          symbol,
+          marketType: 'USDT-M',
+          period: '5m',
+          timestamp,
+          longShortRatio: 1.5,
+          longAccount: 0.6,
+          shortAccount: 0.4,
+          longPosition: 0.6,
+          shortPosition: 0.4,
+        });
+      }
+      return rows;
+    };
+    const fetchTopTraderPositions = jest.fn(async (symbol: string, options: TopTraderRequestOptions) =>
+      buildRows(symbol, options)
+    );
+    const fetchTopTraderAccounts = jest.fn(async (symbol: string, options: TopTraderRequestOptions) =>
+      buildRows(symbol, options)
+    );
+    const fetchGlobalLongShortAccounts = jest.fn(async () => []);
+    const fetchTakerBuySellVolumes = jest.fn(async () => []);
+    const restClient = {
+      fetchTopTraderPositions,
+      fetchTopTraderAccounts,
+      fetchGlobalLongShortAccounts,
+      fetchTakerBuySellVolumes,
+    } as unknown as BinanceRestClient;
+
+    const collector = new DataCollector(db, symbolManager, restClient, {
+      topTraderIntervalMs: 60 * 60 * 1000,
+      topTraderBackfillMs: 0,
+    });
+    const stored = new Promise((resolve) => collector.once('topTraderStored', resolve));
+
+    await collector.start();
+    await stored;
+    await collector.stop();
+
+    expect(db.getLastTopTraderTimestamp).toHaveBeenCalledWith('BTCUSDT', 'USDT-M', '5m');
+    expect(fetchTopTraderPositions).toHaveBeenCalledTimes(1);
+    expect(fetchTopTraderPositions).toHaveBeenCalledWith(
+      'BTCUSDT',
+      expect.objectContaining({ market: 'USDT-M', period: '5m', startTime: lastStored + FIVE_MINUTES_MS, limit: 500 })
+    );
+
+    const expected = [lastStored + FIVE_MINUTES_MS, lastStored + 2 * FIVE_MINUTES_MS, lastStored + 3 * FIVE_MINUTES_MS];
+    expect(savedPositions.map((entry) => entry.timestamp)).toEqual(expected);
+    expect(savedAccounts.map((entry) => entry.timestamp)).toEqual(expected);
+
+    // 未保存の全アカウント比率は直近 12 期間から取得する
+    expect(fetchGlobalLongShortAccounts).toHaveBeenCalledWith(
+      'BTCUSDT',
+      expect.objectContaining({ startTime: expect.any(Number), limit: 500 })
+    );
+    const globalWindow = (fetchGlobalLongShortAccounts.mock.calls[0] as unknown[])[1] as { startTime: number };
+    expect(globalWindow.startTime).toBeLessThanOrEqual(Date.now() - 12 * FIVE_MINUTES_MS);
+    expect(globalWindow.startTime).toBeGreaterThanOrEqual(now - 12 * FIVE_MINUTES_MS);
+  });
+
+  it('fans out by volume within the shared budget and carries skipped symbols to the next cycle', async () => {
+    const db = {
+      initialize: jest.fn(async () => undefined),
+      runMigrations: jest.fn(async () => undefined),
+      getQuoteVolumesSince: jest.fn(async () => ({ ETHUSDT: 10, BTCUSDT: 100 })),
+      getLastTopTraderTimestamp: jest.fn(async () => Date.now() - 2 * FIVE_MINUTES_MS),
+      getLastGlobalLongShortAccountTimestamp: jest.fn(async () => Date.now() - FIVE_MINUTES_MS),
+      getLastTakerBuySellVolumeTimestamp: jest.fn(async () => Date.now() - FIVE_MINUTES_MS),
+      saveTopTraderPositions: jest.fn(async () => undefined),
+      saveTopTraderAccounts: jest.fn(async () => undefined),
+    } as unknown as IDatabaseManager;
+
+    const symbolManager = {
+      on: jest.fn(),
+      updateSymbols: jest.fn(async () => undefined),
+      scheduleDailyUpdate: jest.fn(),
+      getActiveSymbolsByMarket: jest.fn(async () => [
+        { symbol: 'ETHUSDT', contractType: 'PERPETUAL' },
+        { symbol: 'SOLUSDT', contractType: 'PERPETUAL' },
+        { symbol: 'BTCUSDT', contractType: 'PERPETUAL' },
+      ]),
+    } as unknown as SymbolManager;
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetchTopTraderPositions = jest.fn(async () => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      inFlight -= 1;
+      return [];
+    });
+    const restClient = {
+      fetchTopTraderPositions,
+      fetchTopTraderAccounts: jest.fn(async () => []),
+      fetchGlobalLongShortAccounts: jest.fn(async () => []),
+      fetchTakerBuySellVolumes: jest.fn(async () => []),
+    } as unknown as BinanceRestClient;
+
+    // /futures/data 共有枠が 5 分 600 リクエスト (毎秒 2) のため同時実行数は 2
+    const rateLimiter = {
+      getUsageSnapshot: () => ({
+        endpoints: [
+          { key: 'futuresData', availableTokens: 600, capacity: 600, refillIntervalMs: 300_000, queueLength: 0 },
+        ],
+      }),
+    } as unknown as IRateLimiter;
+
+    const collector = new DataCollector(db, symbolManager, restClient, {
+      topTraderIntervalMs: 50,
+      rateLimiter,
+    });
+    const completed = new Promise<TopTraderCycleSummary>((resolve) =>
+      collector.once('topTraderCycleCompleted', resolve)
+    );
+
+    await collector.start();
+    const summary = await completed;
+    // 間隔を超過したサイクルの直後に次のサイクルが始まり、丸ごと見送られない
+    const next = await new Promise<TopTraderCycleSummary>((resolve) =>
+      collector.once('topTraderCycleCompleted', resolve)
+    );
+    await collector.stop();
+
+    expect(next.symbols).toBe(3);
+    expect(maxInFlight).toBe(2);
+    // 1 サイクル目は出来高順、2 サイクル目は前回着手できなかった SOLUSDT から始める
+    expect((fetchTopTraderPositions.mock.calls as unknown[][]).slice(0, 3).map((call) => call[0])).toEqual([
+      'BTCUSDT',
+      'ETHUSDT',
+      'SOLUSDT',
+    ]);
+    expect(summary).toMatchObject({
+      symbols: 3,
+      completed: 2,
+      failed: 0,
+      skipped: 1,
+      concurrency: { 'USDT-M': 2 },
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { DatabaseBackupScheduler } from '../../services/database-backup-scheduler';
+import { IDatabaseManager } from '../../services/interfaces';
+
+const createDatabase = (filePath: string, rows: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(filePath, (openError) => {
+      if (openError) {
+        reject(openError);
+        return;
+      }
+      const values = Array.from({ length: rows }, (_, index) => `(${index + 1})`).join(', ');
+      db.exec(`CREATE TABLE agg_trades (trade_id INTEGER PRIMARY KEY); INSERT INTO agg_trades VALUES ${values};`, (error) => {
+        db.close(() => (error ? reject(error) : resolve()));
+      });
+    });
+  });
+
+describe('DatabaseBackupScheduler', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'binance-backup-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('snapshots agg trade shards and skips unchanged shards on the next run', async () => {
+    const sourcePath = path.join(directory, 'binance.db');
+    const shardDirectory = path.join(directory, 'agg-trades');
+    const targetDirectory = path.join(directory, 'backups');
+    fs.mkdirSync(shardDirectory);
+    await createDatabase(sourcePath, 1);
+    await createDatabase(path.join(shardDirectory, 'btc.sqlite'), 3);
+    await createDatabase(path.join(shardDirectory, 'eth.sqlite'), 2);
+
+    // 保持期間を過ぎた世代は削除され、最新世代は残る
+    const shardBackupDirectory = path.join(targetDirectory, 'agg-trades');
+    fs.mkdirSync(shardBackupDirectory, { recursive: true });
+    fs.writeFileSync(path.join(shardBackupDirectory, 'btc_20200101T000000Z.sqlite'), '');
+
+    const scheduler = new DatabaseBackupScheduler({
+      sourcePath,
+      targetDirectory,
+      intervalMs: 60 * 60 * 1000,
+      databaseManager: {} as IDatabaseManager,
+      dataRetentionMs: null,
+      aggTradeDirectory: shardDirectory,
+    });
+
+    const completed: string[] = [];
+    const skipped: string[] = [];
+    scheduler.on('backupCompleted', (manifest) => completed.push(path.basename(manifest.sourcePath)));
+    scheduler.on('backupSkipped', (context) => skipped.push(path.basename(context.sourcePath)));
+
+    const waitFor = async (predicate: () => boolean): Promise<void> => {
+      for (let attempt = 0; attempt < 200 && !predicate(); attempt += 1) {
+        await new Promise((resolve) => setTimeout(resolve, 25));
+      }
+    };
+
+    scheduler.start();
+    await waitFor(() => completed.length === 3);
+    scheduler.stop();
+    // 最後のシャードの保持ポリシー適用まで待ってから次の実行を開始する
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(completed).toEqual(['binance.db', 'btc.sqlite', 'eth.sqlite']);
+    const shardBackups = fs.readdirSync(shardBackupDirectory).filter((name) => name.endsWith('.sqlite'));
+    expect(shardBackups).toHaveLength(2);
+    expect(shardBackups.some((name) => name === 'btc_20200101T000000Z.sqlite')).toBe(false);
+
+    scheduler.start();
+    await waitFor(() => skipped.length === 2);
+    scheduler.stop();
+
+    expect(skipped).toEqual(['btc.sqlite', 'eth.sqlite']);
+    expect(completed).toHaveLength(4);
+  });
+
+  it('keeps pruning expired rows when backups are disabled', async () => {
+    const targetDirectory = path.join(directory, 'backups');
+    const pruneTableBefore = jest.fn(async () => ({ table: 'trade_data', cutoff: 0, deletedRows: 0 }));
+    const databaseManager = { pruneTableBefore } as unknown as IDatabaseManager;
+
+    const scheduler = new DatabaseBackupScheduler({
+      sourcePath: path.join(directory, 'missing.db'),
+      targetDirectory,
+      intervalMs: 60 * 60 * 1000,
+      databaseManager,
+      backupEnabled: false,
+      dataRetentionMs: null,
+      tableRetentionMs: { trade_data: 60_000 },
+    });
+    const failed = jest.fn();
+    scheduler.on('backupFailed', failed);
+
+    scheduler.start();
+    for (let attempt = 0; attempt < 200 && pruneTableBefore.mock.calls.length === 0; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    scheduler.stop();
+
+    expect(pruneTableBefore).toHaveBeenCalledWith('trade_data', expect.any(Number), {});
+    expect(failed).not.toHaveBeenCalled();
+    expect(fs.existsSync(targetDirectory)).toBe(false);
+  });
+
+  it('still prunes expired rows when the backup snapshot fails', async () => {
+    const pruneTableBefore = jest.fn(async () => ({ table: 'trade_data', cutoff: 0, deletedRows: 0 }));
+    const databaseManager = { pruneTableBefore } as unknown as IDatabaseManager;
+
+    const scheduler = new DatabaseBackupScheduler({
+      // ソース DB が存在しないためスナップショットは毎回失敗する
+      sourcePath: path.join(directory, 'missing.db'),
+      targetDirectory: path.join(directory, 'backups'),
+      intervalMs: 60 * 60 * 1000,
+      databaseManager,
+      dataRetentionMs: null,
+      tableRetentionMs: { trade_data: 60_000 },
+    });
+    const failed = jest.fn();
+    scheduler.on('backupFailed', failed);
+
+    scheduler.start();
+    for (let attempt = 0; attempt < 200 && pruneTableBefore.mock.calls.length === 0; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    scheduler.stop();
+
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(pruneTableBefore).toHaveBeenCalledWith('trade_data', expect.any(Number), {});
+  });
+});
@@ -5,11 +5,13 @@ import sqlite3 from 'sqlite3';
 import { DatabaseManager } from '../../services/database';
 import {
   AggTrade,
+  LiquidationAlertPayload,
   LiquidationEvent,
   OHLCVData,
   SymbolMetadata,
   TopTraderAccountData,
   TopTraderPositionData,
+  TradeData,
 } from '../../types';
 
 const createTempPath = (): string => {
@@ -80,6 +82,7 @@ describe('DatabaseManager', () => {
   it('should store OHLCV data per interval and report latest timestamps', async () => {
     const base: OHLCVData = {
       symbol: 'BTCUSDT',
+      marketType: 'SPOT',
       interval: '30m',
       openTime: 1_700_000_000_000,
       closeTime: 1_700_000_000_000 + 1_800_000,
@@ -93,15 +96,96 @@ describe('DatabaseManager', () => {
     };
 
     await manager.saveOHLCVBatch([base, { ...base, openTime: base.openTime + 1_800_000, closeTime: base.closeTime + 1_800_000 }]);
-    const timestamps = await manager.getLastOHLCVTimestamps('30m');
+    const timestamps = await manager.getLastOHLCVTimestamps('30m', 'SPOT');
     expect(timestamps['BTCUSDT']).toBe(base.openTime + 1_800_000);
   });
 
+  it('should keep OHLCV rows for the same symbol separate per market', async () => {
+    const spot: OHLCVData = {
+      symbol: 'BTCUSDT',
+      marketType: 'SPOT',
+      interval: '1m',
+      openTime: 1_700_000_000_000,
+      closeTime: 1_700_000_059_999,
+      open: 10,
+      high: 12,
+      low: 9,
+      close: 11,
+      volume: 120,
+      quoteVolume: 150,
+      trades: 500,
+    };
+    const perp: OHLCVData = { ...spot, marketType: 'USDT-M', openTime: spot.openTime + 60_000 };
+
+    await manager.saveOHLCVBatch([spot, { ...perp, openTime: spot.openTime }, perp]);
+
+    const spotTimestamps = await manager.getLastOHLCVTimestamps('1m', 'SPOT');
+    const perpTimestamps = await manager.getLastOHLCVTimestamps('1m', 'USDT-M');
+    expect(spotTimestamps['BTCUSDT']).toBe(spot.openTime);
+    expect(perpTimestamps['BTCUSDT']).toBe(perp.openTime);
+    expect(await manager.getQuoteVolumesSince('1m', 'USDT-M', spot.openTime)).toEqual({ BTCUSDT: 300 });
+    expect(await manager.getQuoteVolumesSince('1m', 'USDT-M', perp.openTime)).toEqual({ BTCUSDT: 150 });
+
+    await manager.pruneDataBefore('1m', perp.openTime + 1, 'USDT-M');
+    expect((await manager.getLastOHLCVTimestamps('1m', 'USDT-M'))['BTCUSDT']).toBeUndefined();
+    expect((await manager.getLastOHLCVTimestamps('1m', 'SPOT'))['BTCUSDT']).toBe(spot.openTime);
+  });
+
+  it('should backfill market_type on legacy OHLCV rows where the symbol is unambiguous', async () => {
+    const legacyPath = createTempPath();
+    await new Promise<void>((resolve, reject) => {
+      const db = new sqlite3.Database(legacyPath, (error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        db.exec(
+          `CREATE TABLE schema_migrations (id INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at DATETIME);
+           INSERT INTO schema_migrations (id, name) VALUES (1, 'create_base_tables');
+           CREATE TABLE symbols (
+             symbol TEXT NOT NULL, base_asset TEXT NOT NULL, quote_asset TEXT NOT NULL,
+             market_type TEXT NOT NULL, status TEXT NOT NULL, onboard_date INTEGER NOT NULL,
+             contract_type TEXT, delivery_date INTEGER, tick_size REAL, step_size REAL,
+             min_notional REAL, updated_at INTEGER NOT NULL, PRIMARY KEY (symbol, market_type)
+           );
+           INSERT INTO symbols VALUES ('ETHBTC', 'ETH', 'BTC', 'SPOT', 'ACTIVE', 0, NULL, NULL, NULL, NULL, NULL, 0);
+           INSERT INTO symbols VALUES ('BTCUSDT', 'BTC', 'USDT', 'SPOT', 'ACTIVE', 0, NULL, NULL, NULL, NULL, NULL, 0);
+           INSERT INTO symbols VALUES ('BTCUSDT', 'BTC', 'USDT', 'USDT-M', 'ACTIVE', 0, NULL, NULL, NULL, NULL, NULL, 0);
+           CREATE TABLE ohlcv_1m (symbol TEXT, open_time INTEGER, close_time INTEGER, open REAL, high REAL, low REAL,
+             close REAL, volume REAL, quote_volume REAL, trades INTEGER, created_at DATETIME, PRIMARY KEY (symbol, open_time));
+           CREATE TABLE ohlcv_30m AS SELECT * FROM ohlcv_1m;
+           CREATE TABLE ohlcv_1d AS SELECT * FROM ohlcv_1m;
+           INSERT INTO ohlcv_1m VALUES ('ETHBTC', 1000, 1999, 1, 1, 1, 1, 1, 1, 1, NULL);
+           INSERT INTO ohlcv_1m VALUES ('BTCUSDT', 1000, 1999, 1, 1, 1, 1, 1, 1, 1, NULL);`,
+          (err) => {
+            db.close();
+            if (err) {
+              reject(err);
+            } else {
+              resolve();
+            }
+          }
+        );
+      });
+    });
+
+    const legacy = new DatabaseManager(legacyPath);
+    await legacy.initialize();
+    await legacy.runMigrations();
+
+    expect(await legacy.getLastOHLCVTimestamps('1m', 'SPOT')).toEqual({ ETHBTC: 1000 });
+    expect(await legacy.getLastOHLCVTimestamps('1m', 'USDT-M')).toEqual({});
+
+    fs.rmSync(path.dirname(legacyPath), { recursive: true, force: true });
+  });
+
   it('should persist top trader data and prune historical entries', async () => {
     const now = Date.now();
     const positions: TopTraderPositionData[] = [
       {
         symbol: 'BTCUSDT',
+        marketType: 'USDT-M',
+        period: '5m',
         timestamp: now - 60_000,
         longShortRatio: 1.5,
         longAccount: 55,
@@ -110,7 +194,9 @@ describe('DatabaseManager', () => {
         shortPosition: 400,
       },
       {
-        symbol: 'ETHUSDT',
+        symbol: 'BTCUSD',
+        marketType: 'COIN-M',
+        period: '1h',
         timestamp: now - 120_000,
         longShortRatio: 1.2,
         longAccount: 52,
@@ -120,8 +206,10 @@ describe('DatabaseManager', () => {
       },
     ];
 
-    const accounts: TopTraderAccountData[] = positions.map(({ symbol, timestamp, longShortRatio, longAccount, shortAccount }) => ({
+    const accounts: TopTraderAccountData[] = positions.map(({ symbol, marketType, period, timestamp, longShortRatio, longAccount, shortAccount }) => ({
       symbol,
+      marketType,
+      period,
       timestamp,
       longShortRatio,
       longAccount,
@@ -130,16 +218,30 @@ describe('DatabaseManager', () => {
 
     await manager.saveTopTraderPositions(positions);
     await manager.saveTopTraderAccounts(accounts);
+    await manager.saveGlobalLongShortAccounts(accounts);
+    await manager.saveTakerBuySellVolumes(
+      positions.map(({ symbol, timestamp }) => ({
+        symbol,
+        timestamp,
+        buySellRatio: 1.1,
+        buyVolume: 110,
+        sellVolume: 100,
+      }))
+    );
 
     const firstPosition = positions[0]!;
     const secondPosition = positions[1]!;
 
-    const last = await manager.getLastTopTraderTimestamp();
-    expect(last).toBe(firstPosition.timestamp);
+    expect(await manager.getLastTopTraderTimestamp('BTCUSDT', 'USDT-M', '5m')).toBe(firstPosition.timestamp);
+    expect(await manager.getLastTopTraderTimestamp('BTCUSD', 'COIN-M', '1h')).toBe(secondPosition.timestamp);
+    expect(await manager.getLastTopTraderTimestamp('BTCUSDT', 'USDT-M', '1h')).toBeUndefined();
+    expect(await manager.getLastGlobalLongShortAccountTimestamp('BTCUSDT')).toBe(firstPosition.timestamp);
+    expect(await manager.getLastTakerBuySellVolumeTimestamp('BTCUSD')).toBe(secondPosition.timestamp);
 
     await manager.pruneTopTraderDataBefore(now - 90_000);
-    const latest = await manager.getLastTopTraderTimestamp();
-    expect(latest).toBeGreaterThan(secondPosition.timestamp);
+    expect(await manager.getLastTopTraderTimestamp('BTCUSDT', 'USDT-M', '5m')).toBe(firstPosition.timestamp);
+    expect(await manager.getLastTopTraderTimestamp('BTCUSD', 'COIN-M', '1h')).toBeUndefined();
+    expect(await manager.getLastTakerBuySellVolumeTimestamp('BTCUSD')).toBeUndefined();
   });
 
   it('should persist agg trades and expose checkpoints', async () => {
@@ -239,4 +341,166 @@ describe('DatabaseManager', () => {
       });
     });
   });
+
+  it('should queue liquidation alerts without filling the CVD columns', async () => {
+    const payload: LiquidationAlertPayload = {
+      symbol: 'BTCUSDT',
+      marketType: 'USDT-M',
+      interval: '1m',
+      timestamp: Date.now(),
+      side: 'long',
+      notional: 500_000,
+      zScore: 4.2,
+      threshold: 3,
+      longNotional: 500_000,
+      shortNotional: 20_000,
+    };
+
+    const id = await manager.enqueueLiquidationAlert(payload);
+    const [pending] = await manager.getPendingAlerts(10);
+    expect(pending).toMatchObject({ id, alertType: 'LIQUIDATION_SPIKE', payload });
+
+    const row = await new Promise<Record<string, number | null>>((resolve, reject) => {
+      const db = new sqlite3.Database(dbPath, (error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        db.get(
+          'SELECT trigger_z_score, z_score, delta, delta_z_score, cumulative_value FROM alert_queue WHERE id = ?',
+          [id],
+          (err, result: Record<string, number | null>) => {
+            db.close();
+            if (err) {
+              reject(err);
+              return;
+            }
+            resolve(result);
+          }
+        );
+      });
+    });
+    expect(row).toEqual({
+      trigger_z_score: null,
+      z_score: null,
+      delta: null,
+      delta_z_score: null,
+      cumulative_value: null,
+    });
+  });
+
+  it('should prune trade data in batches without passing the CVD aggregator checkpoint', async () => {
+    const now = Date.now();
+    const trades: TradeData[] = Array.from({ length: 5 }, (_, index) => ({
+      symbol: 'BTCUSDT',
+      marketType: 'SPOT',
+      streamType: 'aggTrade',
+      tradeId: String(index + 1),
+      timestamp: now - 10_000 + index,
+      price: 30_000,
+      amount: 0.1,
+      direction: 'buy',
+    }));
+    await manager.saveTradeData(trades);
+
+    // 集計ワーカーが進捗を記録するまでは trade_data を削除しない
+    const untouched = await manager.pruneTableBefore('trade_data', now, { batchSize: 2 });
+    expect(untouched.deletedRows).toBe(0);
+
+    await manager.saveProcessingState('cvd_aggregator', 'fast', { lastRowId: 4, lastTimestamp: now });
+    await manager.saveProcessingState('cvd_aggregator', 'slow', { lastRowId: 3, lastTimestamp: now });
+
+    // 設定済みの集計ワーカーのうち進捗を未記録のものがあれば削除しない
+    const pending = await manager.pruneTableBefore('trade_data', now, {
+      batchSize: 2,
+      aggregatorIds: ['fast', 'slow', 'new'],
+    });
+    expect(pending.deletedRows).toBe(0);
+
+    const result = await manager.pruneTableBefore('trade_data', now, { batchSize: 2, aggregatorIds: ['fast', 'slow'] });
+    expect(result).toEqual({ table: 'trade_data', cutoff: now, deletedRows: 3, batches: 2 });
+
+    const remaining = await manager.getTradeDataSinceRowId(
+      [{ symbol: 'BTCUSDT', marketType: 'SPOT', streamType: 'aggTrade' }],
+      0,
+      10
+    );
+    expect(remaining.map((row) => row.tradeId)).toEqual(['4', '5']);
+  });
+
+  it('should report liquidation coverage gaps overlapping a range', async () => {
+    await manager.recordLiquidationCoverageGap({
+      marketType: 'USDT-M',
+      windowStart: 1_000,
+      windowEnd: 5_000,
+      status: 'incomplete',
+      reason: 'process_restart',
+    });
+    await manager.recordLiquidationCoverageGap({
+      marketType: 'COIN-M',
+      windowStart: 2_000,
+      windowEnd: 3_000,
+      status: 'incomplete',
+      reason: 'ws_disconnected',
+      symbols: ['BTCUSD_PERP'],
+    });
+    expect(await manager.getLiquidationCoverageGaps('COIN-M', 0, 10_000)).toEqual([
+      expect.objectContaining({ windowStart: 2_000, symbols: ['BTCUSD_PERP'] }),
+    ]);
+
+    const overlapping = await manager.getLiquidationCoverageGaps('USDT-M', 4_000, 10_000);
+    expect(overlapping).toHaveLength(1);
+    expect(overlapping[0]).toMatchObject({ windowStart: 1_000, windowEnd: 5_000, reason: 'process_restart' });
+    expect(overlapping[0]!.symbols).toBeUndefined();
+
+    expect(await manager.getLiquidationCoverageGaps('USDT-M', 5_000, 10_000)).toEqual([]);
+
+    const coverageId = overlapping[0]!.id!;
+    await manager.saveLiquidationCoverageChecks([
+      {
+        coverageId,
+        symbol: 'BTCUSDT',
+        marketType: 'USDT-M',
+        klineCount: 2,
+        takerBuyVolume: 1.5,
+        takerSellVolume: 2.5,
+        complete: false,
+      },
+    ]);
+    await manager.updateLiquidationCoverageCrossCheck(coverageId, 'partial');
+    expect(await manager.getLiquidationCoverageGaps('USDT-M', 0, 10_000)).toEqual([
+      expect.objectContaining({ id: coverageId, crossCheck: 'partial' }),
+    ]);
+    expect(await manager.getLiquidationCoverageChecks(coverageId)).toEqual([
+      {
+        coverageId,
+        symbol: 'BTCUSDT',
+        marketType: 'USDT-M',
+        klineCount: 2,
+        takerBuyVolume: 1.5,
+        takerSellVolume: 2.5,
+        complete: false,
+      },
+    ]);
+  });
+
+  it('should persist order book snapshots and prune them by timestamp', async () => {
+    const snapshot = {
+      symbol: 'BTCUSDT',
+      marketType: 'USDT-M' as const,
+      timestamp: 1_000,
+      lastUpdateId: 42,
+      bids: [[50_000, 1.5], [49_990, 2]] as Array<[number, number]>,
+      asks: [[50_010, 0.5]] as Array<[number, number]>,
+    };
+    await manager.saveOrderBookSnapshots([snapshot, { ...snapshot, timestamp: 2_000, lastUpdateId: 43 }]);
+    await manager.saveOrderBookSnapshots([snapshot]);
+
+    expect(await manager.getOrderBookSnapshots('BTCUSDT', 'USDT-M', 0, 1_500)).toEqual([snapshot]);
+
+    const result = await manager.pruneTableBefore('order_book_snapshots', 1_500);
+    expect(result.deletedRows).toBe(1);
+    expect(await manager.getOrderBookSnapshots('BTCUSDT', 'USDT-M', 0, 5_000)).toHaveLength(1);
+  });
 });
@@ -0,0 +1,138 @@
+import { EventEmitter } from 'events';
+import { DepthDataCollector, DepthResyncResult } from '../depth-data-collector';
+import { BinanceRestClient } from '../binance-rest-client';
+import { BinanceStreamHandler, BinanceStreamManager } from '../binance-stream-manager';
+import { IDatabaseManager } from '../interfaces';
+import { DepthSnapshot, OrderBookSnapshot } from '../../types';
+
+class FakeStreamManager extends EventEmitter {
+  handler: BinanceStreamHandler | null = null;
+
+  async subscribe(_market: string, _streams: string[], handler: BinanceStreamHandler): Promise<void> {
+    this.handler = handler;
+  }
+
+  unsubscribe(): void {
+    this.handler = null;
+  }
+
+  push(firstUpdateId: number, finalUpdateId: number, previousFinalUpdateId: number, bids: string[][] = []): void {
+    this.handler?.(
+      { e: 'depthUpdate', E: Date.now(), s: 'BTCUSDT', U: firstUpdateId, u: finalUpdateId, pu: previousFinalUpdateId, b: bids, a: [] },
+      { marketType: 'USDT-M', stream: 'btcusdt@depth@100ms', connectionId: 1 }
+    );
+  }
+}
+
+const buildSnapshot = (lastUpdateId: number, bidPrice: number): DepthSnapshot => ({
+  symbol: 'BTCUSDT',
+  marketType: 'USDT-M',
+  lastUpdateId,
+  bids: [[bidPrice, 1]],
+  asks: [[bidPrice + 10, 1]],
+});
+
+describe('DepthDataCollector', () => {
+  it('applies buffered diffs after the snapshot and resnapshots when pu breaks', async () => {
+    const saved: OrderBookSnapshot[][] = [];
+    const database = {
+      initialize: jest.fn(async () => undefined),
+      runMigrations: jest.fn(async () => undefined),
+      saveOrderBookSnapshots: jest.fn(async (snapshots: OrderBookSnapshot[]) => {
+        saved.push(snapshots);
+      }),
+    } as unknown as IDatabaseManager;
+
+    const streamManager = new FakeStreamManager();
+    const snapshots = [buildSnapshot(100, 50_000), buildSnapshot(300, 51_000)];
+    const fetchDepthSnapshot = jest.fn(async () => {
+      // スナップショット取得中に届いた差分はバッファされる
+      streamManager.push(95, 105, 94, [['50001', '2']]);
+      return snapshots.shift()!;
+    });
+    const restClient = { fetchDepthSnapshot } as unknown as BinanceRestClient;
+
+    const collector = new DepthDataCollector(database, {
+      spotWsUrl: 'wss://example.invalid/spot',
+      usdMWsUrl: 'wss://example.invalid/usdm',
+      coinMWsUrl: 'wss://example.invalid/coinm',
+      subscriptions: [{ symbol: 'BTCUSDT', marketType: 'USDT-M' }],
+      restClient,
+      streamManager: streamManager as unknown as BinanceStreamManager,
+      snapshotLevels: 5,
+      snapshotIntervalMs: 20,
+      resyncDelayMs: 0,
+    });
+    const resynced: DepthResyncResult[] = [];
+    const desyncs: number[] = [];
+    collector.on('resynced', (result) => resynced.push(result));
+    collector.on('desync', (desync) => desyncs.push(desync.finalUpdateId));
+
+    const initialSync = new Promise((resolve) => collector.once('resynced', resolve));
+    await collector.start();
+    await initialSync;
+
+    expect(fetchDepthSnapshot).toHaveBeenCalledWith('BTCUSDT', 'USDT-M', 1_000);
+    expect(collector.getOrderBook('BTCUSDT', 'USDT-M')!.getTopLevels(1).bids).toEqual([[50_001, 2]]);
+
+    streamManager.push(106, 110, 105);
+    const resync = new Promise((resolve) => collector.once('resynced', resolve));
+    streamManager.push(120, 125, 115);
+    await resync;
+
+    expect(desyncs).toEqual([125]);
+    expect(resynced.map((result) => result.reason)).toEqual(['initial', 'gap']);
+    expect(fetchDepthSnapshot).toHaveBeenCalledTimes(2);
+
+    streamManager.push(290, 305, 289);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await collector.stop();
+
+    const latest = saved[saved.length - 1]![0]!;
+    expect(latest).toMatchObject({ symbol: 'BTCUSDT', marketType: 'USDT-M', lastUpdateId: 305 });
+    expect(latest.bids[0]).toEqual([51_000, 1]);
+  });
+
+  it('staggers the initial snapshot requests across books', async () => {
+    const database = {
+      initialize: jest.fn(async () => undefined),
+      runMigrations: jest.fn(async () => undefined),
+      saveOrderBookSnapshots: jest.fn(async () => undefined),
+    } as unknown as IDatabaseManager;
+    const requestedAt: number[] = [];
+    const fetchDepthSnapshot = jest.fn(async (symbol: string) => {
+      requestedAt.push(Date.now());
+      return { ...buildSnapshot(100, 50_000), symbol };
+    });
+
+    const collector = new DepthDataCollector(database, {
+      spotWsUrl: 'wss://example.invalid/spot',
+      usdMWsUrl: 'wss://example.invalid/usdm',
+      coinMWsUrl: 'wss://example.invalid/coinm',
+      subscriptions: ['BTCUSDT', 'ETHUSDT', 'SOLUSDT'].map((symbol) => ({ symbol, marketType: 'USDT-M' as const })),
+      restClient: { fetchDepthSnapshot } as unknown as BinanceRestClient,
+      streamManager: new FakeStreamManager() as unknown as BinanceStreamManager,
+      snapshotIntervalMs: 60_000,
+      resyncStaggerMs: 40,
+    });
+    const resynced: string[] = [];
+    const allSynced = new Promise<void>((resolve) =>
+      collector.on('resynced', (result) => {
+        resynced.push(result.symbol);
+        if (resynced.length === 3) {
+          resolve();
+        }
+      })
+    );
+
+    await collector.start();
+    // 起動直後は 1 板分しか取得していない
+    expect(fetchDepthSnapshot).toHaveBeenCalledTimes(1);
+    await allSynced;
+    await collector.stop();
+
+    expect(resynced).toEqual(['BTCUSDT', 'ETHUSDT', 'SOLUSDT']);
+    expect(requestedAt[1]! - requestedAt[0]!).toBeGreaterThanOrEqual(35);
+    expect(requestedAt[2]! - requestedAt[1]!).toBeGreaterThanOrEqual(35);
+  });
+});
@@ -0,0 +1,110 @@
+import { EventEmitter } from 'events';
+import { FundingBackfillSummary, FundingDataCollector } from '../funding-data-collector';
+import { BinanceRestClient } from '../binance-rest-client';
+import { BinanceStreamHandler, BinanceStreamManager } from '../binance-stream-manager';
+import { IDatabaseManager } from '../interfaces';
+import { FundingRate, MarkPriceSample } from '../../types';
+
+class FakeStreamManager extends EventEmitter {
+  handler: BinanceStreamHandler | null = null;
+  subscriptions: Array<{ market: string; streams: string[] }> = [];
+
+  async subscribe(market: string, streams: string[], handler: BinanceStreamHandler): Promise<void> {
+    this.subscriptions.push({ market, streams });
+    this.handler = handler;
+  }
+
+  unsubscribe(): void {
+    this.handler = null;
+  }
+
+  push(eventTime: number, markPrice: string): void {
+    this.handler?.(
+      {
+        e: 'markPriceUpdate',
+        E: eventTime,
+        s: 'BTCUSDT',
+        p: markPrice,
+        i: '50000.0',
+        P: '50010.0',
+        r: '0.0001',
+        T: 28_800_000,
+      },
+      { marketType: 'USDT-M', stream: 'btcusdt@markPrice@1s', connectionId: 1 }
+    );
+  }
+}
+
+const buildRate = (fundingTime: number): FundingRate => ({
+  symbol: 'BTCUSDT',
+  marketType: 'USDT-M',
+  fundingTime,
+  fundingRate: 0.0001,
+});
+
+describe('FundingDataCollector', () => {
+  it('keeps the last mark price per sample interval and pages funding history from the last stored time', async () => {
+    const savedMarkPrices: MarkPriceSample[] = [];
+    const savedRates: FundingRate[] = [];
+    const database = {
+      initialize: jest.fn(async () => undefined),
+      runMigrations: jest.fn(async () => undefined),
+      saveMarkPrices: jest.fn(async (samples: MarkPriceSample[]) => {
+        savedMarkPrices.push(...samples);
+      }),
+      saveFundingRates: jest.fn(async (rates: FundingRate[]) => {
+        savedRates.push(...rates);
+      }),
+      getLastFundingTime: jest.fn(async () => 1_000),
+    } as unknown as IDatabaseManager;
+
+    const pages = [[buildRate(2_000), buildRate(3_000)], [buildRate(4_000)]];
+    const fetchFundingRates = jest.fn(async () => pages.shift() ?? []);
+    const restClient = { fetchFundingRates } as unknown as BinanceRestClient;
+    const streamManager = new FakeStreamManager();
+
+    const collector = new FundingDataCollector(database, {
+      usdMWsUrl: 'wss://example.invalid/usdm',
+      coinMWsUrl: 'wss://example.invalid/coinm',
+      streams: [{ marketType: 'USDT-M', symbols: ['btcusdt'] }],
+      restClient,
+      streamManager: streamManager as unknown as BinanceStreamManager,
+      sampleIntervalMs: 1_000,
+      restLimit: 2,
+      retryDelayMs: 0,
+    });
+
+    const backfill = new Promise<FundingBackfillSummary>((resolve) =>
+      collector.once('fundingBackfillCompleted', resolve)
+    );
+    await collector.start();
+
+    expect(streamManager.subscriptions).toEqual([{ market: 'USDT-M', streams: ['btcusdt@markPrice@1s'] }]);
+
+    streamManager.push(1_000, '50001.0');
+    streamManager.push(1_500, '50002.0');
+    streamManager.push(2_100, '50003.0');
+    expect(collector.getBufferSize()).toBe(2);
+
+    const summary = await backfill;
+    await collector.stop();
+
+    expect(fetchFundingRates).toHaveBeenNthCalledWith(1, 'BTCUSDT', 'USDT-M', { startTime: 1_001, limit: 2 });
+    expect(fetchFundingRates).toHaveBeenNthCalledWith(2, 'BTCUSDT', 'USDT-M', { startTime: 3_001, limit: 2 });
+    expect(savedRates.map((rate) => rate.fundingTime)).toEqual([2_000, 3_000, 4_000]);
+    expect(summary).toMatchObject({ symbols: 1, stored: 3, failed: 0 });
+
+    expect(savedMarkPrices.map((sample) => [sample.timestamp, sample.markPrice])).toEqual([
+      [1_000, 50_002],
+      [2_000, 50_003],
+    ]);
+    expect(savedMarkPrices[0]).toMatchObject({
+      symbol: 'BTCUSDT',
+      marketType: 'USDT-M',
+      indexPrice: 50_000,
+      estimatedSettlePrice: 50_010,
+      fundingRate: 0.0001,
+      nextFundingTime: 28_800_000,
+    });
+  });
+});
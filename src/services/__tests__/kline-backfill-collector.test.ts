@@ -0,0 +1,86 @@
+import { KlineBackfillCollector, KlineBackfillProgress } from '../../services/kline-backfill-collector';
+import { BinanceRestClient } from '../../services/binance-rest-client';
+import { SymbolManager } from '../../services/symbol-manager';
+import { IDatabaseManager } from '../../services/interfaces';
+import { MarketType, OHLCVData, OHLCVTimeframe } from '../../types';
+
+const HALF_HOUR_MS = 30 * 60 * 1000;
+
+const buildKline = (symbol: string, openTime: number): OHLCVData => ({
+  symbol,
+  marketType: 'SPOT',
+  interval: '30m',
+  openTime,
+  closeTime: openTime + HALF_HOUR_MS - 1,
+  open: 1,
+  high: 2,
+  low: 0.5,
+  close: 1.5,
+  volume: 10,
+  quoteVolume: 15,
+  trades: 3,
+});
+
+describe('KlineBackfillCollector', () => {
+  it('pages klines from the last stored open time and skips the open candle', async () => {
+    const now = Date.now();
+    const currentOpen = Math.floor(now / HALF_HOUR_MS) * HALF_HOUR_MS;
+    const lastStored = currentOpen - 4 * HALF_HOUR_MS;
+
+    const saved: OHLCVData[] = [];
+    const db = {
+      getLastOHLCVTimestamps: jest.fn(async () => ({ BTCUSDT: lastStored })),
+      saveOHLCVBatch: jest.fn(async (data: OHLCVData[]) => {
+        saved.push(...data);
+      }),
+    } as unknown as IDatabaseManager;
+
+    const symbolManager = {
+      getActiveSymbolsByMarket: jest.fn(async (market: MarketType) =>
+        market === 'SPOT' ? [{ symbol: 'BTCUSDT' }] : []
+      ),
+    } as unknown as SymbolManager;
+
+    const fetchKlines = jest.fn(
+      async (symbol: string, _interval: OHLCVTimeframe, _market: MarketType, startTime?: number) => {
+        const rows: OHLCVData[] = [];
+        for (let open = startTime ?? 0; open <= currentOpen; open += HALF_HOUR_MS) {
+          rows.push(buildKline(symbol, open));
+        }
+        return rows;
+      }
+    );
+    const restClient = { fetchKlines } as unknown as BinanceRestClient;
+
+    const collector = new KlineBackfillCollector(db, symbolManager, restClient, {
+      timeframes: ['30m'],
+      markets: ['SPOT'],
+      fetchIntervalMs: 60 * 60 * 1000,
+    });
+
+    const progress: KlineBackfillProgress[] = [];
+    collector.on('progress', (payload) => progress.push(payload));
+    const completed = new Promise((resolve) => collector.once('cycleCompleted', resolve));
+
+    await collector.start();
+    await completed;
+    await collector.stop();
+
+    expect(fetchKlines).toHaveBeenCalledWith('BTCUSDT', '30m', 'SPOT', lastStored + HALF_HOUR_MS);
+    expect(saved.map((kline) => kline.openTime)).toEqual([
+      lastStored + HALF_HOUR_MS,
+      lastStored + 2 * HALF_HOUR_MS,
+      lastStored + 3 * HALF_HOUR_MS,
+    ]);
+    expect(progress).toEqual([
+      expect.objectContaining({
+        symbol: 'BTCUSDT',
+        marketType: 'SPOT',
+        interval: '30m',
+        stored: 3,
+        completed: 1,
+        total: 1,
+      }),
+    ]);
+  });
+});
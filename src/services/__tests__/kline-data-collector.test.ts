@@ -0,0 +1,132 @@
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { KlineDataCollector } from '../../services/kline-data-collector';
+import { SymbolManager } from '../../services/symbol-manager';
+import { IDatabaseManager } from '../../services/interfaces';
+import { MarketType, OHLCVData } from '../../types';
+
+interface ReceivedRequest {
+  socket: WebSocket;
+  method: string;
+  params: string[];
+}
+
+class FakeSymbolManager extends EventEmitter {
+  constructor(public symbols: string[]) {
+    super();
+  }
+
+  async getActiveSymbolsByMarket(_market: MarketType): Promise<Array<{ symbol: string }>> {
+    return this.symbols.map((symbol) => ({ symbol }));
+  }
+}
+
+const klineMessage = (symbol: string, openTime: number, closed: boolean): string =>
+  JSON.stringify({
+    stream: `${symbol.toLowerCase()}@kline_1m`,
+    data: {
+      e: 'kline',
+      s: symbol,
+      k: {
+        t: openTime,
+        T: openTime + 59_999,
+        s: symbol,
+        o: '100',
+        h: '110',
+        l: '90',
+        c: '105',
+        v: '12',
+        q: '1260',
+        n: 42,
+        x: closed,
+      },
+    },
+  });
+
+describe('KlineDataCollector', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let requests: ReceivedRequest[];
+  let sockets: WebSocket[];
+
+  beforeEach(async () => {
+    requests = [];
+    sockets = [];
+    server = new WebSocketServer({ port: 0 });
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/stream`;
+    server.on('connection', (socket) => {
+      sockets.push(socket);
+      socket.on('message', (raw) => {
+        const request = JSON.parse(raw.toString());
+        requests.push({ socket, method: request.method, params: request.params });
+        socket.send(JSON.stringify({ result: null, id: request.id }));
+      });
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const waitFor = async (predicate: () => boolean): Promise<void> => {
+    for (let attempt = 0; attempt < 200 && !predicate(); attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  it('shards kline streams, persists only closed candles and follows symbol updates', async () => {
+    const saved: OHLCVData[][] = [];
+    const database = {
+      saveOHLCVBatch: jest.fn(async (batch: OHLCVData[]) => {
+        saved.push(batch);
+      }),
+    } as unknown as IDatabaseManager;
+    const symbolManager = new FakeSymbolManager(['SOLUSDT', 'BTCUSDT', 'ETHUSDT']);
+
+    const collector = new KlineDataCollector(database, symbolManager as unknown as SymbolManager, {
+      spotWsUrl: url,
+      usdMWsUrl: url,
+      coinMWsUrl: url,
+      markets: ['USDT-M'],
+      maxStreamsPerConnection: 2,
+      flushIntervalMs: 60_000,
+      maxBufferSize: 1,
+    });
+
+    await collector.start();
+    await waitFor(() => requests.length === 2);
+    expect(sockets).toHaveLength(2);
+    expect(requests.map((request) => request.params)).toEqual([
+      ['btcusdt@kline_1m', 'ethusdt@kline_1m'],
+      ['solusdt@kline_1m'],
+    ]);
+
+    // 未確定足 (k.x === false) は保存せず、確定足のみを書き込む
+    const stored = new Promise((resolve) => collector.once('klineDataSaved', resolve));
+    sockets[0]!.send(klineMessage('BTCUSDT', 60_000, false));
+    sockets[0]!.send(klineMessage('ETHUSDT', 60_000, true));
+    await stored;
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toEqual([
+      expect.objectContaining({ symbol: 'ETHUSDT', marketType: 'USDT-M', interval: '1m', openTime: 60_000, close: 105 }),
+    ]);
+
+    // シンボル更新では接続を張り直さず、差分だけを購読・解除する
+    const updated = new Promise((resolve) => collector.once('subscriptionsUpdated', resolve));
+    symbolManager.symbols = ['BTCUSDT', 'SOLUSDT', 'XRPUSDT'];
+    symbolManager.emit('updated');
+    await expect(updated).resolves.toEqual({ marketType: 'USDT-M', symbols: 3 });
+    await waitFor(() => requests.length === 4);
+
+    expect(sockets).toHaveLength(2);
+    expect(requests.slice(2)).toEqual([
+      { socket: sockets[0], method: 'UNSUBSCRIBE', params: ['ethusdt@kline_1m'] },
+      { socket: sockets[0], method: 'SUBSCRIBE', params: ['xrpusdt@kline_1m'] },
+    ]);
+
+    await collector.stop();
+    expect(symbolManager.listenerCount('updated')).toBe(0);
+  });
+});
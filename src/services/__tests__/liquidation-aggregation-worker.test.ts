@@ -0,0 +1,87 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseManager } from '../database';
+import { LiquidationAggregationWorker } from '../liquidation-aggregation-worker';
+import { LiquidationAlertPayload, LiquidationEvent } from '../../types';
+
+describe('LiquidationAggregationWorker', () => {
+  let directory: string;
+  let manager: DatabaseManager;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'binance-liquidation-'));
+    manager = new DatabaseManager(path.join(directory, 'collector.sqlite'));
+    await manager.initialize();
+    await manager.runMigrations();
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const buildEvent = (id: number, eventTime: number, side: 'buy' | 'sell', quantity: number): LiquidationEvent => ({
+    eventId: `USDT-M:${id}`,
+    symbol: 'BTCUSDT',
+    marketType: 'USDT-M',
+    side,
+    price: 10_000,
+    originalQuantity: quantity,
+    filledQuantity: quantity,
+    eventTime,
+    isMaker: false,
+    createdAt: eventTime,
+  });
+
+  it('rolls liquidations into buckets and enqueues a spike alert', async () => {
+    const now = Date.now();
+    const currentMinute = Math.floor(now / 60_000) * 60_000;
+    const events: LiquidationEvent[] = [];
+    // 直前 10 分間は毎分少額のロング清算、現在の 1 分足で大口のロング清算が発生
+    for (let minute = 10; minute >= 1; minute -= 1) {
+      events.push(buildEvent(minute, currentMinute - minute * 60_000, 'sell', 1 + (minute % 2)));
+    }
+    events.push(buildEvent(100, currentMinute, 'sell', 50));
+    events.push(buildEvent(101, currentMinute + 1, 'buy', 2));
+    await manager.saveLiquidationEvents(events);
+
+    const worker = new LiquidationAggregationWorker(manager, {
+      intervals: ['1m'],
+      batchSize: 5,
+      zScoreThreshold: 2,
+      zScoreWindowMinutes: 10,
+      alertsEnabled: true,
+      minAlertNotional: 100_000,
+    });
+    const alerts: LiquidationAlertPayload[] = [];
+    worker.on('alertEnqueued', (payload) => alerts.push(payload));
+
+    await worker.start();
+    await worker.stop();
+
+    const buckets = await manager.getLiquidationBuckets(
+      'BTCUSDT',
+      'USDT-M',
+      '1m',
+      currentMinute - 10 * 60_000,
+      currentMinute
+    );
+    expect(buckets).toHaveLength(11);
+    const current = buckets[buckets.length - 1]!;
+    expect(current).toMatchObject({ longNotional: 500_000, shortNotional: 20_000, longCount: 1, shortCount: 1 });
+    expect(current.longZScore).toBeGreaterThan(2);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ symbol: 'BTCUSDT', side: 'long', notional: 500_000 });
+
+    const pending = await manager.getPendingAlerts(10);
+    expect(pending.map((record) => record.alertType)).toEqual(['LIQUIDATION_SPIKE']);
+
+    // 再起動しても処理済みのイベントを二重に加算しない
+    const restarted = new LiquidationAggregationWorker(manager, { intervals: ['1m'], zScoreWindowMinutes: 10 });
+    await restarted.start();
+    await restarted.stop();
+    const [after] = await manager.getLiquidationBuckets('BTCUSDT', 'USDT-M', '1m', currentMinute, currentMinute);
+    expect(after?.longNotional).toBe(500_000);
+  });
+});
@@ -0,0 +1,211 @@
+import { EventEmitter } from 'events';
+import { LiquidationDataCollector } from '../../services/liquidation-data-collector';
+import { BinanceRestClient } from '../../services/binance-rest-client';
+import { BinanceStreamManager } from '../../services/binance-stream-manager';
+import { SymbolManager } from '../../services/symbol-manager';
+import { IDatabaseManager } from '../../services/interfaces';
+import { LiquidationCoverageCheck, LiquidationCoverageGap, MarketType, OHLCVData } from '../../types';
+
+const ONE_MINUTE_MS = 60_000;
+
+class FakeStreamManager extends EventEmitter {
+  async subscribe(): Promise<void> {
+    return undefined;
+  }
+
+  unsubscribe(): void {
+    return undefined;
+  }
+}
+
+const buildKline = (openTime: number): OHLCVData => ({
+  symbol: 'BTCUSDT',
+  marketType: 'USDT-M',
+  interval: '1m',
+  openTime,
+  closeTime: openTime + ONE_MINUTE_MS - 1,
+  open: 50_000,
+  high: 50_100,
+  low: 49_900,
+  close: 50_050,
+  volume: 3,
+  quoteVolume: 150_000,
+  trades: 10,
+  takerBuyVolume: 1,
+});
+
+describe('LiquidationDataCollector', () => {
+  it('cross-checks a restart gap against 1m kline taker volume for each subscribed symbol', async () => {
+    const lastAlive = Math.floor(Date.now() / ONE_MINUTE_MS) * ONE_MINUTE_MS - 5 * ONE_MINUTE_MS;
+    const savedChecks: LiquidationCoverageCheck[] = [];
+    const database = {
+      getProcessingState: jest.fn(async () => ({ lastRowId: 0, lastTimestamp: lastAlive })),
+      saveProcessingState: jest.fn(async () => undefined),
+      recordLiquidationCoverageGap: jest.fn(async () => 7),
+      saveLiquidationCoverageChecks: jest.fn(async (checks: LiquidationCoverageCheck[]) => {
+        savedChecks.push(...checks);
+      }),
+      updateLiquidationCoverageCrossCheck: jest.fn(async () => undefined),
+      saveLiquidationEvents: jest.fn(async () => undefined),
+    } as unknown as IDatabaseManager;
+
+    // 1 ページ 3 本ずつ返す
+    const fetchKlines = jest.fn(async (_symbol: string, _interval: string, _market: MarketType, startTime?: number) =>
+      [0, 1, 2].map((index) => buildKline(startTime! + index * ONE_MINUTE_MS))
+    );
+    const restClient = { fetchKlines } as unknown as BinanceRestClient;
+    const streamManager = new FakeStreamManager();
+
+    const collector = new LiquidationDataCollector(database, {
+      usdMWsUrl: 'wss://example.invalid/usdm',
+      coinMWsUrl: 'wss://example.invalid/coinm',
+      subscriptions: [{ symbol: 'BTCUSDT', marketType: 'USDT-M' }],
+      streamManager: streamManager as unknown as BinanceStreamManager,
+      restClient,
+      flushIntervalMs: 60_000,
+    });
+    const crossChecked = new Promise<[LiquidationCoverageGap, LiquidationCoverageCheck[]]>((resolve) =>
+      collector.once('coverageCrossChecked', (gap, checks) => resolve([gap, checks]))
+    );
+
+    await collector.start();
+    streamManager.emit('connected', 'USDT-M', 1, ['btcusdt@forceOrder']);
+    const [gap, checks] = await crossChecked;
+    await collector.stop();
+
+    expect(gap).toMatchObject({
+      id: 7,
+      marketType: 'USDT-M',
+      windowStart: lastAlive,
+      reason: 'process_restart',
+      crossCheck: 'checked',
+    });
+    expect(database.updateLiquidationCoverageCrossCheck).toHaveBeenCalledWith(7, 'checked');
+    expect(fetchKlines).toHaveBeenNthCalledWith(1, 'BTCUSDT', '1m', 'USDT-M', lastAlive);
+    expect(fetchKlines).toHaveBeenNthCalledWith(2, 'BTCUSDT', '1m', 'USDT-M', lastAlive + 3 * ONE_MINUTE_MS);
+
+    // 区間内に始まる足だけを集計する (テイカー売り = 出来高 - テイカー買い)
+    const expectedKlines = Math.ceil((gap.windowEnd - lastAlive) / ONE_MINUTE_MS);
+    expect(checks).toEqual([
+      {
+        coverageId: 7,
+        symbol: 'BTCUSDT',
+        marketType: 'USDT-M',
+        klineCount: expectedKlines,
+        takerBuyVolume: expectedKlines,
+        takerSellVolume: expectedKlines * 2,
+        complete: true,
+      },
+    ]);
+    expect(savedChecks).toEqual(checks);
+  });
+
+  it('tracks coverage per shard connection and records the gap for the symbols on the reconnected shard', async () => {
+    const gaps: LiquidationCoverageGap[] = [];
+    const database = {
+      getProcessingState: jest.fn(async () => null),
+      saveProcessingState: jest.fn(async () => undefined),
+      recordLiquidationCoverageGap: jest.fn(async (gap: LiquidationCoverageGap) => {
+        gaps.push(gap);
+        return gaps.length;
+      }),
+      saveLiquidationEvents: jest.fn(async () => undefined),
+    } as unknown as IDatabaseManager;
+    const streamManager = new FakeStreamManager();
+
+    const collector = new LiquidationDataCollector(database, {
+      usdMWsUrl: 'wss://example.invalid/usdm',
+      coinMWsUrl: 'wss://example.invalid/coinm',
+      subscriptions: [
+        { symbol: 'BTCUSDT', marketType: 'USDT-M' },
+        { symbol: 'ETHUSDT', marketType: 'USDT-M' },
+      ],
+      streamManager: streamManager as unknown as BinanceStreamManager,
+      flushIntervalMs: 60_000,
+      coverageToleranceMs: 10,
+    });
+    const gapRecorded = new Promise<LiquidationCoverageGap>((resolve) => collector.once('coverageGap', resolve));
+
+    await collector.start();
+    streamManager.emit('connected', 'USDT-M', 1, ['btcusdt@forceOrder']);
+    streamManager.emit('connected', 'USDT-M', 2, ['ethusdt@forceOrder']);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // シャード 2 の切断中にシャード 1 が再接続しても、シャード 2 の欠損は失われない
+    const disconnectedAt = Date.now();
+    streamManager.emit('disconnected', 'USDT-M', 2, 1006, 'lost', ['ethusdt@forceOrder']);
+    streamManager.emit('disconnected', 'USDT-M', 1, 1006, 'lost', ['btcusdt@forceOrder']);
+    streamManager.emit('connected', 'USDT-M', 1, ['btcusdt@forceOrder']);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    streamManager.emit('connected', 'USDT-M', 2, ['ethusdt@forceOrder']);
+
+    const gap = await gapRecorded;
+    expect(gaps).toHaveLength(1);
+    expect(gap).toMatchObject({ marketType: 'USDT-M', reason: 'ws_disconnected', symbols: ['ETHUSDT'] });
+    expect(gap.windowStart).toBeGreaterThanOrEqual(disconnectedAt);
+    expect(gap.windowEnd - gap.windowStart).toBeGreaterThanOrEqual(25);
+
+    // 一部のシャードが切断中の市場は最終受信可能時刻を進めない
+    streamManager.emit('disconnected', 'USDT-M', 2, 1006, 'lost', ['ethusdt@forceOrder']);
+    await collector.stop();
+    expect(database.saveProcessingState).not.toHaveBeenCalled();
+  });
+
+  it('cross-checks all-market stream gaps against active perpetuals and marks gaps it cannot check', async () => {
+    const lastAlive = Math.floor(Date.now() / ONE_MINUTE_MS) * ONE_MINUTE_MS - 5 * ONE_MINUTE_MS;
+    const buildDatabase = () =>
+      ({
+        getProcessingState: jest.fn(async () => ({ lastRowId: 0, lastTimestamp: lastAlive })),
+        saveProcessingState: jest.fn(async () => undefined),
+        recordLiquidationCoverageGap: jest.fn(async () => 3),
+        saveLiquidationCoverageChecks: jest.fn(async () => undefined),
+        updateLiquidationCoverageCrossCheck: jest.fn(async () => undefined),
+        saveLiquidationEvents: jest.fn(async () => undefined),
+      }) as unknown as IDatabaseManager;
+    const fetchKlines = jest.fn(async (_symbol: string, _interval: string, _market: MarketType, startTime?: number) => [
+      buildKline(startTime!),
+    ]);
+    const symbolManager = {
+      getActiveSymbolsByMarket: jest.fn(async () => [
+        { symbol: 'BTCUSDT', contractType: 'PERPETUAL' },
+        { symbol: 'BTCUSDT_261225', contractType: 'CURRENT_QUARTER' },
+      ]),
+    } as unknown as SymbolManager;
+
+    const runCollector = async (database: IDatabaseManager, withSymbolManager: boolean) => {
+      const streamManager = new FakeStreamManager();
+      const collector = new LiquidationDataCollector(database, {
+        usdMWsUrl: 'wss://example.invalid/usdm',
+        coinMWsUrl: 'wss://example.invalid/coinm',
+        subscriptions: [],
+        allMarketStreams: ['USDT-M'],
+        streamManager: streamManager as unknown as BinanceStreamManager,
+        restClient: { fetchKlines } as unknown as BinanceRestClient,
+        ...(withSymbolManager ? { symbolManager } : {}),
+        flushIntervalMs: 60_000,
+      });
+      const crossChecked = new Promise<[LiquidationCoverageGap, LiquidationCoverageCheck[]]>((resolve) =>
+        collector.once('coverageCrossChecked', (gap, checks) => resolve([gap, checks]))
+      );
+      await collector.start();
+      streamManager.emit('connected', 'USDT-M', 1, ['!forceOrder@arr']);
+      const result = await crossChecked;
+      await collector.stop();
+      return result;
+    };
+
+    const checkedDatabase = buildDatabase();
+    const [checkedGap, checks] = await runCollector(checkedDatabase, true);
+    expect(checkedGap.crossCheck).toBe('checked');
+    expect(checks.map((check) => check.symbol)).toEqual(['BTCUSDT']);
+    expect(new Set(fetchKlines.mock.calls.map((call) => call[0]))).toEqual(new Set(['BTCUSDT']));
+    expect(checkedDatabase.updateLiquidationCoverageCrossCheck).toHaveBeenCalledWith(3, 'checked');
+
+    // 対象銘柄を特定できない場合も突き合わせられなかったことを区間に記録する
+    const uncheckedDatabase = buildDatabase();
+    const [uncheckedGap, noChecks] = await runCollector(uncheckedDatabase, false);
+    expect(uncheckedGap.crossCheck).toBe('unavailable');
+    expect(noChecks).toEqual([]);
+    expect(uncheckedDatabase.updateLiquidationCoverageCrossCheck).toHaveBeenCalledWith(3, 'unavailable');
+  });
+});
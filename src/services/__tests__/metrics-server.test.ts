@@ -0,0 +1,46 @@
+import { MetricsRegistry } from '../../services/metrics-registry';
+import { MetricsServer } from '../../services/metrics-server';
+
+describe('MetricsServer', () => {
+  it('renders Prometheus text for counters, gauges and summaries', () => {
+    const registry = new MetricsRegistry();
+    registry.incrementCounter('rows_total', 'Rows persisted', { component: 'trade', source: 'ws' }, 5);
+    // ラベルの順序が異なっても同一系列として集計される
+    registry.incrementCounter('rows_total', 'Rows persisted', { source: 'ws', component: 'trade' }, 3);
+    registry.observe('binance_db_write_duration_ms', 'Write duration', { component: 'trade' }, 12);
+    registry.observe('binance_db_write_duration_ms', 'Write duration', { component: 'trade' }, 8);
+    registry.registerCollector(() => {
+      registry.setGauge('binance_collector_buffer_depth', 'Buffered records', { component: 'trade' }, 42);
+    });
+
+    const output = registry.render();
+
+    expect(output).toContain('# TYPE rows_total counter');
+    expect(output).toContain('rows_total{component="trade",source="ws"} 8');
+    expect(output).toContain('binance_db_write_duration_ms_sum{component="trade"} 20');
+    expect(output).toContain('binance_db_write_duration_ms_count{component="trade"} 2');
+    expect(output).toContain('binance_collector_buffer_depth{component="trade"} 42');
+  });
+
+  it('reports unhealthy once a WebSocket stays disconnected past the threshold', () => {
+    const registry = new MetricsRegistry();
+    const server = new MetricsServer(registry, { host: '127.0.0.1', port: 0, disconnectThresholdMs: 60_000 });
+
+    server.trackConnection('trade', 'SPOT', '', true);
+    server.trackConnection('trade', 'USDT-M', '', true);
+    server.trackConnection('trade', 'USDT-M', '', false);
+
+    const now = Date.now();
+    expect(server.getHealth(now + 30_000).healthy).toBe(true);
+
+    const report = server.getHealth(now + 61_000);
+    expect(report.healthy).toBe(false);
+    expect(report.disconnected).toEqual([
+      expect.objectContaining({ component: 'trade', market: 'USDT-M', shard: '' }),
+    ]);
+
+    server.trackConnection('trade', 'USDT-M', '', true);
+    expect(server.getHealth(now + 61_000).healthy).toBe(true);
+    expect(registry.render()).toContain('binance_ws_reconnects_total{component="trade",market="USDT-M"} 1');
+  });
+});
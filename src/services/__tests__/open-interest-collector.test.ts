@@ -0,0 +1,90 @@
+import { OpenInterestCollector, OpenInterestCycleSummary } from '../../services/open-interest-collector';
+import { BinanceRestClient } from '../../services/binance-rest-client';
+import { SymbolManager } from '../../services/symbol-manager';
+import { IDatabaseManager } from '../../services/interfaces';
+import { MarketType, OpenInterestData } from '../../types';
+
+const FIVE_MINUTES_MS = 5 * 60 * 1000;
+
+describe('OpenInterestCollector', () => {
+  it('catches up openInterestHist from the last stored period and stores the live value', async () => {
+    const now = Date.now();
+    const lastStored = Math.floor(now / FIVE_MINUTES_MS) * FIVE_MINUTES_MS - 3 * FIVE_MINUTES_MS;
+
+    const saved: OpenInterestData[] = [];
+    const db = {
+      getLastOpenInterestTimestamp: jest.fn(async (symbol: string) =>
+        symbol === 'BTCUSDT' ? lastStored : undefined
+      ),
+      saveOpenInterest: jest.fn(async (data: OpenInterestData[]) => {
+        saved.push(...data);
+      }),
+    } as unknown as IDatabaseManager;
+
+    const symbolManager = {
+      getActiveSymbolsByMarket: jest.fn(async (market: MarketType) =>
+        market === 'USDT-M'
+          ? [
+              { symbol: 'BTCUSDT', contractType: 'PERPETUAL' },
+              { symbol: 'BTCUSDT_250328', contractType: 'CURRENT_QUARTER' },
+            ]
+          : []
+      ),
+    } as unknown as SymbolManager;
+
+    const fetchOpenInterestHistory = jest.fn(
+      async (symbol: string, _market: string, options: { startTime?: number; endTime?: number }) => {
+        const rows: OpenInterestData[] = [];
+        // 要求区間の直前の期間も返されるケースを含める
+        for (let timestamp = lastStored; timestamp <= options.endTime!; timestamp += FIVE_MINUTES_MS) {
+          rows.push({
+            symbol,
+            marketType: 'USDT-M',
+            source: 'hist',
+            timestamp,
+            openInterest: 100,
+            openInterestValue: 5_000_000,
+          });
+        }
+        return rows;
+      }
+    );
+    const fetchOpenInterest = jest.fn(async (symbol: string) => ({
+      symbol,
+      marketType: 'USDT-M' as const,
+      source: 'live' as const,
+      timestamp: now,
+      openInterest: 101,
+    }));
+    const restClient = { fetchOpenInterestHistory, fetchOpenInterest } as unknown as BinanceRestClient;
+
+    const collector = new OpenInterestCollector(db, symbolManager, restClient, {
+      markets: ['USDT-M'],
+      fetchIntervalMs: 60 * 60 * 1000,
+    });
+    const completed = new Promise<OpenInterestCycleSummary>((resolve) => collector.once('cycleCompleted', resolve));
+
+    await collector.start();
+    const summary = await completed;
+    await collector.stop();
+
+    expect(fetchOpenInterestHistory).toHaveBeenCalledTimes(1);
+    expect(fetchOpenInterestHistory).toHaveBeenCalledWith(
+      'BTCUSDT',
+      'USDT-M',
+      expect.objectContaining({ period: '5m', startTime: lastStored + FIVE_MINUTES_MS, limit: 500 })
+    );
+    expect(fetchOpenInterest).toHaveBeenCalledWith('BTCUSDT', 'USDT-M');
+
+    const history = saved.filter((entry) => entry.source === 'hist').map((entry) => entry.timestamp);
+    expect(history).toEqual([
+      lastStored + FIVE_MINUTES_MS,
+      lastStored + 2 * FIVE_MINUTES_MS,
+      lastStored + 3 * FIVE_MINUTES_MS,
+    ]);
+    expect(saved.filter((entry) => entry.source === 'live')).toEqual([
+      expect.objectContaining({ symbol: 'BTCUSDT', openInterest: 101 }),
+    ]);
+    expect(summary).toMatchObject({ symbols: 1, historical: 3, live: 1, failed: 0 });
+  });
+});
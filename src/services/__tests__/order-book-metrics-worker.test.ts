@@ -0,0 +1,44 @@
+import { OrderBookMetricsWorker } from '../order-book-metrics-worker';
+import { LocalOrderBook } from '../order-book';
+import { IDatabaseManager } from '../interfaces';
+
+describe('OrderBookMetricsWorker', () => {
+  const database = {} as IDatabaseManager;
+
+  it('sums bid and ask notional within each bps band around the mid price', () => {
+    const book = new LocalOrderBook('BTCUSDT', 'USDT-M');
+    book.loadSnapshot({
+      symbol: 'BTCUSDT',
+      marketType: 'USDT-M',
+      lastUpdateId: 1,
+      bids: [[99.95, 10], [99.5, 20], [98, 100]],
+      asks: [[100.05, 5], [100.4, 10], [103, 100]],
+    });
+    const worker = new OrderBookMetricsWorker(database, { getSyncedOrderBooks: () => [book] }, { bandsBps: [50, 10] });
+
+    const metrics = worker.computeMetrics(book, 60_000);
+
+    expect(metrics.map((row) => row.bandBps)).toEqual([10, 50]);
+    expect(metrics[0]).toMatchObject({ timestamp: 60_000, bestBid: 99.95, bestAsk: 100.05, midPrice: 100 });
+    expect(metrics[0]!.spreadBps).toBeCloseTo(10);
+    expect(metrics[0]!.bidNotional).toBeCloseTo(999.5);
+    expect(metrics[0]!.askNotional).toBeCloseTo(500.25);
+    expect(metrics[1]!.bidNotional).toBeCloseTo(999.5 + 1_990);
+    expect(metrics[1]!.askNotional).toBeCloseTo(500.25 + 1_004);
+    expect(metrics[1]!.imbalance).toBeCloseTo((2_989.5 - 1_504.25) / (2_989.5 + 1_504.25));
+  });
+
+  it('converts COIN-M contracts with the contract size', () => {
+    const book = new LocalOrderBook('BTCUSD_PERP', 'COIN-M');
+    book.loadSnapshot({
+      symbol: 'BTCUSD_PERP',
+      marketType: 'COIN-M',
+      lastUpdateId: 1,
+      bids: [[50_000, 3]],
+      asks: [[50_010, 1]],
+    });
+    const worker = new OrderBookMetricsWorker(database, { getSyncedOrderBooks: () => [book] }, { bandsBps: [10] });
+
+    expect(worker.computeMetrics(book, 0)[0]).toMatchObject({ bidNotional: 300, askNotional: 100, imbalance: 0.5 });
+  });
+});
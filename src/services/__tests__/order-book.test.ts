@@ -0,0 +1,76 @@
+import { LocalOrderBook } from '../order-book';
+import { DepthDiffEvent, MarketType } from '../../types';
+
+const diff = (
+  marketType: MarketType,
+  firstUpdateId: number,
+  finalUpdateId: number,
+  overrides: Partial<DepthDiffEvent> = {}
+): DepthDiffEvent => ({
+  symbol: 'BTCUSDT',
+  marketType,
+  eventTime: finalUpdateId,
+  firstUpdateId,
+  finalUpdateId,
+  bids: [],
+  asks: [],
+  ...overrides,
+});
+
+describe('LocalOrderBook', () => {
+  it('bridges a spot snapshot with U <= lastUpdateId + 1 <= u and then requires contiguous U', () => {
+    const book = new LocalOrderBook('BTCUSDT', 'SPOT');
+    book.loadSnapshot({
+      symbol: 'BTCUSDT',
+      marketType: 'SPOT',
+      lastUpdateId: 100,
+      bids: [[50_000, 1], [49_990, 2]],
+      asks: [[50_010, 1]],
+    });
+
+    expect(book.applyDiff(diff('SPOT', 90, 100))).toBe('stale');
+    expect(book.isSynced()).toBe(false);
+    expect(book.applyDiff(diff('SPOT', 95, 105, { bids: [[50_000, 0], [50_005, 3]] }))).toBe('applied');
+    expect(book.applyDiff(diff('SPOT', 106, 110, { asks: [[50_008, 4]] }))).toBe('applied');
+    expect(book.isSynced()).toBe(true);
+    expect(book.getTopLevels(2)).toEqual({
+      bids: [[50_005, 3], [49_990, 2]],
+      asks: [[50_008, 4], [50_010, 1]],
+    });
+
+    expect(book.applyDiff(diff('SPOT', 112, 115))).toBe('gap');
+    expect(book.getLastUpdateId()).toBe(110);
+  });
+
+  it('rejects a spot snapshot older than the first buffered diff', () => {
+    const book = new LocalOrderBook('BTCUSDT', 'SPOT');
+    book.loadSnapshot({ symbol: 'BTCUSDT', marketType: 'SPOT', lastUpdateId: 100, bids: [], asks: [] });
+
+    expect(book.applyDiff(diff('SPOT', 102, 105))).toBe('gap');
+  });
+
+  it('validates futures diffs with pu after the first event straddles lastUpdateId', () => {
+    const book = new LocalOrderBook('BTCUSDT', 'USDT-M');
+    book.loadSnapshot({ symbol: 'BTCUSDT', marketType: 'USDT-M', lastUpdateId: 200, bids: [], asks: [] });
+
+    expect(book.applyDiff(diff('USDT-M', 150, 199, { previousFinalUpdateId: 149 }))).toBe('stale');
+    expect(book.applyDiff(diff('USDT-M', 195, 210, { previousFinalUpdateId: 194 }))).toBe('applied');
+    expect(book.applyDiff(diff('USDT-M', 215, 220, { previousFinalUpdateId: 210 }))).toBe('applied');
+    expect(book.applyDiff(diff('USDT-M', 225, 230, { previousFinalUpdateId: 221 }))).toBe('gap');
+  });
+
+  it('drops futures diffs already covered by the snapshot or applied after bridging', () => {
+    const book = new LocalOrderBook('BTCUSDT', 'USDT-M');
+    book.loadSnapshot({ symbol: 'BTCUSDT', marketType: 'USDT-M', lastUpdateId: 200, bids: [[50_000, 1]], asks: [] });
+
+    expect(book.applyDiff(diff('USDT-M', 190, 200, { previousFinalUpdateId: 189, bids: [[50_000, 5]] }))).toBe('stale');
+    expect(book.isSynced()).toBe(false);
+    expect(book.applyDiff(diff('USDT-M', 201, 205, { previousFinalUpdateId: 200 }))).toBe('applied');
+
+    // 再接続直後などに同じ差分が再送されても板を巻き戻さない
+    expect(book.applyDiff(diff('USDT-M', 201, 205, { previousFinalUpdateId: 200, bids: [[50_000, 9]] }))).toBe('stale');
+    expect(book.applyDiff(diff('USDT-M', 203, 204, { previousFinalUpdateId: 202 }))).toBe('stale');
+    expect(book.getLastUpdateId()).toBe(205);
+    expect(book.getTopLevels(1).bids).toEqual([[50_000, 1]]);
+  });
+});
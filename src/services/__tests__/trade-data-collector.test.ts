@@ -0,0 +1,147 @@
+import { EventEmitter } from 'events';
+import { TradeBackfillResult, TradeDataCollector } from '../../services/trade-data-collector';
+import { BinanceRestClient } from '../../services/binance-rest-client';
+import { BinanceStreamHandler, BinanceStreamManager } from '../../services/binance-stream-manager';
+import { IDatabaseManager } from '../../services/interfaces';
+import { AggTrade, TradeData } from '../../types';
+
+class FakeStreamManager extends EventEmitter {
+  handler: BinanceStreamHandler | null = null;
+
+  async subscribe(_market: string, _streams: string[], handler: BinanceStreamHandler): Promise<void> {
+    this.handler = handler;
+  }
+
+  unsubscribe(): void {
+    this.handler = null;
+  }
+
+  push(tradeId: number, tradeTime: number): void {
+    this.handler?.(
+      { e: 'aggTrade', s: 'BTCUSDT', a: tradeId, p: '50000', q: '0.1', T: tradeTime, m: false },
+      { marketType: 'USDT-M', stream: 'btcusdt@aggTrade', connectionId: 1 }
+    );
+  }
+}
+
+const buildAggTrade = (tradeId: number, tradeTime: number): AggTrade => ({
+  symbol: 'BTCUSDT',
+  marketType: 'USDT-M',
+  tradeId,
+  price: 50_000,
+  quantity: 0.2,
+  firstTradeId: tradeId,
+  lastTradeId: tradeId,
+  tradeTime,
+  isBuyerMaker: true,
+  isBestMatch: true,
+  source: 'rest',
+});
+
+describe('TradeDataCollector', () => {
+  it('backfills the outage window from REST before persisting post-reconnect trades', async () => {
+    const saved: TradeData[][] = [];
+    const database = {
+      initialize: jest.fn(async () => undefined),
+      runMigrations: jest.fn(async () => undefined),
+      saveTradeData: jest.fn(async (trades: TradeData[]) => {
+        saved.push(trades);
+      }),
+    } as unknown as IDatabaseManager;
+
+    const base = Date.now() - 60_000;
+    const fetchAggTrades = jest.fn(async () => [buildAggTrade(2, base + 10), buildAggTrade(3, base + 20)]);
+    const restClient = { fetchAggTrades } as unknown as BinanceRestClient;
+    const streamManager = new FakeStreamManager();
+
+    const collector = new TradeDataCollector(database, {
+      spotWsUrl: 'wss://example.invalid/spot',
+      usdMWsUrl: 'wss://example.invalid/usdm',
+      coinMWsUrl: 'wss://example.invalid/coinm',
+      subscriptions: [{ symbol: 'BTCUSDT', marketType: 'USDT-M', streamType: 'aggTrade' }],
+      streamManager: streamManager as unknown as BinanceStreamManager,
+      restClient,
+      flushIntervalMs: 60_000,
+    });
+    const completed = new Promise((resolve) => collector.once('tradeBackfillCompleted', resolve));
+
+    await collector.start();
+    streamManager.push(1, base);
+    streamManager.emit('disconnected', 'USDT-M', 1, 1006, 'lost', ['btcusdt@aggTrade']);
+    streamManager.emit('connected', 'USDT-M', 1, ['btcusdt@aggTrade']);
+    streamManager.push(4, Date.now());
+
+    await expect(completed).resolves.toMatchObject({ symbol: 'BTCUSDT', marketType: 'USDT-M', count: 2, complete: true });
+    await collector.stopCollection();
+
+    expect(fetchAggTrades).toHaveBeenCalledWith('BTCUSDT', 'USDT-M', { startTime: base + 1, limit: 1_000 });
+    expect(saved.map((batch) => batch.map((trade) => trade.tradeId))).toEqual([['1'], ['2', '3'], ['4']]);
+    expect(saved[1]![0]).toMatchObject({ streamType: 'aggTrade', direction: 'sell', amount: 0.2 });
+  });
+
+  it('pages by aggTradeId and resumes from the last stored id on a timer when the page limit is reached', async () => {
+    const saved: TradeData[][] = [];
+    const database = {
+      initialize: jest.fn(async () => undefined),
+      runMigrations: jest.fn(async () => undefined),
+      saveTradeData: jest.fn(async (trades: TradeData[]) => {
+        saved.push(trades);
+      }),
+    } as unknown as IDatabaseManager;
+
+    const base = Date.now() - 60_000;
+    // 同一ミリ秒の約定が 1 ページに収まらないケース
+    const pages = [
+      [buildAggTrade(2, base + 10), buildAggTrade(3, base + 10)],
+      [buildAggTrade(4, base + 10), buildAggTrade(5, base + 20)],
+      [buildAggTrade(6, base + 30)],
+    ];
+    const fetchAggTrades = jest.fn(async () => pages.shift() ?? []);
+    const restClient = { fetchAggTrades } as unknown as BinanceRestClient;
+    const streamManager = new FakeStreamManager();
+
+    const collector = new TradeDataCollector(database, {
+      spotWsUrl: 'wss://example.invalid/spot',
+      usdMWsUrl: 'wss://example.invalid/usdm',
+      coinMWsUrl: 'wss://example.invalid/coinm',
+      subscriptions: [{ symbol: 'BTCUSDT', marketType: 'USDT-M', streamType: 'aggTrade' }],
+      streamManager: streamManager as unknown as BinanceStreamManager,
+      restClient,
+      flushIntervalMs: 60_000,
+      maxBufferSize: 1,
+      backfillLimit: 2,
+      backfillMaxPages: 2,
+      backfillRetryDelayMs: 10,
+    });
+    const results: TradeBackfillResult[] = [];
+    const completed = new Promise<void>((resolve) =>
+      collector.on('tradeBackfillCompleted', (result) => {
+        results.push(result);
+        if (result.complete) {
+          resolve();
+        }
+      })
+    );
+
+    await collector.start();
+    streamManager.push(1, base);
+    streamManager.emit('disconnected', 'USDT-M', 1, 1006, 'lost', ['btcusdt@aggTrade']);
+    streamManager.emit('connected', 'USDT-M', 1, ['btcusdt@aggTrade']);
+    // 補完が終わるまでは再接続後の約定をバッファ上限を超えても書き込まない
+    streamManager.push(7, Date.now());
+
+    // 再接続を待たずにタイマーで残りを補完する
+    await completed;
+    await collector.stopCollection();
+
+    expect(results).toEqual([
+      expect.objectContaining({ from: base + 1, count: 4, complete: false }),
+      expect.objectContaining({ from: base + 1, count: 1, complete: true }),
+    ]);
+    expect(fetchAggTrades).toHaveBeenNthCalledWith(1, 'BTCUSDT', 'USDT-M', { startTime: base + 1, limit: 2 });
+    expect(fetchAggTrades).toHaveBeenNthCalledWith(2, 'BTCUSDT', 'USDT-M', { fromId: 4, limit: 2 });
+    // 残りの区間は最後に保存した aggTradeId の次から再開する
+    expect(fetchAggTrades).toHaveBeenNthCalledWith(3, 'BTCUSDT', 'USDT-M', { fromId: 6, limit: 2 });
+    expect(saved.flat().map((trade) => trade.tradeId)).toEqual(['1', '2', '3', '4', '5', '6', '7']);
+  });
+});
@@ -1,10 +1,17 @@
 import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
 import { loadCoinMarketCapTopEntries } from '../utils/coinmarketcap';
-import { AggTrade } from '../types';
+import { AggTrade, AggTradeSource } from '../types';
 import { IAggTradeDatabaseManager } from './interfaces';
 import { SymbolManager } from './symbol-manager';
 import { BinanceRestClient } from './binance-rest-client';
+import { AggTradeGapRepairer, AggTradeGapScanSummary } from './agg-trade-gap-repairer';
+import { BinanceStreamManager } from './binance-stream-manager';
+import {
+  BinanceAggTradeSubscription,
+  BinanceAggTradeWebSocketClient,
+  BinanceAggTradeWebSocketClientOptions,
+} from './binance-agg-trade-websocket-client';
 
 const DEFAULT_FETCH_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
 const DEFAULT_INITIAL_LOOKBACK_MS = 12 * 60 * 60 * 1000; // 12 hours
@@ -13,32 +20,80 @@ const DEFAULT_REST_LIMIT = 1_000;
 const DEFAULT_MAX_RETRIES = 3;
 const DEFAULT_RETRY_DELAY_MS = 5_000;
 const REQUEST_COOLDOWN_MS = 500;
+const DEFAULT_WS_FLUSH_INTERVAL_MS = 5_000;
+const DEFAULT_WS_MAX_BUFFER_SIZE = 5_000;
 
 interface AggTradeCollectorOptions {
   assetListPath: string;
+  spotWsUrl: string;
+  usdMWsUrl: string;
+  coinMWsUrl: string;
+  /** 他のクライアントと接続を共有する場合に指定する */
+  streamManager?: BinanceStreamManager;
+  maxStreamsPerConnection?: number;
+  wsFlushIntervalMs?: number;
+  wsMaxBufferSize?: number;
   fetchIntervalMs?: number;
   restLimit?: number;
   initialLookbackMs?: number;
   maxRetries?: number;
   retryDelayMs?: number;
+  gapScanLookbackMs?: number;
 }
 
 interface TargetPair {
   asset: string;
   symbol: string;
-  marketType: AggTrade['marketType'];
+  marketType: BinanceAggTradeSubscription['marketType'];
+  /** COIN-M の 1 コントラクトあたりの USD 額 */
+  contractSize?: number;
+}
+
+/**
+ * WebSocket で取りこぼした可能性のある区間。to が null の間は切断が継続している
+ */
+interface PendingGap {
+  from: number;
+  to: number | null;
 }
 
 export declare interface AggTradeCollector {
-  on(event: 'tradeStored', listener: (count: number) => void): this;
+  on(
+    event: 'tradeStored',
+    listener: (count: number, source: AggTradeSource, durationMs: number) => void
+  ): this;
+  on(
+    event: 'websocketConnected',
+    listener: (market: AggTrade['marketType'], connectionId: number) => void
+  ): this;
+  on(
+    event: 'websocketDisconnected',
+    listener: (market: AggTrade['marketType'], connectionId: number, code: number, reason: string) => void
+  ): this;
+  on(event: 'websocketError', listener: (error: Error) => void): this;
+  on(event: 'gapScanCompleted', listener: (summary: AggTradeGapScanSummary) => void): this;
   on(event: 'error', listener: (error: Error) => void): this;
 }
 
+/**
+ * CoinMarketCap 上位銘柄の Spot / USDT-M / COIN-M ペアを @aggTrade WebSocket で常時取得し、
+ * 銘柄別の SQLite に保存する。REST は起動前と切断中の欠落区間、および trade_id の欠番を埋める用途に限定する。
+ */
 export class AggTradeCollector extends EventEmitter {
   private isRunning = false;
   private timer: NodeJS.Timeout | null = null;
   private currentCycle: Promise<void> | null = null;
   private targets: TargetPair[] = [];
+  private pairsByKey = new Map<string, TargetPair>();
+  private wsClient: BinanceAggTradeWebSocketClient | null = null;
+  private buffers = new Map<string, AggTrade[]>();
+  private bufferedCount = 0;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushJob: Promise<void> | null = null;
+  private readonly lastSeenTradeTime = new Map<string, number>();
+  private readonly pendingGaps = new Map<string, PendingGap>();
+  private wsStartedAt = 0;
+  private readonly gapRepairer: AggTradeGapRepairer;
 
   constructor(
     private readonly db: IAggTradeDatabaseManager,
@@ -47,6 +102,15 @@ export class AggTradeCollector extends EventEmitter {
     private readonly options: AggTradeCollectorOptions
   ) {
     super();
+    const repairerOptions: { scanLookbackMs?: number; restLimit?: number } = {};
+    if (options.gapScanLookbackMs !== undefined) {
+      repairerOptions.scanLookbackMs = options.gapScanLookbackMs;
+    }
+    if (options.restLimit !== undefined) {
+      repairerOptions.restLimit = options.restLimit;
+    }
+    this.gapRepairer = new AggTradeGapRepairer(db, restClient, repairerOptions);
+    this.gapRepairer.on('error', (error) => this.emit('error', error));
   }
 
   async start(): Promise<void> {
@@ -73,6 +137,26 @@ export class AggTradeCollector extends EventEmitter {
       this.isRunning = false;
       return;
     }
+    this.pairsByKey = new Map(this.targets.map((pair) => [this.pairKey(pair.symbol, pair.marketType), pair]));
+
+    // WebSocket 接続前に各ペアの保存済み位置を確定させ、接続までの区間を REST で埋める
+    const wsStartedAt = Date.now();
+    this.wsStartedAt = wsStartedAt;
+    for (const pair of this.targets) {
+      const checkpoint = await this.db.getLastAggTradeCheckpoint(pair.asset, pair.symbol, pair.marketType);
+      this.pendingGaps.set(this.pairKey(pair.symbol, pair.marketType), {
+        from:
+          checkpoint?.tradeTime !== undefined
+            ? checkpoint.tradeTime + 1
+            : wsStartedAt - this.initialLookbackMs,
+        to: wsStartedAt,
+      });
+    }
+
+    await this.startWebSocket();
+    if (!this.isRunning) {
+      return;
+    }
 
     await this.runCycle('initial');
     if (!this.isRunning) {
@@ -97,6 +181,12 @@ export class AggTradeCollector extends EventEmitter {
       this.timer = null;
     }
 
+    this.stopFlushTimer();
+    if (this.wsClient) {
+      this.wsClient.disconnect();
+      this.wsClient = null;
+    }
+
     const cycle = this.currentCycle;
     if (cycle) {
       try {
@@ -106,10 +196,15 @@ export class AggTradeCollector extends EventEmitter {
       }
     }
 
+    await this.flushBuffers();
     await this.db.close();
     logger.info('AggTrade collector stopped');
   }
 
+  getBufferSize(): number {
+    return this.bufferedCount;
+  }
+
   private get fetchIntervalMs(): number {
     return this.options.fetchIntervalMs ?? DEFAULT_FETCH_INTERVAL_MS;
   }
@@ -130,6 +225,163 @@ export class AggTradeCollector extends EventEmitter {
     return this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
   }
 
+  private get wsFlushIntervalMs(): number {
+    return this.options.wsFlushIntervalMs ?? DEFAULT_WS_FLUSH_INTERVAL_MS;
+  }
+
+  private get wsMaxBufferSize(): number {
+    return this.options.wsMaxBufferSize ?? DEFAULT_WS_MAX_BUFFER_SIZE;
+  }
+
+  private async startWebSocket(): Promise<void> {
+    const clientOptions: BinanceAggTradeWebSocketClientOptions = {
+      spotUrl: this.options.spotWsUrl,
+      usdMUrl: this.options.usdMWsUrl,
+      coinMUrl: this.options.coinMWsUrl,
+      subscriptions: this.targets.map((pair) => ({ symbol: pair.symbol, marketType: pair.marketType })),
+      ...(this.options.streamManager ? { streamManager: this.options.streamManager } : {}),
+    };
+    if (this.options.maxStreamsPerConnection !== undefined) {
+      clientOptions.maxStreamsPerConnection = this.options.maxStreamsPerConnection;
+    }
+
+    const client = new BinanceAggTradeWebSocketClient(clientOptions);
+    client.on('aggTrade', (trade) => this.handleTrade(trade));
+    client.on('error', (error) => {
+      this.emit('websocketError', error);
+    });
+    client.on('disconnected', (market, connectionId, code, reason, subscriptions) => {
+      this.openGaps(subscriptions, connectionId);
+      this.emit('websocketDisconnected', market, connectionId, code, reason);
+    });
+    client.on('connected', (market, connectionId, subscriptions) => {
+      this.closeGaps(subscriptions);
+      this.emit('websocketConnected', market, connectionId);
+    });
+    this.wsClient = client;
+
+    try {
+      await client.connect();
+    } catch (error) {
+      // 接続できなかったシャードは再接続を待ち、その間の欠落は REST で補完する
+      logger.error('Failed to connect AggTrade WebSocket', error);
+      this.emit('websocketError', error as Error);
+    }
+    this.startFlushTimer();
+  }
+
+  private handleTrade(trade: AggTrade): void {
+    const key = this.pairKey(trade.symbol, trade.marketType);
+    const pair = this.pairsByKey.get(key);
+    if (!pair) {
+      return;
+    }
+
+    const lastSeen = this.lastSeenTradeTime.get(key);
+    if (lastSeen === undefined || trade.tradeTime > lastSeen) {
+      this.lastSeenTradeTime.set(key, trade.tradeTime);
+    }
+
+    const stored = this.withContractSize(pair, trade);
+    const buffer = this.buffers.get(pair.asset);
+    if (buffer) {
+      buffer.push(stored);
+    } else {
+      this.buffers.set(pair.asset, [stored]);
+    }
+    this.bufferedCount += 1;
+
+    if (this.bufferedCount >= this.wsMaxBufferSize) {
+      void this.flushBuffers();
+    }
+  }
+
+  private openGaps(symbols: BinanceAggTradeSubscription[], connectionId: number): void {
+    for (const { symbol, marketType } of symbols) {
+      const key = this.pairKey(symbol, marketType);
+      const existing = this.pendingGaps.get(key);
+      const lastSeen = this.lastSeenTradeTime.get(key);
+      const from = lastSeen !== undefined ? lastSeen + 1 : this.wsStartedAt;
+      this.pendingGaps.set(key, {
+        from: existing ? Math.min(existing.from, from) : from,
+        to: null,
+      });
+    }
+    logger.warn('AggTrade WebSocket connection lost, queued REST gap fill', {
+      connectionId,
+      pairs: symbols.length,
+    });
+  }
+
+  private closeGaps(symbols: BinanceAggTradeSubscription[]): void {
+    const now = Date.now();
+    for (const { symbol, marketType } of symbols) {
+      const gap = this.pendingGaps.get(this.pairKey(symbol, marketType));
+      if (gap && gap.to === null) {
+        gap.to = now;
+      }
+    }
+  }
+
+  private startFlushTimer(): void {
+    this.stopFlushTimer();
+    this.flushTimer = setInterval(() => {
+      void this.flushBuffers();
+    }, this.wsFlushIntervalMs);
+  }
+
+  private stopFlushTimer(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private flushBuffers(): Promise<void> {
+    if (this.flushJob) {
+      return this.flushJob.then(() => this.flushBuffers());
+    }
+    if (this.bufferedCount === 0) {
+      return Promise.resolve();
+    }
+
+    const batches = this.buffers;
+    this.buffers = new Map();
+    this.bufferedCount = 0;
+
+    this.flushJob = (async () => {
+      const startedAt = Date.now();
+      let stored = 0;
+      for (const [asset, trades] of batches) {
+        try {
+          await this.db.saveAggTrades(asset, trades);
+          stored += trades.length;
+        } catch (error) {
+          logger.error('Failed to persist WebSocket agg trades', {
+            asset,
+            count: trades.length,
+            error: (error as Error).message,
+          });
+          this.emit('error', error as Error);
+          const pending = this.buffers.get(asset);
+          this.buffers.set(asset, pending ? [...trades, ...pending] : trades);
+          this.bufferedCount += trades.length;
+        }
+      }
+      if (stored > 0) {
+        this.emit('tradeStored', stored, 'ws', Date.now() - startedAt);
+      }
+    })().finally(() => {
+      this.flushJob = null;
+    });
+
+    return this.flushJob;
+  }
+
+  private pairKey(symbol: string, marketType: AggTrade['marketType']): string {
+    return `${marketType}:${symbol.toUpperCase()}`;
+  }
+
   private scheduleNext(): void {
     if (!this.isRunning) {
       return;
@@ -156,94 +408,144 @@ export class AggTradeCollector extends EventEmitter {
 
   private async performFetch(mode: 'initial' | 'scheduled'): Promise<void> {
     let storedTotal = 0;
+    let writeDurationMs = 0;
+    let filledPairs = 0;
 
     for (const pair of this.targets) {
       if (!this.isRunning) {
         break;
       }
 
-      const checkpoint = await this.db.getLastAggTradeCheckpoint(
-        pair.asset,
-        pair.symbol,
-        pair.marketType
-      );
+      const key = this.pairKey(pair.symbol, pair.marketType);
+      const gap = this.pendingGaps.get(key);
+      if (!gap) {
+        continue;
+      }
 
-      let cursor =
-        checkpoint?.tradeTime !== undefined
-          ? checkpoint.tradeTime + 1
-          : Date.now() - this.initialLookbackMs;
+      const result = await this.fillGap(pair, gap);
+      storedTotal += result.stored;
+      writeDurationMs += result.writeDurationMs;
+      filledPairs += 1;
 
-      if (mode === 'scheduled') {
-        const minimumStart = Date.now() - this.fetchIntervalMs;
-        cursor = Math.max(cursor, minimumStart);
+      if (result.resolved && gap.to !== null) {
+        this.pendingGaps.delete(key);
+      } else {
+        gap.from = result.cursor;
       }
+    }
 
-      let iterations = 0;
+    if (filledPairs > 0) {
+      logger.info('AggTrade REST gap fill completed', {
+        mode,
+        pairs: filledPairs,
+        stored: storedTotal,
+        remaining: this.pendingGaps.size,
+      });
+    }
 
-      while (this.isRunning && iterations < MAX_REST_ITERATIONS) {
-        iterations += 1;
+    if (storedTotal > 0) {
+      // 書き込みレイテンシとして扱うため、REST の待ち時間を含めず保存に要した時間だけを通知する
+      this.emit('tradeStored', storedTotal, 'rest', writeDurationMs);
+    }
 
-        const params: {
-          startTime?: number;
-          limit?: number;
-        } = {
-          startTime: cursor,
-          limit: this.restLimit,
-        };
+    if (mode === 'scheduled' && this.isRunning) {
+      await this.repairTradeIdGaps();
+    }
+  }
 
-        let trades: AggTrade[] = [];
+  private async repairTradeIdGaps(): Promise<void> {
+    // バッファ済みの WebSocket 約定を先に保存し、未保存分を欠番として扱わないようにする
+    await this.flushBuffers();
+    const summary = await this.gapRepairer.scan(this.targets, () => this.isRunning);
+    if (summary.detectedGaps > 0 || summary.repairedTrades > 0) {
+      logger.info('AggTrade trade_id gap scan completed', summary);
+    }
+    this.emit('gapScanCompleted', summary);
+  }
 
-        try {
-          trades = await this.fetchAggTradesWithRetry(
-            () => this.restClient.fetchAggTrades(pair.symbol, pair.marketType, params),
-            this.maxRetries,
-            this.retryDelayMs
-          );
-        } catch (error) {
-          logger.error('Failed to fetch agg trades', {
-            pair,
-            error: (error as Error).message,
-          });
-          this.emit('error', error as Error);
-          break;
-        }
+  /**
+   * 欠落区間を startTime 起点で REST 取得する。区間の終端を越えたか、最新まで追いついた時点で解消とみなす。
+   */
+  private async fillGap(
+    pair: TargetPair,
+    gap: PendingGap
+  ): Promise<{ stored: number; cursor: number; resolved: boolean; writeDurationMs: number }> {
+    let cursor = gap.from;
+    let stored = 0;
+    let writeDurationMs = 0;
+    let iterations = 0;
+
+    while (this.isRunning && iterations < MAX_REST_ITERATIONS) {
+      iterations += 1;
+
+      if (gap.to !== null && cursor > gap.to) {
+        return { stored, cursor, resolved: true, writeDurationMs };
+      }
 
-        if (trades.length === 0) {
-          break;
-        }
+      const params: {
+        startTime?: number;
+        limit?: number;
+      } = {
+        startTime: cursor,
+        limit: this.restLimit,
+      };
 
-        try {
-          await this.db.saveAggTrades(pair.asset, trades);
-          storedTotal += trades.length;
-        } catch (error) {
-          logger.error('Failed to persist agg trades', {
-            pair,
-            error: (error as Error).message,
-          });
-          this.emit('error', error as Error);
-          break;
-        }
+      let trades: AggTrade[] = [];
 
-        const lastTrade = trades[trades.length - 1]!;
-        cursor = lastTrade.tradeTime + 1;
+      try {
+        trades = await this.fetchAggTradesWithRetry(
+          () => this.restClient.fetchAggTrades(pair.symbol, pair.marketType, params),
+          this.maxRetries,
+          this.retryDelayMs
+        );
+      } catch (error) {
+        logger.error('Failed to fetch agg trades', {
+          pair,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+        return { stored, cursor, resolved: false, writeDurationMs };
+      }
 
-        if (trades.length < this.restLimit) {
-          break;
-        }
+      if (trades.length === 0) {
+        return { stored, cursor, resolved: true, writeDurationMs };
+      }
 
-        await this.delay(REQUEST_COOLDOWN_MS);
+      const writeStartedAt = Date.now();
+      try {
+        await this.db.saveAggTrades(
+          pair.asset,
+          trades.map((trade) => this.withContractSize(pair, trade))
+        );
+        stored += trades.length;
+        writeDurationMs += Date.now() - writeStartedAt;
+      } catch (error) {
+        logger.error('Failed to persist agg trades', {
+          pair,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+        return { stored, cursor, resolved: false, writeDurationMs };
       }
-    }
 
-    if (storedTotal > 0) {
-      this.emit('tradeStored', storedTotal);
+      const lastTrade = trades[trades.length - 1]!;
+      cursor = lastTrade.tradeTime + 1;
+
+      if (trades.length < this.restLimit) {
+        return { stored, cursor, resolved: true, writeDurationMs };
+      }
+
+      await this.delay(REQUEST_COOLDOWN_MS);
     }
+
+    return { stored, cursor, resolved: gap.to !== null && cursor > gap.to, writeDurationMs };
   }
 
   private async resolveTargetPairs(assets: { symbol: string }[]): Promise<TargetPair[]> {
     const results: TargetPair[] = [];
     const spotSymbols = await this.symbolManager.getActiveSymbolsByMarket('SPOT');
     const futuresSymbols = await this.symbolManager.getActiveSymbolsByMarket('USDT-M');
+    const coinMSymbols = await this.symbolManager.getActiveSymbolsByMarket('COIN-M');
 
     const spotMap = new Map(
       spotSymbols
@@ -255,6 +557,12 @@ export class AggTradeCollector extends EventEmitter {
         .filter((symbol) => !symbol.contractType || symbol.contractType === 'PERPETUAL')
         .map((symbol) => [symbol.baseAsset.toUpperCase(), symbol.symbol])
     );
+    // COIN-M は BASEUSD_PERP 形式の無期限のみを対象にする (四半期限月は除外)
+    const coinMMap = new Map(
+      coinMSymbols
+        .filter((symbol) => symbol.contractType === 'PERPETUAL')
+        .map((symbol) => [symbol.baseAsset.toUpperCase(), symbol])
+    );
 
     for (const asset of assets) {
       const base = asset.symbol.toUpperCase();
@@ -276,11 +584,31 @@ export class AggTradeCollector extends EventEmitter {
           marketType: 'USDT-M',
         });
       }
+
+      const coinMSymbol = coinMMap.get(base);
+      if (coinMSymbol) {
+        results.push({
+          asset: base,
+          symbol: coinMSymbol.symbol,
+          marketType: 'COIN-M',
+          ...(coinMSymbol.contractSize !== undefined ? { contractSize: coinMSymbol.contractSize } : {}),
+        });
+      }
     }
 
     return results;
   }
 
+  /**
+   * COIN-M の約定にはコントラクトサイズを付与し、保存時の名目額換算に使わせる
+   */
+  private withContractSize(pair: TargetPair, trade: AggTrade): AggTrade {
+    if (pair.marketType !== 'COIN-M' || pair.contractSize === undefined) {
+      return trade;
+    }
+    return { ...trade, contractSize: pair.contractSize };
+  }
+
   private async fetchAggTradesWithRetry(
     task: () => Promise<AggTrade[]>,
     maxRetries: number,
@@ -1,8 +1,15 @@
 import fs from 'fs';
 import path from 'path';
 import sqlite3 from 'sqlite3';
-import { AggTrade } from '../types';
+import {
+  AggTrade,
+  AggTradeGap,
+  AggTradeGapLogEntry,
+  AggTradeGapStats,
+  AggTradeGapStatus,
+} from '../types';
 import { IAggTradeDatabaseManager } from './interfaces';
+import { toQuoteNotional } from '../utils/notional';
 
 sqlite3.verbose();
 
@@ -19,6 +26,7 @@ const SCHEMA_STATEMENTS = [
     trade_id INTEGER NOT NULL,
     price REAL NOT NULL,
     quantity REAL NOT NULL,
+    notional REAL,
     first_trade_id INTEGER NOT NULL,
     last_trade_id INTEGER NOT NULL,
     trade_time INTEGER NOT NULL,
@@ -29,8 +37,41 @@ const SCHEMA_STATEMENTS = [
     PRIMARY KEY (symbol, market_type, trade_id)
   )`,
   `CREATE INDEX IF NOT EXISTS idx_agg_trades_time ON agg_trades(symbol, market_type, trade_time)`,
+  `CREATE TABLE IF NOT EXISTS agg_trade_gaps (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    symbol TEXT NOT NULL,
+    market_type TEXT NOT NULL,
+    start_trade_id INTEGER NOT NULL,
+    end_trade_id INTEGER NOT NULL,
+    missing_count INTEGER NOT NULL,
+    repaired_count INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'open',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    detected_at INTEGER NOT NULL,
+    repaired_at INTEGER,
+    last_attempt_at INTEGER,
+    last_error TEXT,
+    UNIQUE (symbol, market_type, start_trade_id, end_trade_id)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_agg_trade_gaps_status ON agg_trade_gaps(symbol, market_type, status)`,
 ];
 
+interface AggTradeGapRow {
+  id: number;
+  symbol: string;
+  market_type: AggTrade['marketType'];
+  start_trade_id: number;
+  end_trade_id: number;
+  missing_count: number;
+  repaired_count: number;
+  status: AggTradeGapStatus;
+  attempts: number;
+  detected_at: number;
+  repaired_at: number | null;
+  last_attempt_at: number | null;
+  last_error: string | null;
+}
+
 export class AggTradeDatabaseManager implements IAggTradeDatabaseManager {
   private readonly handles = new Map<string, DatabaseHandle>();
 
@@ -75,6 +116,164 @@ export class AggTradeDatabaseManager implements IAggTradeDatabaseManager {
     };
   }
 
+  /**
+   * trade_id の欠番区間を検出する。sinceTradeTime 以降の約定のみを走査対象とする。
+   * excludeFailedAttemptedAfter より後に補完を試みて failed となった区間と重なる欠番は
+   * 再試行待ちとして返さず、LIMIT の枠を補完できる欠番に使う。
+   */
+  async findAggTradeGaps(
+    asset: string,
+    symbol: string,
+    marketType: AggTrade['marketType'],
+    options: { sinceTradeTime?: number; limit?: number; excludeFailedAttemptedAfter?: number } = {}
+  ): Promise<AggTradeGap[]> {
+    const handle = await this.getHandle(asset);
+    await handle.chain;
+    const rows = await this.all<{ trade_id: number; next_id: number }>(
+      handle.db,
+      `SELECT trade_id, next_id
+         FROM (
+           SELECT trade_id, LEAD(trade_id) OVER (ORDER BY trade_id) AS next_id
+             FROM agg_trades
+             WHERE symbol = ? AND market_type = ? AND trade_time >= ?
+         ) AS holes
+         WHERE next_id IS NOT NULL AND next_id - trade_id > 1
+           AND NOT EXISTS (
+             SELECT 1
+               FROM agg_trade_gaps
+               WHERE symbol = ? AND market_type = ?
+                 AND status = 'failed'
+                 AND last_attempt_at > ?
+                 AND start_trade_id < holes.next_id AND end_trade_id > holes.trade_id
+           )
+         ORDER BY trade_id
+         LIMIT ?`,
+      [
+        symbol,
+        marketType,
+        options.sinceTradeTime ?? 0,
+        symbol,
+        marketType,
+        options.excludeFailedAttemptedAfter ?? Number.MAX_SAFE_INTEGER,
+        options.limit ?? 100,
+      ]
+    );
+
+    return rows.map((row) => {
+      const startTradeId = Number(row.trade_id) + 1;
+      const endTradeId = Number(row.next_id) - 1;
+      return {
+        symbol,
+        marketType,
+        startTradeId,
+        endTradeId,
+        missingCount: endTradeId - startTradeId + 1,
+      };
+    });
+  }
+
+  /**
+   * 欠落区間をギャップログへ記録する。未解決の記録と重なる場合は既存の記録を返す。
+   */
+  async recordAggTradeGap(asset: string, gap: AggTradeGap): Promise<AggTradeGapLogEntry> {
+    const handle = await this.getHandle(asset);
+    let entry: AggTradeGapLogEntry | undefined;
+
+    handle.chain = handle.chain.then(async () => {
+      const existing = await this.get<AggTradeGapRow>(
+        handle.db,
+        `SELECT *
+           FROM agg_trade_gaps
+           WHERE symbol = ? AND market_type = ?
+             AND status != 'repaired'
+             AND start_trade_id <= ? AND end_trade_id >= ?
+           ORDER BY id DESC
+           LIMIT 1`,
+        [gap.symbol, gap.marketType, gap.endTradeId, gap.startTradeId]
+      );
+      if (existing) {
+        entry = this.mapGapRow(existing);
+        return;
+      }
+
+      await this.run(
+        handle.db,
+        `INSERT OR IGNORE INTO agg_trade_gaps (
+           symbol, market_type, start_trade_id, end_trade_id, missing_count, detected_at
+         ) VALUES (?, ?, ?, ?, ?, ?)`,
+        [gap.symbol, gap.marketType, gap.startTradeId, gap.endTradeId, gap.missingCount, Date.now()]
+      );
+      const inserted = await this.get<AggTradeGapRow>(
+        handle.db,
+        `SELECT *
+           FROM agg_trade_gaps
+           WHERE symbol = ? AND market_type = ? AND start_trade_id = ? AND end_trade_id = ?`,
+        [gap.symbol, gap.marketType, gap.startTradeId, gap.endTradeId]
+      );
+      if (inserted) {
+        entry = this.mapGapRow(inserted);
+      }
+    });
+    await handle.chain;
+
+    if (!entry) {
+      throw new Error(`Failed to record agg trade gap for ${gap.symbol} (${gap.marketType})`);
+    }
+    return entry;
+  }
+
+  /**
+   * 補完結果を反映する。repairedCount は今回の試行で補完できた件数 (累積に加算)。
+   */
+  async updateAggTradeGap(
+    asset: string,
+    id: number,
+    update: { status: AggTradeGapStatus; repairedCount: number; error?: string }
+  ): Promise<void> {
+    const handle = await this.getHandle(asset);
+    const now = Date.now();
+    handle.chain = handle.chain.then(() =>
+      this.run(
+        handle.db,
+        `UPDATE agg_trade_gaps
+           SET status = ?,
+               repaired_count = MIN(missing_count, repaired_count + ?),
+               attempts = attempts + 1,
+               repaired_at = CASE WHEN ? = 'repaired' THEN ? ELSE repaired_at END,
+               last_attempt_at = ?,
+               last_error = ?
+           WHERE id = ?`,
+        [update.status, update.repairedCount, update.status, now, now, update.error ?? null, id]
+      )
+    );
+    await handle.chain;
+  }
+
+  async getAggTradeGapStats(asset: string): Promise<AggTradeGapStats> {
+    const handle = await this.getHandle(asset);
+    await handle.chain;
+    const row = await this.get<{
+      detected: number | null;
+      repaired: number | null;
+      missing: number | null;
+      repaired_trades: number | null;
+    }>(
+      handle.db,
+      `SELECT COUNT(*) AS detected,
+              SUM(CASE WHEN status = 'repaired' THEN 1 ELSE 0 END) AS repaired,
+              SUM(missing_count) AS missing,
+              SUM(repaired_count) AS repaired_trades
+         FROM agg_trade_gaps`,
+      []
+    );
+    return {
+      detectedGaps: Number(row?.detected ?? 0),
+      repairedGaps: Number(row?.repaired ?? 0),
+      missingTrades: Number(row?.missing ?? 0),
+      repairedTrades: Number(row?.repaired_trades ?? 0),
+    };
+  }
+
   async close(): Promise<void> {
     const handles = Array.from(this.handles.values());
     this.handles.clear();
@@ -130,10 +329,10 @@ export class AggTradeDatabaseManager implements IAggTradeDatabaseManager {
     try {
       const sql = `
         INSERT OR IGNORE INTO agg_trades (
-          symbol, market_type, trade_id, price, quantity,
+          symbol, market_type, trade_id, price, quantity, notional,
           first_trade_id, last_trade_id, trade_time,
           is_buyer_maker, is_best_match, source
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
       for (const trade of trades) {
         await this.run(db, sql, [
@@ -142,6 +341,7 @@ export class AggTradeDatabaseManager implements IAggTradeDatabaseManager {
           trade.tradeId,
           trade.price,
           trade.quantity,
+          toQuoteNotional(trade.marketType, trade.symbol, trade.price, trade.quantity, trade.contractSize),
           trade.firstTradeId,
           trade.lastTradeId,
           trade.tradeTime,
@@ -157,10 +357,54 @@ export class AggTradeDatabaseManager implements IAggTradeDatabaseManager {
     }
   }
 
+  private mapGapRow(row: AggTradeGapRow): AggTradeGapLogEntry {
+    return {
+      id: Number(row.id),
+      symbol: row.symbol,
+      marketType: row.market_type,
+      startTradeId: Number(row.start_trade_id),
+      endTradeId: Number(row.end_trade_id),
+      missingCount: Number(row.missing_count),
+      repairedCount: Number(row.repaired_count),
+      status: row.status,
+      attempts: Number(row.attempts),
+      detectedAt: Number(row.detected_at),
+      repairedAt: row.repaired_at === null ? null : Number(row.repaired_at),
+      lastAttemptAt: row.last_attempt_at === null ? null : Number(row.last_attempt_at),
+      lastError: row.last_error,
+    };
+  }
+
   private async ensureSchema(db: sqlite3.Database): Promise<void> {
     for (const statement of SCHEMA_STATEMENTS) {
       await this.exec(db, statement);
     }
+    await this.ensureNotionalColumn(db);
+    await this.ensureGapAttemptColumn(db);
+  }
+
+  /**
+   * notional 列追加前のシャードに列を追加する。既存行は SPOT / USDT-M のみのため価格 × 数量で埋める
+   */
+  private async ensureNotionalColumn(db: sqlite3.Database): Promise<void> {
+    const columns = await this.all<{ name: string }>(db, `PRAGMA table_info(agg_trades)`, []);
+    if (columns.some((column) => column.name === 'notional')) {
+      return;
+    }
+    await this.exec(db, 'ALTER TABLE agg_trades ADD COLUMN notional REAL');
+    await this.exec(db, `UPDATE agg_trades SET notional = price * quantity WHERE market_type != 'COIN-M'`);
+  }
+
+  /**
+   * last_attempt_at 列追加前のシャードに列を追加する。既存の記録は最終試行時刻が不明なため検出時刻で埋める
+   */
+  private async ensureGapAttemptColumn(db: sqlite3.Database): Promise<void> {
+    const columns = await this.all<{ name: string }>(db, `PRAGMA table_info(agg_trade_gaps)`, []);
+    if (columns.some((column) => column.name === 'last_attempt_at')) {
+      return;
+    }
+    await this.exec(db, 'ALTER TABLE agg_trade_gaps ADD COLUMN last_attempt_at INTEGER');
+    await this.exec(db, 'UPDATE agg_trade_gaps SET last_attempt_at = detected_at WHERE attempts > 0');
   }
 
   private async configureDatabase(db: sqlite3.Database): Promise<void> {
@@ -208,5 +452,16 @@ export class AggTradeDatabaseManager implements IAggTradeDatabaseManager {
       });
     });
   }
-}
 
+  private all<T>(db: sqlite3.Database, sql: string, params: unknown[]): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (error, rows) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve((rows as T[]) ?? []);
+        }
+      });
+    });
+  }
+}
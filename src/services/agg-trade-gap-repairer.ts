@@ -0,0 +1,238 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { AggTrade, AggTradeGap, AggTradeGapLogEntry, AggTradeGapStatus } from '../types';
+import { IAggTradeDatabaseManager } from './interfaces';
+import { BinanceRestClient } from './binance-rest-client';
+
+const DEFAULT_SCAN_LOOKBACK_MS = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_MAX_GAPS_PER_PAIR = 100;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_FAILED_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const DEFAULT_REST_LIMIT = 1_000;
+const MAX_REST_ITERATIONS = 50;
+
+export interface AggTradeGapTarget {
+  asset: string;
+  symbol: string;
+  marketType: AggTrade['marketType'];
+  /** COIN-M の 1 コントラクトあたりの USD 額 */
+  contractSize?: number;
+}
+
+export interface AggTradeGapRepairerOptions {
+  scanLookbackMs?: number;
+  maxGapsPerPair?: number;
+  maxAttempts?: number;
+  /** failed となった区間を再試行するまでの待ち時間 (一時的なエラーで恒久的に諦めない) */
+  failedRetryDelayMs?: number;
+  restLimit?: number;
+}
+
+export interface AggTradeGapScanSummary {
+  pairs: number;
+  detectedGaps: number;
+  repairedGaps: number;
+  missingTrades: number;
+  repairedTrades: number;
+  durationMs: number;
+}
+
+export declare interface AggTradeGapRepairer {
+  on(event: 'gapRepaired', listener: (entry: AggTradeGapLogEntry, asset: string) => void): this;
+  on(event: 'scanCompleted', listener: (summary: AggTradeGapScanSummary) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * 銘柄別 SQLite の agg_trades を trade_id の連続性で走査し、欠番を REST (fromId) で補完する
+ */
+export class AggTradeGapRepairer extends EventEmitter {
+  constructor(
+    private readonly db: IAggTradeDatabaseManager,
+    private readonly restClient: BinanceRestClient,
+    private readonly options: AggTradeGapRepairerOptions = {}
+  ) {
+    super();
+  }
+
+  private get scanLookbackMs(): number {
+    return this.options.scanLookbackMs ?? DEFAULT_SCAN_LOOKBACK_MS;
+  }
+
+  private get maxGapsPerPair(): number {
+    return this.options.maxGapsPerPair ?? DEFAULT_MAX_GAPS_PER_PAIR;
+  }
+
+  private get maxAttempts(): number {
+    return this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  }
+
+  private get failedRetryDelayMs(): number {
+    return this.options.failedRetryDelayMs ?? DEFAULT_FAILED_RETRY_DELAY_MS;
+  }
+
+  private get restLimit(): number {
+    return this.options.restLimit ?? DEFAULT_REST_LIMIT;
+  }
+
+  async scan(
+    targets: AggTradeGapTarget[],
+    shouldContinue: () => boolean = () => true
+  ): Promise<AggTradeGapScanSummary> {
+    const startedAt = Date.now();
+    const summary: AggTradeGapScanSummary = {
+      pairs: 0,
+      detectedGaps: 0,
+      repairedGaps: 0,
+      missingTrades: 0,
+      repairedTrades: 0,
+      durationMs: 0,
+    };
+
+    // これより後に試行して failed となった区間は再試行待ちとして走査・補完の対象外にする
+    const failedRetryBefore = startedAt - this.failedRetryDelayMs;
+
+    for (const target of targets) {
+      if (!shouldContinue()) {
+        break;
+      }
+      summary.pairs += 1;
+
+      let gaps: AggTradeGap[];
+      try {
+        gaps = await this.db.findAggTradeGaps(target.asset, target.symbol, target.marketType, {
+          sinceTradeTime: startedAt - this.scanLookbackMs,
+          limit: this.maxGapsPerPair,
+          excludeFailedAttemptedAfter: failedRetryBefore,
+        });
+      } catch (error) {
+        logger.error('Failed to scan agg trade gaps', {
+          target,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+        continue;
+      }
+
+      for (const gap of gaps) {
+        if (!shouldContinue()) {
+          break;
+        }
+
+        const entry = await this.db.recordAggTradeGap(target.asset, gap);
+        if (entry.attempts === 0) {
+          summary.detectedGaps += 1;
+          summary.missingTrades += entry.missingCount;
+        }
+        if (entry.status === 'failed' && (entry.lastAttemptAt ?? 0) > failedRetryBefore) {
+          continue;
+        }
+
+        const repaired = await this.repairGap(target, gap.startTradeId, gap.endTradeId);
+        const remaining = gap.missingCount - repaired.count;
+        let status: AggTradeGapStatus;
+        if (remaining <= 0) {
+          status = 'repaired';
+        } else if (entry.attempts + 1 >= this.maxAttempts) {
+          status = 'failed';
+        } else {
+          status = repaired.count > 0 ? 'partial' : 'open';
+        }
+
+        const update: { status: AggTradeGapStatus; repairedCount: number; error?: string } = {
+          status,
+          repairedCount: repaired.count,
+        };
+        if (repaired.error) {
+          update.error = repaired.error;
+        }
+        await this.db.updateAggTradeGap(target.asset, entry.id, update);
+
+        summary.repairedTrades += repaired.count;
+        if (status === 'repaired') {
+          summary.repairedGaps += 1;
+          this.emit(
+            'gapRepaired',
+            { ...entry, status, repairedCount: entry.repairedCount + repaired.count },
+            target.asset
+          );
+        } else {
+          logger.warn('AggTrade gap not fully repaired', {
+            symbol: target.symbol,
+            marketType: target.marketType,
+            startTradeId: gap.startTradeId,
+            endTradeId: gap.endTradeId,
+            repaired: repaired.count,
+            status,
+          });
+        }
+      }
+    }
+
+    summary.durationMs = Date.now() - startedAt;
+    this.emit('scanCompleted', summary);
+    return summary;
+  }
+
+  /**
+   * startTradeId から endTradeId までを fromId でページングして保存し、区間内で取得できた件数を返す
+   */
+  private async repairGap(
+    target: AggTradeGapTarget,
+    startTradeId: number,
+    endTradeId: number
+  ): Promise<{ count: number; error?: string }> {
+    let fromId = startTradeId;
+    let count = 0;
+    let iterations = 0;
+
+    while (fromId <= endTradeId && iterations < MAX_REST_ITERATIONS) {
+      iterations += 1;
+      const limit = Math.min(this.restLimit, endTradeId - fromId + 1);
+
+      let trades: AggTrade[];
+      try {
+        trades = await this.restClient.fetchAggTrades(target.symbol, target.marketType, {
+          fromId,
+          limit,
+        });
+      } catch (error) {
+        logger.error('Failed to fetch agg trades for gap repair', {
+          target,
+          fromId,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+        return { count, error: (error as Error).message };
+      }
+
+      const inRange = trades.filter(
+        (trade) => trade.tradeId >= fromId && trade.tradeId <= endTradeId
+      );
+      if (inRange.length === 0) {
+        break;
+      }
+
+      try {
+        const contractSize = target.contractSize;
+        await this.db.saveAggTrades(
+          target.asset,
+          contractSize !== undefined ? inRange.map((trade) => ({ ...trade, contractSize })) : inRange
+        );
+      } catch (error) {
+        logger.error('Failed to persist repaired agg trades', {
+          target,
+          fromId,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+        return { count, error: (error as Error).message };
+      }
+
+      count += inRange.length;
+      fromId = inRange[inRange.length - 1]!.tradeId + 1;
+    }
+
+    return { count };
+  }
+}
@@ -110,7 +110,11 @@ export class AlertQueueProcessor extends EventEmitter {
     await this.databaseManager.markAlertAttempt(record.id);
 
     try {
-      await this.alertService.sendCvdAlert(record.payload);
+      if (record.alertType === 'LIQUIDATION_SPIKE') {
+        await this.alertService.sendLiquidationAlert(record.payload);
+      } else {
+        await this.alertService.sendCvdAlert(record.payload);
+      }
       await this.databaseManager.markAlertProcessed(record.id);
       this.emit('alertSent', record);
     } catch (error) {
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import axios from 'axios';
 import { IAlertService, IDatabaseManager } from './interfaces';
+import { LiquidationAlertPayload } from '../types';
 import { logger } from '../utils/logger';
 
 export interface AlertServiceOptions {
@@ -11,6 +12,7 @@ export interface AlertServiceOptions {
 }
 
 const ALERT_EMOJI = '🟡';
+const LIQUIDATION_ALERT_EMOJI = '🔴';
 const JST_FORMATTER = new Intl.DateTimeFormat('ja-JP', {
   timeZone: 'Asia/Tokyo',
   year: 'numeric',
@@ -36,6 +38,7 @@ export declare interface AlertService {
       triggerZScore: number;
     }) => void
   ): this;
+  on(event: 'liquidationAlertSent', listener: (payload: LiquidationAlertPayload) => void): this;
   on(event: 'alertFailed', listener: (error: Error) => void): this;
 }
 
@@ -108,6 +111,37 @@ export class AlertService extends EventEmitter implements IAlertService {
     this.emit('alertSent', payload);
   }
 
+  async sendLiquidationAlert(payload: LiquidationAlertPayload): Promise<void> {
+    const sideLabel = payload.side === 'long' ? 'ロング清算' : 'ショート清算';
+    const formattedTime = JST_FORMATTER.format(new Date(payload.timestamp));
+
+    const message = [
+      `${LIQUIDATION_ALERT_EMOJI}【Binance Liquidation Alert】${payload.symbol} (${payload.marketType})`,
+      `時間: ${formattedTime} (${payload.interval} 足)`,
+      `種別: ${sideLabel}`,
+      `清算額: ${this.formatNotional(payload.notional)} USD`,
+      `内訳: ロング ${this.formatNotional(payload.longNotional)} / ショート ${this.formatNotional(payload.shortNotional)}`,
+      `Zスコア: ${payload.zScore.toFixed(2)} / 閾値: ${payload.threshold}`,
+    ].join('\n');
+
+    await this.postWithRetry({ content: message });
+
+    await this.databaseManager.saveAlertHistory({
+      alertType: 'LIQUIDATION_SPIKE',
+      symbol: payload.symbol,
+      timestamp: payload.timestamp,
+      value: payload.zScore,
+      threshold: payload.threshold,
+      message,
+    });
+
+    this.emit('liquidationAlertSent', payload);
+  }
+
+  private formatNotional(value: number): string {
+    return Math.round(value).toLocaleString('en-US');
+  }
+
   private async postWithRetry(body: unknown): Promise<void> {
     let attempt = 0;
     let lastError: unknown;
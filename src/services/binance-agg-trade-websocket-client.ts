@@ -0,0 +1,202 @@
+import { EventEmitter } from 'events';
+import { AggTrade, WebSocketAggTradePayload } from '../types';
+import { logger } from '../utils/logger';
+import {
+  BinanceStreamContext,
+  BinanceStreamHandler,
+  BinanceStreamManager,
+} from './binance-stream-manager';
+
+type AggTradeMarket = AggTrade['marketType'];
+
+export interface BinanceAggTradeSubscription {
+  symbol: string;
+  marketType: AggTradeMarket;
+}
+
+export interface BinanceAggTradeWebSocketClientOptions {
+  spotUrl: string;
+  usdMUrl: string;
+  coinMUrl: string;
+  subscriptions: BinanceAggTradeSubscription[];
+  /** 省略時はクライアント専用のストリームマネージャーを生成する */
+  streamManager?: BinanceStreamManager;
+  /** 専用のストリームマネージャーを生成する場合の 1 接続あたり最大ストリーム数 */
+  maxStreamsPerConnection?: number;
+  reconnectDelayMs?: number;
+  heartbeatIntervalMs?: number;
+}
+
+export declare interface BinanceAggTradeWebSocketClient {
+  on(event: 'aggTrade', listener: (trade: AggTrade) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(
+    event: 'connected',
+    listener: (market: AggTradeMarket, connectionId: number, subscriptions: BinanceAggTradeSubscription[]) => void
+  ): this;
+  on(
+    event: 'disconnected',
+    listener: (
+      market: AggTradeMarket,
+      connectionId: number,
+      code: number,
+      reason: string,
+      subscriptions: BinanceAggTradeSubscription[]
+    ) => void
+  ): this;
+}
+
+/**
+ * CoinMarketCap 上位銘柄の Spot / USDT-M / COIN-M ペアを @aggTrade で購読する WebSocket クライアント
+ * 接続管理は BinanceStreamManager に委ね、接続イベントには当該接続に載っていた購読だけを添えて通知する
+ */
+export class BinanceAggTradeWebSocketClient extends EventEmitter {
+  private readonly manager: BinanceStreamManager;
+  private readonly streams: Map<AggTradeMarket, Map<string, BinanceAggTradeSubscription>>;
+  private readonly handler: BinanceStreamHandler = (data, context) => this.handleMessage(context, data);
+  private attached = false;
+
+  constructor(options: BinanceAggTradeWebSocketClientOptions) {
+    super();
+    this.streams = this.groupSubscriptions(options.subscriptions);
+    this.manager =
+      options.streamManager ??
+      new BinanceStreamManager({
+        spotUrl: options.spotUrl,
+        usdMUrl: options.usdMUrl,
+        coinMUrl: options.coinMUrl,
+        ...(options.maxStreamsPerConnection !== undefined
+          ? { maxStreamsPerConnection: options.maxStreamsPerConnection }
+          : {}),
+        ...(options.reconnectDelayMs !== undefined ? { reconnectDelayMs: options.reconnectDelayMs } : {}),
+        ...(options.heartbeatIntervalMs !== undefined
+          ? { heartbeatIntervalMs: options.heartbeatIntervalMs }
+          : {}),
+      });
+  }
+
+  async connect(): Promise<void> {
+    this.attachManagerEvents();
+    await Promise.all(
+      Array.from(this.streams.entries())
+        .filter(([, streams]) => streams.size > 0)
+        .map(([market, streams]) => this.manager.subscribe(market, Array.from(streams.keys()), this.handler))
+    );
+  }
+
+  disconnect(): void {
+    this.detachManagerEvents();
+    for (const [market, streams] of this.streams) {
+      this.manager.unsubscribe(market, Array.from(streams.keys()), this.handler);
+    }
+  }
+
+  private groupSubscriptions(
+    subscriptions: BinanceAggTradeSubscription[]
+  ): Map<AggTradeMarket, Map<string, BinanceAggTradeSubscription>> {
+    const byMarket = new Map<AggTradeMarket, Map<string, BinanceAggTradeSubscription>>([
+      ['SPOT', new Map()],
+      ['USDT-M', new Map()],
+      ['COIN-M', new Map()],
+    ]);
+
+    for (const subscription of subscriptions) {
+      const streams = byMarket.get(subscription.marketType);
+      if (!streams) {
+        logger.warn('Unsupported market for aggTrade WebSocket subscription', subscription);
+        continue;
+      }
+      const symbol = subscription.symbol.toUpperCase();
+      streams.set(`${symbol.toLowerCase()}@aggTrade`, { symbol, marketType: subscription.marketType });
+    }
+
+    return byMarket;
+  }
+
+  private readonly onConnected = (market: AggTradeMarket, connectionId: number, streams: string[]): void => {
+    const owned = this.ownedSubscriptions(market, streams);
+    if (owned.length > 0) {
+      this.emit('connected', market, connectionId, owned);
+    }
+  };
+
+  private readonly onDisconnected = (
+    market: AggTradeMarket,
+    connectionId: number,
+    code: number,
+    reason: string,
+    streams: string[]
+  ): void => {
+    const owned = this.ownedSubscriptions(market, streams);
+    if (owned.length > 0) {
+      this.emit('disconnected', market, connectionId, code, reason, owned);
+    }
+  };
+
+  private readonly onError = (error: Error): void => {
+    this.emit('error', error);
+  };
+
+  private attachManagerEvents(): void {
+    if (this.attached) {
+      return;
+    }
+    this.attached = true;
+    this.manager.on('connected', this.onConnected);
+    this.manager.on('disconnected', this.onDisconnected);
+    this.manager.on('error', this.onError);
+  }
+
+  private detachManagerEvents(): void {
+    if (!this.attached) {
+      return;
+    }
+    this.attached = false;
+    this.manager.off('connected', this.onConnected);
+    this.manager.off('disconnected', this.onDisconnected);
+    this.manager.off('error', this.onError);
+  }
+
+  private ownedSubscriptions(market: AggTradeMarket, streams: string[]): BinanceAggTradeSubscription[] {
+    const owned = this.streams.get(market);
+    if (!owned) {
+      return [];
+    }
+    return streams.flatMap((stream) => {
+      const subscription = owned.get(stream);
+      return subscription ? [subscription] : [];
+    });
+  }
+
+  private handleMessage(context: BinanceStreamContext, payload: any): void {
+    const data = payload as WebSocketAggTradePayload['data'] | undefined;
+    if (!data || typeof data !== 'object' || data.e !== 'aggTrade' || typeof data.s !== 'string') {
+      return;
+    }
+
+    const trade: AggTrade = {
+      symbol: data.s,
+      marketType: context.marketType,
+      tradeId: Number(data.a),
+      price: Number(data.p),
+      quantity: Number(data.q),
+      firstTradeId: Number(data.f),
+      lastTradeId: Number(data.l),
+      tradeTime: Number(data.T),
+      isBuyerMaker: Boolean(data.m),
+      isBestMatch: Boolean(data.M),
+      source: 'ws',
+    };
+
+    if (
+      !Number.isFinite(trade.tradeId) ||
+      !Number.isFinite(trade.price) ||
+      !Number.isFinite(trade.quantity) ||
+      !Number.isFinite(trade.tradeTime)
+    ) {
+      return;
+    }
+
+    this.emit('aggTrade', trade);
+  }
+}
@@ -0,0 +1,188 @@
+import { EventEmitter } from 'events';
+import { DepthDiffEvent, DepthStreamConfig, MarketType, OrderBookLevel } from '../types';
+import {
+  BinanceStreamContext,
+  BinanceStreamHandler,
+  BinanceStreamManager,
+} from './binance-stream-manager';
+
+export interface BinanceDepthWebSocketClientOptions {
+  spotUrl: string;
+  usdMUrl: string;
+  coinMUrl: string;
+  subscriptions: DepthStreamConfig[];
+  /** 省略時はクライアント専用のストリームマネージャーを生成する */
+  streamManager?: BinanceStreamManager;
+}
+
+export declare interface BinanceDepthWebSocketClient {
+  on(event: 'depth', listener: (event: DepthDiffEvent) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(event: 'connected', listener: (market: MarketType, connectionId: number, symbols: string[]) => void): this;
+  on(
+    event: 'disconnected',
+    listener: (market: MarketType, connectionId: number, code: number, reason: string, symbols: string[]) => void
+  ): this;
+}
+
+const DEPTH_STREAM_SUFFIX = '@depth@100ms';
+
+/**
+ * @depth@100ms の差分ストリームを購読する WebSocket クライアント
+ * 接続の開閉は購読しているシンボル単位で通知し、呼び出し側が該当する板だけを取り直せるようにする
+ */
+export class BinanceDepthWebSocketClient extends EventEmitter {
+  private readonly manager: BinanceStreamManager;
+  private readonly streams: Map<MarketType, string[]>;
+  private readonly handler: BinanceStreamHandler = (data, context) => this.handleMessage(context, data);
+  private attached = false;
+
+  constructor(options: BinanceDepthWebSocketClientOptions) {
+    super();
+
+    this.streams = this.groupSubscriptions(options.subscriptions);
+    this.manager =
+      options.streamManager ??
+      new BinanceStreamManager({
+        spotUrl: options.spotUrl,
+        usdMUrl: options.usdMUrl,
+        coinMUrl: options.coinMUrl,
+      });
+  }
+
+  async connect(): Promise<void> {
+    this.attachManagerEvents();
+    await Promise.all(
+      Array.from(this.streams.entries()).map(([market, streams]) =>
+        this.manager.subscribe(market, streams, this.handler)
+      )
+    );
+  }
+
+  disconnect(): void {
+    this.detachManagerEvents();
+    for (const [market, streams] of this.streams) {
+      this.manager.unsubscribe(market, streams, this.handler);
+    }
+  }
+
+  getStreamNames(): string[] {
+    return Array.from(this.streams.values()).flat();
+  }
+
+  private groupSubscriptions(subscriptions: DepthStreamConfig[]): Map<MarketType, string[]> {
+    const byMarket = new Map<MarketType, string[]>();
+
+    for (const subscription of subscriptions) {
+      const stream = `${subscription.symbol.toLowerCase()}${DEPTH_STREAM_SUFFIX}`;
+      const streams = byMarket.get(subscription.marketType) ?? [];
+      if (!streams.includes(stream)) {
+        streams.push(stream);
+      }
+      byMarket.set(subscription.marketType, streams);
+    }
+
+    return byMarket;
+  }
+
+  private readonly onConnected = (market: MarketType, connectionId: number, streams: string[]): void => {
+    const symbols = this.ownedSymbols(market, streams);
+    if (symbols.length > 0) {
+      this.emit('connected', market, connectionId, symbols);
+    }
+  };
+
+  private readonly onDisconnected = (
+    market: MarketType,
+    connectionId: number,
+    code: number,
+    reason: string,
+    streams: string[]
+  ): void => {
+    const symbols = this.ownedSymbols(market, streams);
+    if (symbols.length > 0) {
+      this.emit('disconnected', market, connectionId, code, reason, symbols);
+    }
+  };
+
+  private readonly onError = (error: Error): void => {
+    this.emit('error', error);
+  };
+
+  private attachManagerEvents(): void {
+    if (this.attached) {
+      return;
+    }
+    this.attached = true;
+    this.manager.on('connected', this.onConnected);
+    this.manager.on('disconnected', this.onDisconnected);
+    this.manager.on('error', this.onError);
+  }
+
+  private detachManagerEvents(): void {
+    if (!this.attached) {
+      return;
+    }
+    this.attached = false;
+    this.manager.off('connected', this.onConnected);
+    this.manager.off('disconnected', this.onDisconnected);
+    this.manager.off('error', this.onError);
+  }
+
+  private ownedSymbols(market: MarketType, streams: string[]): string[] {
+    const owned = this.streams.get(market);
+    if (!owned) {
+      return [];
+    }
+    return streams
+      .filter((stream) => owned.includes(stream))
+      .map((stream) => stream.slice(0, -DEPTH_STREAM_SUFFIX.length).toUpperCase());
+  }
+
+  private handleMessage(context: BinanceStreamContext, data: any): void {
+    if (!data || typeof data !== 'object' || data.e !== 'depthUpdate') {
+      return;
+    }
+
+    const symbol = typeof data.s === 'string' ? data.s : undefined;
+    const firstUpdateId = Number(data.U);
+    const finalUpdateId = Number(data.u);
+    const eventTime = Number(data.E);
+    if (!symbol || !Number.isFinite(firstUpdateId) || !Number.isFinite(finalUpdateId)) {
+      return;
+    }
+
+    const event: DepthDiffEvent = {
+      symbol,
+      marketType: context.marketType,
+      eventTime: Number.isFinite(eventTime) ? eventTime : Date.now(),
+      firstUpdateId,
+      finalUpdateId,
+      bids: this.parseLevels(data.b),
+      asks: this.parseLevels(data.a),
+    };
+    if (data.pu !== undefined && Number.isFinite(Number(data.pu))) {
+      event.previousFinalUpdateId = Number(data.pu);
+    }
+
+    this.emit('depth', event);
+  }
+
+  private parseLevels(raw: unknown): OrderBookLevel[] {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+    const levels: OrderBookLevel[] = [];
+    for (const entry of raw) {
+      if (!Array.isArray(entry)) {
+        continue;
+      }
+      const price = Number(entry[0]);
+      const quantity = Number(entry[1]);
+      if (Number.isFinite(price) && Number.isFinite(quantity)) {
+        levels.push([price, quantity]);
+      }
+    }
+    return levels;
+  }
+}
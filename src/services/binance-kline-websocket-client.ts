@@ -0,0 +1,213 @@
+import { EventEmitter } from 'events';
+import { MarketType, OHLCVData, WebSocketKlinePayload } from '../types';
+import { logger } from '../utils/logger';
+import {
+  BinanceStreamContext,
+  BinanceStreamHandler,
+  BinanceStreamManager,
+} from './binance-stream-manager';
+
+export interface BinanceKlineWebSocketClientOptions {
+  spotUrl: string;
+  usdMUrl: string;
+  coinMUrl: string;
+  /** 省略時はクライアント専用のストリームマネージャーを生成する */
+  streamManager?: BinanceStreamManager;
+  /** 専用のストリームマネージャーを生成する場合の 1 接続あたり最大ストリーム数 */
+  maxStreamsPerConnection?: number;
+  reconnectDelayMs?: number;
+  heartbeatIntervalMs?: number;
+}
+
+export interface BinanceKlineEvent {
+  marketType: MarketType;
+  isClosed: boolean;
+  kline: OHLCVData;
+}
+
+export declare interface BinanceKlineWebSocketClient {
+  on(event: 'kline', listener: (payload: BinanceKlineEvent) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(event: 'connected', listener: (market: MarketType, connectionId: number) => void): this;
+  on(
+    event: 'disconnected',
+    listener: (market: MarketType, connectionId: number, code: number, reason: string) => void
+  ): this;
+}
+
+const DEFAULT_MAX_STREAMS_PER_CONNECTION = 300;
+const KLINE_STREAM_SUFFIX = '@kline_1m';
+
+/**
+ * Binance の 1 分足 kline WebSocket クライアント
+ * 接続管理とシャーディングは BinanceStreamManager に委ね、市場ごとのシンボル集合の差分だけを購読・解除する
+ */
+export class BinanceKlineWebSocketClient extends EventEmitter {
+  private readonly manager: BinanceStreamManager;
+  private readonly symbols = new Map<MarketType, string[]>();
+  private readonly handler: BinanceStreamHandler = (data, context) => this.handleMessage(context, data);
+  private attached = false;
+  private active = false;
+
+  constructor(options: BinanceKlineWebSocketClientOptions) {
+    super();
+    this.manager =
+      options.streamManager ??
+      new BinanceStreamManager({
+        spotUrl: options.spotUrl,
+        usdMUrl: options.usdMUrl,
+        coinMUrl: options.coinMUrl,
+        maxStreamsPerConnection: options.maxStreamsPerConnection ?? DEFAULT_MAX_STREAMS_PER_CONNECTION,
+        ...(options.reconnectDelayMs !== undefined ? { reconnectDelayMs: options.reconnectDelayMs } : {}),
+        ...(options.heartbeatIntervalMs !== undefined
+          ? { heartbeatIntervalMs: options.heartbeatIntervalMs }
+          : {}),
+      });
+  }
+
+  async connect(): Promise<void> {
+    this.active = true;
+    this.attachManagerEvents();
+    await Promise.all(
+      Array.from(this.symbols.entries())
+        .filter(([, symbols]) => symbols.length > 0)
+        .map(([market, symbols]) => this.manager.subscribe(market, this.toStreams(symbols), this.handler))
+    );
+  }
+
+  disconnect(): void {
+    this.active = false;
+    this.detachManagerEvents();
+    for (const [market, symbols] of this.symbols) {
+      this.manager.unsubscribe(market, this.toStreams(symbols), this.handler);
+    }
+  }
+
+  getSubscribedSymbols(market: MarketType): string[] {
+    return [...(this.symbols.get(market) ?? [])];
+  }
+
+  /**
+   * 市場のシンボル集合を差し替える。接続中は追加分を SUBSCRIBE、削除分を UNSUBSCRIBE するだけで、
+   * 既存の接続は張り直さない。
+   */
+  async setSymbols(market: MarketType, symbols: string[]): Promise<void> {
+    const current = this.symbols.get(market) ?? [];
+    const desired = Array.from(new Set(symbols.map((symbol) => symbol.toUpperCase()))).sort();
+    const desiredSet = new Set(desired);
+    const currentSet = new Set(current);
+    const removed = current.filter((symbol) => !desiredSet.has(symbol));
+    const added = desired.filter((symbol) => !currentSet.has(symbol));
+    this.symbols.set(market, desired);
+
+    if (!this.active || (removed.length === 0 && added.length === 0)) {
+      return;
+    }
+
+    logger.info(`Updating Binance kline subscriptions (${market})`, {
+      added: added.length,
+      removed: removed.length,
+      symbols: desired.length,
+    });
+
+    if (removed.length > 0) {
+      this.manager.unsubscribe(market, this.toStreams(removed), this.handler);
+    }
+    if (added.length > 0) {
+      await this.manager.subscribe(market, this.toStreams(added), this.handler);
+    }
+  }
+
+  private toStreams(symbols: string[]): string[] {
+    return symbols.map((symbol) => `${symbol.toLowerCase()}${KLINE_STREAM_SUFFIX}`);
+  }
+
+  private readonly onConnected = (market: MarketType, connectionId: number, streams: string[]): void => {
+    if (this.ownsAny(market, streams)) {
+      this.emit('connected', market, connectionId);
+    }
+  };
+
+  private readonly onDisconnected = (
+    market: MarketType,
+    connectionId: number,
+    code: number,
+    reason: string,
+    streams: string[]
+  ): void => {
+    if (this.ownsAny(market, streams)) {
+      this.emit('disconnected', market, connectionId, code, reason);
+    }
+  };
+
+  private readonly onError = (error: Error): void => {
+    this.emit('error', error);
+  };
+
+  private attachManagerEvents(): void {
+    if (this.attached) {
+      return;
+    }
+    this.attached = true;
+    this.manager.on('connected', this.onConnected);
+    this.manager.on('disconnected', this.onDisconnected);
+    this.manager.on('error', this.onError);
+  }
+
+  private detachManagerEvents(): void {
+    if (!this.attached) {
+      return;
+    }
+    this.attached = false;
+    this.manager.off('connected', this.onConnected);
+    this.manager.off('disconnected', this.onDisconnected);
+    this.manager.off('error', this.onError);
+  }
+
+  private ownsAny(market: MarketType, streams: string[]): boolean {
+    const owned = this.symbols.get(market);
+    if (!owned || owned.length === 0) {
+      return false;
+    }
+    const ownedStreams = new Set(this.toStreams(owned));
+    return streams.some((stream) => ownedStreams.has(stream));
+  }
+
+  private handleMessage(context: BinanceStreamContext, payload: any): void {
+    const data = payload as WebSocketKlinePayload['data'] | undefined;
+    if (!data || typeof data !== 'object' || data.e !== 'kline' || !data.k) {
+      return;
+    }
+
+    const k = data.k;
+    const symbol = typeof k.s === 'string' ? k.s : data.s;
+    if (!symbol) {
+      return;
+    }
+
+    const kline: OHLCVData = {
+      symbol,
+      marketType: context.marketType,
+      interval: '1m',
+      openTime: Number(k.t),
+      closeTime: Number(k.T),
+      open: Number(k.o),
+      high: Number(k.h),
+      low: Number(k.l),
+      close: Number(k.c),
+      volume: Number(k.v),
+      quoteVolume: Number(k.q),
+      trades: Number(k.n),
+    };
+
+    if (!Number.isFinite(kline.openTime) || !Number.isFinite(kline.close)) {
+      return;
+    }
+
+    this.emit('kline', {
+      marketType: context.marketType,
+      isClosed: k.x === true,
+      kline,
+    });
+  }
+}
@@ -1,7 +1,10 @@
 import { EventEmitter } from 'events';
-import WebSocket from 'ws';
 import { MarketType } from '../types';
-import { logger } from '../utils/logger';
+import {
+  BinanceStreamContext,
+  BinanceStreamHandler,
+  BinanceStreamManager,
+} from './binance-stream-manager';
 
 export interface BinanceLiquidationSubscription {
   symbol: string;
@@ -12,6 +15,10 @@ export interface BinanceLiquidationWebSocketClientOptions {
   usdMUrl: string;
   coinMUrl: string;
   subscriptions: BinanceLiquidationSubscription[];
+  /** 指定した市場は銘柄別ストリームの代わりに全銘柄ストリーム (!forceOrder@arr) を購読する */
+  allMarketStreams?: Array<Extract<MarketType, 'USDT-M' | 'COIN-M'>>;
+  /** 省略時はクライアント専用のストリームマネージャーを生成する */
+  streamManager?: BinanceStreamManager;
   reconnectDelayMs?: number;
   heartbeatIntervalMs?: number;
 }
@@ -36,86 +43,99 @@ export interface BinanceForceOrderEvent {
   orderId?: string;
 }
 
-interface MarketConnection {
-  marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'>;
-  baseUrl: string;
+type LiquidationMarket = Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+
+export type BinanceLiquidationConnectionSymbols = string[] | 'ALL';
+
+interface MarketSubscriptions {
+  marketType: LiquidationMarket;
   subscriptions: BinanceLiquidationSubscription[];
-  ws: WebSocket | null;
-  reconnectTimer: NodeJS.Timeout | null;
-  heartbeatTimer: NodeJS.Timeout | null;
-  ready: boolean;
+  allSymbols: boolean;
 }
 
 export declare interface BinanceLiquidationWebSocketClient {
   on(event: 'liquidation', listener: (payload: BinanceForceOrderEvent) => void): this;
   on(event: 'error', listener: (error: Error) => void): this;
-  on(event: 'connected', listener: (market: MarketType) => void): this;
-  on(event: 'disconnected', listener: (market: MarketType, code: number, reason: string) => void): this;
+  /** symbols は当該接続に載っている購読銘柄 (全銘柄ストリームの場合は 'ALL') */
+  on(
+    event: 'connected',
+    listener: (market: MarketType, connectionId: number, symbols: BinanceLiquidationConnectionSymbols) => void
+  ): this;
+  on(
+    event: 'disconnected',
+    listener: (
+      market: MarketType,
+      connectionId: number,
+      code: number,
+      reason: string,
+      symbols: BinanceLiquidationConnectionSymbols
+    ) => void
+  ): this;
 }
 
-const DEFAULT_RECONNECT_DELAY_MS = 5_000;
-const DEFAULT_HEARTBEAT_INTERVAL_MS = 30_000;
+const ALL_MARKET_STREAM = '!forceOrder@arr';
 
+/**
+ * Binance 先物の forceOrder (清算) ストリームを購読する WebSocket クライアント
+ * 接続管理は BinanceStreamManager に委ねる
+ */
 export class BinanceLiquidationWebSocketClient extends EventEmitter {
-  private readonly connections: MarketConnection[];
-  private readonly reconnectDelayMs: number;
-  private readonly heartbeatIntervalMs: number;
+  private readonly manager: BinanceStreamManager;
+  private readonly markets: MarketSubscriptions[];
+  private readonly handler: BinanceStreamHandler = (data, context) => this.handleMessage(context, data);
+  private attached = false;
 
   constructor(options: BinanceLiquidationWebSocketClientOptions) {
     super();
 
-    this.reconnectDelayMs = options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
-    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
-    this.connections = this.groupSubscriptions(options);
+    this.markets = this.groupSubscriptions(options);
+    this.manager =
+      options.streamManager ??
+      new BinanceStreamManager({
+        usdMUrl: options.usdMUrl,
+        coinMUrl: options.coinMUrl,
+        ...(options.reconnectDelayMs !== undefined ? { reconnectDelayMs: options.reconnectDelayMs } : {}),
+        ...(options.heartbeatIntervalMs !== undefined
+          ? { heartbeatIntervalMs: options.heartbeatIntervalMs }
+          : {}),
+      });
   }
 
   async connect(): Promise<void> {
-    const tasks = this.connections
-      .filter((connection) => connection.subscriptions.length > 0)
-      .map((connection) => this.connectMarket(connection));
-
-    await Promise.all(tasks);
+    this.attachManagerEvents();
+    await Promise.all(
+      this.markets
+        .filter((market) => this.hasStreams(market))
+        .map((market) => this.manager.subscribe(market.marketType, this.buildStreams(market), this.handler))
+    );
   }
 
   disconnect(): void {
-    for (const connection of this.connections) {
-      this.clearTimers(connection);
-      if (connection.ws) {
-        connection.ws.removeAllListeners();
-        connection.ws.close();
-        connection.ws = null;
-      }
-      connection.ready = false;
+    this.detachManagerEvents();
+    for (const market of this.markets) {
+      this.manager.unsubscribe(market.marketType, this.buildStreams(market), this.handler);
     }
   }
 
   private groupSubscriptions(
     options: BinanceLiquidationWebSocketClientOptions
-  ): MarketConnection[] {
-    const byMarket: Record<'USDT-M' | 'COIN-M', MarketConnection> = {
-      'USDT-M': {
-        marketType: 'USDT-M',
-        baseUrl: options.usdMUrl,
-        subscriptions: [],
-        ws: null,
-        reconnectTimer: null,
-        heartbeatTimer: null,
-        ready: false,
-      },
-      'COIN-M': {
-        marketType: 'COIN-M',
-        baseUrl: options.coinMUrl,
-        subscriptions: [],
-        ws: null,
-        reconnectTimer: null,
-        heartbeatTimer: null,
-        ready: false,
-      },
+  ): MarketSubscriptions[] {
+    const byMarket: Record<LiquidationMarket, MarketSubscriptions> = {
+      'USDT-M': { marketType: 'USDT-M', subscriptions: [], allSymbols: false },
+      'COIN-M': { marketType: 'COIN-M', subscriptions: [], allSymbols: false },
     };
 
+    for (const market of options.allMarketStreams ?? []) {
+      const bucket = byMarket[market];
+      if (bucket) {
+        bucket.allSymbols = true;
+      }
+    }
+
     for (const subscription of options.subscriptions) {
       const bucket = byMarket[subscription.marketType];
-      if (!bucket) {
+      // 全銘柄ストリームを購読する市場では銘柄別ストリームは重複になるため追加しない
+      if (!bucket || bucket.allSymbols) {
         continue;
       }
 
@@ -131,79 +151,81 @@ export class BinanceLiquidationWebSocketClient extends EventEmitter {
     return Object.values(byMarket);
   }
 
-  private connectMarket(connection: MarketConnection): Promise<void> {
-    if (connection.subscriptions.length === 0) {
-      return Promise.resolve();
-    }
+  getStreamNames(): string[] {
+    return this.markets.flatMap((market) => this.buildStreams(market));
+  }
 
-    const url = this.buildUrl(connection);
-
-    return new Promise((resolve, reject) => {
-      const ws = new WebSocket(url);
-      connection.ws = ws;
-      connection.ready = false;
-
-      const onOpen = (): void => {
-        connection.ready = true;
-        this.startHeartbeat(connection);
-        this.emit('connected', connection.marketType);
-        logger.info(`Binance liquidation WS connected (${connection.marketType})`, { url });
-        resolve();
-      };
-
-      const onError = (error: Error): void => {
-        this.emit('error', error);
-        if (!connection.ready) {
-          reject(error);
-        } else {
-          logger.error(`Binance liquidation WS error (${connection.marketType})`, error);
-        }
-      };
-
-      const onClose = (code: number, reasonBuffer: Buffer): void => {
-        const reason = reasonBuffer.toString() || 'unknown';
-        this.emit('disconnected', connection.marketType, code, reason);
-        logger.warn(`Binance liquidation WS disconnected (${connection.marketType})`, {
-          code,
-          reason,
-        });
-        this.clearTimers(connection);
-        connection.ready = false;
-        if (code !== 1000) {
-          this.scheduleReconnect(connection);
-        }
-      };
-
-      const onMessage = (data: WebSocket.RawData): void => {
-        this.handleMessage(connection, data);
-      };
-
-      ws.on('open', onOpen);
-      ws.on('error', onError);
-      ws.on('close', onClose);
-      ws.on('message', onMessage);
-    });
+  private hasStreams(market: MarketSubscriptions): boolean {
+    return market.allSymbols || market.subscriptions.length > 0;
   }
 
-  private buildUrl(connection: MarketConnection): string {
-    const streams = connection.subscriptions.map((sub) => `${sub.symbol.toLowerCase()}@forceOrder`);
-    const streamParam = streams.join('/');
-    if (connection.baseUrl.includes('?')) {
-      return `${connection.baseUrl}&streams=${streamParam}`;
+  private buildStreams(market: MarketSubscriptions): string[] {
+    if (market.allSymbols) {
+      return [ALL_MARKET_STREAM];
     }
-    return `${connection.baseUrl}?streams=${streamParam}`;
+    return market.subscriptions.map((sub) => `${sub.symbol.toLowerCase()}@forceOrder`);
   }
 
-  private handleMessage(connection: MarketConnection, payload: WebSocket.RawData): void {
-    let parsed: any;
-    try {
-      parsed = JSON.parse(payload.toString());
-    } catch (error) {
-      logger.warn('Failed to parse Binance liquidation WS message', error);
+  private readonly onConnected = (market: MarketType, connectionId: number, streams: string[]): void => {
+    const symbols = this.ownedSymbols(market, streams);
+    if (symbols) {
+      this.emit('connected', market, connectionId, symbols);
+    }
+  };
+
+  private readonly onDisconnected = (
+    market: MarketType,
+    connectionId: number,
+    code: number,
+    reason: string,
+    streams: string[]
+  ): void => {
+    const symbols = this.ownedSymbols(market, streams);
+    if (symbols) {
+      this.emit('disconnected', market, connectionId, code, reason, symbols);
+    }
+  };
+
+  private readonly onError = (error: Error): void => {
+    this.emit('error', error);
+  };
+
+  private attachManagerEvents(): void {
+    if (this.attached) {
       return;
     }
+    this.attached = true;
+    this.manager.on('connected', this.onConnected);
+    this.manager.on('disconnected', this.onDisconnected);
+    this.manager.on('error', this.onError);
+  }
+
+  private detachManagerEvents(): void {
+    if (!this.attached) {
+      return;
+    }
+    this.attached = false;
+    this.manager.off('connected', this.onConnected);
+    this.manager.off('disconnected', this.onDisconnected);
+    this.manager.off('error', this.onError);
+  }
+
+  /** 接続に載っているストリームのうち自身の購読分を銘柄で返す。購読が含まれない場合は null */
+  private ownedSymbols(marketType: MarketType, streams: string[]): BinanceLiquidationConnectionSymbols | null {
+    const market = this.markets.find((candidate) => candidate.marketType === marketType);
+    if (!market) {
+      return null;
+    }
+    if (market.allSymbols) {
+      return streams.includes(ALL_MARKET_STREAM) ? 'ALL' : null;
+    }
+    const symbols = market.subscriptions
+      .filter((sub) => streams.includes(`${sub.symbol.toLowerCase()}@forceOrder`))
+      .map((sub) => sub.symbol);
+    return symbols.length > 0 ? symbols : null;
+  }
 
-    const data = parsed.data ?? parsed;
+  private handleMessage(context: BinanceStreamContext, data: any): void {
     if (!data || typeof data !== 'object') {
       return;
     }
@@ -236,7 +258,7 @@ export class BinanceLiquidationWebSocketClient extends EventEmitter {
       return Number.isFinite(num) ? num : undefined;
     };
 
-    const eventTime = toNumber(data.E) ?? toNumber(parsed.E);
+    const eventTime = toNumber(data.E);
     const tradeTime = toNumber(inner.T);
     const originalQuantity = toNumber(inner.q) ?? toNumber(inner.Q);
     const filledQuantity = toNumber(inner.z) ?? toNumber(inner.l) ?? toNumber(inner.q);
@@ -247,7 +269,7 @@ export class BinanceLiquidationWebSocketClient extends EventEmitter {
 
     const price = toNumber(inner.p) ?? toNumber(inner.L) ?? toNumber(inner.ap) ?? 0;
     const baseEvent: BinanceForceOrderEvent = {
-      marketType: connection.marketType,
+      marketType: context.marketType as LiquidationMarket,
       symbol,
       eventTime,
       side: sideRaw,
@@ -301,54 +323,5 @@ export class BinanceLiquidationWebSocketClient extends EventEmitter {
       baseEvent.orderId = orderId;
     }
     this.emit('liquidation', baseEvent);
-
-  }
-
-  private scheduleReconnect(connection: MarketConnection): void {
-    if (connection.reconnectTimer) {
-      return;
-    }
-
-    connection.reconnectTimer = setTimeout(() => {
-      connection.reconnectTimer = null;
-      logger.info(`Reconnecting Binance liquidation WS (${connection.marketType})`);
-      void this.connectMarket(connection).catch((error) => {
-        logger.error(`Failed to reconnect Binance liquidation WS (${connection.marketType})`, error);
-        this.scheduleReconnect(connection);
-      });
-    }, this.reconnectDelayMs);
-  }
-
-  private startHeartbeat(connection: MarketConnection): void {
-    this.clearHeartbeat(connection);
-    if (!connection.ws) {
-      return;
-    }
-
-    connection.heartbeatTimer = setInterval(() => {
-      if (!connection.ws || connection.ws.readyState !== WebSocket.OPEN) {
-        return;
-      }
-      try {
-        connection.ws.ping();
-      } catch (error) {
-        logger.warn(`Failed to send liquidation WS ping (${connection.marketType})`, error as Error);
-      }
-    }, this.heartbeatIntervalMs);
-  }
-
-  private clearTimers(connection: MarketConnection): void {
-    if (connection.reconnectTimer) {
-      clearTimeout(connection.reconnectTimer);
-      connection.reconnectTimer = null;
-    }
-    this.clearHeartbeat(connection);
-  }
-
-  private clearHeartbeat(connection: MarketConnection): void {
-    if (connection.heartbeatTimer) {
-      clearInterval(connection.heartbeatTimer);
-      connection.heartbeatTimer = null;
-    }
   }
 }
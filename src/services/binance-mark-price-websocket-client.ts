@@ -0,0 +1,198 @@
+import { EventEmitter } from 'events';
+import { MarkPriceUpdate, MarketType } from '../types';
+import {
+  BinanceStreamContext,
+  BinanceStreamHandler,
+  BinanceStreamManager,
+} from './binance-stream-manager';
+
+type MarkPriceMarket = MarkPriceUpdate['marketType'];
+
+export interface BinanceMarkPriceSubscription {
+  symbol: string;
+  marketType: MarkPriceMarket;
+}
+
+export interface BinanceMarkPriceWebSocketClientOptions {
+  usdMUrl: string;
+  coinMUrl: string;
+  subscriptions: BinanceMarkPriceSubscription[];
+  /** 指定した市場は銘柄別ストリームの代わりに全銘柄ストリーム (!markPrice@arr@1s) を購読する。COIN-M は非対応 */
+  allMarketStreams?: Array<Extract<MarketType, 'USDT-M'>>;
+  /** 省略時はクライアント専用のストリームマネージャーを生成する */
+  streamManager?: BinanceStreamManager;
+}
+
+export declare interface BinanceMarkPriceWebSocketClient {
+  on(event: 'markPrice', listener: (update: MarkPriceUpdate) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(event: 'connected', listener: (market: MarketType, connectionId: number) => void): this;
+  on(
+    event: 'disconnected',
+    listener: (market: MarketType, connectionId: number, code: number, reason: string) => void
+  ): this;
+}
+
+const ALL_MARKET_STREAM = '!markPrice@arr@1s';
+const SYMBOL_STREAM_SUFFIX = '@markPrice@1s';
+
+/**
+ * 先物のマーク価格・インデックス価格・予測資金調達率 (@markPrice@1s) を購読する WebSocket クライアント
+ * 接続管理は BinanceStreamManager に委ねる
+ */
+export class BinanceMarkPriceWebSocketClient extends EventEmitter {
+  private readonly manager: BinanceStreamManager;
+  private readonly streams: Map<MarkPriceMarket, string[]>;
+  private readonly handler: BinanceStreamHandler = (data, context) => this.handleMessage(context, data);
+  private attached = false;
+
+  constructor(options: BinanceMarkPriceWebSocketClientOptions) {
+    super();
+
+    this.streams = this.groupSubscriptions(options);
+    this.manager =
+      options.streamManager ??
+      new BinanceStreamManager({
+        usdMUrl: options.usdMUrl,
+        coinMUrl: options.coinMUrl,
+      });
+  }
+
+  async connect(): Promise<void> {
+    this.attachManagerEvents();
+    await Promise.all(
+      Array.from(this.streams.entries()).map(([market, streams]) =>
+        this.manager.subscribe(market, streams, this.handler)
+      )
+    );
+  }
+
+  disconnect(): void {
+    this.detachManagerEvents();
+    for (const [market, streams] of this.streams) {
+      this.manager.unsubscribe(market, streams, this.handler);
+    }
+  }
+
+  getStreamNames(): string[] {
+    return Array.from(this.streams.values()).flat();
+  }
+
+  private groupSubscriptions(options: BinanceMarkPriceWebSocketClientOptions): Map<MarkPriceMarket, string[]> {
+    const byMarket = new Map<MarkPriceMarket, string[]>();
+    const allMarkets = new Set<MarkPriceMarket>(options.allMarketStreams ?? []);
+
+    for (const market of allMarkets) {
+      byMarket.set(market, [ALL_MARKET_STREAM]);
+    }
+
+    for (const subscription of options.subscriptions) {
+      // 全銘柄ストリームを購読する市場では銘柄別ストリームは重複になるため追加しない
+      if (allMarkets.has(subscription.marketType)) {
+        continue;
+      }
+      const stream = `${subscription.symbol.toLowerCase()}${SYMBOL_STREAM_SUFFIX}`;
+      const streams = byMarket.get(subscription.marketType) ?? [];
+      if (!streams.includes(stream)) {
+        streams.push(stream);
+      }
+      byMarket.set(subscription.marketType, streams);
+    }
+
+    return byMarket;
+  }
+
+  private readonly onConnected = (market: MarketType, connectionId: number, streams: string[]): void => {
+    if (this.ownsAny(market, streams)) {
+      this.emit('connected', market, connectionId);
+    }
+  };
+
+  private readonly onDisconnected = (
+    market: MarketType,
+    connectionId: number,
+    code: number,
+    reason: string,
+    streams: string[]
+  ): void => {
+    if (this.ownsAny(market, streams)) {
+      this.emit('disconnected', market, connectionId, code, reason);
+    }
+  };
+
+  private readonly onError = (error: Error): void => {
+    this.emit('error', error);
+  };
+
+  private attachManagerEvents(): void {
+    if (this.attached) {
+      return;
+    }
+    this.attached = true;
+    this.manager.on('connected', this.onConnected);
+    this.manager.on('disconnected', this.onDisconnected);
+    this.manager.on('error', this.onError);
+  }
+
+  private detachManagerEvents(): void {
+    if (!this.attached) {
+      return;
+    }
+    this.attached = false;
+    this.manager.off('connected', this.onConnected);
+    this.manager.off('disconnected', this.onDisconnected);
+    this.manager.off('error', this.onError);
+  }
+
+  private ownsAny(market: MarketType, streams: string[]): boolean {
+    const owned = this.streams.get(market as MarkPriceMarket);
+    return owned !== undefined && streams.some((stream) => owned.includes(stream));
+  }
+
+  private handleMessage(context: BinanceStreamContext, data: any): void {
+    // 全銘柄ストリームは配列でまとめて届く
+    const entries: any[] = Array.isArray(data) ? data : [data];
+    for (const entry of entries) {
+      const update = this.parseUpdate(context.marketType as MarkPriceMarket, entry);
+      if (update) {
+        this.emit('markPrice', update);
+      }
+    }
+  }
+
+  private parseUpdate(marketType: MarkPriceMarket, data: any): MarkPriceUpdate | null {
+    if (!data || typeof data !== 'object' || data.e !== 'markPriceUpdate' || typeof data.s !== 'string') {
+      return null;
+    }
+
+    const eventTime = Number(data.E);
+    const markPrice = Number(data.p);
+    const indexPrice = Number(data.i);
+    const fundingRate = Number(data.r);
+    const nextFundingTime = Number(data.T);
+    if (
+      !Number.isFinite(eventTime) ||
+      !Number.isFinite(markPrice) ||
+      !Number.isFinite(indexPrice) ||
+      !Number.isFinite(fundingRate) ||
+      !Number.isFinite(nextFundingTime)
+    ) {
+      return null;
+    }
+
+    const update: MarkPriceUpdate = {
+      symbol: data.s,
+      marketType,
+      eventTime,
+      markPrice,
+      indexPrice,
+      fundingRate,
+      nextFundingTime,
+    };
+    const estimatedSettlePrice = Number(data.P);
+    if (data.P !== undefined && data.P !== '' && Number.isFinite(estimatedSettlePrice)) {
+      update.estimatedSettlePrice = estimatedSettlePrice;
+    }
+    return update;
+  }
+}
@@ -9,10 +9,54 @@ import {
   OHLCVData,
   OHLCVTimeframe,
   AggTrade,
+  DepthSnapshot,
+  FundingRate,
+  FuturesDataPeriod,
+  GlobalLongShortAccountData,
+  OpenInterestData,
+  OrderBookLevel,
+  TakerBuySellVolumeData,
   TopTraderAccountData,
+  TopTraderMarket,
   TopTraderPositionData,
 } from '../types';
 
+// aggTrades のリクエストウェイト (Spot は 4、USDT-M / COIN-M は 20)
+const AGG_TRADE_REQUEST_WEIGHT: Record<MarketType, number> = {
+  'SPOT': 4,
+  'USDT-M': 20,
+  'COIN-M': 20,
+};
+
+// /futures/data 系 (Top Trader 比率・全アカウント比率・テイカー出来高比率・openInterestHist) は
+// USDT-M / COIN-M を問わず IP あたり 5 分 1000 リクエストの 1 つの枠を共有する
+export const FUTURES_DATA_RATE_LIMIT_KEY = 'futuresData';
+
+// ウェイト制の REST エンドポイント (klines・aggTrades・depth・openInterest・exchangeInfo 等) は
+// エンドポイントごとではなく市場ごとに IP あたり 1 分のウェイト上限を共有する
+export const REQUEST_WEIGHT_RATE_LIMIT_KEYS: Record<MarketType, string> = {
+  'SPOT': 'weight:SPOT',
+  'USDT-M': 'weight:USDT-M',
+  'COIN-M': 'weight:COIN-M',
+};
+
+// USDT-M の fundingRate はウェイトとは別に IP あたり 5 分 500 リクエストに制限される
+export const USDM_FUNDING_RATE_LIMIT_KEY = 'fundingRate:USDT-M';
+
+// depth のリクエストウェイト ([limit 上限, ウェイト])
+const SPOT_DEPTH_WEIGHT_TIERS: Array<[number, number]> = [
+  [100, 5],
+  [500, 25],
+  [1_000, 50],
+  [5_000, 250],
+];
+const FUTURES_DEPTH_WEIGHT_TIERS: Array<[number, number]> = [
+  [50, 2],
+  [100, 5],
+  [500, 10],
+  [1_000, 20],
+];
+
 interface BinanceRestClientOptions {
   spotBaseUrl: string;
   usdMBaseUrl: string;
@@ -40,14 +84,31 @@ type KlineResponse = Array<
   ]
 >;
 
+export interface TopTraderRequestOptions {
+  market?: TopTraderMarket;
+  period?: FuturesDataPeriod;
+  startTime?: number;
+  endTime?: number;
+  /** 最大 500 */
+  limit?: number;
+}
+
 type TopTraderRatioResponse = Array<{
-  symbol: string;
+  symbol?: string;
+  pair?: string;
   longShortRatio: string;
-  longAccount: string;
-  shortAccount: string;
+  longAccount?: string;
+  shortAccount?: string;
   longPosition?: string;
   shortPosition?: string;
-  timestamp: number;
+  timestamp: number | string;
+}>;
+
+type TakerBuySellVolumeResponse = Array<{
+  buySellRatio: string;
+  buyVol: string;
+  sellVol: string;
+  timestamp: number | string;
 }>;
 
 type AggTradeResponse = Array<{
@@ -61,6 +122,34 @@ type AggTradeResponse = Array<{
   M: boolean;
 }>;
 
+type FundingRateResponse = Array<{
+  symbol: string;
+  fundingTime: number;
+  fundingRate: string;
+  markPrice?: string;
+}>;
+
+type OpenInterestHistResponse = Array<{
+  symbol?: string;
+  pair?: string;
+  contractType?: string;
+  sumOpenInterest: string;
+  sumOpenInterestValue: string;
+  timestamp: number | string;
+}>;
+
+type OpenInterestResponse = {
+  symbol: string;
+  openInterest: string;
+  time: number;
+};
+
+type DepthResponse = {
+  lastUpdateId: number;
+  bids: Array<[string, string]>;
+  asks: Array<[string, string]>;
+};
+
 export class BinanceRestClient {
   private readonly spotClient: AxiosInstance;
   private readonly usdMClient: AxiosInstance;
@@ -108,7 +197,7 @@ export class BinanceRestClient {
       params['startTime'] = startTime;
     }
 
-    const identifier = `klines:${market}`;
+    const identifier = REQUEST_WEIGHT_RATE_LIMIT_KEYS[market];
     const weight = 2;
 
     const response = await this.scheduleRequest(
@@ -116,7 +205,7 @@ export class BinanceRestClient {
       () => client.get<KlineResponse>(path, { params })
     );
 
-    return response.data.map((row) => this.mapKlineRow(row, symbol, interval));
+    return response.data.map((row) => this.mapKlineRow(row, symbol, market, interval));
   }
 
   async fetchAggTrades(
@@ -144,8 +233,8 @@ export class BinanceRestClient {
     if (options.fromId !== undefined) {
       params['fromId'] = options.fromId;
     }
-    const identifier = `aggTrades:${market}`;
-    const weight = market === 'SPOT' ? 2 : 20;
+    const identifier = REQUEST_WEIGHT_RATE_LIMIT_KEYS[market];
+    const weight = AGG_TRADE_REQUEST_WEIGHT[market];
 
     const response = await this.scheduleRequest(
       { identifier, weight },
@@ -157,52 +246,270 @@ export class BinanceRestClient {
     );
   }
 
-  async fetchTopTraderPositions(symbol: string): Promise<TopTraderPositionData[]> {
+  /**
+   * 板のスナップショットを取得する。ウェイトは limit と市場によって変わる
+   */
+  async fetchDepthSnapshot(symbol: string, market: MarketType, limit = 1_000): Promise<DepthSnapshot> {
+    const client = this.resolveClient(market);
+    const path = this.getDepthPath(market);
+    const identifier = REQUEST_WEIGHT_RATE_LIMIT_KEYS[market];
+    const weight = this.getDepthWeight(market, limit);
+
+    const response = await this.scheduleRequest(
+      { identifier, weight },
+      () => client.get<DepthResponse>(path, { params: { symbol, limit } })
+    );
+
+    return {
+      symbol,
+      marketType: market,
+      lastUpdateId: response.data.lastUpdateId,
+      bids: response.data.bids.map((level) => this.mapDepthLevel(level)),
+      asks: response.data.asks.map((level) => this.mapDepthLevel(level)),
+    };
+  }
+
+  /**
+   * 精算済みの資金調達率を fundingTime の昇順で取得する
+   */
+  async fetchFundingRates(
+    symbol: string,
+    market: FundingRate['marketType'],
+    options: {
+      startTime?: number;
+      endTime?: number;
+      limit?: number;
+    } = {}
+  ): Promise<FundingRate[]> {
+    const client = this.resolveClient(market);
+    const path = market === 'USDT-M' ? '/fapi/v1/fundingRate' : '/dapi/v1/fundingRate';
+    const params: Record<string, string | number> = {
+      symbol,
+      limit: options.limit ?? 1000,
+    };
+    if (options.startTime !== undefined) {
+      params['startTime'] = options.startTime;
+    }
+    if (options.endTime !== undefined) {
+      params['endTime'] = options.endTime;
+    }
+
+    // USDT-M は専用の 5 分 500 リクエスト枠、COIN-M は市場のウェイト枠で制限される
+    const identifier = market === 'USDT-M' ? USDM_FUNDING_RATE_LIMIT_KEY : REQUEST_WEIGHT_RATE_LIMIT_KEYS[market];
+    const response = await this.scheduleRequest(
+      { identifier, weight: 1 },
+      () => client.get<FundingRateResponse>(path, { params })
+    );
+
+    return response.data.map((row) => {
+      const rate: FundingRate = {
+        symbol: row.symbol,
+        marketType: market,
+        fundingTime: row.fundingTime,
+        fundingRate: Number(row.fundingRate),
+      };
+      const markPrice = row.markPrice !== undefined && row.markPrice !== '' ? Number(row.markPrice) : NaN;
+      if (Number.isFinite(markPrice)) {
+        rate.markPrice = markPrice;
+      }
+      return rate;
+    });
+  }
+
+  /**
+   * 建玉の期間集計を取得する (Binance は直近 30 日分のみ提供)。
+   * COIN-M は pair + contractType で指定するため、無期限銘柄 (BTCUSD_PERP) のみを対象とする。
+   */
+  async fetchOpenInterestHistory(
+    symbol: string,
+    market: OpenInterestData['marketType'],
+    options: {
+      period?: FuturesDataPeriod;
+      startTime?: number;
+      endTime?: number;
+      limit?: number;
+    } = {}
+  ): Promise<OpenInterestData[]> {
+    const client = this.resolveClient(market);
+    const params: Record<string, string | number> = {
+      period: options.period ?? '5m',
+      limit: options.limit ?? 500,
+    };
+    if (market === 'USDT-M') {
+      params['symbol'] = symbol;
+    } else {
+      params['pair'] = this.toCoinMPair(symbol);
+      params['contractType'] = 'PERPETUAL';
+    }
+    if (options.startTime !== undefined) {
+      params['startTime'] = options.startTime;
+    }
+    if (options.endTime !== undefined) {
+      params['endTime'] = options.endTime;
+    }
+
     const response = await this.scheduleRequest(
-      { identifier: 'topTrader:positions', weight: 20 },
+      { identifier: FUTURES_DATA_RATE_LIMIT_KEY, weight: 1 },
+      () => client.get<OpenInterestHistResponse>('/futures/data/openInterestHist', { params })
+    );
+
+    return response.data.map((row) => ({
+      symbol,
+      marketType: market,
+      source: 'hist',
+      timestamp: Number(row.timestamp),
+      openInterest: Number(row.sumOpenInterest),
+      openInterestValue: Number(row.sumOpenInterestValue),
+    }));
+  }
+
+  async fetchOpenInterest(symbol: string, market: OpenInterestData['marketType']): Promise<OpenInterestData> {
+    const client = this.resolveClient(market);
+    const path = market === 'USDT-M' ? '/fapi/v1/openInterest' : '/dapi/v1/openInterest';
+
+    const response = await this.scheduleRequest(
+      { identifier: REQUEST_WEIGHT_RATE_LIMIT_KEYS[market], weight: 1 },
+      () => client.get<OpenInterestResponse>(path, { params: { symbol } })
+    );
+
+    return {
+      symbol: response.data.symbol,
+      marketType: market,
+      source: 'live',
+      timestamp: response.data.time,
+      openInterest: Number(response.data.openInterest),
+    };
+  }
+
+  /**
+   * Top Trader のポジション比率を取得する。COIN-M は pair (BTCUSD など) を symbol に指定する。
+   * startTime / endTime を指定すると期間で取得でき、Binance は直近 30 日分のみ提供する。
+   */
+  async fetchTopTraderPositions(
+    symbol: string,
+    options: TopTraderRequestOptions = {}
+  ): Promise<TopTraderPositionData[]> {
+    const market = options.market ?? 'USDT-M';
+    const period = options.period ?? '5m';
+    const response = await this.scheduleRequest(
+      { identifier: FUTURES_DATA_RATE_LIMIT_KEY, weight: 1 },
+      () =>
+        this.resolveClient(market).get<TopTraderRatioResponse>('/futures/data/topLongShortPositionRatio', {
+          params: this.buildTopTraderParams(symbol, market, period, options, 'pair'),
+        })
+    );
+
+    // COIN-M のポジション比率は longPosition / shortPosition のみ、USDT-M は longAccount / shortAccount のみを返す
+    return response.data.map((row) => ({
+      symbol: row.symbol ?? row.pair ?? symbol,
+      marketType: market,
+      period,
+      timestamp: Number(row.timestamp),
+      longShortRatio: Number(row.longShortRatio),
+      longAccount: Number(row.longAccount ?? row.longPosition ?? 0),
+      shortAccount: Number(row.shortAccount ?? row.shortPosition ?? 0),
+      longPosition: Number(row.longPosition ?? row.longAccount ?? 0),
+      shortPosition: Number(row.shortPosition ?? row.shortAccount ?? 0),
+    }));
+  }
+
+  async fetchTopTraderAccounts(
+    symbol: string,
+    options: TopTraderRequestOptions = {}
+  ): Promise<TopTraderAccountData[]> {
+    const market = options.market ?? 'USDT-M';
+    const period = options.period ?? '5m';
+    const response = await this.scheduleRequest(
+      { identifier: FUTURES_DATA_RATE_LIMIT_KEY, weight: 1 },
       () =>
-        this.usdMClient.get<TopTraderRatioResponse>('/futures/data/topLongShortPositionRatio', {
-          params: {
-            symbol,
-            period: '5m',
-            limit: 12,
-          },
+        this.resolveClient(market).get<TopTraderRatioResponse>('/futures/data/topLongShortAccountRatio', {
+          params: this.buildTopTraderParams(symbol, market, period, options, 'symbol'),
         })
     );
 
     return response.data.map((row) => ({
-      symbol: row.symbol,
-      timestamp: row.timestamp,
+      symbol: row.symbol ?? row.pair ?? symbol,
+      marketType: market,
+      period,
+      timestamp: Number(row.timestamp),
       longShortRatio: Number(row.longShortRatio),
-      longAccount: Number(row.longAccount),
-      shortAccount: Number(row.shortAccount),
-      longPosition: Number(row.longPosition ?? 0),
-      shortPosition: Number(row.shortPosition ?? 0),
+      longAccount: Number(row.longAccount ?? 0),
+      shortAccount: Number(row.shortAccount ?? 0),
     }));
   }
 
-  async fetchTopTraderAccounts(symbol: string): Promise<TopTraderAccountData[]> {
+  async fetchGlobalLongShortAccounts(
+    symbol: string,
+    options: Pick<TopTraderRequestOptions, 'startTime' | 'endTime' | 'limit'> = {}
+  ): Promise<GlobalLongShortAccountData[]> {
     const response = await this.scheduleRequest(
-      { identifier: 'topTrader:accounts', weight: 20 },
+      { identifier: FUTURES_DATA_RATE_LIMIT_KEY, weight: 1 },
       () =>
-        this.usdMClient.get<TopTraderRatioResponse>('/futures/data/topLongShortAccountRatio', {
-          params: {
-            symbol,
-            period: '5m',
-            limit: 12,
-          },
+        this.usdMClient.get<TopTraderRatioResponse>('/futures/data/globalLongShortAccountRatio', {
+          params: this.buildTopTraderParams(symbol, 'USDT-M', '5m', options),
         })
     );
 
     return response.data.map((row) => ({
-      symbol: row.symbol,
-      timestamp: row.timestamp,
+      symbol: row.symbol ?? symbol,
+      timestamp: Number(row.timestamp),
       longShortRatio: Number(row.longShortRatio),
-      longAccount: Number(row.longAccount),
-      shortAccount: Number(row.shortAccount),
+      longAccount: Number(row.longAccount ?? 0),
+      shortAccount: Number(row.shortAccount ?? 0),
     }));
   }
 
+  async fetchTakerBuySellVolumes(
+    symbol: string,
+    options: Pick<TopTraderRequestOptions, 'startTime' | 'endTime' | 'limit'> = {}
+  ): Promise<TakerBuySellVolumeData[]> {
+    const response = await this.scheduleRequest(
+      { identifier: FUTURES_DATA_RATE_LIMIT_KEY, weight: 1 },
+      () =>
+        this.usdMClient.get<TakerBuySellVolumeResponse>('/futures/data/takerlongshortRatio', {
+          params: this.buildTopTraderParams(symbol, 'USDT-M', '5m', options),
+        })
+    );
+
+    // レスポンスに銘柄が含まれないため要求した銘柄を付与する
+    return response.data.map((row) => ({
+      symbol,
+      timestamp: Number(row.timestamp),
+      buySellRatio: Number(row.buySellRatio),
+      buyVolume: Number(row.buyVol),
+      sellVolume: Number(row.sellVol),
+    }));
+  }
+
+  /**
+   * COIN-M はエンドポイントごとにパラメータ名が異なる (ポジション比率は pair、アカウント比率は symbol)
+   */
+  private buildTopTraderParams(
+    symbol: string,
+    market: TopTraderMarket,
+    period: FuturesDataPeriod,
+    options: TopTraderRequestOptions,
+    coinMSymbolParam: 'pair' | 'symbol' = 'symbol'
+  ): Record<string, string | number> {
+    const params: Record<string, string | number> = {
+      period,
+      limit: options.limit ?? 12,
+    };
+    params[market === 'USDT-M' ? 'symbol' : coinMSymbolParam] = symbol;
+    if (options.startTime !== undefined) {
+      params['startTime'] = options.startTime;
+    }
+    if (options.endTime !== undefined) {
+      params['endTime'] = options.endTime;
+    }
+    return params;
+  }
+
+  private toCoinMPair(symbol: string): string {
+    // BTCUSD_PERP -> BTCUSD
+    return symbol.split('_')[0] ?? symbol;
+  }
+
   private resolveClient(market: MarketType): AxiosInstance {
     switch (market) {
       case 'SPOT':
@@ -222,6 +529,8 @@ export class BinanceRestClient {
         return this.spotClient;
       case 'USDT-M':
         return this.usdMClient;
+      case 'COIN-M':
+        return this.coinMClient;
       default:
         throw new Error(`Unsupported market type for aggTrades: ${market}`);
     }
@@ -246,11 +555,32 @@ export class BinanceRestClient {
         return '/api/v3/aggTrades';
       case 'USDT-M':
         return '/fapi/v1/aggTrades';
+      case 'COIN-M':
+        return '/dapi/v1/aggTrades';
       default:
         throw new Error(`Unsupported market type for aggTrades: ${market}`);
     }
   }
 
+  private getDepthPath(market: MarketType): string {
+    switch (market) {
+      case 'SPOT':
+        return '/api/v3/depth';
+      case 'USDT-M':
+        return '/fapi/v1/depth';
+      case 'COIN-M':
+        return '/dapi/v1/depth';
+      default:
+        throw new Error(`Unsupported market type for depth: ${market}`);
+    }
+  }
+
+  private getDepthWeight(market: MarketType, limit: number): number {
+    const tiers = market === 'SPOT' ? SPOT_DEPTH_WEIGHT_TIERS : FUTURES_DEPTH_WEIGHT_TIERS;
+    const tier = tiers.find(([maxLimit]) => limit <= maxLimit);
+    return tier ? tier[1] : tiers[tiers.length - 1]![1];
+  }
+
   private mapInterval(interval: OHLCVTimeframe): string {
     switch (interval) {
       case '1m':
@@ -264,9 +594,15 @@ export class BinanceRestClient {
     }
   }
 
-  private mapKlineRow(row: KlineResponse[number], symbol: string, interval: OHLCVTimeframe): OHLCVData {
+  private mapKlineRow(
+    row: KlineResponse[number],
+    symbol: string,
+    market: MarketType,
+    interval: OHLCVTimeframe
+  ): OHLCVData {
     return {
       symbol,
+      marketType: market,
       interval,
       openTime: row[0],
       closeTime: row[6],
@@ -277,6 +613,7 @@ export class BinanceRestClient {
       volume: Number(row[5]),
       quoteVolume: Number(row[7]),
       trades: row[8],
+      takerBuyVolume: Number(row[9]),
     };
   }
 
@@ -301,6 +638,10 @@ export class BinanceRestClient {
     };
   }
 
+  private mapDepthLevel(level: [string, string]): OrderBookLevel {
+    return [Number(level[0]), Number(level[1])];
+  }
+
   private async scheduleRequest<T>(request: RateLimiterRequest, task: () => Promise<T>): Promise<T> {
     try {
       const response = await this.rateLimiter.schedule(request, async () => {
@@ -0,0 +1,673 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { MarketType } from '../types';
+import { logger } from '../utils/logger';
+
+export interface BinanceStreamContext {
+  marketType: MarketType;
+  stream: string;
+  connectionId: number;
+}
+
+export type BinanceStreamHandler<T = any> = (data: T, context: BinanceStreamContext) => void;
+
+export interface BinanceStreamManagerOptions {
+  /** 結合ストリームのエンドポイント (例: wss://stream.binance.com:9443/stream) */
+  spotUrl?: string;
+  usdMUrl?: string;
+  coinMUrl?: string;
+  maxStreamsPerConnection?: number;
+  maxStreamsPerMessage?: number;
+  messageIntervalMs?: number;
+  /** 再接続待機時間の初期値。失敗が続くごとに倍増し maxReconnectDelayMs で頭打ちになる */
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  heartbeatIntervalMs?: number;
+  /** Binance は 24 時間で接続を切断するため、それより前に張り替える (0 で無効) */
+  rolloverAfterMs?: number;
+  /** 市場ごとの無通信許容時間。超過した接続は張り直す (0 または未指定で無効) */
+  staleThresholdMs?: Partial<Record<MarketType, number>>;
+}
+
+interface ReplacementSocket {
+  ws: WebSocket;
+  pendingRequests: Set<number>;
+  timeoutTimer: NodeJS.Timeout | null;
+}
+
+interface StreamConnection {
+  id: number;
+  marketType: MarketType;
+  baseUrl: string;
+  streams: Map<string, Set<BinanceStreamHandler>>;
+  ws: WebSocket | null;
+  opening: Promise<void> | null;
+  replacement: ReplacementSocket | null;
+  reconnectTimer: NodeJS.Timeout | null;
+  reconnectAttempts: number;
+  heartbeatTimer: NodeJS.Timeout | null;
+  rolloverTimer: NodeJS.Timeout | null;
+  watchdogTimer: NodeJS.Timeout | null;
+  lastMessageAt: number;
+  sendQueue: Promise<void>;
+  ready: boolean;
+  closed: boolean;
+}
+
+export declare interface BinanceStreamManager {
+  on(event: 'connected', listener: (market: MarketType, connectionId: number, streams: string[]) => void): this;
+  on(
+    event: 'disconnected',
+    listener: (market: MarketType, connectionId: number, code: number, reason: string, streams: string[]) => void
+  ): this;
+  on(event: 'rollover', listener: (market: MarketType, connectionId: number) => void): this;
+  on(event: 'stale', listener: (market: MarketType, connectionId: number, idleMs: number) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+// Binance 先物は 1 接続あたり 200 ストリームまで、受信メッセージは毎秒 5〜10 件までに制限される
+const DEFAULT_MAX_STREAMS_PER_CONNECTION = 200;
+const DEFAULT_MAX_STREAMS_PER_MESSAGE = 100;
+const DEFAULT_MESSAGE_INTERVAL_MS = 250;
+const DEFAULT_RECONNECT_DELAY_MS = 1_000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 60_000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30_000;
+const DEFAULT_ROLLOVER_AFTER_MS = 23 * 60 * 60 * 1000;
+const ROLLOVER_RETRY_DELAY_MS = 60_000;
+const ROLLOVER_ACK_TIMEOUT_MS = 10_000;
+
+/**
+ * Binance の結合ストリーム接続を共有する WebSocket マネージャー
+ * ストリームは URL に埋め込まず SUBSCRIBE / UNSUBSCRIBE メッセージで管理し、
+ * 市場ごとに 1 接続あたりの上限ストリーム数でシャードする。
+ * 受信メッセージは stream 名で登録済みハンドラーへ振り分ける。
+ * 切断時はジッタ付き指数バックオフで再接続し、24 時間の強制切断前には新しい接続を先に張ってから
+ * 旧接続を閉じる。無通信が閾値を超えた接続は張り直す。
+ */
+export class BinanceStreamManager extends EventEmitter {
+  private readonly baseUrls: Partial<Record<MarketType, string>>;
+  private readonly maxStreamsPerConnection: number;
+  private readonly maxStreamsPerMessage: number;
+  private readonly messageIntervalMs: number;
+  private readonly reconnectDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly rolloverAfterMs: number;
+  private readonly staleThresholdMs: Partial<Record<MarketType, number>>;
+  private readonly connections = new Map<MarketType, StreamConnection[]>();
+  private nextConnectionId = 1;
+  private nextRequestId = 1;
+
+  constructor(options: BinanceStreamManagerOptions) {
+    super();
+    this.baseUrls = {};
+    if (options.spotUrl) {
+      this.baseUrls['SPOT'] = options.spotUrl;
+    }
+    if (options.usdMUrl) {
+      this.baseUrls['USDT-M'] = options.usdMUrl;
+    }
+    if (options.coinMUrl) {
+      this.baseUrls['COIN-M'] = options.coinMUrl;
+    }
+    this.maxStreamsPerConnection = Math.max(
+      1,
+      Math.floor(options.maxStreamsPerConnection ?? DEFAULT_MAX_STREAMS_PER_CONNECTION)
+    );
+    this.maxStreamsPerMessage = Math.max(
+      1,
+      Math.floor(options.maxStreamsPerMessage ?? DEFAULT_MAX_STREAMS_PER_MESSAGE)
+    );
+    this.messageIntervalMs = Math.max(0, options.messageIntervalMs ?? DEFAULT_MESSAGE_INTERVAL_MS);
+    this.reconnectDelayMs = Math.max(1, options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS);
+    this.maxReconnectDelayMs = Math.max(
+      this.reconnectDelayMs,
+      options.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS
+    );
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    this.rolloverAfterMs = Math.max(0, options.rolloverAfterMs ?? DEFAULT_ROLLOVER_AFTER_MS);
+    this.staleThresholdMs = options.staleThresholdMs ?? {};
+  }
+
+  /**
+   * ストリームにハンドラーを登録する。未購読のストリームは空きのある接続へ割り当てて SUBSCRIBE し、
+   * 新たに張った接続が開くまで待機する。
+   */
+  async subscribe<T = any>(
+    market: MarketType,
+    streams: string[],
+    handler: BinanceStreamHandler<T>
+  ): Promise<void> {
+    const baseUrl = this.baseUrls[market];
+    if (!baseUrl) {
+      throw new Error(`No WebSocket endpoint configured for ${market}`);
+    }
+
+    const connections = this.connections.get(market) ?? [];
+    this.connections.set(market, connections);
+    const additions = new Map<StreamConnection, string[]>();
+
+    for (const stream of new Set(streams)) {
+      let target = connections.find((connection) => connection.streams.has(stream));
+      if (!target) {
+        target = connections.find((connection) => connection.streams.size < this.maxStreamsPerConnection);
+        if (!target) {
+          target = this.createConnection(market, baseUrl);
+          connections.push(target);
+        }
+        target.streams.set(stream, new Set());
+        additions.set(target, [...(additions.get(target) ?? []), stream]);
+      }
+      target.streams.get(stream)!.add(handler as BinanceStreamHandler);
+    }
+
+    const pending: Array<Promise<void>> = [];
+    for (const [connection, added] of additions) {
+      if (connection.ready) {
+        this.updateStreams(connection, 'SUBSCRIBE', added);
+      } else if (!connection.ws && !connection.reconnectTimer) {
+        pending.push(this.openConnection(connection));
+      } else if (connection.opening) {
+        pending.push(connection.opening);
+      }
+    }
+    await Promise.all(pending);
+  }
+
+  /**
+   * ハンドラーの登録を解除し、他に購読者のいないストリームを UNSUBSCRIBE する。
+   * ストリームがなくなった接続は閉じる。
+   */
+  unsubscribe(market: MarketType, streams: string[], handler: BinanceStreamHandler): void {
+    const connections = this.connections.get(market);
+    if (!connections) {
+      return;
+    }
+
+    const removals = new Map<StreamConnection, string[]>();
+    for (const stream of new Set(streams)) {
+      const connection = connections.find((candidate) => candidate.streams.has(stream));
+      const handlers = connection?.streams.get(stream);
+      if (!connection || !handlers) {
+        continue;
+      }
+      handlers.delete(handler);
+      if (handlers.size === 0) {
+        connection.streams.delete(stream);
+        removals.set(connection, [...(removals.get(connection) ?? []), stream]);
+      }
+    }
+
+    for (const [connection, removed] of removals) {
+      if (connection.streams.size === 0) {
+        this.closeConnection(connection);
+      } else {
+        this.updateStreams(connection, 'UNSUBSCRIBE', removed);
+      }
+    }
+
+    this.connections.set(
+      market,
+      connections.filter((connection) => !connection.closed)
+    );
+  }
+
+  getStreams(market: MarketType): string[] {
+    return (this.connections.get(market) ?? []).flatMap((connection) => Array.from(connection.streams.keys()));
+  }
+
+  getConnectionStreams(connectionId: number): string[] {
+    for (const connections of this.connections.values()) {
+      const connection = connections.find((candidate) => candidate.id === connectionId);
+      if (connection) {
+        return Array.from(connection.streams.keys());
+      }
+    }
+    return [];
+  }
+
+  close(): void {
+    for (const connections of this.connections.values()) {
+      for (const connection of connections) {
+        this.closeConnection(connection);
+      }
+    }
+    this.connections.clear();
+  }
+
+  private createConnection(market: MarketType, baseUrl: string): StreamConnection {
+    const connection: StreamConnection = {
+      id: this.nextConnectionId,
+      marketType: market,
+      baseUrl,
+      streams: new Map(),
+      ws: null,
+      opening: null,
+      replacement: null,
+      reconnectTimer: null,
+      reconnectAttempts: 0,
+      heartbeatTimer: null,
+      rolloverTimer: null,
+      watchdogTimer: null,
+      lastMessageAt: 0,
+      sendQueue: Promise.resolve(),
+      ready: false,
+      closed: false,
+    };
+    this.nextConnectionId += 1;
+    return connection;
+  }
+
+  private openConnection(connection: StreamConnection): Promise<void> {
+    const label = `${connection.marketType}#${connection.id}`;
+
+    const opening = new Promise<void>((resolve, reject) => {
+      const ws = new WebSocket(connection.baseUrl);
+      connection.ws = ws;
+      connection.ready = false;
+      connection.sendQueue = Promise.resolve();
+      this.attachSocket(connection, ws);
+
+      ws.once('open', () => {
+        connection.ready = true;
+        connection.opening = null;
+        this.startConnectionTimers(connection);
+        // 再接続時も含め、接続に割り当て済みのストリームをまとめて購読し直す
+        this.sendStreamRequest(connection, ws, 'SUBSCRIBE', Array.from(connection.streams.keys()));
+        this.emit('connected', connection.marketType, connection.id, Array.from(connection.streams.keys()));
+        logger.info(`Binance WS connected (${label})`, { streams: connection.streams.size });
+        resolve();
+      });
+
+      ws.once('error', (error: Error) => {
+        if (!connection.ready) {
+          connection.opening = null;
+          reject(error);
+        }
+      });
+    });
+
+    connection.opening = opening;
+    return opening;
+  }
+
+  private attachSocket(connection: StreamConnection, ws: WebSocket): void {
+    ws.on('message', (data: WebSocket.RawData) => this.handleMessage(connection, ws, data));
+    ws.on('error', (error: Error) => this.handleSocketError(connection, ws, error));
+    ws.on('close', (code: number, reasonBuffer: Buffer) => {
+      this.handleSocketClose(connection, ws, code, reasonBuffer.toString() || 'unknown');
+    });
+  }
+
+  private handleSocketError(connection: StreamConnection, ws: WebSocket, error: Error): void {
+    const label = `${connection.marketType}#${connection.id}`;
+    if (connection.replacement?.ws === ws) {
+      logger.warn(`Binance WS rollover socket error (${label})`, error);
+      return;
+    }
+    this.emitError(error);
+    if (connection.ready) {
+      logger.error(`Binance WS error (${label})`, error);
+    }
+  }
+
+  private handleSocketClose(connection: StreamConnection, ws: WebSocket, code: number, reason: string): void {
+    const label = `${connection.marketType}#${connection.id}`;
+    if (connection.replacement?.ws === ws) {
+      logger.warn(`Binance WS rollover socket closed before promotion (${label})`, { code, reason });
+      this.discardReplacement(connection);
+      this.scheduleRollover(connection, ROLLOVER_RETRY_DELAY_MS);
+      return;
+    }
+    if (connection.ws !== ws) {
+      return;
+    }
+
+    this.emit(
+      'disconnected',
+      connection.marketType,
+      connection.id,
+      code,
+      reason,
+      Array.from(connection.streams.keys())
+    );
+    logger.warn(`Binance WS disconnected (${label})`, { code, reason });
+    this.clearTimers(connection);
+    this.discardReplacement(connection);
+    connection.ready = false;
+    connection.ws = null;
+    // メンテナンスなどサーバー側の正常終了 (1000) でも購読を失わないよう、明示的に閉じた接続以外は再接続する
+    if (!connection.closed) {
+      this.scheduleReconnect(connection);
+    }
+  }
+
+  private closeConnection(connection: StreamConnection): void {
+    connection.closed = true;
+    this.clearTimers(connection);
+    this.discardReplacement(connection);
+    if (connection.ws) {
+      this.closeSocket(connection.ws);
+      connection.ws = null;
+    }
+    connection.ready = false;
+    connection.opening = null;
+  }
+
+  private closeSocket(ws: WebSocket): void {
+    ws.removeAllListeners();
+    ws.on('error', () => undefined);
+    ws.close(1000);
+  }
+
+  private scheduleReconnect(connection: StreamConnection): void {
+    if (connection.reconnectTimer || connection.closed) {
+      return;
+    }
+
+    connection.reconnectAttempts += 1;
+    const delay = this.calculateBackoff(connection.reconnectAttempts);
+    const label = `${connection.marketType}#${connection.id}`;
+    logger.info(`Scheduling Binance WS reconnect (${label})`, {
+      attempt: connection.reconnectAttempts,
+      delayMs: Math.round(delay),
+    });
+
+    connection.reconnectTimer = setTimeout(() => {
+      connection.reconnectTimer = null;
+      if (connection.closed || connection.streams.size === 0) {
+        return;
+      }
+      logger.info(`Reconnecting Binance WS (${label})`);
+      void this.openConnection(connection).catch((error) => {
+        // 接続失敗時は続く close イベントで次の再接続が予約される
+        logger.error(`Failed to reconnect Binance WS (${label})`, error);
+      });
+    }, delay);
+  }
+
+  private calculateBackoff(attempt: number): number {
+    const base = Math.min(this.maxReconnectDelayMs, this.reconnectDelayMs * Math.pow(2, attempt - 1));
+    const jitter = Math.random() * this.reconnectDelayMs;
+    return Math.min(this.maxReconnectDelayMs, base + jitter);
+  }
+
+  private startConnectionTimers(connection: StreamConnection): void {
+    connection.lastMessageAt = Date.now();
+    this.startHeartbeat(connection);
+    this.startWatchdog(connection);
+    if (this.rolloverAfterMs > 0) {
+      this.scheduleRollover(connection, this.rolloverAfterMs);
+    }
+  }
+
+  private scheduleRollover(connection: StreamConnection, delayMs: number): void {
+    if (connection.rolloverTimer) {
+      clearTimeout(connection.rolloverTimer);
+    }
+    connection.rolloverTimer = setTimeout(() => {
+      connection.rolloverTimer = null;
+      this.startRollover(connection);
+    }, delayMs);
+  }
+
+  /**
+   * 置き換え用の接続を先に開いて全ストリームを購読し、応答がそろった時点で旧接続と入れ替える。
+   * 入れ替えまでの間は旧接続のメッセージのみをハンドラーへ渡す。
+   */
+  private startRollover(connection: StreamConnection): void {
+    if (connection.closed || !connection.ready || connection.replacement) {
+      return;
+    }
+
+    const label = `${connection.marketType}#${connection.id}`;
+    logger.info(`Rolling over Binance WS before the 24h limit (${label})`);
+
+    const ws = new WebSocket(connection.baseUrl);
+    const replacement: ReplacementSocket = { ws, pendingRequests: new Set(), timeoutTimer: null };
+    connection.replacement = replacement;
+    this.attachSocket(connection, ws);
+
+    ws.once('open', () => {
+      const ids = this.sendStreamRequest(connection, ws, 'SUBSCRIBE', Array.from(connection.streams.keys()));
+      ids.forEach((id) => replacement.pendingRequests.add(id));
+      if (replacement.pendingRequests.size === 0) {
+        this.promoteReplacement(connection);
+        return;
+      }
+      replacement.timeoutTimer = setTimeout(() => {
+        replacement.timeoutTimer = null;
+        logger.warn(`Binance WS rollover subscription was not acknowledged in time (${label})`);
+        this.promoteReplacement(connection);
+      }, ROLLOVER_ACK_TIMEOUT_MS);
+    });
+  }
+
+  private promoteReplacement(connection: StreamConnection): void {
+    const replacement = connection.replacement;
+    if (!replacement || connection.closed) {
+      return;
+    }
+    if (replacement.timeoutTimer) {
+      clearTimeout(replacement.timeoutTimer);
+    }
+    connection.replacement = null;
+
+    const previous = connection.ws;
+    connection.ws = replacement.ws;
+    connection.ready = true;
+    if (previous) {
+      this.closeSocket(previous);
+    }
+    this.clearTimers(connection);
+    this.startConnectionTimers(connection);
+
+    this.emit('rollover', connection.marketType, connection.id);
+    logger.info(`Binance WS rollover completed (${connection.marketType}#${connection.id})`);
+  }
+
+  private discardReplacement(connection: StreamConnection): void {
+    const replacement = connection.replacement;
+    if (!replacement) {
+      return;
+    }
+    if (replacement.timeoutTimer) {
+      clearTimeout(replacement.timeoutTimer);
+    }
+    connection.replacement = null;
+    this.closeSocket(replacement.ws);
+  }
+
+  private startWatchdog(connection: StreamConnection): void {
+    this.clearWatchdog(connection);
+    const threshold = this.staleThresholdMs[connection.marketType] ?? 0;
+    if (threshold <= 0) {
+      return;
+    }
+
+    connection.watchdogTimer = setInterval(() => {
+      const idleMs = Date.now() - connection.lastMessageAt;
+      if (!connection.ready || !connection.ws || idleMs < threshold) {
+        return;
+      }
+      logger.warn(`Binance WS stalled; recycling connection (${connection.marketType}#${connection.id})`, {
+        idleMs,
+        thresholdMs: threshold,
+      });
+      this.emit('stale', connection.marketType, connection.id, idleMs);
+      // terminate は close イベント (1006) を発火させ、通常の再接続経路に乗せる
+      connection.ws.terminate();
+    }, Math.max(100, Math.floor(threshold / 4)));
+  }
+
+  /**
+   * 1 メッセージあたりのストリーム数とメッセージ送信間隔を守るよう、接続ごとのキューで順に送信する
+   */
+  private sendStreamRequest(
+    connection: StreamConnection,
+    ws: WebSocket | null,
+    method: 'SUBSCRIBE' | 'UNSUBSCRIBE',
+    streams: string[]
+  ): number[] {
+    const ids: number[] = [];
+    if (!ws) {
+      return ids;
+    }
+
+    for (let offset = 0; offset < streams.length; offset += this.maxStreamsPerMessage) {
+      const params = streams.slice(offset, offset + this.maxStreamsPerMessage);
+      const id = this.nextRequestId;
+      this.nextRequestId += 1;
+      ids.push(id);
+
+      connection.sendQueue = connection.sendQueue.then(async () => {
+        if (ws.readyState !== WebSocket.OPEN) {
+          return;
+        }
+        try {
+          ws.send(JSON.stringify({ method, params, id }));
+        } catch (error) {
+          logger.warn(`Failed to send ${method} (${connection.marketType}#${connection.id})`, error as Error);
+          return;
+        }
+        if (this.messageIntervalMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, this.messageIntervalMs));
+        }
+      });
+    }
+    return ids;
+  }
+
+  /**
+   * 購読変更は稼働中の接続と、張り替え中であれば置き換え用の接続の両方へ送る
+   */
+  private updateStreams(
+    connection: StreamConnection,
+    method: 'SUBSCRIBE' | 'UNSUBSCRIBE',
+    streams: string[]
+  ): void {
+    if (connection.ready) {
+      this.sendStreamRequest(connection, connection.ws, method, streams);
+    }
+    const replacement = connection.replacement?.ws;
+    if (replacement && replacement.readyState === WebSocket.OPEN) {
+      this.sendStreamRequest(connection, replacement, method, streams);
+    }
+  }
+
+  private handleMessage(connection: StreamConnection, ws: WebSocket, payload: WebSocket.RawData): void {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(payload.toString());
+    } catch (error) {
+      logger.warn('Failed to parse Binance WS message', error);
+      return;
+    }
+
+    if (!parsed || typeof parsed !== 'object') {
+      return;
+    }
+
+    const isResponse = parsed.id !== undefined && parsed.stream === undefined;
+    const replacement = connection.replacement;
+    if (replacement?.ws === ws) {
+      // 置き換え用の接続は購読応答のみを確認し、データは入れ替え後から扱う
+      if (isResponse && replacement.pendingRequests.delete(Number(parsed.id))) {
+        if (parsed.error) {
+          logger.warn(`Binance WS rollover subscription failed (${connection.marketType}#${connection.id})`, parsed.error);
+        }
+        if (replacement.pendingRequests.size === 0) {
+          this.promoteReplacement(connection);
+        }
+      }
+      return;
+    }
+    if (connection.ws !== ws) {
+      return;
+    }
+
+    connection.lastMessageAt = Date.now();
+
+    if (isResponse) {
+      if (parsed.error) {
+        const message = typeof parsed.error.msg === 'string' ? parsed.error.msg : JSON.stringify(parsed.error);
+        logger.error(`Binance WS request ${parsed.id} failed (${connection.marketType}#${connection.id})`, parsed.error);
+        this.emitError(new Error(`Binance WS request failed: ${message}`));
+      }
+      return;
+    }
+
+    const stream = typeof parsed.stream === 'string' ? parsed.stream : undefined;
+    const handlers = stream ? connection.streams.get(stream) : undefined;
+    if (!stream || !handlers || parsed.data === undefined) {
+      return;
+    }
+
+    // データを受信できた時点で接続が健全とみなし、バックオフを初期化する
+    connection.reconnectAttempts = 0;
+
+    const context: BinanceStreamContext = {
+      marketType: connection.marketType,
+      stream,
+      connectionId: connection.id,
+    };
+    for (const handler of handlers) {
+      try {
+        handler(parsed.data, context);
+      } catch (error) {
+        logger.error(`Binance WS handler failed (${stream})`, error);
+      }
+    }
+  }
+
+  private emitError(error: Error): void {
+    // 購読中のクライアントがいない間のエラーで未処理の error イベントにならないようにする
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  private startHeartbeat(connection: StreamConnection): void {
+    this.clearHeartbeat(connection);
+    if (!connection.ws) {
+      return;
+    }
+    connection.heartbeatTimer = setInterval(() => {
+      if (!connection.ws || connection.ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      try {
+        connection.ws.ping();
+      } catch (error) {
+        logger.warn(`Failed to send WS ping (${connection.marketType}#${connection.id})`, error as Error);
+      }
+    }, this.heartbeatIntervalMs);
+  }
+
+  private clearTimers(connection: StreamConnection): void {
+    if (connection.reconnectTimer) {
+      clearTimeout(connection.reconnectTimer);
+      connection.reconnectTimer = null;
+    }
+    if (connection.rolloverTimer) {
+      clearTimeout(connection.rolloverTimer);
+      connection.rolloverTimer = null;
+    }
+    this.clearHeartbeat(connection);
+    this.clearWatchdog(connection);
+  }
+
+  private clearHeartbeat(connection: StreamConnection): void {
+    if (connection.heartbeatTimer) {
+      clearInterval(connection.heartbeatTimer);
+      connection.heartbeatTimer = null;
+    }
+  }
+
+  private clearWatchdog(connection: StreamConnection): void {
+    if (connection.watchdogTimer) {
+      clearInterval(connection.watchdogTimer);
+      connection.watchdogTimer = null;
+    }
+  }
+}
@@ -1,25 +1,13 @@
 import { EventEmitter } from 'events';
-import WebSocket from 'ws';
 import { TradeData, CvdStreamConfig, MarketType } from '../types';
-import { logger } from '../utils/logger';
+import {
+  BinanceStreamContext,
+  BinanceStreamHandler,
+  BinanceStreamManager,
+} from './binance-stream-manager';
 
 type StreamType = NonNullable<CvdStreamConfig['streamType']>;
 
-interface SubscriptionEntry {
-  symbol: string;
-  streamType: StreamType;
-}
-
-interface MarketConnection {
-  marketType: MarketType;
-  baseUrl: string;
-  subscriptions: SubscriptionEntry[];
-  ws: WebSocket | null;
-  reconnectTimer: NodeJS.Timeout | null;
-  heartbeatTimer: NodeJS.Timeout | null;
-  ready: boolean;
-}
-
 export interface BinanceTradeWebSocketClientOptions {
   spotUrl: string;
   usdMUrl: string;
@@ -29,6 +17,8 @@ export interface BinanceTradeWebSocketClientOptions {
     marketType: MarketType;
     streamType: StreamType;
   }>;
+  /** 省略時はクライアント専用のストリームマネージャーを生成する */
+  streamManager?: BinanceStreamManager;
   reconnectDelayMs?: number;
   heartbeatIntervalMs?: number;
 }
@@ -36,226 +26,125 @@ export interface BinanceTradeWebSocketClientOptions {
 export declare interface BinanceTradeWebSocketClient {
   on(event: 'trade', listener: (trade: TradeData) => void): this;
   on(event: 'error', listener: (error: Error) => void): this;
-  on(event: 'connected', listener: (market: MarketType) => void): this;
-  on(event: 'disconnected', listener: (market: MarketType, code: number, reason: string) => void): this;
+  on(event: 'connected', listener: (market: MarketType, connectionId: number) => void): this;
+  on(
+    event: 'disconnected',
+    listener: (market: MarketType, connectionId: number, code: number, reason: string) => void
+  ): this;
 }
 
-const DEFAULT_RECONNECT_DELAY_MS = 5_000;
-const DEFAULT_HEARTBEAT_INTERVAL_MS = 30_000;
-
 /**
  * Binance の複数市場向けトレード WebSocket クライアント
+ * 接続管理は BinanceStreamManager に委ね、市場ごとのストリームを登録する
  */
 export class BinanceTradeWebSocketClient extends EventEmitter {
-  private readonly connections: MarketConnection[];
-  private readonly reconnectDelayMs: number;
-  private readonly heartbeatIntervalMs: number;
+  private readonly manager: BinanceStreamManager;
+  private readonly streams: Map<MarketType, string[]>;
+  private readonly handler: BinanceStreamHandler = (data, context) => this.handleMessage(context, data);
+  private attached = false;
 
   constructor(options: BinanceTradeWebSocketClientOptions) {
     super();
 
-    const grouped = this.groupSubscriptions(options);
-    this.connections = grouped;
-    this.reconnectDelayMs = options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
-    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    this.streams = this.groupSubscriptions(options);
+    this.manager =
+      options.streamManager ??
+      new BinanceStreamManager({
+        spotUrl: options.spotUrl,
+        usdMUrl: options.usdMUrl,
+        coinMUrl: options.coinMUrl,
+        ...(options.reconnectDelayMs !== undefined ? { reconnectDelayMs: options.reconnectDelayMs } : {}),
+        ...(options.heartbeatIntervalMs !== undefined
+          ? { heartbeatIntervalMs: options.heartbeatIntervalMs }
+          : {}),
+      });
   }
 
   async connect(): Promise<void> {
-    const tasks = this.connections
-      .filter((connection) => connection.subscriptions.length > 0)
-      .map((connection) => this.connectMarket(connection));
-
-    await Promise.all(tasks);
+    this.attachManagerEvents();
+    await Promise.all(
+      Array.from(this.streams.entries()).map(([market, streams]) =>
+        this.manager.subscribe(market, streams, this.handler)
+      )
+    );
   }
 
   disconnect(): void {
-    for (const connection of this.connections) {
-      this.clearTimers(connection);
-      if (connection.ws) {
-        connection.ws.removeAllListeners();
-        connection.ws.close();
-        connection.ws = null;
-      }
-      connection.ready = false;
+    this.detachManagerEvents();
+    for (const [market, streams] of this.streams) {
+      this.manager.unsubscribe(market, streams, this.handler);
     }
   }
 
-  private groupSubscriptions(options: BinanceTradeWebSocketClientOptions): MarketConnection[] {
-    const byMarket: Record<MarketType, MarketConnection> = {
-      'SPOT': {
-        marketType: 'SPOT',
-        baseUrl: options.spotUrl,
-        subscriptions: [],
-        ws: null,
-        reconnectTimer: null,
-        heartbeatTimer: null,
-        ready: false,
-      },
-      'USDT-M': {
-        marketType: 'USDT-M',
-        baseUrl: options.usdMUrl,
-        subscriptions: [],
-        ws: null,
-        reconnectTimer: null,
-        heartbeatTimer: null,
-        ready: false,
-      },
-      'COIN-M': {
-        marketType: 'COIN-M',
-        baseUrl: options.coinMUrl,
-        subscriptions: [],
-        ws: null,
-        reconnectTimer: null,
-        heartbeatTimer: null,
-        ready: false,
-      },
-    };
-
-    for (const subscription of options.subscriptions) {
-      const market = byMarket[subscription.marketType];
-      if (!market) {
-        logger.warn('Unsupported market for WebSocket subscription', subscription);
-        continue;
-      }
+  getStreamNames(): string[] {
+    return Array.from(this.streams.values()).flat();
+  }
 
-      const exists = market.subscriptions.some(
-        (item) =>
-          item.symbol === subscription.symbol && item.streamType === subscription.streamType
-      );
+  private groupSubscriptions(options: BinanceTradeWebSocketClientOptions): Map<MarketType, string[]> {
+    const byMarket = new Map<MarketType, string[]>();
 
-      if (!exists) {
-        market.subscriptions.push({
-          symbol: subscription.symbol,
-          streamType: subscription.streamType,
-        });
+    for (const subscription of options.subscriptions) {
+      const symbol = subscription.symbol.toLowerCase();
+      const channel = subscription.streamType === 'trade' ? 'trade' : 'aggTrade';
+      const stream = `${symbol}@${channel}`;
+      const streams = byMarket.get(subscription.marketType) ?? [];
+      if (!streams.includes(stream)) {
+        streams.push(stream);
       }
+      byMarket.set(subscription.marketType, streams);
     }
 
-    return Object.values(byMarket);
+    return byMarket;
   }
 
-  private connectMarket(connection: MarketConnection): Promise<void> {
-    if (connection.subscriptions.length === 0) {
-      return Promise.resolve();
+  private readonly onConnected = (market: MarketType, connectionId: number, streams: string[]): void => {
+    if (this.ownsAny(market, streams)) {
+      this.emit('connected', market, connectionId);
     }
-
-    const url = this.buildUrl(connection);
-
-    return new Promise((resolve, reject) => {
-      const ws = new WebSocket(url);
-      connection.ws = ws;
-      connection.ready = false;
-
-      const onOpen = (): void => {
-        connection.ready = true;
-        this.startHeartbeat(connection);
-        this.emit('connected', connection.marketType);
-        logger.info(`Binance WS connected (${connection.marketType})`, { url });
-        resolve();
-      };
-
-      const onError = (error: Error): void => {
-        this.emit('error', error);
-        if (!connection.ready) {
-          reject(error);
-        } else {
-          logger.error(`Binance WS error (${connection.marketType})`, error);
-        }
-      };
-
-      const onClose = (code: number, reasonBuffer: Buffer): void => {
-        const reason = reasonBuffer.toString() || 'unknown';
-        this.emit('disconnected', connection.marketType, code, reason);
-        logger.warn(`Binance WS disconnected (${connection.marketType})`, { code, reason });
-        this.clearTimers(connection);
-        connection.ready = false;
-        if (code !== 1000) {
-          this.scheduleReconnect(connection);
-        }
-      };
-
-      const onMessage = (data: WebSocket.RawData): void => {
-        this.handleMessage(connection, data);
-      };
-
-      ws.on('open', onOpen);
-      ws.on('error', onError);
-      ws.on('close', onClose);
-      ws.on('message', onMessage);
-    });
-  }
-
-  private scheduleReconnect(connection: MarketConnection): void {
-    if (connection.reconnectTimer) {
-      return;
+  };
+
+  private readonly onDisconnected = (
+    market: MarketType,
+    connectionId: number,
+    code: number,
+    reason: string,
+    streams: string[]
+  ): void => {
+    if (this.ownsAny(market, streams)) {
+      this.emit('disconnected', market, connectionId, code, reason);
     }
+  };
 
-    connection.reconnectTimer = setTimeout(() => {
-      connection.reconnectTimer = null;
-      logger.info(`Reconnecting Binance WS (${connection.marketType})`);
-      void this.connectMarket(connection).catch((error) => {
-        logger.error(`Failed to reconnect Binance WS (${connection.marketType})`, error);
-        this.scheduleReconnect(connection);
-      });
-    }, this.reconnectDelayMs);
-  }
+  private readonly onError = (error: Error): void => {
+    this.emit('error', error);
+  };
 
-  private startHeartbeat(connection: MarketConnection): void {
-    this.clearHeartbeat(connection);
-    if (!connection.ws) {
+  private attachManagerEvents(): void {
+    if (this.attached) {
       return;
     }
-    connection.heartbeatTimer = setInterval(() => {
-      if (!connection.ws || connection.ws.readyState !== WebSocket.OPEN) {
-        return;
-      }
-      try {
-        connection.ws.ping();
-      } catch (error) {
-        logger.warn(`Failed to send WS ping (${connection.marketType})`, error as Error);
-      }
-    }, this.heartbeatIntervalMs);
-  }
-
-  private clearTimers(connection: MarketConnection): void {
-    if (connection.reconnectTimer) {
-      clearTimeout(connection.reconnectTimer);
-      connection.reconnectTimer = null;
-    }
-    this.clearHeartbeat(connection);
+    this.attached = true;
+    this.manager.on('connected', this.onConnected);
+    this.manager.on('disconnected', this.onDisconnected);
+    this.manager.on('error', this.onError);
   }
 
-  private clearHeartbeat(connection: MarketConnection): void {
-    if (connection.heartbeatTimer) {
-      clearInterval(connection.heartbeatTimer);
-      connection.heartbeatTimer = null;
+  private detachManagerEvents(): void {
+    if (!this.attached) {
+      return;
     }
+    this.attached = false;
+    this.manager.off('connected', this.onConnected);
+    this.manager.off('disconnected', this.onDisconnected);
+    this.manager.off('error', this.onError);
   }
 
-  private buildUrl(connection: MarketConnection): string {
-    const streams = connection.subscriptions.map((sub) => {
-      const symbol = sub.symbol.toLowerCase();
-      const channel = sub.streamType === 'trade' ? 'trade' : 'aggTrade';
-      return `${symbol}@${channel}`;
-    });
-
-    const query = streams.join('/');
-    if (connection.baseUrl.includes('?')) {
-      return `${connection.baseUrl}&streams=${query}`;
-    }
-    return `${connection.baseUrl}?streams=${query}`;
+  private ownsAny(market: MarketType, streams: string[]): boolean {
+    const owned = this.streams.get(market);
+    return owned !== undefined && streams.some((stream) => owned.includes(stream));
   }
 
-  private handleMessage(connection: MarketConnection, payload: WebSocket.RawData): void {
-    let parsed: any;
-    try {
-      parsed = JSON.parse(payload.toString());
-    } catch (error) {
-      logger.warn('Failed to parse Binance WS message', error);
-      return;
-    }
-
-    const data = parsed.data ?? parsed;
+  private handleMessage(context: BinanceStreamContext, data: any): void {
     if (!data || typeof data !== 'object') {
       return;
     }
@@ -292,7 +181,7 @@ export class BinanceTradeWebSocketClient extends EventEmitter {
 
     const trade: TradeData = {
       symbol,
-      marketType: connection.marketType,
+      marketType: context.marketType,
       streamType: eventType,
       tradeId,
       price,
@@ -3,30 +3,78 @@ import { logger } from '../utils/logger';
 import {
   IDataCollector,
   IDatabaseManager,
+  IRateLimiter,
 } from './interfaces';
-import { BinanceRestClient } from './binance-rest-client';
+import { BinanceRestClient, FUTURES_DATA_RATE_LIMIT_KEY, TopTraderRequestOptions } from './binance-rest-client';
 import { SymbolManager } from './symbol-manager';
-import { TopTraderAccountData, TopTraderPositionData } from '../types';
+import { FuturesDataPeriod, TopTraderMarket } from '../types';
 
 interface DataCollectorOptions {
   topTraderIntervalMs: number;
-  topTraderRequestDelayMs?: number;
+  /** 登録済みエンドポイントの予算から同時実行数を求めるために参照する */
+  rateLimiter?: IRateLimiter;
+  topTraderMaxConcurrency?: number;
   topTraderMaxRetries?: number;
   topTraderRetryDelayMs?: number;
+  topTraderMarkets?: TopTraderMarket[];
+  topTraderPeriods?: FuturesDataPeriod[];
+  /** 未保存の銘柄・期間で遡る期間 (0 なら直近 12 期間、最大 30 日) */
+  topTraderBackfillMs?: number;
 }
 
-const DEFAULT_TOP_TRADER_REQUEST_DELAY_MS = 3_000;
+const DEFAULT_TOP_TRADER_MAX_CONCURRENCY = 16;
 const DEFAULT_TOP_TRADER_MAX_RETRIES = 3;
 const DEFAULT_TOP_TRADER_RETRY_DELAY_MS = 5_000;
+// /futures/data 系は直近 30 日分のみ提供される
+const MAX_TOP_TRADER_HISTORY_MS = 30 * 24 * 60 * 60 * 1000;
+const TOP_TRADER_HISTORY_LIMIT = 500;
+const MAX_TOP_TRADER_REST_ITERATIONS = 50;
+// topTraderBackfillMs が 0 の場合に未保存の銘柄で遡る期間数
+const DEFAULT_TOP_TRADER_INITIAL_PERIODS = 12;
+// 銘柄の優先度に使う日足出来高の集計期間
+const TOP_TRADER_VOLUME_LOOKBACK_MS = 3 * 24 * 60 * 60 * 1000;
+
+const FUTURES_DATA_PERIOD_MS: Record<FuturesDataPeriod, number> = {
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '2h': 2 * 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '12h': 12 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+interface TopTraderStoredCounts {
+  positions: number;
+  accounts: number;
+  globalAccounts: number;
+  takerVolumes: number;
+}
+
+export interface TopTraderCycleSummary extends TopTraderStoredCounts {
+  symbols: number;
+  completed: number;
+  failed: number;
+  /** 収集間隔内に着手できず次のサイクルへ持ち越した銘柄数 */
+  skipped: number;
+  /** マーケットごとの同時実行数 */
+  concurrency: Partial<Record<TopTraderMarket, number>>;
+  durationMs: number;
+}
 
 export declare interface DataCollector {
   on(event: 'restError', listener: (error: Error) => void): this;
-  on(event: 'topTraderStored', listener: (payload: { positions: number; accounts: number }) => void): this;
+  on(event: 'topTraderStored', listener: (payload: TopTraderStoredCounts) => void): this;
+  on(event: 'topTraderCycleCompleted', listener: (summary: TopTraderCycleSummary) => void): this;
 }
 
 export class DataCollector extends EventEmitter implements IDataCollector {
   private topTraderTimer: NodeJS.Timeout | null = null;
   private topTraderJob: Promise<void> | null = null;
+  /** 前回のサイクルで着手できなかった銘柄。次のサイクルの先頭に回す */
+  private readonly topTraderCarryOver = new Map<TopTraderMarket, string[]>();
   private isRunning = false;
 
   constructor(
@@ -67,7 +115,7 @@ export class DataCollector extends EventEmitter implements IDataCollector {
 
     this.isRunning = false;
     if (this.topTraderTimer) {
-      clearInterval(this.topTraderTimer);
+      clearTimeout(this.topTraderTimer);
       this.topTraderTimer = null;
     }
 
@@ -84,13 +132,18 @@ export class DataCollector extends EventEmitter implements IDataCollector {
     logger.info('Binance data collector stopped');
   }
 
-  private scheduleTopTraderCollection(): void {
-    const launch = () => {
-      if (this.topTraderJob) {
-        logger.warn('Previous top trader collection still running, skipping this cycle');
-        return;
-      }
+  /**
+   * 前回のサイクルが終わってから次のサイクルを予約する。
+   * 収集間隔を超過した場合は次のサイクルを丸ごと見送らず、終了直後に開始する。
+   */
+  private scheduleTopTraderCollection(delayMs = 0): void {
+    if (!this.isRunning) {
+      return;
+    }
 
+    this.topTraderTimer = setTimeout(() => {
+      this.topTraderTimer = null;
+      const startedAt = Date.now();
       this.topTraderJob = this.collectTopTraderData()
         .catch((error) => {
           logger.error('Failed to collect top trader data', error);
@@ -98,76 +151,278 @@ export class DataCollector extends EventEmitter implements IDataCollector {
         })
         .finally(() => {
           this.topTraderJob = null;
+          this.scheduleTopTraderCollection(
+            Math.max(0, startedAt + this.options.topTraderIntervalMs - Date.now())
+          );
         });
-    };
+    }, delayMs);
+  }
+
+  private get topTraderMarkets(): TopTraderMarket[] {
+    return this.options.topTraderMarkets ?? ['USDT-M'];
+  }
+
+  private get topTraderPeriods(): FuturesDataPeriod[] {
+    return this.options.topTraderPeriods ?? ['5m'];
+  }
+
+  private get maxRetries(): number {
+    return this.options.topTraderMaxRetries ?? DEFAULT_TOP_TRADER_MAX_RETRIES;
+  }
 
-    launch();
-    this.topTraderTimer = setInterval(launch, this.options.topTraderIntervalMs);
+  private get retryDelayMs(): number {
+    return this.options.topTraderRetryDelayMs ?? DEFAULT_TOP_TRADER_RETRY_DELAY_MS;
   }
 
+  private get maxConcurrency(): number {
+    return this.options.topTraderMaxConcurrency ?? DEFAULT_TOP_TRADER_MAX_CONCURRENCY;
+  }
+
+  /**
+   * マーケットごとに出来高の大きい銘柄から順に、同時実行数の上限まで並行して取得する。
+   * 収集間隔を過ぎても着手できなかった銘柄はスキップし、次のサイクルの先頭に回して DB の最終時刻から再開する。
+   * 負荷が続いても出来高の小さい銘柄が毎回取り残されないようにするため。
+   */
   private async collectTopTraderData(): Promise<void> {
-    const symbols = await this.symbolManager.getActiveSymbolsByMarket('USDT-M');
-    if (symbols.length === 0) {
-      return;
-    }
+    const startedAt = Date.now();
+    const deadline = startedAt + this.options.topTraderIntervalMs;
+    const summary: TopTraderCycleSummary = {
+      symbols: 0,
+      completed: 0,
+      failed: 0,
+      skipped: 0,
+      positions: 0,
+      accounts: 0,
+      globalAccounts: 0,
+      takerVolumes: 0,
+      concurrency: {},
+      durationMs: 0,
+    };
 
-    const eligibleSymbols = symbols.filter(
-      (symbol) => !symbol.contractType || symbol.contractType === 'PERPETUAL'
+    // マーケットごとの同時実行数は共有枠を等分しているため並行して処理する
+    await Promise.all(
+      this.topTraderMarkets.map(async (market) => {
+        const targets = this.prioritizeCarryOver(market, await this.resolveTopTraderTargets(market));
+        const concurrency = Math.min(this.resolveTopTraderConcurrency(), Math.max(targets.length, 1));
+        summary.symbols += targets.length;
+        summary.concurrency[market] = concurrency;
+
+        let next = 0;
+        const worker = async () => {
+          while (this.isRunning && next < targets.length && Date.now() < deadline) {
+            const symbol = targets[next]!;
+            next += 1;
+
+            try {
+              const stored = await this.collectTopTraderSymbol(symbol, market);
+              summary.positions += stored.positions;
+              summary.accounts += stored.accounts;
+              summary.globalAccounts += stored.globalAccounts;
+              summary.takerVolumes += stored.takerVolumes;
+              summary.completed += 1;
+            } catch (error) {
+              summary.failed += 1;
+              logger.error(`Failed to fetch top trader data for ${symbol} (${market})`, error);
+              this.emit('restError', error as Error);
+            }
+          }
+        };
+
+        await Promise.all(Array.from({ length: concurrency }, () => worker()));
+        summary.skipped += targets.length - next;
+        this.topTraderCarryOver.set(market, targets.slice(next));
+      })
     );
 
-    let positionsCount = 0;
-    let accountsCount = 0;
+    if (summary.positions > 0 || summary.accounts > 0 || summary.globalAccounts > 0 || summary.takerVolumes > 0) {
+      this.emit('topTraderStored', {
+        positions: summary.positions,
+        accounts: summary.accounts,
+        globalAccounts: summary.globalAccounts,
+        takerVolumes: summary.takerVolumes,
+      });
+    }
+
+    summary.durationMs = Date.now() - startedAt;
+    if (summary.skipped > 0) {
+      logger.warn('Top trader cycle exceeded its interval, skipped remaining symbols', {
+        skipped: summary.skipped,
+        symbols: summary.symbols,
+        durationMs: summary.durationMs,
+      });
+    }
+    this.emit('topTraderCycleCompleted', summary);
+  }
 
-    const delayMs = this.options.topTraderRequestDelayMs ?? DEFAULT_TOP_TRADER_REQUEST_DELAY_MS;
-    const maxRetries = this.options.topTraderMaxRetries ?? DEFAULT_TOP_TRADER_MAX_RETRIES;
-    const retryDelayMs = this.options.topTraderRetryDelayMs ?? DEFAULT_TOP_TRADER_RETRY_DELAY_MS;
+  /**
+   * 1 銘柄分の比率を銘柄ごとに最後に保存した timestamp の次から startTime で区切って取得する
+   */
+  private async collectTopTraderSymbol(symbol: string, market: TopTraderMarket): Promise<TopTraderStoredCounts> {
+    const stored: TopTraderStoredCounts = { positions: 0, accounts: 0, globalAccounts: 0, takerVolumes: 0 };
+
+    for (const period of this.topTraderPeriods) {
+      const lastTimestamp = await this.db.getLastTopTraderTimestamp(symbol, market, period);
+      await this.pageTopTraderHistory(lastTimestamp, period, async (window) => {
+        const ratios = await this.storeTopTraderRatios(symbol, { market, period, ...window });
+        stored.positions += ratios.positions;
+        stored.accounts += ratios.accounts;
+      });
+    }
 
-    for (let index = 0; index < eligibleSymbols.length && this.isRunning; index += 1) {
-      const symbol = eligibleSymbols[index]!;
+    // 全アカウント比率とテイカー出来高比率は USDT-M の 5 分足のみ取得する
+    if (market !== 'USDT-M') {
+      return stored;
+    }
 
-      if (index > 0 && delayMs > 0) {
-        await this.delay(delayMs);
+    const lastGlobalAccount = await this.db.getLastGlobalLongShortAccountTimestamp(symbol);
+    await this.pageTopTraderHistory(lastGlobalAccount, '5m', async (window) => {
+      const globalAccounts = await this.fetchWithRetry(
+        () => this.restClient.fetchGlobalLongShortAccounts(symbol, window),
+        this.maxRetries,
+        this.retryDelayMs
+      );
+      const fresh = globalAccounts.filter((entry) => entry.timestamp >= window.startTime);
+      if (fresh.length > 0) {
+        await this.db.saveGlobalLongShortAccounts(fresh);
+        stored.globalAccounts += fresh.length;
       }
+    });
 
-      try {
-        const positions = await this.fetchWithRetry(
-          () => this.restClient.fetchTopTraderPositions(symbol.symbol),
-          maxRetries,
-          retryDelayMs
-        );
-        const accounts = await this.fetchWithRetry(
-          () => this.restClient.fetchTopTraderAccounts(symbol.symbol),
-          maxRetries,
-          retryDelayMs
-        );
-        const newPositions = this.filterNewTopTraderEntries(positions);
-        const newAccounts = this.filterNewTopTraderEntries(accounts);
-
-        if (newPositions.length > 0) {
-          await this.db.saveTopTraderPositions(newPositions as TopTraderPositionData[]);
-          positionsCount += newPositions.length;
-        }
-        if (newAccounts.length > 0) {
-          await this.db.saveTopTraderAccounts(newAccounts as TopTraderAccountData[]);
-          accountsCount += newAccounts.length;
-        }
-      } catch (error) {
-        logger.error(`Failed to fetch top trader data for ${symbol.symbol}`, error);
-        this.emit('restError', error as Error);
+    const lastTakerVolume = await this.db.getLastTakerBuySellVolumeTimestamp(symbol);
+    await this.pageTopTraderHistory(lastTakerVolume, '5m', async (window) => {
+      const takerVolumes = await this.fetchWithRetry(
+        () => this.restClient.fetchTakerBuySellVolumes(symbol, window),
+        this.maxRetries,
+        this.retryDelayMs
+      );
+      const fresh = takerVolumes.filter((entry) => entry.timestamp >= window.startTime);
+      if (fresh.length > 0) {
+        await this.db.saveTakerBuySellVolumes(fresh);
+        stored.takerVolumes += fresh.length;
       }
+    });
+
+    return stored;
+  }
+
+  /**
+   * /futures/data 系はマーケットや openInterestHist と 1 つの枠を共有するため、
+   * 枠から求めた 1 秒あたりのリクエスト数をマーケット間で等分して同時実行数の上限とする
+   */
+  private resolveTopTraderConcurrency(): number {
+    const endpoint = this.options.rateLimiter
+      ?.getUsageSnapshot()
+      .endpoints.find((entry) => entry.key === FUTURES_DATA_RATE_LIMIT_KEY);
+    if (!endpoint || endpoint.refillIntervalMs <= 0) {
+      return this.maxConcurrency;
     }
 
-    if (positionsCount > 0 || accountsCount > 0) {
-      this.emit('topTraderStored', {
-        positions: positionsCount,
-        accounts: accountsCount,
+    const requestsPerSecond = (endpoint.capacity * 1_000) / endpoint.refillIntervalMs;
+    const budget = Math.floor(requestsPerSecond / Math.max(this.topTraderMarkets.length, 1));
+    return Math.max(1, Math.min(budget, this.maxConcurrency));
+  }
+
+  /**
+   * lastTimestamp の次の期間 (未保存なら topTraderBackfillMs 前、最大 30 日) から現在まで、
+   * TOP_TRADER_HISTORY_LIMIT 期間ずつ区切って fetchWindow を呼び出す
+   */
+  private async pageTopTraderHistory(
+    lastTimestamp: number | undefined,
+    period: FuturesDataPeriod,
+    fetchWindow: (window: { startTime: number; endTime: number; limit: number }) => Promise<void>
+  ): Promise<void> {
+    const periodMs = FUTURES_DATA_PERIOD_MS[period];
+    const startedAt = Date.now();
+    const backfillMs = this.options.topTraderBackfillMs ?? 0;
+    const initialLookbackMs = backfillMs > 0 ? backfillMs : periodMs * DEFAULT_TOP_TRADER_INITIAL_PERIODS;
+    let cursor = Math.max(
+      lastTimestamp !== undefined ? lastTimestamp + periodMs : startedAt - initialLookbackMs,
+      startedAt - MAX_TOP_TRADER_HISTORY_MS
+    );
+
+    for (let iteration = 0; iteration < MAX_TOP_TRADER_REST_ITERATIONS && this.isRunning; iteration += 1) {
+      const now = Date.now();
+      if (cursor + periodMs > now) {
+        break;
+      }
+      const endTime = Math.min(now, cursor + periodMs * TOP_TRADER_HISTORY_LIMIT - 1);
+      await fetchWindow({ startTime: cursor, endTime, limit: TOP_TRADER_HISTORY_LIMIT });
+
+      if (endTime >= now) {
+        break;
+      }
+      // 上場前などで空の区間も要求済みのため、次の区間へ進める
+      cursor = endTime + 1;
+    }
+  }
+
+  /**
+   * ポジション比率とアカウント比率を取得し、要求した startTime 以降のものを保存する
+   */
+  private async storeTopTraderRatios(
+    symbol: string,
+    request: TopTraderRequestOptions & { market: TopTraderMarket; period: FuturesDataPeriod; startTime: number }
+  ): Promise<{ positions: number; accounts: number }> {
+    const positions = await this.fetchWithRetry(
+      () => this.restClient.fetchTopTraderPositions(symbol, request),
+      this.maxRetries,
+      this.retryDelayMs
+    );
+    const accounts = await this.fetchWithRetry(
+      () => this.restClient.fetchTopTraderAccounts(symbol, request),
+      this.maxRetries,
+      this.retryDelayMs
+    );
+    const newPositions = positions.filter((entry) => entry.timestamp >= request.startTime);
+    const newAccounts = accounts.filter((entry) => entry.timestamp >= request.startTime);
+
+    if (newPositions.length > 0) {
+      await this.db.saveTopTraderPositions(newPositions);
+    }
+    if (newAccounts.length > 0) {
+      await this.db.saveTopTraderAccounts(newAccounts);
+    }
+    return { positions: newPositions.length, accounts: newAccounts.length };
+  }
+
+  /**
+   * 対象の無期限銘柄を直近の日足出来高の大きい順に返す。
+   * COIN-M の Top Trader 指標は pair 単位のため BTCUSD_PERP を BTCUSD に変換する
+   */
+  private async resolveTopTraderTargets(market: TopTraderMarket): Promise<string[]> {
+    const symbols = await this.symbolManager.getActiveSymbolsByMarket(market);
+    const eligible = symbols.filter((symbol) => !symbol.contractType || symbol.contractType === 'PERPETUAL');
+
+    let volumes: Record<string, number> = {};
+    try {
+      volumes = await this.db.getQuoteVolumesSince('1d', market, Date.now() - TOP_TRADER_VOLUME_LOOKBACK_MS);
+    } catch (error) {
+      logger.warn('Failed to load daily volumes for top trader prioritisation', {
+        market,
+        error: (error as Error).message,
       });
     }
+
+    const targets = new Map<string, number>();
+    for (const { symbol } of eligible) {
+      const target = market === 'USDT-M' ? symbol : symbol.split('_')[0] ?? symbol;
+      targets.set(target, (targets.get(target) ?? 0) + (volumes[symbol] ?? 0));
+    }
+    // 出来高が未取得の銘柄は 0 として末尾に回す (同順位は元の順序を保つ)
+    return Array.from(targets.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([target]) => target);
   }
 
-  private filterNewTopTraderEntries<T extends { timestamp: number }>(entries: T[]): T[] {
-    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
-    return entries.filter((entry) => entry.timestamp >= cutoff);
+  /** 前回スキップした銘柄のうち現在も対象のものを、元の順序のまま先頭に並べ替える */
+  private prioritizeCarryOver(market: TopTraderMarket, targets: string[]): string[] {
+    const active = new Set(targets);
+    const carried = (this.topTraderCarryOver.get(market) ?? []).filter((symbol) => active.has(symbol));
+    if (carried.length === 0) {
+      return targets;
+    }
+    const carriedSet = new Set(carried);
+    return [...carried, ...targets.filter((symbol) => !carriedSet.has(symbol))];
   }
 
   private async fetchWithRetry<T>(
@@ -1,6 +1,9 @@
+import { EventEmitter } from 'events';
 import fs from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger';
+import { createSqliteSnapshot, MANIFEST_SUFFIX, SqliteSnapshotManifest } from '../utils/sqlite-snapshot';
+import { RetentionTable } from '../types';
 import { IDatabaseManager } from './interfaces';
 
 interface RetentionPolicy {
@@ -13,9 +16,17 @@ export interface DatabaseBackupSchedulerOptions {
   targetDirectory: string;
   intervalMs: number;
   databaseManager: IDatabaseManager;
+  /** false の場合はスナップショットを取得せず、保持期間による間引きのみ行う */
+  backupEnabled?: boolean;
+  pruneEnabled?: boolean;
   retentionPolicy?: RetentionPolicy;
   singleFileName?: string;
   dataRetentionMs?: number | null;
+  tableRetentionMs?: Partial<Record<RetentionTable, number | null>>;
+  pruneBatchSize?: number;
+  /** trade_data の間引きで進捗を待つ CVD 集計ワーカーの ID */
+  cvdAggregatorIds?: string[];
+  aggTradeDirectory?: string;
 }
 
 const DEFAULT_RETENTION: RetentionPolicy = {
@@ -25,33 +36,61 @@ const DEFAULT_RETENTION: RetentionPolicy = {
 
 const BACKUP_PREFIX = 'binance_data_';
 const BACKUP_EXTENSION = '.sqlite';
+const AGG_TRADE_BACKUP_SUBDIRECTORY = 'agg-trades';
 const DEFAULT_DATA_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
 
-export class DatabaseBackupScheduler {
+export declare interface DatabaseBackupScheduler {
+  on(event: 'backupCompleted', listener: (manifest: SqliteSnapshotManifest) => void): this;
+  on(
+    event: 'backupFailed',
+    listener: (error: Error, context: { sourcePath: string; backupPath: string }) => void
+  ): this;
+  on(event: 'backupSkipped', listener: (context: { sourcePath: string; backupPath: string }) => void): this;
+}
+
+export class DatabaseBackupScheduler extends EventEmitter {
   private timer: NodeJS.Timeout | null = null;
   private running = false;
+  private active = false;
 
-  constructor(private readonly options: DatabaseBackupSchedulerOptions) {}
+  constructor(private readonly options: DatabaseBackupSchedulerOptions) {
+    super();
+  }
 
   start(): void {
     if (this.timer) {
       return;
     }
+    this.active = true;
     logger.info('Starting database backup scheduler', {
       intervalMs: this.options.intervalMs,
       targetDirectory: this.options.targetDirectory,
+      backupEnabled: this.backupEnabled,
+      pruneEnabled: this.pruneEnabled,
     });
     this.schedule(0);
   }
 
   stop(): void {
+    this.active = false;
     if (this.timer) {
       clearTimeout(this.timer);
       this.timer = null;
     }
   }
 
+  private get backupEnabled(): boolean {
+    return this.options.backupEnabled ?? true;
+  }
+
+  private get pruneEnabled(): boolean {
+    return this.options.pruneEnabled ?? true;
+  }
+
   private schedule(delayMs: number): void {
+    if (!this.active) {
+      return;
+    }
     this.timer = setTimeout(() => {
       void this.run();
     }, delayMs);
@@ -65,41 +104,180 @@ export class DatabaseBackupScheduler {
     }
     this.running = true;
     try {
-      await this.performBackup();
-      await this.enforceRetention();
-      await this.pruneHistoricalData();
-    } catch (error) {
-      logger.error('Database backup failed', error);
+      // バックアップ先の障害 (容量不足・パス誤り) で間引きが止まり trade_data が肥大化しないよう、手順ごとに例外を処理する
+      if (this.backupEnabled) {
+        await this.runStep('Database backup failed', async () => {
+          await this.performBackup();
+          await this.enforceRetention(this.options.targetDirectory, BACKUP_PREFIX);
+        });
+        await this.runStep('Agg trade shard backup failed', () => this.backupAggTradeShards());
+      }
+      if (this.pruneEnabled) {
+        await this.runStep('Historical data pruning failed', () => this.pruneHistoricalData());
+      }
     } finally {
       this.running = false;
       this.schedule(this.options.intervalMs);
     }
   }
 
+  private async runStep(failureMessage: string, step: () => Promise<void>): Promise<void> {
+    try {
+      await step();
+    } catch (error) {
+      logger.error(failureMessage, error);
+    }
+  }
+
+  /**
+   * 稼働中の WAL データベースを VACUUM INTO で複製し、検証済みのスナップショットのみを残す
+   */
   private async performBackup(): Promise<void> {
     const { sourcePath, targetDirectory, singleFileName } = this.options;
-    await fs.promises.access(sourcePath, fs.constants.R_OK);
-    await fs.promises.mkdir(targetDirectory, { recursive: true });
-
-    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
-    const backupFilename = singleFileName ?? `${BACKUP_PREFIX}${timestamp}${BACKUP_EXTENSION}`;
+    const backupFilename = singleFileName ?? `${BACKUP_PREFIX}${this.formatTimestamp()}${BACKUP_EXTENSION}`;
     const backupPath = path.join(targetDirectory, backupFilename);
 
-    await fs.promises.copyFile(sourcePath, backupPath);
-    const stats = await fs.promises.stat(backupPath);
+    let manifest: SqliteSnapshotManifest;
+    try {
+      await fs.promises.access(sourcePath, fs.constants.R_OK);
+      await fs.promises.mkdir(targetDirectory, { recursive: true });
+      manifest = await createSqliteSnapshot(sourcePath, backupPath);
+    } catch (error) {
+      logger.error('Database backup snapshot failed', { sourcePath, backupPath, error });
+      this.emit('backupFailed', error as Error, { sourcePath, backupPath });
+      throw error;
+    }
+
     logger.info('Database backup created', {
       backupPath,
-      size: stats.size,
-      modifiedAt: stats.mtime.toISOString(),
+      size: manifest.sizeBytes,
+      sha256: manifest.sha256,
+      tables: Object.keys(manifest.tables).length,
     });
+    this.emit('backupCompleted', manifest);
   }
 
-  private async enforceRetention(): Promise<void> {
+  /**
+   * AggTradeDatabaseManager が管理する銘柄別 SQLite (<asset>.sqlite) をシャード単位で退避する。
+   * 前回スナップショット取得時からファイルが変化していないシャードはスキップする。
+   */
+  private async backupAggTradeShards(): Promise<void> {
+    const sourceDirectory = this.options.aggTradeDirectory;
+    if (!sourceDirectory) {
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(sourceDirectory, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.warn('Agg trade data directory does not exist; skipping shard backups', { sourceDirectory });
+        return;
+      }
+      throw error;
+    }
+
+    const shardFiles = entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith(BACKUP_EXTENSION))
+      .map((entry) => entry.name)
+      .sort();
+    const targetDirectory = path.join(this.options.targetDirectory, AGG_TRADE_BACKUP_SUBDIRECTORY);
+    await fs.promises.mkdir(targetDirectory, { recursive: true });
+
+    const timestamp = this.formatTimestamp();
+    let created = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (const file of shardFiles) {
+      const asset = path.basename(file, BACKUP_EXTENSION);
+      const prefix = `${asset}_`;
+      const sourcePath = path.join(sourceDirectory, file);
+      const backupPath = path.join(
+        targetDirectory,
+        this.options.singleFileName ? file : `${prefix}${timestamp}${BACKUP_EXTENSION}`
+      );
+
+      try {
+        const fingerprint = await this.fingerprintSource(sourcePath);
+        const previous = await this.readLatestManifest(targetDirectory, file, prefix);
+        if (previous?.sourceFingerprint === fingerprint) {
+          skipped += 1;
+          this.emit('backupSkipped', { sourcePath, backupPath: previous.backupPath });
+          continue;
+        }
+
+        const manifest = await createSqliteSnapshot(sourcePath, backupPath, { sourceFingerprint: fingerprint });
+        created += 1;
+        this.emit('backupCompleted', manifest);
+      } catch (error) {
+        failed += 1;
+        logger.error('Agg trade shard backup failed', { sourcePath, backupPath, error });
+        this.emit('backupFailed', error as Error, { sourcePath, backupPath });
+      }
+
+      await this.enforceRetention(targetDirectory, prefix);
+    }
+
+    logger.info('Agg trade shard backups completed', {
+      shards: shardFiles.length,
+      created,
+      skipped,
+      failed,
+    });
+  }
+
+  /**
+   * WAL モードでは書き込みが -wal に溜まるため、本体と -wal の両方のサイズ・更新時刻で変化を判定する
+   */
+  private async fingerprintSource(sourcePath: string): Promise<string> {
+    const parts: string[] = [];
+    for (const filePath of [sourcePath, `${sourcePath}-wal`]) {
+      try {
+        const stats = await fs.promises.stat(filePath);
+        parts.push(`${stats.size}:${stats.mtimeMs}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        parts.push('-');
+      }
+    }
+    return parts.join('|');
+  }
+
+  private async readLatestManifest(
+    directory: string,
+    singleFileName: string,
+    prefix: string
+  ): Promise<SqliteSnapshotManifest | null> {
+    let latest: string | undefined;
+    if (this.options.singleFileName) {
+      latest = singleFileName;
+    } else {
+      const files = await this.listBackupFiles(directory, prefix);
+      latest = files[files.length - 1];
+    }
+    if (!latest) {
+      return null;
+    }
+
+    try {
+      const raw = await fs.promises.readFile(path.join(directory, `${latest}${MANIFEST_SUFFIX}`), 'utf8');
+      return JSON.parse(raw) as SqliteSnapshotManifest;
+    } catch {
+      return null;
+    }
+  }
+
+  private async enforceRetention(directory: string, prefix: string): Promise<void> {
     if (this.options.singleFileName) {
       return;
     }
     const retention = this.options.retentionPolicy ?? DEFAULT_RETENTION;
-    const files = await this.listBackupFiles();
+    // 変更がなくスキップされ続けるシャードでも最低 1 世代は残るよう、最新のファイルは対象外とする
+    const files = (await this.listBackupFiles(directory, prefix)).slice(0, -1);
     const now = Date.now();
     const dailyThreshold = now - retention.dailyDays * 24 * 60 * 60 * 1000;
     const weeklyThreshold = now - retention.weeklyWeeks * 7 * 24 * 60 * 60 * 1000;
@@ -108,11 +286,11 @@ export class DatabaseBackupScheduler {
     const weeklyKeeper = new Map<string, { path: string; timestamp: number }>();
 
     for (const file of files) {
-      const timestamp = this.extractTimestamp(file);
+      const timestamp = this.extractTimestamp(file, prefix);
       if (!timestamp) {
         continue;
       }
-      const absolutePath = path.join(this.options.targetDirectory, file);
+      const absolutePath = path.join(directory, file);
       if (timestamp >= dailyThreshold) {
         continue;
       }
@@ -136,6 +314,7 @@ export class DatabaseBackupScheduler {
     for (const filePath of toDelete) {
       try {
         await fs.promises.unlink(filePath);
+        await fs.promises.rm(`${filePath}${MANIFEST_SUFFIX}`, { force: true });
         logger.info('Removed expired backup', { filePath });
       } catch (error) {
         logger.warn('Failed to remove expired backup', { filePath, error });
@@ -144,41 +323,85 @@ export class DatabaseBackupScheduler {
   }
 
   private async pruneHistoricalData(): Promise<void> {
-    const retentionMs = this.options.dataRetentionMs ?? DEFAULT_DATA_RETENTION_MS;
-    if (retentionMs === null || retentionMs <= 0) {
-      return;
+    // null は保持期間無制限 (DATABASE_RETENTION_DAYS <= 0) を表すため、未指定時のみ既定値を使う
+    const retentionMs =
+      this.options.dataRetentionMs === undefined ? DEFAULT_DATA_RETENTION_MS : this.options.dataRetentionMs;
+    const now = Date.now();
+
+    if (retentionMs !== null && retentionMs > 0) {
+      const cutoff = now - retentionMs;
+      try {
+        await this.options.databaseManager.pruneDataBefore('1m', cutoff);
+        await this.options.databaseManager.pruneDataBefore('30m', cutoff);
+        await this.options.databaseManager.pruneDataBefore('1d', cutoff);
+        await this.options.databaseManager.pruneTopTraderDataBefore(cutoff);
+      } catch (error) {
+        logger.warn('Failed to prune historical data', error);
+      }
     }
 
-    const now = Date.now();
-    const cutoff = now - retentionMs;
-    try {
-      await this.options.databaseManager.pruneDataBefore('1m', cutoff);
-      await this.options.databaseManager.pruneDataBefore('30m', cutoff);
-      await this.options.databaseManager.pruneDataBefore('1d', cutoff);
-      await this.options.databaseManager.pruneTopTraderDataBefore(cutoff);
-    } catch (error) {
-      logger.warn('Failed to prune historical data', error);
+    await this.pruneRetentionTables(now);
+  }
+
+  /**
+   * trade_data / cvd_data / liquidation_events / alert テーブルをテーブルごとの保持期間で間引く。
+   * 1 テーブルの失敗で他のテーブルの間引きを止めないよう個別に例外を処理する
+   */
+  private async pruneRetentionTables(now: number): Promise<void> {
+    const policies = this.options.tableRetentionMs ?? {};
+    for (const [table, retentionMs] of Object.entries(policies) as Array<[RetentionTable, number | null]>) {
+      if (retentionMs === null || retentionMs <= 0) {
+        continue;
+      }
+
+      const cutoff = now - retentionMs;
+      try {
+        const options = {
+          ...(this.options.pruneBatchSize ? { batchSize: this.options.pruneBatchSize } : {}),
+          ...(table === 'trade_data' && this.options.cvdAggregatorIds
+            ? { aggregatorIds: this.options.cvdAggregatorIds }
+            : {}),
+        };
+        const result = await this.options.databaseManager.pruneTableBefore(table, cutoff, options);
+        if (result.deletedRows > 0) {
+          logger.info('Pruned expired rows', result);
+        }
+      } catch (error) {
+        logger.warn('Failed to prune expired rows', { table, cutoff, error });
+      }
     }
   }
 
-  private async listBackupFiles(): Promise<string[]> {
-    const entries = await fs.promises.readdir(this.options.targetDirectory, { withFileTypes: true });
+  private async listBackupFiles(directory: string, prefix: string): Promise<string[]> {
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
     return entries
-      .filter((entry) => entry.isFile() && entry.name.startsWith(BACKUP_PREFIX) && entry.name.endsWith(BACKUP_EXTENSION))
+      .filter(
+        (entry) =>
+          entry.isFile() &&
+          entry.name.startsWith(prefix) &&
+          entry.name.endsWith(BACKUP_EXTENSION) &&
+          this.extractTimestamp(entry.name, prefix) !== null
+      )
       .map((entry) => entry.name)
       .sort();
   }
 
-  private extractTimestamp(filename: string): number | null {
-    const match = filename.match(/^binance_data_(\d{8}T\d{6}Z)\.sqlite$/);
-    if (!match) {
+  private formatTimestamp(date = new Date()): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  }
+
+  private extractTimestamp(filename: string, prefix: string): number | null {
+    if (!filename.startsWith(prefix) || !filename.endsWith(BACKUP_EXTENSION)) {
       return null;
     }
-    const [, timestamp] = match;
-    if (!timestamp) {
+    const stamp = filename.slice(prefix.length, -BACKUP_EXTENSION.length);
+    const match = stamp.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+    if (!match) {
       return null;
     }
-    const parsed = Date.parse(timestamp);
+    // Date.parse は区切りなしの ISO 8601 (20240101T000000Z) を解釈できないため拡張形式に戻す
+    const [, year, month, day, hour, minute, second] = match;
+    const parsed = Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
     return Number.isNaN(parsed) ? null : parsed;
   }
 
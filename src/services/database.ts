@@ -22,12 +22,46 @@ import {
   TradeDataRow,
   AlertQueueRecord,
   LiquidationEvent,
+  RetentionTable,
+  PruneResult,
+  LiquidationEventRow,
+  LiquidationBucket,
+  LiquidationBucketInterval,
+  LiquidationAlertPayload,
+  LiquidationCoverageGap,
+  LiquidationCoverageCheck,
+  OrderBookSnapshot,
+  OrderBookMetrics,
+  MarkPriceSample,
+  FundingRate,
+  OpenInterestData,
+  GlobalLongShortAccountData,
+  TakerBuySellVolumeData,
+  TopTraderMarket,
+  FuturesDataPeriod,
 } from '../types';
 import { IDatabaseManager, ProcessingState } from './interfaces';
 import { CvdAlertPayload } from '@crypto-data/cvd-core';
 
 sqlite3.verbose();
 
+const DEFAULT_PRUNE_BATCH_SIZE = 5_000;
+
+/**
+ * テーブルごとの間引き条件。alert_queue は未処理のアラートを失わないよう処理済みの行に限定する
+ */
+const RETENTION_TABLES: Record<RetentionTable, { timeColumn: string; condition?: string }> = {
+  trade_data: { timeColumn: 'timestamp' },
+  cvd_data: { timeColumn: 'timestamp' },
+  liquidation_events: { timeColumn: 'event_time' },
+  alert_queue: { timeColumn: 'timestamp', condition: 'processed_at IS NOT NULL' },
+  alert_history: { timeColumn: 'timestamp' },
+  order_book_snapshots: { timeColumn: 'timestamp' },
+  order_book_metrics: { timeColumn: 'timestamp' },
+  mark_prices: { timeColumn: 'timestamp' },
+  open_interest: { timeColumn: 'timestamp' },
+};
+
 interface Migration {
   id: number;
   name: string;
@@ -257,6 +291,403 @@ const MIGRATIONS: Migration[] = [
       `CREATE INDEX IF NOT EXISTS idx_liquidation_events_symbol_time ON liquidation_events(symbol, market_type, event_time)`
     ],
   },
+  {
+    id: 6,
+    name: 'add_market_type_to_ohlcv',
+    // 既存行は symbols テーブルで市場が一意に決まるもののみ埋め戻し、曖昧なものは 'UNKNOWN' として残す
+    statements: [
+      `CREATE TABLE ohlcv_1m_v2 (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        open_time INTEGER NOT NULL,
+        close_time INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL NOT NULL,
+        quote_volume REAL NOT NULL,
+        trades INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, market_type, open_time)
+      )`,
+      `INSERT OR IGNORE INTO ohlcv_1m_v2 (
+        symbol, market_type, open_time, close_time, open, high, low, close,
+        volume, quote_volume, trades, created_at
+      )
+      SELECT
+        o.symbol,
+        CASE
+          WHEN (SELECT COUNT(*) FROM symbols s WHERE s.symbol = o.symbol) = 1
+            THEN (SELECT s.market_type FROM symbols s WHERE s.symbol = o.symbol)
+          ELSE 'UNKNOWN'
+        END,
+        o.open_time, o.close_time, o.open, o.high, o.low, o.close,
+        o.volume, o.quote_volume, o.trades, o.created_at
+      FROM ohlcv_1m o`,
+      `DROP TABLE ohlcv_1m`,
+      `ALTER TABLE ohlcv_1m_v2 RENAME TO ohlcv_1m`,
+      `CREATE INDEX IF NOT EXISTS idx_ohlcv_1m_open_time ON ohlcv_1m(open_time)`,
+      `CREATE INDEX IF NOT EXISTS idx_ohlcv_1m_market_symbol ON ohlcv_1m(market_type, symbol, open_time)`,
+      `CREATE TABLE ohlcv_30m_v2 (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        open_time INTEGER NOT NULL,
+        close_time INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL NOT NULL,
+        quote_volume REAL NOT NULL,
+        trades INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, market_type, open_time)
+      )`,
+      `INSERT OR IGNORE INTO ohlcv_30m_v2 (
+        symbol, market_type, open_time, close_time, open, high, low, close,
+        volume, quote_volume, trades, created_at
+      )
+      SELECT
+        o.symbol,
+        CASE
+          WHEN (SELECT COUNT(*) FROM symbols s WHERE s.symbol = o.symbol) = 1
+            THEN (SELECT s.market_type FROM symbols s WHERE s.symbol = o.symbol)
+          ELSE 'UNKNOWN'
+        END,
+        o.open_time, o.close_time, o.open, o.high, o.low, o.close,
+        o.volume, o.quote_volume, o.trades, o.created_at
+      FROM ohlcv_30m o`,
+      `DROP TABLE ohlcv_30m`,
+      `ALTER TABLE ohlcv_30m_v2 RENAME TO ohlcv_30m`,
+      `CREATE INDEX IF NOT EXISTS idx_ohlcv_30m_open_time ON ohlcv_30m(open_time)`,
+      `CREATE INDEX IF NOT EXISTS idx_ohlcv_30m_market_symbol ON ohlcv_30m(market_type, symbol, open_time)`,
+      `CREATE TABLE ohlcv_1d_v2 (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        open_time INTEGER NOT NULL,
+        close_time INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL NOT NULL,
+        quote_volume REAL NOT NULL,
+        trades INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, market_type, open_time)
+      )`,
+      `INSERT OR IGNORE INTO ohlcv_1d_v2 (
+        symbol, market_type, open_time, close_time, open, high, low, close,
+        volume, quote_volume, trades, created_at
+      )
+      SELECT
+        o.symbol,
+        CASE
+          WHEN (SELECT COUNT(*) FROM symbols s WHERE s.symbol = o.symbol) = 1
+            THEN (SELECT s.market_type FROM symbols s WHERE s.symbol = o.symbol)
+          ELSE 'UNKNOWN'
+        END,
+        o.open_time, o.close_time, o.open, o.high, o.low, o.close,
+        o.volume, o.quote_volume, o.trades, o.created_at
+      FROM ohlcv_1d o`,
+      `DROP TABLE ohlcv_1d`,
+      `ALTER TABLE ohlcv_1d_v2 RENAME TO ohlcv_1d`,
+      `CREATE INDEX IF NOT EXISTS idx_ohlcv_1d_open_time ON ohlcv_1d(open_time)`,
+      `CREATE INDEX IF NOT EXISTS idx_ohlcv_1d_market_symbol ON ohlcv_1d(market_type, symbol, open_time)`
+    ],
+  },
+  {
+    id: 7,
+    name: 'create_liquidation_buckets_table',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS liquidation_buckets (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        interval TEXT NOT NULL,
+        bucket_start INTEGER NOT NULL,
+        long_notional REAL NOT NULL,
+        short_notional REAL NOT NULL,
+        long_count INTEGER NOT NULL,
+        short_count INTEGER NOT NULL,
+        long_z_score REAL NOT NULL DEFAULT 0,
+        short_z_score REAL NOT NULL DEFAULT 0,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, market_type, interval, bucket_start)
+      )`
+    ],
+  },
+  {
+    id: 8,
+    name: 'create_liquidation_coverage_table',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS liquidation_coverage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        market_type TEXT NOT NULL,
+        window_start INTEGER NOT NULL,
+        window_end INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_liquidation_coverage_window ON liquidation_coverage(market_type, window_start, window_end)`
+    ],
+  },
+  {
+    id: 9,
+    name: 'add_contract_size_to_symbols',
+    statements: [`ALTER TABLE symbols ADD COLUMN contract_size REAL`],
+  },
+  {
+    id: 10,
+    name: 'create_order_book_snapshots_table',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS order_book_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        last_update_id INTEGER NOT NULL,
+        depth INTEGER NOT NULL,
+        best_bid REAL,
+        best_ask REAL,
+        bids TEXT NOT NULL,
+        asks TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(symbol, market_type, timestamp)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_order_book_snapshots_timestamp ON order_book_snapshots(timestamp)`
+    ],
+  },
+  {
+    id: 11,
+    name: 'create_order_book_metrics_table',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS order_book_metrics (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        band_bps REAL NOT NULL,
+        best_bid REAL NOT NULL,
+        best_ask REAL NOT NULL,
+        mid_price REAL NOT NULL,
+        spread REAL NOT NULL,
+        spread_bps REAL NOT NULL,
+        bid_notional REAL NOT NULL,
+        ask_notional REAL NOT NULL,
+        imbalance REAL NOT NULL,
+        PRIMARY KEY (symbol, market_type, band_bps, timestamp)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_order_book_metrics_timestamp ON order_book_metrics(timestamp)`
+    ],
+  },
+  {
+    id: 12,
+    name: 'create_mark_price_and_funding_tables',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS mark_prices (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        event_time INTEGER NOT NULL,
+        mark_price REAL NOT NULL,
+        index_price REAL NOT NULL,
+        estimated_settle_price REAL,
+        funding_rate REAL NOT NULL,
+        next_funding_time INTEGER NOT NULL,
+        PRIMARY KEY (symbol, market_type, timestamp)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_mark_prices_timestamp ON mark_prices(timestamp)`,
+      `CREATE TABLE IF NOT EXISTS funding_rates (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        funding_time INTEGER NOT NULL,
+        funding_rate REAL NOT NULL,
+        mark_price REAL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, market_type, funding_time)
+      )`
+    ],
+  },
+  {
+    id: 13,
+    name: 'create_open_interest_table',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS open_interest (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        source TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        open_interest REAL NOT NULL,
+        open_interest_value REAL,
+        PRIMARY KEY (symbol, market_type, source, timestamp)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_open_interest_timestamp ON open_interest(timestamp)`
+    ],
+  },
+  {
+    id: 14,
+    name: 'create_global_long_short_and_taker_volume_tables',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS global_long_short_accounts (
+        symbol TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        long_short_ratio REAL NOT NULL,
+        long_account REAL NOT NULL,
+        short_account REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, timestamp)
+      )`,
+      `CREATE TABLE IF NOT EXISTS taker_buy_sell_volume (
+        symbol TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        buy_sell_ratio REAL NOT NULL,
+        buy_volume REAL NOT NULL,
+        sell_volume REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, timestamp)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_global_long_short_accounts_timestamp ON global_long_short_accounts(timestamp)`,
+      `CREATE INDEX IF NOT EXISTS idx_taker_buy_sell_volume_timestamp ON taker_buy_sell_volume(timestamp)`
+    ],
+  },
+  {
+    id: 15,
+    name: 'add_market_and_period_to_top_trader_tables',
+    statements: [
+      // 初期マイグレーション以前に作成された DB ではテーブル自体が存在しないため、旧スキーマで用意してから移行する
+      `CREATE TABLE IF NOT EXISTS top_trader_positions (
+        symbol TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        long_short_ratio REAL NOT NULL,
+        long_account REAL NOT NULL,
+        short_account REAL NOT NULL,
+        long_position REAL NOT NULL,
+        short_position REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, timestamp)
+      )`,
+      `CREATE TABLE IF NOT EXISTS top_trader_accounts (
+        symbol TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        long_short_ratio REAL NOT NULL,
+        long_account REAL NOT NULL,
+        short_account REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, timestamp)
+      )`,
+      `CREATE TABLE top_trader_positions_v2 (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        period TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        long_short_ratio REAL NOT NULL,
+        long_account REAL NOT NULL,
+        short_account REAL NOT NULL,
+        long_position REAL NOT NULL,
+        short_position REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, market_type, period, timestamp)
+      )`,
+      `INSERT OR IGNORE INTO top_trader_positions_v2 (
+        symbol, market_type, period, timestamp, long_short_ratio, long_account,
+        short_account, long_position, short_position, created_at
+      )
+      SELECT symbol, 'USDT-M', '5m', timestamp, long_short_ratio, long_account,
+             short_account, long_position, short_position, created_at
+      FROM top_trader_positions`,
+      `DROP TABLE top_trader_positions`,
+      `ALTER TABLE top_trader_positions_v2 RENAME TO top_trader_positions`,
+      `CREATE INDEX IF NOT EXISTS idx_top_trader_positions_timestamp ON top_trader_positions(timestamp)`,
+      `CREATE TABLE top_trader_accounts_v2 (
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        period TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        long_short_ratio REAL NOT NULL,
+        long_account REAL NOT NULL,
+        short_account REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, market_type, period, timestamp)
+      )`,
+      `INSERT OR IGNORE INTO top_trader_accounts_v2 (
+        symbol, market_type, period, timestamp, long_short_ratio, long_account, short_account, created_at
+      )
+      SELECT symbol, 'USDT-M', '5m', timestamp, long_short_ratio, long_account, short_account, created_at
+      FROM top_trader_accounts`,
+      `DROP TABLE top_trader_accounts`,
+      `ALTER TABLE top_trader_accounts_v2 RENAME TO top_trader_accounts`,
+      `CREATE INDEX IF NOT EXISTS idx_top_trader_accounts_timestamp ON top_trader_accounts(timestamp)`
+    ],
+  },
+  {
+    id: 16,
+    name: 'create_liquidation_coverage_checks_table',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS liquidation_coverage_checks (
+        coverage_id INTEGER NOT NULL,
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL,
+        kline_count INTEGER NOT NULL,
+        taker_buy_volume REAL NOT NULL,
+        taker_sell_volume REAL NOT NULL,
+        complete INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (coverage_id, symbol)
+      )`
+    ],
+  },
+  {
+    id: 17,
+    name: 'add_symbols_to_liquidation_coverage',
+    statements: [`ALTER TABLE liquidation_coverage ADD COLUMN symbols TEXT`],
+  },
+  {
+    id: 18,
+    name: 'add_cross_check_to_liquidation_coverage',
+    statements: [`ALTER TABLE liquidation_coverage ADD COLUMN cross_check TEXT`],
+  },
+  {
+    id: 19,
+    name: 'make_alert_queue_cvd_columns_nullable',
+    statements: [
+      // CVD 用の数値カラムは CVD 以外のアラート (清算など) では NULL とし、値は payload_json にのみ持たせる
+      `CREATE TABLE alert_queue_v2 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        alert_type TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        trigger_source TEXT NOT NULL,
+        trigger_z_score REAL,
+        z_score REAL,
+        delta REAL,
+        delta_z_score REAL,
+        threshold REAL NOT NULL,
+        cumulative_value REAL,
+        payload_json TEXT NOT NULL,
+        attempt_count INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        processed_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `INSERT INTO alert_queue_v2 (
+        id, alert_type, symbol, timestamp, trigger_source, trigger_z_score, z_score, delta, delta_z_score,
+        threshold, cumulative_value, payload_json, attempt_count, last_error, processed_at, created_at, updated_at
+      )
+      SELECT id, alert_type, symbol, timestamp, trigger_source, trigger_z_score, z_score, delta, delta_z_score,
+             threshold, cumulative_value, payload_json, attempt_count, last_error, processed_at, created_at, updated_at
+      FROM alert_queue`,
+      `UPDATE alert_queue_v2
+       SET trigger_z_score = NULL, z_score = NULL, delta = NULL, delta_z_score = NULL, cumulative_value = NULL
+       WHERE alert_type = 'LIQUIDATION_SPIKE'`,
+      `DROP TABLE alert_queue`,
+      `ALTER TABLE alert_queue_v2 RENAME TO alert_queue`,
+      `CREATE INDEX IF NOT EXISTS idx_alert_queue_pending ON alert_queue(processed_at, timestamp)`,
+      `CREATE INDEX IF NOT EXISTS idx_alert_queue_symbol ON alert_queue(symbol, processed_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_alert_queue_type ON alert_queue(alert_type, processed_at)`
+    ],
+  },
 ];
 
 export class DatabaseManager implements IDatabaseManager {
@@ -312,10 +743,10 @@ export class DatabaseManager implements IDatabaseManager {
     const sql = `
       INSERT INTO symbols (
         symbol, base_asset, quote_asset, market_type, status,
-        onboard_date, contract_type, delivery_date,
+        onboard_date, contract_type, delivery_date, contract_size,
         tick_size, step_size, min_notional, updated_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(symbol, market_type) DO UPDATE SET
         base_asset=excluded.base_asset,
         quote_asset=excluded.quote_asset,
@@ -324,6 +755,7 @@ export class DatabaseManager implements IDatabaseManager {
         onboard_date=excluded.onboard_date,
         contract_type=excluded.contract_type,
         delivery_date=excluded.delivery_date,
+        contract_size=excluded.contract_size,
         tick_size=excluded.tick_size,
         step_size=excluded.step_size,
         min_notional=excluded.min_notional,
@@ -341,6 +773,7 @@ export class DatabaseManager implements IDatabaseManager {
           symbol.onboardDate,
           symbol.contractType ?? null,
           symbol.deliveryDate ?? null,
+          symbol.contractSize ?? null,
           symbol.filters.tickSize ?? null,
           symbol.filters.stepSize ?? null,
           symbol.filters.minNotional ?? null,
@@ -394,13 +827,14 @@ export class DatabaseManager implements IDatabaseManager {
         const table = this.getOhlcvTable(interval);
         const sql = `
           INSERT OR IGNORE INTO ${table} (
-            symbol, open_time, close_time, open, high, low, close,
+            symbol, market_type, open_time, close_time, open, high, low, close,
             volume, quote_volume, trades
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `;
         for (const item of items) {
           await this.runSql(db, sql, [
             item.symbol,
+            item.marketType,
             item.openTime,
             item.closeTime,
             item.open,
@@ -664,50 +1098,614 @@ export class DatabaseManager implements IDatabaseManager {
     }));
   }
 
-  async getProcessingState(processName: string, key: string): Promise<ProcessingState | null> {
-    const row = await this.get<{ last_row_id: number; last_timestamp: number }>(
-      `SELECT last_row_id, last_timestamp
-       FROM processing_state
-       WHERE process_name = ? AND key = ?`,
-      [processName, key]
+  async getLiquidationEventsSinceRowId(lastRowId: number, limit: number): Promise<LiquidationEventRow[]> {
+    const rows = await this.all<any>(
+      `SELECT rowid as row_id, *
+       FROM liquidation_events
+       WHERE rowid > ?
+       ORDER BY rowid ASC
+       LIMIT ?`,
+      [lastRowId, Math.max(1, Math.floor(limit))]
     );
 
-    if (!row) {
-      return null;
-    }
-
-    return {
-      lastRowId: Number(row.last_row_id ?? 0),
-      lastTimestamp: Number(row.last_timestamp ?? 0),
-    };
-  }
-
-  async saveProcessingState(processName: string, key: string, state: ProcessingState): Promise<void> {
-    await this.run(
-      `INSERT INTO processing_state (process_name, key, last_row_id, last_timestamp, updated_at)
-       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
-       ON CONFLICT(process_name, key)
-       DO UPDATE SET last_row_id = excluded.last_row_id,
-                     last_timestamp = excluded.last_timestamp,
-                     updated_at = CURRENT_TIMESTAMP`,
-      processName,
-      key,
-      state.lastRowId,
-      state.lastTimestamp
-    );
+    return rows.map((row) => {
+      const event: LiquidationEventRow = {
+        rowId: Number(row.row_id),
+        eventId: row.event_id,
+        symbol: row.symbol,
+        marketType: row.market_type,
+        side: row.side,
+        price: Number(row.price),
+        originalQuantity: Number(row.original_quantity),
+        filledQuantity: Number(row.filled_quantity),
+        eventTime: Number(row.event_time),
+        isMaker: Boolean(row.is_maker),
+        createdAt: Number(row.created_at),
+      };
+      if (row.average_price !== null) {
+        event.averagePrice = Number(row.average_price);
+      }
+      if (row.last_filled_price !== null) {
+        event.lastFilledPrice = Number(row.last_filled_price);
+      }
+      if (row.last_filled_quantity !== null) {
+        event.lastFilledQuantity = Number(row.last_filled_quantity);
+      }
+      if (row.trade_time !== null) {
+        event.tradeTime = Number(row.trade_time);
+      }
+      if (row.order_type !== null) {
+        event.orderType = row.order_type;
+      }
+      if (row.time_in_force !== null) {
+        event.timeInForce = row.time_in_force;
+      }
+      if (row.status !== null) {
+        event.status = row.status;
+      }
+      if (row.order_id !== null) {
+        event.orderId = row.order_id;
+      }
+      if (row.reduce_only !== null) {
+        event.reduceOnly = Boolean(row.reduce_only);
+      }
+      return event;
+    });
   }
 
-  async enqueueAlert(alertType: string, payload: CvdAlertPayload): Promise<number> {
+  async recordLiquidationCoverageGap(gap: LiquidationCoverageGap): Promise<number> {
     return new Promise<number>((resolve, reject) => {
       const db = this.getDb();
       db.run(
-        `INSERT INTO alert_queue (
-          alert_type,
-          symbol,
-          timestamp,
-          trigger_source,
-          trigger_z_score,
-          z_score,
+        `INSERT INTO liquidation_coverage (market_type, window_start, window_end, status, reason, symbols)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          gap.marketType,
+          gap.windowStart,
+          gap.windowEnd,
+          gap.status,
+          gap.reason,
+          gap.symbols ? JSON.stringify(gap.symbols) : null,
+        ],
+        function (err) {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(Number(this.lastID));
+          }
+        }
+      );
+    });
+  }
+
+  async saveLiquidationCoverageChecks(checks: LiquidationCoverageCheck[]): Promise<void> {
+    if (checks.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT OR REPLACE INTO liquidation_coverage_checks (
+        coverage_id, symbol, market_type, kline_count, taker_buy_volume, taker_sell_volume, complete
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.withTransaction(async (db) => {
+      for (const check of checks) {
+        await this.runSql(db, sql, [
+          check.coverageId,
+          check.symbol,
+          check.marketType,
+          check.klineCount,
+          check.takerBuyVolume,
+          check.takerSellVolume,
+          check.complete ? 1 : 0,
+        ]);
+      }
+    });
+  }
+
+  async updateLiquidationCoverageCrossCheck(
+    coverageId: number,
+    crossCheck: NonNullable<LiquidationCoverageGap['crossCheck']>
+  ): Promise<void> {
+    await this.run(`UPDATE liquidation_coverage SET cross_check = ? WHERE id = ?`, crossCheck, coverageId);
+  }
+
+  /**
+   * 欠損区間ごとのテイカー出来高の突き合わせ結果を返す。区間内で失われた清算数量の上限として使う
+   */
+  async getLiquidationCoverageChecks(coverageId: number): Promise<LiquidationCoverageCheck[]> {
+    const rows = await this.all<{
+      coverage_id: number;
+      symbol: string;
+      market_type: LiquidationCoverageCheck['marketType'];
+      kline_count: number;
+      taker_buy_volume: number;
+      taker_sell_volume: number;
+      complete: number;
+    }>(
+      `SELECT coverage_id, symbol, market_type, kline_count, taker_buy_volume, taker_sell_volume, complete
+       FROM liquidation_coverage_checks
+       WHERE coverage_id = ?
+       ORDER BY symbol ASC`,
+      [coverageId]
+    );
+
+    return rows.map((row) => ({
+      coverageId: Number(row.coverage_id),
+      symbol: row.symbol,
+      marketType: row.market_type,
+      klineCount: Number(row.kline_count),
+      takerBuyVolume: Number(row.taker_buy_volume),
+      takerSellVolume: Number(row.taker_sell_volume),
+      complete: row.complete === 1,
+    }));
+  }
+
+  /**
+   * [from, to) と重なる欠損区間を返す。空配列であればその区間の清算データは WebSocket で連続受信できている
+   */
+  async getLiquidationCoverageGaps(
+    marketType: LiquidationCoverageGap['marketType'],
+    from: number,
+    to: number
+  ): Promise<LiquidationCoverageGap[]> {
+    const rows = await this.all<{
+      id: number;
+      market_type: LiquidationCoverageGap['marketType'];
+      window_start: number;
+      window_end: number;
+      status: LiquidationCoverageGap['status'];
+      reason: LiquidationCoverageGap['reason'];
+      symbols: string | null;
+      cross_check: LiquidationCoverageGap['crossCheck'] | null;
+    }>(
+      `SELECT id, market_type, window_start, window_end, status, reason, symbols, cross_check
+       FROM liquidation_coverage
+       WHERE market_type = ? AND window_start < ? AND window_end > ?
+       ORDER BY window_start ASC`,
+      [marketType, to, from]
+    );
+
+    return rows.map((row) => ({
+      id: Number(row.id),
+      marketType: row.market_type,
+      windowStart: Number(row.window_start),
+      windowEnd: Number(row.window_end),
+      status: row.status,
+      reason: row.reason,
+      ...(row.symbols ? { symbols: JSON.parse(row.symbols) as string[] } : {}),
+      ...(row.cross_check ? { crossCheck: row.cross_check } : {}),
+    }));
+  }
+
+  /**
+   * 上位 N 段の板を保存する。価格帯は [価格, 数量] の JSON 配列で保持する
+   */
+  async saveOrderBookSnapshots(snapshots: OrderBookSnapshot[]): Promise<void> {
+    if (snapshots.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT OR IGNORE INTO order_book_snapshots (
+        symbol, market_type, timestamp, last_update_id, depth, best_bid, best_ask, bids, asks
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.withTransaction(async (db) => {
+      for (const snapshot of snapshots) {
+        await this.runSql(db, sql, [
+          snapshot.symbol,
+          snapshot.marketType,
+          snapshot.timestamp,
+          snapshot.lastUpdateId,
+          Math.max(snapshot.bids.length, snapshot.asks.length),
+          snapshot.bids[0]?.[0] ?? null,
+          snapshot.asks[0]?.[0] ?? null,
+          JSON.stringify(snapshot.bids),
+          JSON.stringify(snapshot.asks),
+        ]);
+      }
+    });
+  }
+
+  async getOrderBookSnapshots(
+    symbol: string,
+    marketType: MarketType,
+    from: number,
+    to: number
+  ): Promise<OrderBookSnapshot[]> {
+    const rows = await this.all<any>(
+      `SELECT symbol, market_type, timestamp, last_update_id, bids, asks
+       FROM order_book_snapshots
+       WHERE symbol = ? AND market_type = ? AND timestamp BETWEEN ? AND ?
+       ORDER BY timestamp ASC`,
+      [symbol, marketType, from, to]
+    );
+
+    return rows.map((row) => ({
+      symbol: row.symbol,
+      marketType: row.market_type,
+      timestamp: Number(row.timestamp),
+      lastUpdateId: Number(row.last_update_id),
+      bids: JSON.parse(row.bids),
+      asks: JSON.parse(row.asks),
+    }));
+  }
+
+  async saveOrderBookMetrics(metrics: OrderBookMetrics[]): Promise<void> {
+    if (metrics.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT OR REPLACE INTO order_book_metrics (
+        symbol, market_type, timestamp, band_bps, best_bid, best_ask, mid_price,
+        spread, spread_bps, bid_notional, ask_notional, imbalance
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.withTransaction(async (db) => {
+      for (const row of metrics) {
+        await this.runSql(db, sql, [
+          row.symbol,
+          row.marketType,
+          row.timestamp,
+          row.bandBps,
+          row.bestBid,
+          row.bestAsk,
+          row.midPrice,
+          row.spread,
+          row.spreadBps,
+          row.bidNotional,
+          row.askNotional,
+          row.imbalance,
+        ]);
+      }
+    });
+  }
+
+  async getOrderBookMetrics(
+    symbol: string,
+    marketType: MarketType,
+    from: number,
+    to: number
+  ): Promise<OrderBookMetrics[]> {
+    const rows = await this.all<any>(
+      `SELECT symbol, market_type, timestamp, band_bps, best_bid, best_ask, mid_price,
+              spread, spread_bps, bid_notional, ask_notional, imbalance
+       FROM order_book_metrics
+       WHERE symbol = ? AND market_type = ? AND timestamp BETWEEN ? AND ?
+       ORDER BY timestamp ASC, band_bps ASC`,
+      [symbol, marketType, from, to]
+    );
+
+    return rows.map((row) => ({
+      symbol: row.symbol,
+      marketType: row.market_type,
+      timestamp: Number(row.timestamp),
+      bandBps: Number(row.band_bps),
+      bestBid: Number(row.best_bid),
+      bestAsk: Number(row.best_ask),
+      midPrice: Number(row.mid_price),
+      spread: Number(row.spread),
+      spreadBps: Number(row.spread_bps),
+      bidNotional: Number(row.bid_notional),
+      askNotional: Number(row.ask_notional),
+      imbalance: Number(row.imbalance),
+    }));
+  }
+
+  async saveMarkPrices(samples: MarkPriceSample[]): Promise<void> {
+    if (samples.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT OR REPLACE INTO mark_prices (
+        symbol, market_type, timestamp, event_time, mark_price, index_price,
+        estimated_settle_price, funding_rate, next_funding_time
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.withTransaction(async (db) => {
+      for (const sample of samples) {
+        await this.runSql(db, sql, [
+          sample.symbol,
+          sample.marketType,
+          sample.timestamp,
+          sample.eventTime,
+          sample.markPrice,
+          sample.indexPrice,
+          sample.estimatedSettlePrice ?? null,
+          sample.fundingRate,
+          sample.nextFundingTime,
+        ]);
+      }
+    });
+  }
+
+  async getMarkPrices(
+    symbol: string,
+    marketType: MarkPriceSample['marketType'],
+    from: number,
+    to: number
+  ): Promise<MarkPriceSample[]> {
+    const rows = await this.all<any>(
+      `SELECT symbol, market_type, timestamp, event_time, mark_price, index_price,
+              estimated_settle_price, funding_rate, next_funding_time
+       FROM mark_prices
+       WHERE symbol = ? AND market_type = ? AND timestamp BETWEEN ? AND ?
+       ORDER BY timestamp ASC`,
+      [symbol, marketType, from, to]
+    );
+
+    return rows.map((row) => {
+      const sample: MarkPriceSample = {
+        symbol: row.symbol,
+        marketType: row.market_type,
+        timestamp: Number(row.timestamp),
+        eventTime: Number(row.event_time),
+        markPrice: Number(row.mark_price),
+        indexPrice: Number(row.index_price),
+        fundingRate: Number(row.funding_rate),
+        nextFundingTime: Number(row.next_funding_time),
+      };
+      if (row.estimated_settle_price !== null && row.estimated_settle_price !== undefined) {
+        sample.estimatedSettlePrice = Number(row.estimated_settle_price);
+      }
+      return sample;
+    });
+  }
+
+  async saveFundingRates(rates: FundingRate[]): Promise<void> {
+    if (rates.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT OR REPLACE INTO funding_rates (symbol, market_type, funding_time, funding_rate, mark_price)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+
+    await this.withTransaction(async (db) => {
+      for (const rate of rates) {
+        await this.runSql(db, sql, [
+          rate.symbol,
+          rate.marketType,
+          rate.fundingTime,
+          rate.fundingRate,
+          rate.markPrice ?? null,
+        ]);
+      }
+    });
+  }
+
+  async getFundingRates(
+    symbol: string,
+    marketType: FundingRate['marketType'],
+    from: number,
+    to: number
+  ): Promise<FundingRate[]> {
+    const rows = await this.all<any>(
+      `SELECT symbol, market_type, funding_time, funding_rate, mark_price
+       FROM funding_rates
+       WHERE symbol = ? AND market_type = ? AND funding_time BETWEEN ? AND ?
+       ORDER BY funding_time ASC`,
+      [symbol, marketType, from, to]
+    );
+
+    return rows.map((row) => {
+      const rate: FundingRate = {
+        symbol: row.symbol,
+        marketType: row.market_type,
+        fundingTime: Number(row.funding_time),
+        fundingRate: Number(row.funding_rate),
+      };
+      if (row.mark_price !== null && row.mark_price !== undefined) {
+        rate.markPrice = Number(row.mark_price);
+      }
+      return rate;
+    });
+  }
+
+  async getLastFundingTime(symbol: string, marketType: FundingRate['marketType']): Promise<number | undefined> {
+    const row = await this.get<{ last: number | null }>(
+      `SELECT MAX(funding_time) AS last FROM funding_rates WHERE symbol = ? AND market_type = ?`,
+      [symbol, marketType]
+    );
+    return row?.last !== null && row?.last !== undefined ? Number(row.last) : undefined;
+  }
+
+  async saveOpenInterest(data: OpenInterestData[]): Promise<void> {
+    if (data.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT OR REPLACE INTO open_interest (
+        symbol, market_type, source, timestamp, open_interest, open_interest_value
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.withTransaction(async (db) => {
+      for (const entry of data) {
+        await this.runSql(db, sql, [
+          entry.symbol,
+          entry.marketType,
+          entry.source,
+          entry.timestamp,
+          entry.openInterest,
+          entry.openInterestValue ?? null,
+        ]);
+      }
+    });
+  }
+
+  async getOpenInterest(
+    symbol: string,
+    marketType: OpenInterestData['marketType'],
+    source: OpenInterestData['source'],
+    from: number,
+    to: number
+  ): Promise<OpenInterestData[]> {
+    const rows = await this.all<any>(
+      `SELECT symbol, market_type, source, timestamp, open_interest, open_interest_value
+       FROM open_interest
+       WHERE symbol = ? AND market_type = ? AND source = ? AND timestamp BETWEEN ? AND ?
+       ORDER BY timestamp ASC`,
+      [symbol, marketType, source, from, to]
+    );
+
+    return rows.map((row) => {
+      const entry: OpenInterestData = {
+        symbol: row.symbol,
+        marketType: row.market_type,
+        source: row.source,
+        timestamp: Number(row.timestamp),
+        openInterest: Number(row.open_interest),
+      };
+      if (row.open_interest_value !== null && row.open_interest_value !== undefined) {
+        entry.openInterestValue = Number(row.open_interest_value);
+      }
+      return entry;
+    });
+  }
+
+  async getLastOpenInterestTimestamp(
+    symbol: string,
+    marketType: OpenInterestData['marketType'],
+    source: OpenInterestData['source']
+  ): Promise<number | undefined> {
+    const row = await this.get<{ last: number | null }>(
+      `SELECT MAX(timestamp) AS last FROM open_interest WHERE symbol = ? AND market_type = ? AND source = ?`,
+      [symbol, marketType, source]
+    );
+    return row?.last !== null && row?.last !== undefined ? Number(row.last) : undefined;
+  }
+
+  async getLiquidationBuckets(
+    symbol: string,
+    marketType: LiquidationBucket['marketType'],
+    interval: LiquidationBucketInterval,
+    fromBucketStart: number,
+    toBucketStart: number
+  ): Promise<LiquidationBucket[]> {
+    const rows = await this.all<any>(
+      `SELECT symbol, market_type, interval, bucket_start, long_notional, short_notional,
+              long_count, short_count, long_z_score, short_z_score
+       FROM liquidation_buckets
+       WHERE symbol = ? AND market_type = ? AND interval = ? AND bucket_start BETWEEN ? AND ?
+       ORDER BY bucket_start ASC`,
+      [symbol, marketType, interval, fromBucketStart, toBucketStart]
+    );
+
+    return rows.map((row) => ({
+      symbol: row.symbol,
+      marketType: row.market_type,
+      interval: row.interval,
+      bucketStart: Number(row.bucket_start),
+      longNotional: Number(row.long_notional),
+      shortNotional: Number(row.short_notional),
+      longCount: Number(row.long_count),
+      shortCount: Number(row.short_count),
+      longZScore: Number(row.long_z_score),
+      shortZScore: Number(row.short_z_score),
+    }));
+  }
+
+  /**
+   * バケットの更新と集計ワーカーの進捗を同一トランザクションで保存し、
+   * 再起動時に同じ清算イベントが二重に加算されないようにする
+   */
+  async saveLiquidationBuckets(
+    buckets: LiquidationBucket[],
+    checkpoint: { processName: string; key: string; state: ProcessingState }
+  ): Promise<void> {
+    const bucketSql = `
+      INSERT OR REPLACE INTO liquidation_buckets (
+        symbol, market_type, interval, bucket_start, long_notional, short_notional,
+        long_count, short_count, long_z_score, short_z_score, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `;
+    const stateSql = `
+      INSERT INTO processing_state (process_name, key, last_row_id, last_timestamp, updated_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(process_name, key)
+      DO UPDATE SET last_row_id = excluded.last_row_id,
+                    last_timestamp = excluded.last_timestamp,
+                    updated_at = CURRENT_TIMESTAMP
+    `;
+
+    await this.withTransaction(async (db) => {
+      for (const bucket of buckets) {
+        await this.runSql(db, bucketSql, [
+          bucket.symbol,
+          bucket.marketType,
+          bucket.interval,
+          bucket.bucketStart,
+          bucket.longNotional,
+          bucket.shortNotional,
+          bucket.longCount,
+          bucket.shortCount,
+          bucket.longZScore,
+          bucket.shortZScore,
+        ]);
+      }
+      await this.runSql(db, stateSql, [
+        checkpoint.processName,
+        checkpoint.key,
+        checkpoint.state.lastRowId,
+        checkpoint.state.lastTimestamp,
+      ]);
+    });
+  }
+
+  async getProcessingState(processName: string, key: string): Promise<ProcessingState | null> {
+    const row = await this.get<{ last_row_id: number; last_timestamp: number }>(
+      `SELECT last_row_id, last_timestamp
+       FROM processing_state
+       WHERE process_name = ? AND key = ?`,
+      [processName, key]
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      lastRowId: Number(row.last_row_id ?? 0),
+      lastTimestamp: Number(row.last_timestamp ?? 0),
+    };
+  }
+
+  async saveProcessingState(processName: string, key: string, state: ProcessingState): Promise<void> {
+    await this.run(
+      `INSERT INTO processing_state (process_name, key, last_row_id, last_timestamp, updated_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+       ON CONFLICT(process_name, key)
+       DO UPDATE SET last_row_id = excluded.last_row_id,
+                     last_timestamp = excluded.last_timestamp,
+                     updated_at = CURRENT_TIMESTAMP`,
+      processName,
+      key,
+      state.lastRowId,
+      state.lastTimestamp
+    );
+  }
+
+  async enqueueAlert(alertType: string, payload: CvdAlertPayload): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      const db = this.getDb();
+      db.run(
+        `INSERT INTO alert_queue (
+          alert_type,
+          symbol,
+          timestamp,
+          trigger_source,
+          trigger_z_score,
+          z_score,
           delta,
           delta_z_score,
           threshold,
@@ -738,6 +1736,37 @@ export class DatabaseManager implements IDatabaseManager {
     });
   }
 
+  async enqueueLiquidationAlert(payload: LiquidationAlertPayload): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      const db = this.getDb();
+      // 清算アラートの値は payload_json にのみ格納し、CVD 用の数値カラムは NULL のままにする
+      db.run(
+        `INSERT INTO alert_queue (
+          alert_type,
+          symbol,
+          timestamp,
+          trigger_source,
+          threshold,
+          payload_json
+        ) VALUES ('LIQUIDATION_SPIKE', ?, ?, ?, ?, ?)`,
+        [
+          payload.symbol,
+          payload.timestamp,
+          `${payload.interval}:${payload.side}`,
+          payload.threshold,
+          JSON.stringify(payload),
+        ],
+        function (err) {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(Number(this.lastID));
+          }
+        }
+      );
+    });
+  }
+
   async getPendingAlerts(limit: number): Promise<AlertQueueRecord[]> {
     const rows = await this.all<{
       id: number;
@@ -757,14 +1786,24 @@ export class DatabaseManager implements IDatabaseManager {
     );
 
     return rows.map((row) => {
-      const record: AlertQueueRecord = {
+      const base = {
         id: row.id,
-        alertType: row.alert_type,
-        payload: JSON.parse(row.payload_json) as CvdAlertPayload,
         attemptCount: Number(row.attempt_count ?? 0),
         lastError: row.last_error,
         processedAt: row.processed_at ? new Date(row.processed_at).getTime() : null,
       };
+      const record: AlertQueueRecord =
+        row.alert_type === 'LIQUIDATION_SPIKE'
+          ? {
+              ...base,
+              alertType: 'LIQUIDATION_SPIKE',
+              payload: JSON.parse(row.payload_json) as LiquidationAlertPayload,
+            }
+          : {
+              ...base,
+              alertType: 'CVD_ZSCORE',
+              payload: JSON.parse(row.payload_json) as CvdAlertPayload,
+            };
 
       if (row.created_at) {
         record.enqueuedAt = new Date(row.created_at).getTime();
@@ -809,8 +1848,8 @@ export class DatabaseManager implements IDatabaseManager {
   }
 
   async hasRecentAlertOrPending(alertType: string, symbol: string, sinceTimestamp: number): Promise<boolean> {
-    const pending = await this.get<{ exists: number }>(
-      `SELECT 1 as exists
+    const pending = await this.get<{ found: number }>(
+      `SELECT 1 as found
        FROM alert_queue
        WHERE alert_type = ?
          AND symbol = ?
@@ -826,8 +1865,8 @@ export class DatabaseManager implements IDatabaseManager {
       return true;
     }
 
-    const history = await this.get<{ exists: number }>(
-      `SELECT 1 as exists
+    const history = await this.get<{ found: number }>(
+      `SELECT 1 as found
        FROM alert_history
        WHERE alert_type = ? AND symbol = ? AND timestamp >= ?
        LIMIT 1`,
@@ -844,15 +1883,17 @@ export class DatabaseManager implements IDatabaseManager {
 
     const sql = `
       INSERT OR REPLACE INTO top_trader_positions (
-        symbol, timestamp, long_short_ratio, long_account,
+        symbol, market_type, period, timestamp, long_short_ratio, long_account,
         short_account, long_position, short_position
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     await this.withTransaction(async (db) => {
       for (const item of data) {
         await this.runSql(db, sql, [
           item.symbol,
+          item.marketType,
+          item.period,
           item.timestamp,
           item.longShortRatio,
           item.longAccount,
@@ -871,6 +1912,32 @@ export class DatabaseManager implements IDatabaseManager {
 
     const sql = `
       INSERT OR REPLACE INTO top_trader_accounts (
+        symbol, market_type, period, timestamp, long_short_ratio, long_account, short_account
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.withTransaction(async (db) => {
+      for (const item of data) {
+        await this.runSql(db, sql, [
+          item.symbol,
+          item.marketType,
+          item.period,
+          item.timestamp,
+          item.longShortRatio,
+          item.longAccount,
+          item.shortAccount,
+        ]);
+      }
+    });
+  }
+
+  async saveGlobalLongShortAccounts(data: GlobalLongShortAccountData[]): Promise<void> {
+    if (data.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT OR REPLACE INTO global_long_short_accounts (
         symbol, timestamp, long_short_ratio, long_account, short_account
       ) VALUES (?, ?, ?, ?, ?)
     `;
@@ -888,20 +1955,117 @@ export class DatabaseManager implements IDatabaseManager {
     });
   }
 
-  async pruneDataBefore(interval: OHLCVTimeframe, cutoff: number): Promise<void> {
+  async saveTakerBuySellVolumes(data: TakerBuySellVolumeData[]): Promise<void> {
+    if (data.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT OR REPLACE INTO taker_buy_sell_volume (
+        symbol, timestamp, buy_sell_ratio, buy_volume, sell_volume
+      ) VALUES (?, ?, ?, ?, ?)
+    `;
+
+    await this.withTransaction(async (db) => {
+      for (const item of data) {
+        await this.runSql(db, sql, [
+          item.symbol,
+          item.timestamp,
+          item.buySellRatio,
+          item.buyVolume,
+          item.sellVolume,
+        ]);
+      }
+    });
+  }
+
+  async pruneDataBefore(interval: OHLCVTimeframe, cutoff: number, marketType?: MarketType): Promise<void> {
     const table = this.getOhlcvTable(interval);
+    if (marketType) {
+      await this.run(`DELETE FROM ${table} WHERE market_type = ? AND open_time < ?`, marketType, cutoff);
+      return;
+    }
     await this.run(`DELETE FROM ${table} WHERE open_time < ?`, cutoff);
   }
 
   async pruneTopTraderDataBefore(cutoff: number): Promise<void> {
     await this.run('DELETE FROM top_trader_positions WHERE timestamp < ?', cutoff);
     await this.run('DELETE FROM top_trader_accounts WHERE timestamp < ?', cutoff);
+    await this.run('DELETE FROM global_long_short_accounts WHERE timestamp < ?', cutoff);
+    await this.run('DELETE FROM taker_buy_sell_volume WHERE timestamp < ?', cutoff);
   }
 
-  async getLastOHLCVTimestamps(interval: OHLCVTimeframe): Promise<Record<string, number | undefined>> {
+  /**
+   * 保持期間を過ぎた行を batchSize 件ずつ削除する。書き込みロックを長時間保持しないよう
+   * 1 バッチごとに自動コミットし、削除件数が batchSize を下回った時点で終了する。
+   * trade_data は CVD 集計ワーカーが未処理の行を消さないよう、processing_state に記録された
+   * cvd_aggregator の last_row_id の最小値以下の rowid に限定する。
+   * aggregatorIds を指定した場合は、そのいずれかが進捗を未記録であれば trade_data を削除しない。
+   */
+  async pruneTableBefore(
+    table: RetentionTable,
+    cutoff: number,
+    options: { batchSize?: number; aggregatorIds?: string[] } = {}
+  ): Promise<PruneResult> {
+    const definition = RETENTION_TABLES[table];
+    const batchSize = Math.max(1, Math.floor(options.batchSize ?? DEFAULT_PRUNE_BATCH_SIZE));
+    const result: PruneResult = { table, cutoff, deletedRows: 0, batches: 0 };
+
+    const conditions = [`${definition.timeColumn} < ?`];
+    const params: unknown[] = [cutoff];
+    if (definition.condition) {
+      conditions.push(definition.condition);
+    }
+
+    if (table === 'trade_data') {
+      const minRowId = await this.getMinCvdAggregatorRowId(options.aggregatorIds);
+      if (minRowId === undefined) {
+        // 集計ワーカーが一度も進捗を記録していない場合は未処理行を保護するため削除しない
+        return result;
+      }
+      conditions.push('rowid <= ?');
+      params.push(Number(minRowId));
+    }
+
+    const sql = `DELETE FROM ${table}
+       WHERE rowid IN (
+         SELECT rowid FROM ${table}
+         WHERE ${conditions.join(' AND ')}
+         LIMIT ?
+       )`;
+
+    let hasMore = true;
+    while (hasMore) {
+      const deleted = await this.runWithChanges(sql, ...params, batchSize);
+      result.batches += 1;
+      result.deletedRows += deleted;
+      hasMore = deleted >= batchSize;
+    }
+
+    return result;
+  }
+
+  private async getMinCvdAggregatorRowId(aggregatorIds?: string[]): Promise<number | undefined> {
+    const rows = await this.all<{ key: string; last_row_id: number }>(
+      `SELECT key, last_row_id FROM processing_state WHERE process_name = 'cvd_aggregator'`
+    );
+    const checkpoints = aggregatorIds
+      ? aggregatorIds.map((id) => rows.find((row) => row.key === id)?.last_row_id)
+      : rows.map((row) => row.last_row_id);
+    if (checkpoints.length === 0 || checkpoints.some((rowId) => rowId === undefined || rowId === null)) {
+      return undefined;
+    }
+    return Math.min(...checkpoints.map((rowId) => Number(rowId)));
+  }
+
+  async getLastOHLCVTimestamps(
+    interval: OHLCVTimeframe,
+    marketType: MarketType
+  ): Promise<Record<string, number | undefined>> {
     const table = this.getOhlcvTable(interval);
     const rows = await this.all(
-      `SELECT symbol, MAX(open_time) as open_time FROM ${table} GROUP BY symbol`
+      `SELECT symbol, MAX(open_time) as open_time FROM ${table} WHERE market_type = ? GROUP BY symbol`,
+      [marketType]
     );
     const result: Record<string, number | undefined> = {};
     for (const row of rows) {
@@ -910,6 +2074,28 @@ export class DatabaseManager implements IDatabaseManager {
     return result;
   }
 
+  /**
+   * since 以降の足の quote_volume を銘柄ごとに合計する
+   */
+  async getQuoteVolumesSince(
+    interval: OHLCVTimeframe,
+    marketType: MarketType,
+    since: number
+  ): Promise<Record<string, number>> {
+    const table = this.getOhlcvTable(interval);
+    const rows = await this.all(
+      `SELECT symbol, SUM(quote_volume) as quote_volume FROM ${table}
+       WHERE market_type = ? AND open_time >= ?
+       GROUP BY symbol`,
+      [marketType, since]
+    );
+    const result: Record<string, number> = {};
+    for (const row of rows) {
+      result[row.symbol] = Number(row.quote_volume ?? 0);
+    }
+    return result;
+  }
+
   async getLastAggTradeCheckpoint(
     symbol: string,
     marketType: AggTrade['marketType']
@@ -934,11 +2120,41 @@ export class DatabaseManager implements IDatabaseManager {
     };
   }
 
-  async getLastTopTraderTimestamp(): Promise<number | undefined> {
-    const row = await this.get<{ timestamp: number }>(
-      `SELECT MAX(timestamp) as timestamp FROM top_trader_positions`
+  /**
+   * ポジション比率とアカウント比率の両方に保存済みの最終 timestamp を返す。
+   * 片方にしか存在しない場合は欠けている側を補完できるよう undefined を返す。
+   */
+  async getLastTopTraderTimestamp(
+    symbol: string,
+    marketType: TopTraderMarket,
+    period: FuturesDataPeriod
+  ): Promise<number | undefined> {
+    const row = await this.get<{ positions: number | null; accounts: number | null }>(
+      `SELECT
+         (SELECT MAX(timestamp) FROM top_trader_positions WHERE symbol = ? AND market_type = ? AND period = ?) AS positions,
+         (SELECT MAX(timestamp) FROM top_trader_accounts WHERE symbol = ? AND market_type = ? AND period = ?) AS accounts`,
+      [symbol, marketType, period, symbol, marketType, period]
+    );
+    if (row?.positions === null || row?.positions === undefined || row.accounts === null || row.accounts === undefined) {
+      return undefined;
+    }
+    return Math.min(Number(row.positions), Number(row.accounts));
+  }
+
+  async getLastGlobalLongShortAccountTimestamp(symbol: string): Promise<number | undefined> {
+    const row = await this.get<{ last: number | null }>(
+      `SELECT MAX(timestamp) AS last FROM global_long_short_accounts WHERE symbol = ?`,
+      [symbol]
+    );
+    return row?.last !== null && row?.last !== undefined ? Number(row.last) : undefined;
+  }
+
+  async getLastTakerBuySellVolumeTimestamp(symbol: string): Promise<number | undefined> {
+    const row = await this.get<{ last: number | null }>(
+      `SELECT MAX(timestamp) AS last FROM taker_buy_sell_volume WHERE symbol = ?`,
+      [symbol]
     );
-    return row?.timestamp ?? undefined;
+    return row?.last !== null && row?.last !== undefined ? Number(row.last) : undefined;
   }
 
   private async ensureCvdDeltaColumns(): Promise<void> {
@@ -984,6 +2200,7 @@ export class DatabaseManager implements IDatabaseManager {
       onboardDate: Number(row.onboard_date),
       contractType: row.contract_type ?? undefined,
       deliveryDate: row.delivery_date ?? undefined,
+      contractSize: row.contract_size ?? undefined,
       filters: {
         tickSize: row.tick_size ?? undefined,
         stepSize: row.step_size ?? undefined,
@@ -1083,6 +2300,19 @@ export class DatabaseManager implements IDatabaseManager {
     });
   }
 
+  private runWithChanges(sql: string, ...params: unknown[]): Promise<number> {
+    const db = this.getDb();
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, function (err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(Number(this.changes ?? 0));
+        }
+      });
+    });
+  }
+
   private exec(sql: string): Promise<void> {
     const db = this.getDb();
     return new Promise((resolve, reject) => {
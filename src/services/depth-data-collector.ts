@@ -0,0 +1,397 @@
+import { EventEmitter } from 'events';
+import { DepthDiffEvent, DepthStreamConfig, MarketType, OrderBookSnapshot } from '../types';
+import { IDatabaseManager, IDepthDataCollector } from './interfaces';
+import { BinanceDepthWebSocketClient } from './binance-depth-websocket-client';
+import { BinanceStreamManager } from './binance-stream-manager';
+import { BinanceRestClient } from './binance-rest-client';
+import { LocalOrderBook } from './order-book';
+import { logger } from '../utils/logger';
+
+export interface DepthDataCollectorOptions {
+  spotWsUrl: string;
+  usdMWsUrl: string;
+  coinMWsUrl: string;
+  subscriptions: DepthStreamConfig[];
+  restClient: BinanceRestClient;
+  streamManager?: BinanceStreamManager;
+  /** REST /depth で取得する段数 */
+  restLimit?: number;
+  /** 保存する上位段数 */
+  snapshotLevels?: number;
+  snapshotIntervalMs?: number;
+  /** スナップショット取得待ちの間に保持する差分イベントの上限 (板ごと) */
+  maxBufferedEvents?: number;
+  resyncDelayMs?: number;
+  /** 起動時・再接続時に複数の板のスナップショット取得を開始する間隔 (同一 IP の重みを一度に消費しない) */
+  resyncStaggerMs?: number;
+}
+
+export type DepthResyncReason = 'initial' | 'reconnect' | 'gap';
+
+export interface DepthResyncResult {
+  symbol: string;
+  marketType: MarketType;
+  reason: DepthResyncReason;
+  lastUpdateId: number;
+  durationMs: number;
+}
+
+export interface DepthDesync {
+  symbol: string;
+  marketType: MarketType;
+  lastUpdateId: number | null;
+  firstUpdateId: number;
+  finalUpdateId: number;
+  previousFinalUpdateId?: number;
+}
+
+interface BookState {
+  book: LocalOrderBook;
+  /** スナップショット取得中は差分を適用せずバッファに積む */
+  syncing: boolean;
+  buffer: DepthDiffEvent[];
+}
+
+export declare interface DepthDataCollector {
+  on(event: 'depthSnapshotStored', listener: (count: number, durationMs: number) => void): this;
+  on(event: 'resynced', listener: (result: DepthResyncResult) => void): this;
+  on(event: 'desync', listener: (desync: DepthDesync) => void): this;
+  on(event: 'websocketConnected', listener: (market: MarketType, connectionId: number) => void): this;
+  on(
+    event: 'websocketDisconnected',
+    listener: (market: MarketType, connectionId: number, code: number, reason: string) => void
+  ): this;
+  on(event: 'websocketError', listener: (error: Error) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * REST /depth のスナップショットと @depth@100ms の差分からローカル板を維持し、
+ * 上位 N 段を一定間隔で order_book_snapshots に保存する。
+ * 更新 ID が途切れた場合と再接続時は、その板だけスナップショットを取り直す。
+ */
+export class DepthDataCollector extends EventEmitter implements IDepthDataCollector {
+  private readonly wsClient: BinanceDepthWebSocketClient;
+  private readonly books = new Map<string, BookState>();
+  private readonly restLimit: number;
+  private readonly snapshotLevels: number;
+  private readonly snapshotIntervalMs: number;
+  private readonly maxBufferedEvents: number;
+  private readonly resyncDelayMs: number;
+  private readonly resyncStaggerMs: number;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private persistJob: Promise<void> | null = null;
+  private running = false;
+  /** 起動時のスナップショット取得を開始した後の接続だけを再接続として扱う */
+  private initialSyncStarted = false;
+
+  constructor(
+    private readonly databaseManager: IDatabaseManager,
+    private readonly options: DepthDataCollectorOptions
+  ) {
+    super();
+    this.restLimit = options.restLimit ?? 1_000;
+    this.snapshotLevels = options.snapshotLevels ?? 20;
+    this.snapshotIntervalMs = options.snapshotIntervalMs ?? 10_000;
+    this.maxBufferedEvents = options.maxBufferedEvents ?? 1_000;
+    this.resyncDelayMs = options.resyncDelayMs ?? 1_000;
+    this.resyncStaggerMs = options.resyncStaggerMs ?? 200;
+
+    for (const subscription of options.subscriptions) {
+      const symbol = subscription.symbol.toUpperCase();
+      this.books.set(this.bookKey(symbol, subscription.marketType), {
+        book: new LocalOrderBook(symbol, subscription.marketType),
+        syncing: false,
+        buffer: [],
+      });
+    }
+
+    this.wsClient = new BinanceDepthWebSocketClient({
+      spotUrl: options.spotWsUrl,
+      usdMUrl: options.usdMWsUrl,
+      coinMUrl: options.coinMWsUrl,
+      subscriptions: options.subscriptions,
+      ...(options.streamManager ? { streamManager: options.streamManager } : {}),
+    });
+    this.setupWebSocketHandlers();
+  }
+
+  async start(): Promise<void> {
+    if (this.running || this.books.size === 0) {
+      return;
+    }
+    this.running = true;
+
+    logger.info('Starting Binance depth collector', { books: this.books.size });
+
+    try {
+      await this.databaseManager.initialize();
+      await this.databaseManager.runMigrations();
+      await this.wsClient.connect();
+    } catch (error) {
+      this.running = false;
+      logger.error('Failed to start Binance depth collector', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+
+    // 差分の受信を始めてからスナップショットを取得し、その間の差分はバッファから適用する
+    this.initialSyncStarted = true;
+    void this.staggerResync([...this.books.values()], 'initial');
+    this.startSnapshotTimer();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    logger.info('Stopping Binance depth collector');
+    this.running = false;
+    this.initialSyncStarted = false;
+    this.stopSnapshotTimer();
+    this.wsClient.disconnect();
+    if (this.persistJob) {
+      await this.persistJob;
+    }
+  }
+
+  getOrderBook(symbol: string, marketType: MarketType): LocalOrderBook | undefined {
+    return this.books.get(this.bookKey(symbol, marketType))?.book;
+  }
+
+  /**
+   * 差分に追従している板のみを返す。同期中・切断中の板は含めない
+   */
+  getSyncedOrderBooks(): LocalOrderBook[] {
+    const books: LocalOrderBook[] = [];
+    for (const state of this.books.values()) {
+      if (!state.syncing && state.book.isSynced()) {
+        books.push(state.book);
+      }
+    }
+    return books;
+  }
+
+  getSyncedBookCount(): number {
+    return this.getSyncedOrderBooks().length;
+  }
+
+  private setupWebSocketHandlers(): void {
+    this.wsClient.on('depth', (event) => this.handleDepth(event));
+
+    this.wsClient.on('error', (error) => {
+      logger.error('Binance depth WebSocket error', error);
+      this.emit('websocketError', error);
+    });
+
+    this.wsClient.on('connected', (market, connectionId, symbols) => {
+      this.emit('websocketConnected', market, connectionId);
+      if (!this.initialSyncStarted) {
+        return;
+      }
+      const states = symbols
+        .map((symbol) => this.books.get(this.bookKey(symbol, market)))
+        .filter((state): state is BookState => state !== undefined);
+      void this.staggerResync(states, 'reconnect');
+    });
+
+    this.wsClient.on('disconnected', (market, connectionId, code, reason, symbols) => {
+      this.emit('websocketDisconnected', market, connectionId, code, reason);
+      // 切断中の差分は取得できないため、再接続時のスナップショットまで板を破棄する
+      for (const symbol of symbols) {
+        const state = this.books.get(this.bookKey(symbol, market));
+        if (state) {
+          state.book.reset();
+          state.buffer = [];
+        }
+      }
+    });
+  }
+
+  private handleDepth(event: DepthDiffEvent): void {
+    const state = this.books.get(this.bookKey(event.symbol, event.marketType));
+    if (!state || !this.running) {
+      return;
+    }
+
+    if (state.syncing || state.book.getLastUpdateId() === null) {
+      this.bufferEvent(state, event);
+      return;
+    }
+
+    const lastUpdateId = state.book.getLastUpdateId();
+    if (state.book.applyDiff(event) !== 'gap') {
+      return;
+    }
+
+    const desync: DepthDesync = {
+      symbol: event.symbol,
+      marketType: event.marketType,
+      lastUpdateId,
+      firstUpdateId: event.firstUpdateId,
+      finalUpdateId: event.finalUpdateId,
+      ...(event.previousFinalUpdateId !== undefined
+        ? { previousFinalUpdateId: event.previousFinalUpdateId }
+        : {}),
+    };
+    logger.warn('Binance depth stream out of sequence, resnapshotting', desync);
+    this.emit('desync', desync);
+
+    this.bufferEvent(state, event);
+    void this.resync(state, 'gap');
+  }
+
+  private bufferEvent(state: BookState, event: DepthDiffEvent): void {
+    state.buffer.push(event);
+    if (state.buffer.length > this.maxBufferedEvents) {
+      state.buffer.shift();
+    }
+  }
+
+  /**
+   * 板ごとのスナップショット取得を resyncStaggerMs ずつずらして開始する。
+   * 起動待ちの間に再接続で同期済みになった板は取り直さない。
+   */
+  private async staggerResync(states: BookState[], reason: DepthResyncReason): Promise<void> {
+    for (const [index, state] of states.entries()) {
+      if (!this.running) {
+        return;
+      }
+      if (index > 0) {
+        await this.delay(this.resyncStaggerMs);
+      }
+      if (reason === 'initial' && state.book.isSynced()) {
+        continue;
+      }
+      void this.resync(state, reason);
+    }
+  }
+
+  /**
+   * スナップショットを取得してバッファ済みの差分を適用する。
+   * スナップショットがバッファの先頭より古い場合は差分が繋がらないため、取り直す。
+   */
+  private async resync(state: BookState, reason: DepthResyncReason): Promise<void> {
+    if (state.syncing || !this.running) {
+      return;
+    }
+    state.syncing = true;
+    state.book.reset();
+
+    const { symbol, marketType } = state.book;
+    const startedAt = Date.now();
+
+    try {
+      while (this.running) {
+        try {
+          const snapshot = await this.options.restClient.fetchDepthSnapshot(symbol, marketType, this.restLimit);
+          if (!this.running) {
+            return;
+          }
+          state.book.loadSnapshot(snapshot);
+          if (this.replayBuffer(state)) {
+            this.emit('resynced', {
+              symbol,
+              marketType,
+              reason,
+              lastUpdateId: state.book.getLastUpdateId()!,
+              durationMs: Date.now() - startedAt,
+            });
+            return;
+          }
+          logger.debug('Depth snapshot is behind buffered diffs, retrying', {
+            symbol,
+            marketType,
+            lastUpdateId: snapshot.lastUpdateId,
+          });
+        } catch (error) {
+          logger.error('Failed to fetch Binance depth snapshot', {
+            symbol,
+            marketType,
+            error: (error as Error).message,
+          });
+          this.emit('error', error as Error);
+        }
+        state.book.reset();
+        await this.delay(this.resyncDelayMs);
+      }
+    } finally {
+      state.syncing = false;
+    }
+  }
+
+  /**
+   * バッファを順に適用する。途切れた場合は未適用分をバッファに戻して false を返す
+   */
+  private replayBuffer(state: BookState): boolean {
+    const events = state.buffer;
+    state.buffer = [];
+
+    for (let index = 0; index < events.length; index += 1) {
+      if (state.book.applyDiff(events[index]!) === 'gap') {
+        state.buffer = events.slice(index);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private startSnapshotTimer(): void {
+    this.stopSnapshotTimer();
+    this.snapshotTimer = setInterval(() => {
+      if (!this.persistJob) {
+        this.persistJob = this.persistSnapshots().finally(() => {
+          this.persistJob = null;
+        });
+      }
+    }, this.snapshotIntervalMs);
+  }
+
+  private stopSnapshotTimer(): void {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+  }
+
+  private async persistSnapshots(): Promise<void> {
+    const timestamp = Date.now();
+    const snapshots: OrderBookSnapshot[] = [];
+
+    for (const book of this.getSyncedOrderBooks()) {
+      const { bids, asks } = book.getTopLevels(this.snapshotLevels);
+      snapshots.push({
+        symbol: book.symbol,
+        marketType: book.marketType,
+        timestamp,
+        lastUpdateId: book.getLastUpdateId()!,
+        bids,
+        asks,
+      });
+    }
+
+    if (snapshots.length === 0) {
+      return;
+    }
+
+    try {
+      await this.databaseManager.saveOrderBookSnapshots(snapshots);
+      this.emit('depthSnapshotStored', snapshots.length, Date.now() - timestamp);
+    } catch (error) {
+      logger.error('Failed to persist Binance order book snapshots', error);
+      this.emit('error', error as Error);
+    }
+  }
+
+  private bookKey(symbol: string, market: MarketType): string {
+    return `${market}:${symbol.toUpperCase()}`;
+  }
+
+  private async delay(ms: number): Promise<void> {
+    if (ms <= 0) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,350 @@
+import { EventEmitter } from 'events';
+import { FundingRate, MarkPriceSample, MarkPriceStreamConfig, MarkPriceUpdate, MarketType } from '../types';
+import { IDatabaseManager, IFundingDataCollector, ISymbolManager } from './interfaces';
+import {
+  BinanceMarkPriceSubscription,
+  BinanceMarkPriceWebSocketClient,
+} from './binance-mark-price-websocket-client';
+import { BinanceStreamManager } from './binance-stream-manager';
+import { BinanceRestClient } from './binance-rest-client';
+import { logger } from '../utils/logger';
+
+type FundingMarket = MarkPriceUpdate['marketType'];
+
+export interface FundingDataCollectorOptions {
+  usdMWsUrl: string;
+  coinMWsUrl: string;
+  streams: MarkPriceStreamConfig[];
+  restClient: BinanceRestClient;
+  /** symbols: 'ALL' の市場で対象の無期限銘柄を解決するために使う */
+  symbolManager?: ISymbolManager;
+  streamManager?: BinanceStreamManager;
+  /** マーク価格を保存する間隔。間隔内の最後の更新だけを残す */
+  sampleIntervalMs?: number;
+  fundingBackfillIntervalMs?: number;
+  /** 資金調達率を未保存の銘柄で遡る期間 */
+  initialLookbackMs?: number;
+  restLimit?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+export interface FundingBackfillSummary {
+  symbols: number;
+  stored: number;
+  failed: number;
+  durationMs: number;
+}
+
+export declare interface FundingDataCollector {
+  on(event: 'markPriceSaved', listener: (count: number, durationMs: number) => void): this;
+  on(
+    event: 'fundingRatesStored',
+    listener: (payload: { symbol: string; marketType: FundingMarket; count: number; durationMs: number }) => void
+  ): this;
+  on(event: 'fundingBackfillCompleted', listener: (summary: FundingBackfillSummary) => void): this;
+  on(event: 'websocketConnected', listener: (market: MarketType, connectionId: number) => void): this;
+  on(
+    event: 'websocketDisconnected',
+    listener: (market: MarketType, connectionId: number, code: number, reason: string) => void
+  ): this;
+  on(event: 'websocketError', listener: (error: Error) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+const MAX_REST_ITERATIONS = 50;
+const REQUEST_COOLDOWN_MS = 200;
+
+/**
+ * 先物のマーク価格・インデックス価格・予測資金調達率を @markPrice@1s で受信して mark_prices に保存し、
+ * 精算済みの資金調達率を REST の fundingRate で funding_rates に補完する。
+ * 1 秒ごとの更新は保存間隔の境界ごとに最後の 1 件へ間引く。
+ */
+export class FundingDataCollector extends EventEmitter implements IFundingDataCollector {
+  private readonly sampleIntervalMs: number;
+  private readonly fundingBackfillIntervalMs: number;
+  private readonly initialLookbackMs: number;
+  private readonly restLimit: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private wsClient: BinanceMarkPriceWebSocketClient | null = null;
+  private targets: BinanceMarkPriceSubscription[] = [];
+  private samples = new Map<string, MarkPriceSample>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private backfillTimer: NodeJS.Timeout | null = null;
+  private currentBackfill: Promise<void> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly databaseManager: IDatabaseManager,
+    private readonly options: FundingDataCollectorOptions
+  ) {
+    super();
+    this.sampleIntervalMs = Math.max(1_000, options.sampleIntervalMs ?? 60_000);
+    this.fundingBackfillIntervalMs = options.fundingBackfillIntervalMs ?? 60 * 60 * 1000;
+    this.initialLookbackMs = options.initialLookbackMs ?? 30 * 24 * 60 * 60 * 1000;
+    this.restLimit = options.restLimit ?? 1_000;
+    this.maxRetries = Math.max(1, options.maxRetries ?? 3);
+    this.retryDelayMs = options.retryDelayMs ?? 5_000;
+  }
+
+  async start(): Promise<void> {
+    if (this.running || this.options.streams.length === 0) {
+      return;
+    }
+    this.running = true;
+
+    logger.info('Starting Binance funding / mark price collector');
+
+    try {
+      await this.databaseManager.initialize();
+      await this.databaseManager.runMigrations();
+      this.targets = await this.resolveTargets();
+
+      const allMarketStreams = this.options.streams.some(
+        (stream) => stream.marketType === 'USDT-M' && stream.symbols === 'ALL'
+      )
+        ? (['USDT-M'] as const)
+        : [];
+      this.wsClient = new BinanceMarkPriceWebSocketClient({
+        usdMUrl: this.options.usdMWsUrl,
+        coinMUrl: this.options.coinMWsUrl,
+        subscriptions: this.targets,
+        allMarketStreams: [...allMarketStreams],
+        ...(this.options.streamManager ? { streamManager: this.options.streamManager } : {}),
+      });
+      this.setupWebSocketHandlers(this.wsClient);
+      await this.wsClient.connect();
+    } catch (error) {
+      this.running = false;
+      logger.error('Failed to start Binance funding collector', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+
+    this.flushTimer = setInterval(() => {
+      void this.flushSamples(false);
+    }, this.sampleIntervalMs);
+    this.runBackfill();
+    this.backfillTimer = setInterval(() => this.runBackfill(), this.fundingBackfillIntervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    logger.info('Stopping Binance funding / mark price collector');
+    this.running = false;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.backfillTimer) {
+      clearInterval(this.backfillTimer);
+      this.backfillTimer = null;
+    }
+    this.wsClient?.disconnect();
+    this.wsClient = null;
+
+    if (this.currentBackfill) {
+      await this.currentBackfill;
+    }
+    await this.flushSamples(true);
+  }
+
+  getBufferSize(): number {
+    return this.samples.size;
+  }
+
+  private setupWebSocketHandlers(client: BinanceMarkPriceWebSocketClient): void {
+    client.on('markPrice', (update) => this.handleMarkPrice(update));
+    client.on('error', (error) => {
+      logger.error('Binance mark price WebSocket error', error);
+      this.emit('websocketError', error);
+    });
+    client.on('connected', (market, connectionId) => this.emit('websocketConnected', market, connectionId));
+    client.on('disconnected', (market, connectionId, code, reason) =>
+      this.emit('websocketDisconnected', market, connectionId, code, reason)
+    );
+  }
+
+  private handleMarkPrice(update: MarkPriceUpdate): void {
+    const timestamp = update.eventTime - (update.eventTime % this.sampleIntervalMs);
+    this.samples.set(`${update.marketType}:${update.symbol}:${timestamp}`, { ...update, timestamp });
+  }
+
+  /**
+   * 保存間隔が終わったサンプルを書き込む。final の場合は進行中の間隔も書き込む
+   */
+  private async flushSamples(final: boolean): Promise<void> {
+    const now = Date.now();
+    const currentBucket = now - (now % this.sampleIntervalMs);
+    const ready: MarkPriceSample[] = [];
+    for (const [key, sample] of this.samples) {
+      if (final || sample.timestamp < currentBucket) {
+        ready.push(sample);
+        this.samples.delete(key);
+      }
+    }
+    if (ready.length === 0) {
+      return;
+    }
+
+    try {
+      await this.databaseManager.saveMarkPrices(ready);
+      this.emit('markPriceSaved', ready.length, Date.now() - now);
+    } catch (error) {
+      logger.error('Failed to persist Binance mark prices', error);
+      this.emit('error', error as Error);
+      for (const sample of ready) {
+        const key = `${sample.marketType}:${sample.symbol}:${sample.timestamp}`;
+        if (!this.samples.has(key)) {
+          this.samples.set(key, sample);
+        }
+      }
+    }
+  }
+
+  private runBackfill(): void {
+    if (this.currentBackfill || !this.running) {
+      return;
+    }
+    this.currentBackfill = this.backfillFundingRates()
+      .catch((error) => {
+        logger.error('Funding rate backfill cycle failed', error);
+        this.emit('error', error as Error);
+      })
+      .finally(() => {
+        this.currentBackfill = null;
+      });
+  }
+
+  private async backfillFundingRates(): Promise<void> {
+    const startedAt = Date.now();
+    let stored = 0;
+    let failed = 0;
+
+    for (const target of this.targets) {
+      if (!this.running) {
+        break;
+      }
+      const targetStartedAt = Date.now();
+      try {
+        const count = await this.backfillSymbol(target.symbol, target.marketType);
+        stored += count;
+        if (count > 0) {
+          this.emit('fundingRatesStored', {
+            symbol: target.symbol,
+            marketType: target.marketType,
+            count,
+            durationMs: Date.now() - targetStartedAt,
+          });
+        }
+      } catch (error) {
+        failed += 1;
+        logger.error('Failed to backfill Binance funding rates', {
+          symbol: target.symbol,
+          marketType: target.marketType,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+      }
+    }
+
+    this.emit('fundingBackfillCompleted', {
+      symbols: this.targets.length,
+      stored,
+      failed,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  /**
+   * 最後に保存した fundingTime の直後から (未保存なら initialLookbackMs 前から) 最新まで取得する
+   */
+  private async backfillSymbol(symbol: string, marketType: FundingMarket): Promise<number> {
+    const lastFundingTime = await this.databaseManager.getLastFundingTime(symbol, marketType);
+    let cursor = lastFundingTime !== undefined ? lastFundingTime + 1 : Date.now() - this.initialLookbackMs;
+    let stored = 0;
+
+    for (let iteration = 0; iteration < MAX_REST_ITERATIONS && this.running; iteration += 1) {
+      const rates = await this.fetchWithRetry(symbol, marketType, cursor);
+      if (rates.length > 0) {
+        await this.databaseManager.saveFundingRates(rates);
+        stored += rates.length;
+      }
+
+      const last = rates[rates.length - 1];
+      if (!last || rates.length < this.restLimit) {
+        break;
+      }
+      cursor = last.fundingTime + 1;
+      await this.delay(REQUEST_COOLDOWN_MS);
+    }
+
+    return stored;
+  }
+
+  private async fetchWithRetry(symbol: string, marketType: FundingMarket, startTime: number): Promise<FundingRate[]> {
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= this.maxRetries && this.running; attempt += 1) {
+      try {
+        return await this.options.restClient.fetchFundingRates(symbol, marketType, {
+          startTime,
+          limit: this.restLimit,
+        });
+      } catch (error) {
+        lastError = error;
+        if (attempt >= this.maxRetries) {
+          break;
+        }
+        logger.warn('Funding rate REST request failed, retrying', {
+          symbol,
+          marketType,
+          attempt,
+          error: (error as Error).message,
+        });
+        await this.delay(this.retryDelayMs);
+      }
+    }
+    throw lastError ?? new Error('Funding rate REST request failed');
+  }
+
+  /**
+   * 購読・補完の対象銘柄を解決する。'ALL' の市場は SymbolManager のアクティブな無期限銘柄を使う
+   */
+  private async resolveTargets(): Promise<BinanceMarkPriceSubscription[]> {
+    const targets = new Map<string, BinanceMarkPriceSubscription>();
+
+    for (const stream of this.options.streams) {
+      let symbols: string[];
+      if (stream.symbols === 'ALL') {
+        if (!this.options.symbolManager) {
+          logger.warn('Cannot resolve ALL mark price symbols without a symbol manager', stream);
+          continue;
+        }
+        const active = await this.options.symbolManager.getActiveSymbolsByMarket(stream.marketType);
+        symbols = active
+          .filter((symbol) => symbol.contractType === 'PERPETUAL')
+          .map((symbol) => symbol.symbol);
+      } else {
+        symbols = stream.symbols;
+      }
+
+      for (const rawSymbol of symbols) {
+        const symbol = rawSymbol.toUpperCase();
+        targets.set(`${stream.marketType}:${symbol}`, { symbol, marketType: stream.marketType });
+      }
+    }
+
+    return Array.from(targets.values());
+  }
+
+  private async delay(ms: number): Promise<void> {
+    if (ms <= 0) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -1,16 +1,36 @@
 export { DatabaseManager } from './database';
 export { SymbolManager } from './symbol-manager';
 export { RateLimiter } from './rate-limiter';
-export { BinanceRestClient } from './binance-rest-client';
+export {
+  BinanceRestClient,
+  FUTURES_DATA_RATE_LIMIT_KEY,
+  REQUEST_WEIGHT_RATE_LIMIT_KEYS,
+  USDM_FUNDING_RATE_LIMIT_KEY,
+} from './binance-rest-client';
 export { AggTradeDatabaseManager } from './agg-trade-database-manager';
 export { DataCollector } from './data-collector';
 export { AggTradeCollector } from './agg-trade-collector';
+export { AggTradeGapRepairer } from './agg-trade-gap-repairer';
 export { DatabaseBackupScheduler } from './database-backup-scheduler';
 export { TradeDataCollector } from './trade-data-collector';
 export { AlertService } from './alert-service';
+export { BinanceStreamManager } from './binance-stream-manager';
 export { BinanceTradeWebSocketClient } from './binance-trade-websocket-client';
 export { CvdAggregationWorker } from './cvd-aggregation-worker';
 export { AlertQueueProcessor } from './alert-queue-processor';
 export { LiquidationDataCollector } from './liquidation-data-collector';
 export { BinanceLiquidationWebSocketClient } from './binance-liquidation-websocket-client';
+export { KlineDataCollector } from './kline-data-collector';
+export { DepthDataCollector } from './depth-data-collector';
+export { BinanceDepthWebSocketClient } from './binance-depth-websocket-client';
+export { LocalOrderBook } from './order-book';
+export { OrderBookMetricsWorker } from './order-book-metrics-worker';
+export { FundingDataCollector } from './funding-data-collector';
+export { BinanceMarkPriceWebSocketClient } from './binance-mark-price-websocket-client';
+export { BinanceKlineWebSocketClient } from './binance-kline-websocket-client';
+export { BinanceAggTradeWebSocketClient } from './binance-agg-trade-websocket-client';
+export { MetricsRegistry } from './metrics-registry';
+export { MetricsServer } from './metrics-server';
+export { KlineBackfillCollector } from './kline-backfill-collector';
+export { OpenInterestCollector } from './open-interest-collector';
 export * from './interfaces';
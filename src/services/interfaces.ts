@@ -7,6 +7,10 @@ import {
   OHLCVData,
   OHLCVTimeframe,
   AggTrade,
+  AggTradeGap,
+  AggTradeGapLogEntry,
+  AggTradeGapStats,
+  AggTradeGapStatus,
   SymbolMetadata,
   TopTraderAccountData,
   TopTraderPositionData,
@@ -17,6 +21,26 @@ import {
   TradeDataRow,
   AlertQueueRecord,
   LiquidationEvent,
+  RetentionTable,
+  PruneResult,
+  LiquidationStreamConfig,
+  LiquidationEventRow,
+  LiquidationBucket,
+  LiquidationBucketInterval,
+  LiquidationAlertPayload,
+  LiquidationCoverageGap,
+  LiquidationCoverageCheck,
+  DepthStreamConfig,
+  OrderBookSnapshot,
+  OrderBookMetrics,
+  MarkPriceStreamConfig,
+  MarkPriceSample,
+  FundingRate,
+  OpenInterestData,
+  GlobalLongShortAccountData,
+  TakerBuySellVolumeData,
+  TopTraderMarket,
+  FuturesDataPeriod,
 } from '../types';
 import { LogLevel } from '../types/config';
 import { CvdAlertPayload } from '@crypto-data/cvd-core';
@@ -24,12 +48,16 @@ import { CvdAlertPayload } from '@crypto-data/cvd-core';
 export interface AppConfig {
   discordWebhookUrl: string;
   enableCvdAlerts: boolean;
+  enableLiquidationAlerts: boolean;
   databasePath: string;
   databaseBackupEnabled: boolean;
+  databasePruneEnabled: boolean;
   databaseBackupDirectory: string;
   databaseBackupInterval: number;
   databaseBackupSingleFile: boolean;
   databaseRetentionMs: number | null;
+  tableRetentionMs: Record<RetentionTable, number | null>;
+  databasePruneBatchSize: number;
   logLevel: LogLevel;
   binanceRestBaseUrl: string;
   binanceUsdMRestBaseUrl: string;
@@ -37,6 +65,11 @@ export interface AppConfig {
   binanceSpotWsUrl: string;
   binanceUsdMWsUrl: string;
   binanceCoinMWsUrl: string;
+  wsMaxStreamsPerConnection: number;
+  wsReconnectBaseDelayMs: number;
+  wsReconnectMaxDelayMs: number;
+  wsRolloverMs: number;
+  wsStaleThresholdMs: Record<MarketType, number>;
   rateLimitBuffer: number;
   restRequestTimeout: number;
   symbolUpdateHourUtc: number;
@@ -47,12 +80,39 @@ export interface AppConfig {
   tradeMaxBufferSize: number;
   liquidationFlushIntervalMs: number;
   liquidationMaxBufferSize: number;
+  liquidationStreams: LiquidationStreamConfig[];
+  depthStreams: DepthStreamConfig[];
+  depthRestLimit: number;
+  depthSnapshotLevels: number;
+  depthSnapshotIntervalMs: number;
+  depthMetricsBandsBps: number[];
+  depthMetricsIntervalMs: number;
+  markPriceStreams: MarkPriceStreamConfig[];
+  markPriceSampleIntervalMs: number;
+  fundingBackfillIntervalMs: number;
+  fundingInitialLookbackMs: number;
+  openInterestIntervalMs: number;
+  openInterestInitialLookbackMs: number;
+  topTraderMarkets: TopTraderMarket[];
+  topTraderPeriods: FuturesDataPeriod[];
+  /** 起動時に遡って取得する期間 (0 で無効、最大 30 日) */
+  topTraderBackfillMs: number;
+  klineFlushIntervalMs: number;
+  klineMaxBufferSize: number;
   cvdAggregationBatchSize: number;
   cvdAggregationPollIntervalMs: number;
   cvdAlertSuppressionMinutes: number;
+  liquidationZScoreThreshold: number;
+  liquidationZScoreWindowMinutes: number;
+  liquidationAlertMinNotional: number;
+  liquidationAlertSuppressionMinutes: number;
   alertQueuePollIntervalMs: number;
   alertQueueBatchSize: number;
   alertQueueMaxAttempts: number;
+  metricsEnabled: boolean;
+  metricsHost: string;
+  metricsPort: number;
+  healthWsDisconnectThresholdMs: number;
 }
 
 export interface IDataCollector {
@@ -70,6 +130,21 @@ export interface ILiquidationDataCollector {
   stop(): Promise<void>;
 }
 
+export interface IDepthDataCollector {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export interface IFundingDataCollector {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export interface IKlineDataCollector {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
 export interface IDatabaseManager {
   initialize(): Promise<void>;
   runMigrations(): Promise<void>;
@@ -80,18 +155,75 @@ export interface IDatabaseManager {
   saveOHLCVBatch(data: OHLCVData[]): Promise<void>;
   saveAggTrades(trades: AggTrade[]): Promise<void>;
   saveLiquidationEvents(events: LiquidationEvent[]): Promise<void>;
+  saveOrderBookSnapshots(snapshots: OrderBookSnapshot[]): Promise<void>;
+  getOrderBookSnapshots(
+    symbol: string,
+    marketType: MarketType,
+    from: number,
+    to: number
+  ): Promise<OrderBookSnapshot[]>;
+  saveOrderBookMetrics(metrics: OrderBookMetrics[]): Promise<void>;
+  getOrderBookMetrics(
+    symbol: string,
+    marketType: MarketType,
+    from: number,
+    to: number
+  ): Promise<OrderBookMetrics[]>;
+  saveMarkPrices(samples: MarkPriceSample[]): Promise<void>;
+  getMarkPrices(
+    symbol: string,
+    marketType: MarkPriceSample['marketType'],
+    from: number,
+    to: number
+  ): Promise<MarkPriceSample[]>;
+  saveFundingRates(rates: FundingRate[]): Promise<void>;
+  getFundingRates(
+    symbol: string,
+    marketType: FundingRate['marketType'],
+    from: number,
+    to: number
+  ): Promise<FundingRate[]>;
+  getLastFundingTime(symbol: string, marketType: FundingRate['marketType']): Promise<number | undefined>;
+  saveOpenInterest(data: OpenInterestData[]): Promise<void>;
+  getOpenInterest(
+    symbol: string,
+    marketType: OpenInterestData['marketType'],
+    source: OpenInterestData['source'],
+    from: number,
+    to: number
+  ): Promise<OpenInterestData[]>;
+  getLastOpenInterestTimestamp(
+    symbol: string,
+    marketType: OpenInterestData['marketType'],
+    source: OpenInterestData['source']
+  ): Promise<number | undefined>;
   saveTopTraderPositions(data: TopTraderPositionData[]): Promise<void>;
   saveTopTraderAccounts(data: TopTraderAccountData[]): Promise<void>;
-  pruneDataBefore(timeframe: OHLCVTimeframe, cutoff: number): Promise<void>;
+  saveGlobalLongShortAccounts(data: GlobalLongShortAccountData[]): Promise<void>;
+  saveTakerBuySellVolumes(data: TakerBuySellVolumeData[]): Promise<void>;
+  pruneDataBefore(timeframe: OHLCVTimeframe, cutoff: number, marketType?: MarketType): Promise<void>;
   pruneTopTraderDataBefore(cutoff: number): Promise<void>;
+  pruneTableBefore(
+    table: RetentionTable,
+    cutoff: number,
+    options?: { batchSize?: number; aggregatorIds?: string[] }
+  ): Promise<PruneResult>;
   getLastOHLCVTimestamps(
-    interval: OHLCVTimeframe
+    interval: OHLCVTimeframe,
+    marketType: MarketType
   ): Promise<Record<string, number | undefined>>;
+  getQuoteVolumesSince(interval: OHLCVTimeframe, marketType: MarketType, since: number): Promise<Record<string, number>>;
   getLastAggTradeCheckpoint(
     symbol: string,
     marketType: AggTrade['marketType']
   ): Promise<{ tradeId: number; tradeTime: number } | undefined>;
-  getLastTopTraderTimestamp(): Promise<number | undefined>;
+  getLastTopTraderTimestamp(
+    symbol: string,
+    marketType: TopTraderMarket,
+    period: FuturesDataPeriod
+  ): Promise<number | undefined>;
+  getLastGlobalLongShortAccountTimestamp(symbol: string): Promise<number | undefined>;
+  getLastTakerBuySellVolumeTimestamp(symbol: string): Promise<number | undefined>;
   saveTradeData(data: TradeData[]): Promise<void>;
   saveCVDData(data: CVDData): Promise<void>;
   getCVDDataSince(symbol: string, since: number): Promise<CVDData[]>;
@@ -102,9 +234,34 @@ export interface IDatabaseManager {
     lastRowId: number,
     limit: number
   ): Promise<TradeDataRow[]>;
+  getLiquidationEventsSinceRowId(lastRowId: number, limit: number): Promise<LiquidationEventRow[]>;
+  recordLiquidationCoverageGap(gap: LiquidationCoverageGap): Promise<number>;
+  saveLiquidationCoverageChecks(checks: LiquidationCoverageCheck[]): Promise<void>;
+  updateLiquidationCoverageCrossCheck(
+    coverageId: number,
+    crossCheck: NonNullable<LiquidationCoverageGap['crossCheck']>
+  ): Promise<void>;
+  getLiquidationCoverageChecks(coverageId: number): Promise<LiquidationCoverageCheck[]>;
+  getLiquidationCoverageGaps(
+    marketType: LiquidationCoverageGap['marketType'],
+    from: number,
+    to: number
+  ): Promise<LiquidationCoverageGap[]>;
+  getLiquidationBuckets(
+    symbol: string,
+    marketType: LiquidationBucket['marketType'],
+    interval: LiquidationBucketInterval,
+    fromBucketStart: number,
+    toBucketStart: number
+  ): Promise<LiquidationBucket[]>;
+  saveLiquidationBuckets(
+    buckets: LiquidationBucket[],
+    checkpoint: { processName: string; key: string; state: ProcessingState }
+  ): Promise<void>;
   getProcessingState(processName: string, key: string): Promise<ProcessingState | null>;
   saveProcessingState(processName: string, key: string, state: ProcessingState): Promise<void>;
   enqueueAlert(alertType: string, payload: CvdAlertPayload): Promise<number>;
+  enqueueLiquidationAlert(payload: LiquidationAlertPayload): Promise<number>;
   getPendingAlerts(limit: number): Promise<AlertQueueRecord[]>;
   markAlertAttempt(id: number): Promise<void>;
   markAlertProcessed(id: number, options?: { clearError?: boolean }): Promise<void>;
@@ -127,6 +284,19 @@ export interface IAggTradeDatabaseManager {
     symbol: string,
     marketType: AggTrade['marketType']
   ): Promise<{ tradeId: number; tradeTime: number } | undefined>;
+  findAggTradeGaps(
+    asset: string,
+    symbol: string,
+    marketType: AggTrade['marketType'],
+    options?: { sinceTradeTime?: number; limit?: number; excludeFailedAttemptedAfter?: number }
+  ): Promise<AggTradeGap[]>;
+  recordAggTradeGap(asset: string, gap: AggTradeGap): Promise<AggTradeGapLogEntry>;
+  updateAggTradeGap(
+    asset: string,
+    id: number,
+    update: { status: AggTradeGapStatus; repairedCount: number; error?: string }
+  ): Promise<void>;
+  getAggTradeGapStats(asset: string): Promise<AggTradeGapStats>;
   close(): Promise<void>;
 }
 
@@ -164,6 +334,7 @@ export interface IAlertService {
     triggerSource: 'cumulative' | 'delta';
     triggerZScore: number;
   }): Promise<void>;
+  sendLiquidationAlert(payload: LiquidationAlertPayload): Promise<void>;
 }
 
 export interface ProcessingState {
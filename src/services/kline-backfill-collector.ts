@@ -0,0 +1,311 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { MarketType, OHLCVData, OHLCVTimeframe } from '../types';
+import { IDatabaseManager } from './interfaces';
+import { SymbolManager } from './symbol-manager';
+import { BinanceRestClient } from './binance-rest-client';
+
+const DEFAULT_FETCH_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 5_000;
+const MAX_REST_ITERATIONS = 50;
+
+const INTERVAL_MS: Record<OHLCVTimeframe, number> = {
+  '1m': 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_INITIAL_LOOKBACK_MS: Partial<Record<OHLCVTimeframe, number>> = {
+  '30m': 7 * 24 * 60 * 60 * 1000,
+  '1d': 30 * 24 * 60 * 60 * 1000,
+};
+
+interface KlineBackfillCollectorOptions {
+  timeframes?: OHLCVTimeframe[];
+  markets?: MarketType[];
+  fetchIntervalMs?: number;
+  initialLookbackMs?: Partial<Record<OHLCVTimeframe, number>>;
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+export interface KlineBackfillProgress {
+  symbol: string;
+  marketType: MarketType;
+  interval: OHLCVTimeframe;
+  stored: number;
+  lastOpenTime: number | null;
+  completed: number;
+  total: number;
+}
+
+export declare interface KlineBackfillCollector {
+  on(event: 'progress', listener: (payload: KlineBackfillProgress) => void): this;
+  on(
+    event: 'cycleCompleted',
+    listener: (payload: { interval: OHLCVTimeframe; symbols: number; stored: number; durationMs: number }) => void
+  ): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * 30m / 1d 足を REST で取得し、最後に保存した open_time 以降の未保存区間のみを補完する
+ */
+export class KlineBackfillCollector extends EventEmitter {
+  private isRunning = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentCycle: Promise<void> | null = null;
+
+  constructor(
+    private readonly db: IDatabaseManager,
+    private readonly symbolManager: SymbolManager,
+    private readonly restClient: BinanceRestClient,
+    private readonly options: KlineBackfillCollectorOptions = {}
+  ) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    logger.info('Kline backfill collector started', {
+      timeframes: this.timeframes,
+      markets: this.markets,
+      intervalMs: this.fetchIntervalMs,
+    });
+
+    void this.runCycle().finally(() => {
+      this.scheduleNext();
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+    this.isRunning = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const cycle = this.currentCycle;
+    if (cycle) {
+      try {
+        await cycle;
+      } catch (error) {
+        logger.warn('Kline backfill cycle failed during shutdown', error);
+      }
+    }
+
+    logger.info('Kline backfill collector stopped');
+  }
+
+  private get timeframes(): OHLCVTimeframe[] {
+    return this.options.timeframes ?? ['30m', '1d'];
+  }
+
+  private get markets(): MarketType[] {
+    return this.options.markets ?? ['SPOT', 'USDT-M', 'COIN-M'];
+  }
+
+  private get fetchIntervalMs(): number {
+    return this.options.fetchIntervalMs ?? DEFAULT_FETCH_INTERVAL_MS;
+  }
+
+  private get maxRetries(): number {
+    return this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  private get retryDelayMs(): number {
+    return this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  private getInitialLookbackMs(interval: OHLCVTimeframe): number {
+    return (
+      this.options.initialLookbackMs?.[interval] ??
+      DEFAULT_INITIAL_LOOKBACK_MS[interval] ??
+      INTERVAL_MS[interval] * 500
+    );
+  }
+
+  private scheduleNext(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      void this.runCycle().finally(() => {
+        this.scheduleNext();
+      });
+    }, this.fetchIntervalMs);
+  }
+
+  private async runCycle(): Promise<void> {
+    const cycle = this.performBackfill().catch((error) => {
+      logger.error('Kline backfill cycle failed', error);
+      this.emit('error', error as Error);
+    });
+    this.currentCycle = cycle;
+    try {
+      await cycle;
+    } finally {
+      if (this.currentCycle === cycle) {
+        this.currentCycle = null;
+      }
+    }
+  }
+
+  private async performBackfill(): Promise<void> {
+    const targets: Array<{ symbol: string; marketType: MarketType }> = [];
+    for (const market of this.markets) {
+      const symbols = await this.symbolManager.getActiveSymbolsByMarket(market);
+      for (const symbol of symbols) {
+        targets.push({ symbol: symbol.symbol, marketType: market });
+      }
+    }
+
+    for (const interval of this.timeframes) {
+      if (!this.isRunning) {
+        break;
+      }
+
+      const startedAt = Date.now();
+      const lastTimestamps = new Map<MarketType, Record<string, number | undefined>>();
+      for (const market of this.markets) {
+        lastTimestamps.set(market, await this.db.getLastOHLCVTimestamps(interval, market));
+      }
+      let storedTotal = 0;
+
+      for (let index = 0; index < targets.length && this.isRunning; index += 1) {
+        const target = targets[index]!;
+        const lastOpenTime = lastTimestamps.get(target.marketType)?.[target.symbol];
+        const stored = await this.backfillSymbol(target.symbol, target.marketType, interval, lastOpenTime);
+        storedTotal += stored.count;
+
+        this.emit('progress', {
+          symbol: target.symbol,
+          marketType: target.marketType,
+          interval,
+          stored: stored.count,
+          lastOpenTime: stored.lastOpenTime ?? lastOpenTime ?? null,
+          completed: index + 1,
+          total: targets.length,
+        });
+      }
+
+      this.emit('cycleCompleted', {
+        interval,
+        symbols: targets.length,
+        stored: storedTotal,
+        durationMs: Date.now() - startedAt,
+      });
+    }
+  }
+
+  private async backfillSymbol(
+    symbol: string,
+    market: MarketType,
+    interval: OHLCVTimeframe,
+    lastOpenTime: number | undefined
+  ): Promise<{ count: number; lastOpenTime?: number }> {
+    const intervalMs = INTERVAL_MS[interval];
+    let cursor =
+      lastOpenTime !== undefined
+        ? lastOpenTime + intervalMs
+        : Date.now() - this.getInitialLookbackMs(interval);
+    let count = 0;
+    let latest: number | undefined;
+    let iterations = 0;
+
+    while (this.isRunning && iterations < MAX_REST_ITERATIONS) {
+      iterations += 1;
+      const now = Date.now();
+      // 未確定の足は INSERT OR IGNORE で上書きできないため、確定済み区間が存在しない場合は要求しない
+      if (cursor + intervalMs > now) {
+        break;
+      }
+
+      let klines: OHLCVData[];
+      try {
+        klines = await this.fetchWithRetry(() =>
+          this.restClient.fetchKlines(symbol, interval, market, cursor)
+        );
+      } catch (error) {
+        logger.error('Failed to fetch klines for backfill', {
+          symbol,
+          market,
+          interval,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+        break;
+      }
+
+      const closed = klines.filter((kline) => kline.closeTime < now && kline.openTime >= cursor);
+      if (closed.length === 0) {
+        break;
+      }
+
+      try {
+        await this.db.saveOHLCVBatch(closed);
+      } catch (error) {
+        logger.error('Failed to persist backfilled klines', {
+          symbol,
+          market,
+          interval,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+        break;
+      }
+
+      count += closed.length;
+      latest = closed[closed.length - 1]!.openTime;
+      cursor = latest + intervalMs;
+
+      if (closed.length < klines.length) {
+        break;
+      }
+    }
+
+    return latest === undefined ? { count } : { count, lastOpenTime: latest };
+  }
+
+  private async fetchWithRetry<T>(task: () => Promise<T>): Promise<T> {
+    let attempt = 0;
+    let lastError: unknown;
+
+    while (attempt < this.maxRetries && this.isRunning) {
+      attempt += 1;
+      try {
+        return await task();
+      } catch (error) {
+        lastError = error;
+        if (attempt >= this.maxRetries) {
+          break;
+        }
+        logger.warn('Kline REST request failed, retrying', {
+          attempt,
+          maxRetries: this.maxRetries,
+          error: (error as Error).message,
+        });
+        await this.delay(this.retryDelayMs);
+      }
+    }
+
+    throw lastError ?? new Error('Kline REST request failed');
+  }
+
+  private async delay(ms: number): Promise<void> {
+    if (ms <= 0) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
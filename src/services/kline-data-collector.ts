@@ -0,0 +1,196 @@
+import { EventEmitter } from 'events';
+import { MarketType, OHLCVData } from '../types';
+import { IDatabaseManager, IKlineDataCollector } from './interfaces';
+import { SymbolManager } from './symbol-manager';
+import {
+  BinanceKlineWebSocketClient,
+  BinanceKlineWebSocketClientOptions,
+  BinanceKlineEvent,
+} from './binance-kline-websocket-client';
+import { BinanceStreamManager } from './binance-stream-manager';
+import { logger } from '../utils/logger';
+
+export interface KlineDataCollectorOptions {
+  spotWsUrl: string;
+  usdMWsUrl: string;
+  coinMWsUrl: string;
+  markets?: MarketType[];
+  /** 他のクライアントと接続を共有する場合に指定する */
+  streamManager?: BinanceStreamManager;
+  maxStreamsPerConnection?: number;
+  flushIntervalMs?: number;
+  maxBufferSize?: number;
+}
+
+export declare interface KlineDataCollector {
+  on(event: 'started', listener: (payload: Record<MarketType, number>) => void): this;
+  on(event: 'subscriptionsUpdated', listener: (payload: { marketType: MarketType; symbols: number }) => void): this;
+  on(event: 'klineDataSaved', listener: (count: number) => void): this;
+  on(event: 'websocketError', listener: (error: Error) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+const DEFAULT_MARKETS: MarketType[] = ['SPOT', 'USDT-M', 'COIN-M'];
+
+/**
+ * アクティブな全シンボルの 1 分足を WebSocket で購読し、確定足のみを ohlcv_1m に保存する
+ */
+export class KlineDataCollector extends EventEmitter implements IKlineDataCollector {
+  private readonly wsClient: BinanceKlineWebSocketClient;
+  private readonly markets: MarketType[];
+  private readonly flushIntervalMs: number;
+  private readonly maxBufferSize: number;
+  private buffer: OHLCVData[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private refreshJob: Promise<void> | null = null;
+  private running = false;
+  private readonly onSymbolsUpdated = (): void => {
+    void this.refreshSubscriptions();
+  };
+
+  constructor(
+    private readonly database: IDatabaseManager,
+    private readonly symbolManager: SymbolManager,
+    options: KlineDataCollectorOptions
+  ) {
+    super();
+    this.markets = options.markets ?? DEFAULT_MARKETS;
+    this.flushIntervalMs = options.flushIntervalMs ?? 5_000;
+    this.maxBufferSize = options.maxBufferSize ?? 1_000;
+
+    const clientOptions: BinanceKlineWebSocketClientOptions = {
+      spotUrl: options.spotWsUrl,
+      usdMUrl: options.usdMWsUrl,
+      coinMUrl: options.coinMWsUrl,
+      ...(options.streamManager ? { streamManager: options.streamManager } : {}),
+    };
+    if (options.maxStreamsPerConnection !== undefined) {
+      clientOptions.maxStreamsPerConnection = options.maxStreamsPerConnection;
+    }
+    this.wsClient = new BinanceKlineWebSocketClient(clientOptions);
+    this.wsClient.on('kline', (payload) => this.handleKline(payload));
+    this.wsClient.on('error', (error) => {
+      logger.error('Binance kline WS error', error);
+      this.emit('websocketError', error);
+    });
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const counts = {} as Record<MarketType, number>;
+      for (const market of this.markets) {
+        const symbols = await this.symbolManager.getActiveSymbolsByMarket(market);
+        await this.wsClient.setSymbols(
+          market,
+          symbols.map((symbol) => symbol.symbol)
+        );
+        counts[market] = symbols.length;
+      }
+
+      logger.info('Starting Binance kline data collector', counts);
+      await this.wsClient.connect();
+      this.startFlushTimer();
+      this.symbolManager.on('updated', this.onSymbolsUpdated);
+      this.emit('started', counts);
+    } catch (error) {
+      this.running = false;
+      this.wsClient.disconnect();
+      logger.error('Failed to start Binance kline collector', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    logger.info('Stopping Binance kline data collector');
+    this.running = false;
+    this.symbolManager.off('updated', this.onSymbolsUpdated);
+    this.stopFlushTimer();
+    if (this.refreshJob) {
+      await this.refreshJob;
+    }
+    this.wsClient.disconnect();
+    await this.flushBuffer();
+  }
+
+  private refreshSubscriptions(): Promise<void> {
+    if (this.refreshJob) {
+      return this.refreshJob;
+    }
+
+    this.refreshJob = (async () => {
+      for (const market of this.markets) {
+        if (!this.running) {
+          return;
+        }
+        const symbols = await this.symbolManager.getActiveSymbolsByMarket(market);
+        await this.wsClient.setSymbols(
+          market,
+          symbols.map((symbol) => symbol.symbol)
+        );
+        this.emit('subscriptionsUpdated', { marketType: market, symbols: symbols.length });
+      }
+    })()
+      .catch((error) => {
+        logger.error('Failed to refresh Binance kline subscriptions', error);
+        this.emit('error', error as Error);
+      })
+      .finally(() => {
+        this.refreshJob = null;
+      });
+
+    return this.refreshJob;
+  }
+
+  private handleKline(payload: BinanceKlineEvent): void {
+    if (!payload.isClosed) {
+      return;
+    }
+
+    this.buffer.push(payload.kline);
+    if (this.buffer.length >= this.maxBufferSize) {
+      void this.flushBuffer();
+    }
+  }
+
+  private startFlushTimer(): void {
+    this.stopFlushTimer();
+    this.flushTimer = setInterval(() => {
+      void this.flushBuffer();
+    }, this.flushIntervalMs);
+  }
+
+  private stopFlushTimer(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private async flushBuffer(): Promise<void> {
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const batch = this.buffer;
+    this.buffer = [];
+
+    try {
+      await this.database.saveOHLCVBatch(batch);
+      this.emit('klineDataSaved', batch.length);
+    } catch (error) {
+      logger.error('Failed to persist Binance kline data', error);
+      this.emit('error', error as Error);
+      this.buffer.unshift(...batch);
+    }
+  }
+}
@@ -0,0 +1,351 @@
+import { EventEmitter } from 'events';
+import { IDatabaseManager } from './interfaces';
+import {
+  LiquidationAlertPayload,
+  LiquidationBucket,
+  LiquidationBucketInterval,
+  LiquidationEventRow,
+} from '../types';
+import { logger } from '../utils/logger';
+import { toQuoteNotional } from '../utils/notional';
+
+const PROCESS_NAME = 'liquidation_aggregator';
+const STATE_KEY = 'liquidation_events';
+const ALERT_TYPE = 'LIQUIDATION_SPIKE';
+
+const INTERVAL_MS: Record<LiquidationBucketInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+};
+
+export interface LiquidationAggregationWorkerOptions {
+  intervals?: LiquidationBucketInterval[];
+  batchSize?: number;
+  pollIntervalMs?: number;
+  zScoreThreshold?: number;
+  zScoreWindowMinutes?: number;
+  alertsEnabled?: boolean;
+  minAlertNotional?: number;
+  suppressionWindowMinutes?: number;
+  alertMaxAgeMs?: number;
+}
+
+export declare interface LiquidationAggregationWorker {
+  on(event: 'batchProcessed', listener: (payload: { count: number; buckets: number }) => void): this;
+  on(event: 'alertEnqueued', listener: (payload: LiquidationAlertPayload) => void): this;
+  on(event: 'idle', listener: () => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+type BucketSide = 'long' | 'short';
+
+/**
+ * liquidation_events を rowid 順に読み込み、銘柄ごとの 1m / 5m バケットにロング・ショートの清算額を集計する。
+ * Z スコアはローリングウィンドウ内のバケット (清算のなかった時間帯は 0) を母集団として算出し、
+ * 閾値を超えた場合は alert_queue に LIQUIDATION_SPIKE を登録する。
+ */
+export class LiquidationAggregationWorker extends EventEmitter {
+  private readonly intervals: LiquidationBucketInterval[];
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly zScoreThreshold: number;
+  private readonly windowMs: number;
+  private readonly alertsEnabled: boolean;
+  private readonly minAlertNotional: number;
+  private readonly suppressionWindowMs: number;
+  private readonly alertMaxAgeMs: number;
+  private running = false;
+  private processing = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly databaseManager: IDatabaseManager,
+    options: LiquidationAggregationWorkerOptions = {}
+  ) {
+    super();
+    this.intervals = options.intervals ?? ['1m', '5m'];
+    this.batchSize = Math.max(1, Math.floor(options.batchSize ?? 500));
+    this.pollIntervalMs = Math.max(500, Math.floor(options.pollIntervalMs ?? 2_000));
+    this.zScoreThreshold = Math.max(options.zScoreThreshold ?? 3, 0.1);
+    this.windowMs = Math.max(5, Math.floor(options.zScoreWindowMinutes ?? 24 * 60)) * 60 * 1000;
+    this.alertsEnabled = options.alertsEnabled ?? false;
+    this.minAlertNotional = Math.max(0, options.minAlertNotional ?? 100_000);
+    this.suppressionWindowMs = Math.max(1, Math.floor((options.suppressionWindowMinutes ?? 15) * 60 * 1000));
+    this.alertMaxAgeMs = Math.max(0, options.alertMaxAgeMs ?? 10 * 60 * 1000);
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    await this.processPendingEvents();
+    this.scheduleNextIteration();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.processing) {
+      await this.waitForIdle();
+    }
+  }
+
+  private scheduleNextIteration(): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      void this.processPendingEvents()
+        .catch((error) => {
+          this.emit('error', error instanceof Error ? error : new Error(String(error)));
+          logger.error('Liquidation aggregation cycle failed', error);
+        })
+        .finally(() => {
+          if (this.running) {
+            this.scheduleNextIteration();
+          }
+        });
+    }, this.pollIntervalMs);
+  }
+
+  private async processPendingEvents(): Promise<void> {
+    if (!this.running || this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      const state = await this.databaseManager.getProcessingState(PROCESS_NAME, STATE_KEY);
+      let lastRowId = state?.lastRowId ?? 0;
+
+      let hasMore = true;
+      while (this.running && hasMore) {
+        const events = await this.databaseManager.getLiquidationEventsSinceRowId(lastRowId, this.batchSize);
+        if (events.length === 0) {
+          break;
+        }
+
+        const buckets = await this.aggregate(events);
+        const lastEvent = events[events.length - 1]!;
+        await this.databaseManager.saveLiquidationBuckets(buckets, {
+          processName: PROCESS_NAME,
+          key: STATE_KEY,
+          state: { lastRowId: lastEvent.rowId, lastTimestamp: lastEvent.eventTime },
+        });
+        lastRowId = lastEvent.rowId;
+
+        this.emit('batchProcessed', { count: events.length, buckets: buckets.length });
+        await this.evaluateAlerts(buckets);
+
+        hasMore = events.length >= this.batchSize;
+      }
+      this.emit('idle');
+    } finally {
+      this.processing = false;
+      this.notifyIdle();
+    }
+  }
+
+  /**
+   * バッチ内のイベントを既存バケットへ加算し、更新されたバケットの Z スコアを再計算する
+   */
+  private async aggregate(events: LiquidationEventRow[]): Promise<LiquidationBucket[]> {
+    const series = new Map<string, Map<number, LiquidationBucket>>();
+
+    for (const event of events) {
+      const notional = this.toNotional(event);
+      if (notional <= 0) {
+        continue;
+      }
+      // SELL の強制注文はロングポジションの清算、BUY はショートポジションの清算
+      const side: BucketSide = event.side === 'sell' ? 'long' : 'short';
+
+      for (const interval of this.intervals) {
+        const intervalMs = INTERVAL_MS[interval];
+        const bucketStart = Math.floor(event.eventTime / intervalMs) * intervalMs;
+        const seriesKey = `${interval}:${event.marketType}:${event.symbol}`;
+        const deltas = series.get(seriesKey) ?? new Map<number, LiquidationBucket>();
+        series.set(seriesKey, deltas);
+
+        const delta =
+          deltas.get(bucketStart) ??
+          this.createBucket(event.symbol, event.marketType, interval, bucketStart);
+        if (side === 'long') {
+          delta.longNotional += notional;
+          delta.longCount += 1;
+        } else {
+          delta.shortNotional += notional;
+          delta.shortCount += 1;
+        }
+        deltas.set(bucketStart, delta);
+      }
+    }
+
+    const updated: LiquidationBucket[] = [];
+    for (const deltas of series.values()) {
+      const touched = Array.from(deltas.values()).sort((a, b) => a.bucketStart - b.bucketStart);
+      const first = touched[0]!;
+      const last = touched[touched.length - 1]!;
+      const existing = await this.databaseManager.getLiquidationBuckets(
+        first.symbol,
+        first.marketType,
+        first.interval,
+        first.bucketStart - this.windowMs,
+        last.bucketStart
+      );
+      const byStart = new Map(existing.map((bucket) => [bucket.bucketStart, bucket]));
+
+      for (const delta of touched) {
+        const current = byStart.get(delta.bucketStart);
+        const merged: LiquidationBucket = {
+          ...delta,
+          longNotional: delta.longNotional + (current?.longNotional ?? 0),
+          shortNotional: delta.shortNotional + (current?.shortNotional ?? 0),
+          longCount: delta.longCount + (current?.longCount ?? 0),
+          shortCount: delta.shortCount + (current?.shortCount ?? 0),
+        };
+
+        const history = Array.from(byStart.values()).filter(
+          (bucket) =>
+            bucket.bucketStart < merged.bucketStart &&
+            bucket.bucketStart >= merged.bucketStart - this.windowMs
+        );
+        const slots = Math.floor(this.windowMs / INTERVAL_MS[merged.interval]);
+        merged.longZScore = this.computeZScore(
+          history.map((bucket) => bucket.longNotional),
+          slots,
+          merged.longNotional
+        );
+        merged.shortZScore = this.computeZScore(
+          history.map((bucket) => bucket.shortNotional),
+          slots,
+          merged.shortNotional
+        );
+
+        // 同一バッチ内の後続バケットが更新後の値を履歴として参照できるよう反映する
+        byStart.set(merged.bucketStart, merged);
+        updated.push(merged);
+      }
+    }
+
+    return updated;
+  }
+
+  private async evaluateAlerts(buckets: LiquidationBucket[]): Promise<void> {
+    if (!this.alertsEnabled) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const bucket of buckets) {
+      // 再起動直後のキャッチアップで過去のバケットに対してアラートを出さない
+      if (bucket.bucketStart + INTERVAL_MS[bucket.interval] < now - this.alertMaxAgeMs) {
+        continue;
+      }
+
+      for (const side of ['long', 'short'] as const) {
+        const zScore = side === 'long' ? bucket.longZScore : bucket.shortZScore;
+        const notional = side === 'long' ? bucket.longNotional : bucket.shortNotional;
+        if (zScore < this.zScoreThreshold || notional < this.minAlertNotional) {
+          continue;
+        }
+
+        try {
+          const cutoff = now - this.suppressionWindowMs;
+          if (await this.databaseManager.hasRecentAlertOrPending(ALERT_TYPE, bucket.symbol, cutoff)) {
+            continue;
+          }
+
+          const payload: LiquidationAlertPayload = {
+            symbol: bucket.symbol,
+            marketType: bucket.marketType,
+            interval: bucket.interval,
+            timestamp: bucket.bucketStart,
+            side,
+            notional,
+            zScore,
+            threshold: this.zScoreThreshold,
+            longNotional: bucket.longNotional,
+            shortNotional: bucket.shortNotional,
+          };
+          await this.databaseManager.enqueueLiquidationAlert(payload);
+          this.emit('alertEnqueued', payload);
+        } catch (error) {
+          logger.error('Failed to enqueue liquidation alert', { symbol: bucket.symbol, side, error });
+          this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    }
+  }
+
+  /**
+   * ウィンドウ内で記録のないバケットは清算額 0 とみなし、slots 個の標本で平均・標準偏差を求める
+   */
+  private computeZScore(history: number[], slots: number, value: number): number {
+    if (slots <= 1) {
+      return 0;
+    }
+    let sum = 0;
+    let sumSquares = 0;
+    for (const notional of history) {
+      sum += notional;
+      sumSquares += notional * notional;
+    }
+    const mean = sum / slots;
+    const variance = Math.max(0, sumSquares / slots - mean * mean);
+    const stdDev = Math.sqrt(variance);
+    if (stdDev <= 0) {
+      return 0;
+    }
+    return (value - mean) / stdDev;
+  }
+
+  private toNotional(event: LiquidationEventRow): number {
+    const price = event.averagePrice || event.price || event.lastFilledPrice || 0;
+    return toQuoteNotional(event.marketType, event.symbol, price, event.filledQuantity);
+  }
+
+  private createBucket(
+    symbol: string,
+    marketType: LiquidationBucket['marketType'],
+    interval: LiquidationBucketInterval,
+    bucketStart: number
+  ): LiquidationBucket {
+    return {
+      symbol,
+      marketType,
+      interval,
+      bucketStart,
+      longNotional: 0,
+      shortNotional: 0,
+      longCount: 0,
+      shortCount: 0,
+      longZScore: 0,
+      shortZScore: 0,
+    };
+  }
+
+  private waiters: Array<() => void> = [];
+
+  private notifyIdle(): void {
+    while (this.waiters.length > 0) {
+      const resolve = this.waiters.shift();
+      resolve?.();
+    }
+  }
+
+  private waitForIdle(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.processing) {
+        resolve();
+        return;
+      }
+      this.waiters.push(resolve);
+    });
+  }
+}
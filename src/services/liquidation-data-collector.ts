@@ -1,7 +1,14 @@
 import { EventEmitter } from 'events';
 import { IDatabaseManager, ILiquidationDataCollector } from './interfaces';
-import { BinanceLiquidationWebSocketClient, BinanceForceOrderEvent } from './binance-liquidation-websocket-client';
-import { LiquidationEvent } from '../types';
+import {
+  BinanceLiquidationWebSocketClient,
+  BinanceForceOrderEvent,
+  BinanceLiquidationConnectionSymbols,
+} from './binance-liquidation-websocket-client';
+import { BinanceStreamManager } from './binance-stream-manager';
+import { BinanceRestClient } from './binance-rest-client';
+import { SymbolManager } from './symbol-manager';
+import { LiquidationCoverageCheck, LiquidationCoverageGap, LiquidationEvent, MarketType } from '../types';
 import { logger } from '../utils/logger';
 
 export interface LiquidationDataCollectorOptions {
@@ -11,14 +18,47 @@ export interface LiquidationDataCollectorOptions {
     symbol: string;
     marketType: Extract<LiquidationEvent['marketType'], 'USDT-M' | 'COIN-M'>;
   }>;
+  allMarketStreams?: Array<Extract<LiquidationEvent['marketType'], 'USDT-M' | 'COIN-M'>>;
+  streamManager?: BinanceStreamManager;
+  /** 指定すると欠損区間を銘柄ごとに 1 分足のテイカー出来高と突き合わせる */
+  restClient?: BinanceRestClient;
+  /** 全銘柄ストリームの市場で突き合わせる銘柄 (アクティブな無期限銘柄) の取得に使う */
+  symbolManager?: SymbolManager;
   flushIntervalMs?: number;
   maxBufferSize?: number;
+  coverageToleranceMs?: number;
+  /** 突き合わせで 1 銘柄あたりに取得する 1 分足の最大ページ数 (1 ページ 500 本) */
+  crossCheckMaxPages?: number;
 }
 
+type LiquidationMarket = LiquidationCoverageGap['marketType'];
+
+/** 共有ストリームの接続ごとの受信状態。シャードごとに切断・再接続するため接続 ID 単位で追跡する */
+interface ConnectionCoverage {
+  market: LiquidationMarket;
+  symbols: BinanceLiquidationConnectionSymbols;
+  /** 切断時刻。接続中は未設定 */
+  disconnectedAt?: number;
+}
+
+const COVERAGE_PROCESS_NAME = 'liquidation_collector';
+const KLINE_INTERVAL_MS = 60_000;
+const DEFAULT_CROSS_CHECK_MAX_PAGES = 12;
+
 export declare interface LiquidationDataCollector {
   on(event: 'liquidationDataReceived', listener: (events: LiquidationEvent[]) => void): this;
-  on(event: 'liquidationDataSaved', listener: (count: number) => void): this;
+  on(event: 'liquidationDataSaved', listener: (count: number, durationMs: number) => void): this;
+  on(event: 'websocketConnected', listener: (market: MarketType, connectionId: number) => void): this;
+  on(
+    event: 'websocketDisconnected',
+    listener: (market: MarketType, connectionId: number, code: number, reason: string) => void
+  ): this;
   on(event: 'websocketError', listener: (error: Error) => void): this;
+  on(event: 'coverageGap', listener: (gap: LiquidationCoverageGap) => void): this;
+  on(
+    event: 'coverageCrossChecked',
+    listener: (gap: LiquidationCoverageGap, checks: LiquidationCoverageCheck[]) => void
+  ): this;
   on(event: 'error', listener: (error: Error) => void): this;
   on(event: 'started', listener: () => void): this;
 }
@@ -30,6 +70,15 @@ export class LiquidationDataCollector
   private readonly wsClient: BinanceLiquidationWebSocketClient | null;
   private readonly flushIntervalMs: number;
   private readonly maxBufferSize: number;
+  private readonly coverageToleranceMs: number;
+  private readonly restClient: BinanceRestClient | null;
+  private readonly symbolManager: SymbolManager | null;
+  private readonly allMarketStreams: Set<LiquidationMarket>;
+  private readonly crossCheckMaxPages: number;
+  private crossCheckJob: Promise<void> = Promise.resolve();
+  private readonly connections = new Map<number, ConnectionCoverage>();
+  /** 再起動時の欠損区間を確認済みの市場 */
+  private readonly restoredMarkets = new Set<LiquidationMarket>();
   private readonly subscriptions: LiquidationDataCollectorOptions['subscriptions'];
   private buffer: LiquidationEvent[] = [];
   private flushTimer: NodeJS.Timeout | null = null;
@@ -40,21 +89,37 @@ export class LiquidationDataCollector
     this.database = database;
     this.flushIntervalMs = options.flushIntervalMs ?? 5_000;
     this.maxBufferSize = options.maxBufferSize ?? 500;
+    this.coverageToleranceMs = options.coverageToleranceMs ?? this.flushIntervalMs * 3;
     this.subscriptions = options.subscriptions;
+    this.restClient = options.restClient ?? null;
+    this.symbolManager = options.symbolManager ?? null;
+    this.crossCheckMaxPages = Math.max(1, options.crossCheckMaxPages ?? DEFAULT_CROSS_CHECK_MAX_PAGES);
 
-    if (this.subscriptions.length === 0) {
+    const allMarketStreams = options.allMarketStreams ?? [];
+    this.allMarketStreams = new Set(allMarketStreams);
+    if (this.subscriptions.length === 0 && allMarketStreams.length === 0) {
       this.wsClient = null;
     } else {
       this.wsClient = new BinanceLiquidationWebSocketClient({
         usdMUrl: options.usdMWsUrl,
         coinMUrl: options.coinMWsUrl,
         subscriptions: this.subscriptions,
+        allMarketStreams,
+        ...(options.streamManager ? { streamManager: options.streamManager } : {}),
       });
       this.wsClient.on('liquidation', (payload) => this.handleEvent(payload));
       this.wsClient.on('error', (error) => {
         logger.error('Binance liquidation WS error', error);
         this.emit('websocketError', error);
       });
+      this.wsClient.on('connected', (market, connectionId, symbols) => {
+        this.emit('websocketConnected', market, connectionId);
+        void this.handleConnected(market, connectionId, symbols);
+      });
+      this.wsClient.on('disconnected', (market, connectionId, code, reason, symbols) => {
+        this.emit('websocketDisconnected', market, connectionId, code, reason);
+        this.handleDisconnected(market, connectionId, symbols);
+      });
     }
   }
 
@@ -70,7 +135,7 @@ export class LiquidationDataCollector
 
     this.running = true;
     logger.info('Starting Binance liquidation data collector', {
-      streams: this.subscriptions.length,
+      streams: this.wsClient.getStreamNames(),
     });
 
     try {
@@ -93,8 +158,14 @@ export class LiquidationDataCollector
     logger.info('Stopping Binance liquidation data collector');
     this.running = false;
     this.stopFlushTimer();
+    await this.saveCoverageCheckpoints();
     this.wsClient?.disconnect();
     await this.flushBuffer();
+    await this.crossCheckJob;
+  }
+
+  getBufferSize(): number {
+    return this.buffer.length;
   }
 
   private handleEvent(payload: BinanceForceOrderEvent): void {
@@ -179,10 +250,234 @@ export class LiquidationDataCollector
     return `${payload.marketType}:${base}`;
   }
 
+  /**
+   * 接続確立時に直前の受信可能時刻から現在までを欠損区間として記録する。
+   * プロセス内の再接続は当該接続の切断時刻から接続に載っている銘柄について、
+   * 再起動後の最初の接続は processing_state に保存した最終受信可能時刻から市場全体について記録する
+   */
+  private async handleConnected(
+    market: MarketType,
+    connectionId: number,
+    symbols: BinanceLiquidationConnectionSymbols
+  ): Promise<void> {
+    if (market !== 'USDT-M' && market !== 'COIN-M') {
+      return;
+    }
+    const now = Date.now();
+    const previous = this.connections.get(connectionId);
+    this.connections.set(connectionId, { market, symbols });
+
+    try {
+      let lastAlive: number | undefined;
+      let reason: LiquidationCoverageGap['reason'] = 'ws_disconnected';
+      let gapSymbols: BinanceLiquidationConnectionSymbols = symbols;
+      if (previous) {
+        lastAlive = previous.disconnectedAt;
+      } else if (!this.restoredMarkets.has(market)) {
+        this.restoredMarkets.add(market);
+        const state = await this.database.getProcessingState(COVERAGE_PROCESS_NAME, market);
+        lastAlive = state?.lastTimestamp;
+        reason = 'process_restart';
+        gapSymbols = 'ALL';
+      }
+
+      if (lastAlive === undefined || now - lastAlive <= this.coverageToleranceMs) {
+        return;
+      }
+
+      const gap: LiquidationCoverageGap = {
+        marketType: market,
+        windowStart: lastAlive,
+        windowEnd: now,
+        status: 'incomplete',
+        reason,
+        ...(gapSymbols !== 'ALL' ? { symbols: gapSymbols } : {}),
+      };
+      gap.id = await this.database.recordLiquidationCoverageGap(gap);
+      logger.warn('Recorded liquidation coverage gap', gap);
+      this.emit('coverageGap', gap);
+      // 複数市場の再接続が重なってもレートリミッタへ一度に積まないよう、突き合わせは直列に実行する
+      this.crossCheckJob = this.crossCheckJob.then(() => this.crossCheckGap(gap));
+    } catch (error) {
+      logger.error('Failed to record liquidation coverage gap', { market, error });
+      this.emit('error', error as Error);
+    }
+  }
+
+  /**
+   * 欠損区間の銘柄ごとに 1 分足のテイカー出来高と突き合わせ、失われた清算数量の上限として保存する。
+   * 突き合わせの可否と範囲は liquidation_coverage の cross_check に記録し、下流で区別できるようにする
+   */
+  private async crossCheckGap(gap: LiquidationCoverageGap): Promise<void> {
+    const coverageId = gap.id;
+    if (coverageId === undefined || !this.running) {
+      return;
+    }
+
+    const symbols = await this.resolveCrossCheckSymbols(gap);
+    const restClient = this.restClient;
+    if (!restClient || symbols.length === 0) {
+      logger.warn('Liquidation coverage gap cannot be cross-checked with klines', {
+        coverageId,
+        marketType: gap.marketType,
+        restClient: Boolean(restClient),
+      });
+      await this.saveCrossCheck(gap, 'unavailable', []);
+      return;
+    }
+
+    const checks: LiquidationCoverageCheck[] = [];
+    for (const symbol of symbols) {
+      if (!this.running) {
+        break;
+      }
+      try {
+        checks.push(await this.sumTakerVolumes(restClient, gap, coverageId, symbol));
+      } catch (error) {
+        logger.warn('Failed to cross-check liquidation coverage gap with klines', {
+          symbol,
+          marketType: gap.marketType,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    const covered = checks.length === symbols.length && checks.every((check) => check.complete);
+    await this.saveCrossCheck(gap, covered ? 'checked' : 'partial', checks);
+  }
+
+  /**
+   * 突き合わせ対象の銘柄を決める。区間に銘柄が記録されていればそれを、市場全体の区間は銘柄別の購読を使い、
+   * 全銘柄ストリームの市場は SymbolManager のアクティブな無期限銘柄を対象とする
+   */
+  private async resolveCrossCheckSymbols(gap: LiquidationCoverageGap): Promise<string[]> {
+    if (gap.symbols) {
+      return gap.symbols;
+    }
+    if (!this.allMarketStreams.has(gap.marketType)) {
+      return this.subscriptions
+        .filter((subscription) => subscription.marketType === gap.marketType)
+        .map((subscription) => subscription.symbol);
+    }
+    if (!this.symbolManager) {
+      return [];
+    }
+
+    try {
+      const active = await this.symbolManager.getActiveSymbolsByMarket(gap.marketType);
+      return active
+        .filter((symbol) => !symbol.contractType || symbol.contractType === 'PERPETUAL')
+        .map((symbol) => symbol.symbol);
+    } catch (error) {
+      logger.warn('Failed to resolve symbols for liquidation coverage cross-check', {
+        marketType: gap.marketType,
+        error: (error as Error).message,
+      });
+      return [];
+    }
+  }
+
+  private async saveCrossCheck(
+    gap: LiquidationCoverageGap,
+    crossCheck: NonNullable<LiquidationCoverageGap['crossCheck']>,
+    checks: LiquidationCoverageCheck[]
+  ): Promise<void> {
+    try {
+      await this.database.saveLiquidationCoverageChecks(checks);
+      await this.database.updateLiquidationCoverageCrossCheck(gap.id!, crossCheck);
+      gap.crossCheck = crossCheck;
+      this.emit('coverageCrossChecked', gap, checks);
+    } catch (error) {
+      logger.error('Failed to persist liquidation coverage cross-checks', { coverageId: gap.id, error });
+      this.emit('error', error as Error);
+    }
+  }
+
+  private async sumTakerVolumes(
+    restClient: BinanceRestClient,
+    gap: LiquidationCoverageGap,
+    coverageId: number,
+    symbol: string
+  ): Promise<LiquidationCoverageCheck> {
+    const check: LiquidationCoverageCheck = {
+      coverageId,
+      symbol,
+      marketType: gap.marketType,
+      klineCount: 0,
+      takerBuyVolume: 0,
+      takerSellVolume: 0,
+      complete: false,
+    };
+    // 区間の端を含む足も対象にし、上限として過小にならないようにする
+    let cursor = gap.windowStart - (gap.windowStart % KLINE_INTERVAL_MS);
+
+    for (let page = 0; page < this.crossCheckMaxPages; page += 1) {
+      const klines = await restClient.fetchKlines(symbol, '1m', gap.marketType, cursor);
+      const inWindow = klines.filter((kline) => kline.openTime < gap.windowEnd);
+      for (const kline of inWindow) {
+        const takerBuy = kline.takerBuyVolume ?? 0;
+        check.takerBuyVolume += takerBuy;
+        check.takerSellVolume += Math.max(0, kline.volume - takerBuy);
+      }
+      check.klineCount += inWindow.length;
+
+      const last = klines[klines.length - 1];
+      if (!last || inWindow.length < klines.length || last.openTime + KLINE_INTERVAL_MS >= gap.windowEnd) {
+        check.complete = true;
+        return check;
+      }
+      cursor = last.openTime + KLINE_INTERVAL_MS;
+    }
+
+    return check;
+  }
+
+  private handleDisconnected(
+    market: MarketType,
+    connectionId: number,
+    symbols: BinanceLiquidationConnectionSymbols
+  ): void {
+    if (market !== 'USDT-M' && market !== 'COIN-M') {
+      return;
+    }
+    const connection = this.connections.get(connectionId);
+    if (connection && connection.disconnectedAt === undefined) {
+      this.connections.set(connectionId, { market, symbols, disconnectedAt: Date.now() });
+    }
+  }
+
+  /**
+   * すべての接続が受信できている市場だけ最終受信可能時刻を進める。
+   * 一部のシャードが切断中の市場は、再起動を挟んでもその切断時刻以前から欠損として記録されるよう据え置く
+   */
+  private async saveCoverageCheckpoints(): Promise<void> {
+    const now = Date.now();
+    const coveredMarkets = new Set<LiquidationMarket>();
+    const interruptedMarkets = new Set<LiquidationMarket>();
+    for (const connection of this.connections.values()) {
+      (connection.disconnectedAt === undefined ? coveredMarkets : interruptedMarkets).add(connection.market);
+    }
+
+    for (const market of coveredMarkets) {
+      if (interruptedMarkets.has(market)) {
+        continue;
+      }
+      try {
+        await this.database.saveProcessingState(COVERAGE_PROCESS_NAME, market, {
+          lastRowId: 0,
+          lastTimestamp: now,
+        });
+      } catch (error) {
+        logger.warn('Failed to save liquidation coverage checkpoint', { market, error });
+      }
+    }
+  }
+
   private startFlushTimer(): void {
     this.stopFlushTimer();
     this.flushTimer = setInterval(() => {
       void this.flushBuffer();
+      void this.saveCoverageCheckpoints();
     }, this.flushIntervalMs);
   }
 
@@ -201,9 +496,10 @@ export class LiquidationDataCollector
     const batch = this.buffer;
     this.buffer = [];
 
+    const startedAt = Date.now();
     try {
       await this.database.saveLiquidationEvents(batch);
-      this.emit('liquidationDataSaved', batch.length);
+      this.emit('liquidationDataSaved', batch.length, Date.now() - startedAt);
     } catch (error) {
       logger.error('Failed to persist Binance liquidation data', error);
       this.emit('error', error as Error);
@@ -0,0 +1,107 @@
+type MetricType = 'counter' | 'gauge' | 'summary';
+
+export type MetricLabels = Record<string, string | number>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: Map<string, { labels: MetricLabels; value: number; count: number }>;
+}
+
+/**
+ * Prometheus テキスト形式で出力する最小限のメトリクスレジストリ
+ * summary は quantile を持たず _sum / _count のみを出力する
+ */
+export class MetricsRegistry {
+  private readonly families = new Map<string, MetricFamily>();
+  private readonly collectors: Array<() => void> = [];
+
+  incrementCounter(name: string, help: string, labels: MetricLabels = {}, value = 1): void {
+    const sample = this.getSample(name, help, 'counter', labels);
+    sample.value += value;
+  }
+
+  setGauge(name: string, help: string, labels: MetricLabels, value: number): void {
+    const sample = this.getSample(name, help, 'gauge', labels);
+    sample.value = value;
+  }
+
+  observe(name: string, help: string, labels: MetricLabels, value: number): void {
+    const sample = this.getSample(name, help, 'summary', labels);
+    sample.value += value;
+    sample.count += 1;
+  }
+
+  /**
+   * render 直前に呼び出される収集関数を登録する (バッファ深度など都度取得する値向け)
+   */
+  registerCollector(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  render(): string {
+    for (const collector of this.collectors) {
+      collector();
+    }
+
+    const lines: string[] = [];
+    for (const family of this.families.values()) {
+      lines.push(`# HELP ${family.name} ${family.help}`);
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+      for (const sample of family.samples.values()) {
+        const labels = this.formatLabels(sample.labels);
+        if (family.type === 'summary') {
+          lines.push(`${family.name}_sum${labels} ${this.formatValue(sample.value)}`);
+          lines.push(`${family.name}_count${labels} ${sample.count}`);
+        } else {
+          lines.push(`${family.name}${labels} ${this.formatValue(sample.value)}`);
+        }
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private getSample(
+    name: string,
+    help: string,
+    type: MetricType,
+    labels: MetricLabels
+  ): { labels: MetricLabels; value: number; count: number } {
+    let family = this.families.get(name);
+    if (!family) {
+      family = { name, help, type, samples: new Map() };
+      this.families.set(name, family);
+    } else if (family.type !== type) {
+      throw new Error(`Metric ${name} is already registered as ${family.type}`);
+    }
+
+    const key = this.formatLabels(labels);
+    let sample = family.samples.get(key);
+    if (!sample) {
+      sample = { labels, value: 0, count: 0 };
+      family.samples.set(key, sample);
+    }
+    return sample;
+  }
+
+  private formatLabels(labels: MetricLabels): string {
+    const entries = Object.keys(labels)
+      .sort()
+      .map((key) => {
+        const value = String(labels[key]).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+        return `${key}="${value}"`;
+      });
+    return entries.length > 0 ? `{${entries.join(',')}}` : '';
+  }
+
+  private formatValue(value: number): string {
+    if (Number.isNaN(value)) {
+      return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? '+Inf' : '-Inf';
+    }
+    return String(value);
+  }
+}
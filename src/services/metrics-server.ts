@@ -0,0 +1,174 @@
+import http from 'http';
+import { logger } from '../utils/logger';
+import { MetricsRegistry } from './metrics-registry';
+
+export interface MetricsServerOptions {
+  host: string;
+  port: number;
+  disconnectThresholdMs: number;
+}
+
+interface ConnectionState {
+  component: string;
+  market: string;
+  shard: string;
+  connected: boolean;
+  since: number;
+  everConnected: boolean;
+}
+
+export interface IngestHealthReport {
+  healthy: boolean;
+  checkedAt: number;
+  disconnected: Array<{ component: string; market: string; shard: string; disconnectedForMs: number }>;
+}
+
+/**
+ * ingest プロセスに組み込む HTTP サーバー
+ * /metrics で Prometheus 形式のメトリクスを、/healthz で WebSocket 接続状態に基づくヘルスを返す
+ */
+export class MetricsServer {
+  private server: http.Server | null = null;
+  private readonly connections = new Map<string, ConnectionState>();
+
+  constructor(
+    readonly registry: MetricsRegistry,
+    private readonly options: MetricsServerOptions
+  ) {
+    this.registry.registerCollector(() => this.collectConnectionMetrics());
+  }
+
+  /**
+   * WebSocket 接続の状態遷移を記録する。shard は単一接続の場合は空文字列でよい。
+   */
+  trackConnection(component: string, market: string, shard: string, connected: boolean): void {
+    const key = `${component}:${market}:${shard}`;
+    const now = Date.now();
+    const existing = this.connections.get(key);
+    if (existing && existing.connected === connected) {
+      return;
+    }
+
+    const labels = { component, market };
+    if (!connected) {
+      this.registry.incrementCounter('binance_ws_disconnects_total', 'WebSocket disconnections', labels);
+    } else if (existing?.everConnected) {
+      this.registry.incrementCounter(
+        'binance_ws_reconnects_total',
+        'WebSocket reconnections after an initial successful connection',
+        labels
+      );
+    }
+
+    this.connections.set(key, {
+      component,
+      market,
+      shard,
+      connected,
+      since: now,
+      everConnected: (existing?.everConnected ?? false) || connected,
+    });
+  }
+
+  getHealth(now = Date.now()): IngestHealthReport {
+    const disconnected: IngestHealthReport['disconnected'] = [];
+    for (const state of this.connections.values()) {
+      if (state.connected) {
+        continue;
+      }
+      const disconnectedForMs = now - state.since;
+      if (disconnectedForMs >= this.options.disconnectThresholdMs) {
+        disconnected.push({
+          component: state.component,
+          market: state.market,
+          shard: state.shard,
+          disconnectedForMs,
+        });
+      }
+    }
+    return { healthy: disconnected.length === 0, checkedAt: now, disconnected };
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((request, response) => this.handleRequest(request, response));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    server.on('error', (error) => {
+      logger.error('Metrics server error', error);
+    });
+    this.server = server;
+    logger.info('Metrics server listening', { host: this.options.host, port: this.options.port });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const pathname = (request.url ?? '/').split('?')[0];
+
+    if (request.method !== 'GET') {
+      response.writeHead(405, { Allow: 'GET' });
+      response.end();
+      return;
+    }
+
+    if (pathname === '/metrics') {
+      try {
+        const body = this.registry.render();
+        response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        response.end(body);
+      } catch (error) {
+        logger.error('Failed to render metrics', error);
+        response.writeHead(500);
+        response.end();
+      }
+      return;
+    }
+
+    if (pathname === '/healthz') {
+      const report = this.getHealth();
+      response.writeHead(report.healthy ? 200 : 503, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(report));
+      return;
+    }
+
+    response.writeHead(404);
+    response.end();
+  }
+
+  private collectConnectionMetrics(): void {
+    const now = Date.now();
+    for (const state of this.connections.values()) {
+      const labels = { component: state.component, market: state.market, shard: state.shard };
+      this.registry.setGauge(
+        'binance_ws_connected',
+        'Whether the WebSocket connection is currently open (1) or not (0)',
+        labels,
+        state.connected ? 1 : 0
+      );
+      this.registry.setGauge(
+        'binance_ws_disconnected_seconds',
+        'Seconds since the WebSocket connection was lost (0 while connected)',
+        labels,
+        state.connected ? 0 : (now - state.since) / 1000
+      );
+    }
+  }
+}
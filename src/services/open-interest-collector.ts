@@ -0,0 +1,282 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { OpenInterestData } from '../types';
+import { IDatabaseManager } from './interfaces';
+import { SymbolManager } from './symbol-manager';
+import { BinanceRestClient } from './binance-rest-client';
+
+type OpenInterestMarket = OpenInterestData['marketType'];
+
+const DEFAULT_FETCH_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_INITIAL_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 5_000;
+const MAX_REST_ITERATIONS = 50;
+// openInterestHist は直近 30 日分のみ提供される
+const MAX_HISTORY_MS = 30 * 24 * 60 * 60 * 1000;
+const HISTORY_PERIOD = '5m';
+const HISTORY_PERIOD_MS = 5 * 60 * 1000;
+const HISTORY_LIMIT = 500;
+
+interface OpenInterestCollectorOptions {
+  markets?: OpenInterestMarket[];
+  fetchIntervalMs?: number;
+  /** 未保存の銘柄で遡る期間 (最大 30 日) */
+  initialLookbackMs?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+export interface OpenInterestCycleSummary {
+  symbols: number;
+  /** openInterestHist から補完した行数 */
+  historical: number;
+  /** openInterest から保存した現在値の件数 */
+  live: number;
+  failed: number;
+  durationMs: number;
+}
+
+export declare interface OpenInterestCollector {
+  on(
+    event: 'openInterestStored',
+    listener: (payload: { source: OpenInterestData['source']; count: number; durationMs: number }) => void
+  ): this;
+  on(event: 'cycleCompleted', listener: (summary: OpenInterestCycleSummary) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * USDT-M / COIN-M の無期限先物の建玉を定期的に取得する。
+ * 5 分集計 (openInterestHist) は最後に保存した timestamp 以降を補完し、現在値 (openInterest) は毎サイクル 1 件保存する。
+ */
+export class OpenInterestCollector extends EventEmitter {
+  private isRunning = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentCycle: Promise<void> | null = null;
+
+  constructor(
+    private readonly db: IDatabaseManager,
+    private readonly symbolManager: SymbolManager,
+    private readonly restClient: BinanceRestClient,
+    private readonly options: OpenInterestCollectorOptions = {}
+  ) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    logger.info('Open interest collector started', {
+      markets: this.markets,
+      intervalMs: this.fetchIntervalMs,
+    });
+
+    void this.runCycle().finally(() => {
+      this.scheduleNext();
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+    this.isRunning = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const cycle = this.currentCycle;
+    if (cycle) {
+      try {
+        await cycle;
+      } catch (error) {
+        logger.warn('Open interest cycle failed during shutdown', error);
+      }
+    }
+
+    logger.info('Open interest collector stopped');
+  }
+
+  private get markets(): OpenInterestMarket[] {
+    return this.options.markets ?? ['USDT-M', 'COIN-M'];
+  }
+
+  private get fetchIntervalMs(): number {
+    return this.options.fetchIntervalMs ?? DEFAULT_FETCH_INTERVAL_MS;
+  }
+
+  private get initialLookbackMs(): number {
+    return Math.min(this.options.initialLookbackMs ?? DEFAULT_INITIAL_LOOKBACK_MS, MAX_HISTORY_MS);
+  }
+
+  private get maxRetries(): number {
+    return this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  private get retryDelayMs(): number {
+    return this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  private scheduleNext(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      void this.runCycle().finally(() => {
+        this.scheduleNext();
+      });
+    }, this.fetchIntervalMs);
+  }
+
+  private async runCycle(): Promise<void> {
+    const cycle = this.collect().catch((error) => {
+      logger.error('Open interest cycle failed', error);
+      this.emit('error', error as Error);
+    });
+    this.currentCycle = cycle;
+    try {
+      await cycle;
+    } finally {
+      if (this.currentCycle === cycle) {
+        this.currentCycle = null;
+      }
+    }
+  }
+
+  private async collect(): Promise<void> {
+    const startedAt = Date.now();
+    const targets: Array<{ symbol: string; marketType: OpenInterestMarket }> = [];
+    for (const market of this.markets) {
+      const symbols = await this.symbolManager.getActiveSymbolsByMarket(market);
+      for (const symbol of symbols) {
+        if (!symbol.contractType || symbol.contractType === 'PERPETUAL') {
+          targets.push({ symbol: symbol.symbol, marketType: market });
+        }
+      }
+    }
+
+    const summary: OpenInterestCycleSummary = {
+      symbols: targets.length,
+      historical: 0,
+      live: 0,
+      failed: 0,
+      durationMs: 0,
+    };
+
+    for (const target of targets) {
+      if (!this.isRunning) {
+        break;
+      }
+
+      try {
+        summary.historical += await this.backfillHistory(target.symbol, target.marketType);
+
+        const liveStartedAt = Date.now();
+        const current = await this.fetchWithRetry(() =>
+          this.restClient.fetchOpenInterest(target.symbol, target.marketType)
+        );
+        await this.db.saveOpenInterest([current]);
+        summary.live += 1;
+        this.emit('openInterestStored', { source: 'live', count: 1, durationMs: Date.now() - liveStartedAt });
+      } catch (error) {
+        summary.failed += 1;
+        logger.error('Failed to collect open interest', {
+          symbol: target.symbol,
+          marketType: target.marketType,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+      }
+    }
+
+    summary.durationMs = Date.now() - startedAt;
+    this.emit('cycleCompleted', summary);
+  }
+
+  /**
+   * 最後に保存した期間の次から現在まで、HISTORY_LIMIT 期間ずつ区切って取得する
+   */
+  private async backfillHistory(symbol: string, marketType: OpenInterestMarket): Promise<number> {
+    const startedAt = Date.now();
+    const lastTimestamp = await this.db.getLastOpenInterestTimestamp(symbol, marketType, 'hist');
+    const oldest = startedAt - MAX_HISTORY_MS;
+    let cursor = Math.max(
+      lastTimestamp !== undefined ? lastTimestamp + HISTORY_PERIOD_MS : startedAt - this.initialLookbackMs,
+      oldest
+    );
+    let count = 0;
+
+    for (let iteration = 0; iteration < MAX_REST_ITERATIONS && this.isRunning; iteration += 1) {
+      const now = Date.now();
+      if (cursor + HISTORY_PERIOD_MS > now) {
+        break;
+      }
+      const endTime = Math.min(now, cursor + HISTORY_PERIOD_MS * HISTORY_LIMIT - 1);
+      const windowStart = cursor;
+
+      const rows = await this.fetchWithRetry(() =>
+        this.restClient.fetchOpenInterestHistory(symbol, marketType, {
+          period: HISTORY_PERIOD,
+          startTime: windowStart,
+          endTime,
+          limit: HISTORY_LIMIT,
+        })
+      );
+      const fresh = rows.filter((row) => row.timestamp >= windowStart);
+      if (fresh.length > 0) {
+        await this.db.saveOpenInterest(fresh);
+        count += fresh.length;
+      }
+
+      if (endTime >= now) {
+        break;
+      }
+      // 上場前などで空の区間も要求済みのため、次の区間へ進める
+      cursor = endTime + 1;
+    }
+
+    if (count > 0) {
+      this.emit('openInterestStored', { source: 'hist', count, durationMs: Date.now() - startedAt });
+    }
+    return count;
+  }
+
+  private async fetchWithRetry<T>(task: () => Promise<T>): Promise<T> {
+    let attempt = 0;
+    let lastError: unknown;
+
+    while (attempt < this.maxRetries && this.isRunning) {
+      attempt += 1;
+      try {
+        return await task();
+      } catch (error) {
+        lastError = error;
+        if (attempt >= this.maxRetries) {
+          break;
+        }
+        logger.warn('Open interest REST request failed, retrying', {
+          attempt,
+          maxRetries: this.maxRetries,
+          error: (error as Error).message,
+        });
+        await this.delay(this.retryDelayMs);
+      }
+    }
+
+    throw lastError ?? new Error('Open interest REST request failed');
+  }
+
+  private async delay(ms: number): Promise<void> {
+    if (ms <= 0) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
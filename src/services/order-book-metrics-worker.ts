@@ -0,0 +1,148 @@
+import { EventEmitter } from 'events';
+import { IDatabaseManager } from './interfaces';
+import { LocalOrderBook } from './order-book';
+import { OrderBookLevel, OrderBookMetrics } from '../types';
+import { logger } from '../utils/logger';
+import { toQuoteNotional } from '../utils/notional';
+
+const BPS = 10_000;
+
+export interface OrderBookMetricsWorkerOptions {
+  /** 仲値からの乖離幅 (bps)。帯ごとに 1 行保存する */
+  bandsBps?: number[];
+  intervalMs?: number;
+}
+
+/**
+ * 算出対象の板を提供するソース。DepthDataCollector が同期済みの板を返す
+ */
+export interface OrderBookSource {
+  getSyncedOrderBooks(): LocalOrderBook[];
+}
+
+export declare interface OrderBookMetricsWorker {
+  on(event: 'metricsStored', listener: (count: number, durationMs: number) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * ローカル板から仲値 ± bps 帯ごとの板厚・偏り・スプレッドを一定間隔で算出し order_book_metrics に保存する。
+ * 時刻は算出間隔の境界に揃え、cvd_data や ohlcv_1m と時刻で突き合わせられるようにする。
+ */
+export class OrderBookMetricsWorker extends EventEmitter {
+  private readonly bandsBps: number[];
+  private readonly intervalMs: number;
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+
+  constructor(
+    private readonly databaseManager: IDatabaseManager,
+    private readonly source: OrderBookSource,
+    options: OrderBookMetricsWorkerOptions = {}
+  ) {
+    super();
+    this.bandsBps = Array.from(new Set(options.bandsBps ?? [10, 25, 50, 100]))
+      .filter((band) => band > 0)
+      .sort((a, b) => a - b);
+    this.intervalMs = Math.max(1_000, Math.floor(options.intervalMs ?? 10_000));
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.scheduleNextRun();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+  }
+
+  /**
+   * 板 1 つ分の指標を帯ごとに算出する。最良気配のどちらかが欠けている板は対象外
+   */
+  computeMetrics(book: LocalOrderBook, timestamp: number): OrderBookMetrics[] {
+    const bestBid = book.getBestBid();
+    const bestAsk = book.getBestAsk();
+    if (bestBid === null || bestAsk === null) {
+      return [];
+    }
+
+    const midPrice = (bestBid + bestAsk) / 2;
+    const spread = bestAsk - bestBid;
+    const spreadBps = midPrice > 0 ? (spread / midPrice) * BPS : 0;
+
+    return this.bandsBps.map((bandBps) => {
+      const offset = midPrice * (bandBps / BPS);
+      const bidNotional = this.sumNotional(book, book.getLevelsWithin('bid', midPrice - offset));
+      const askNotional = this.sumNotional(book, book.getLevelsWithin('ask', midPrice + offset));
+      const total = bidNotional + askNotional;
+
+      return {
+        symbol: book.symbol,
+        marketType: book.marketType,
+        timestamp,
+        bandBps,
+        bestBid,
+        bestAsk,
+        midPrice,
+        spread,
+        spreadBps,
+        bidNotional,
+        askNotional,
+        imbalance: total > 0 ? (bidNotional - askNotional) / total : 0,
+      };
+    });
+  }
+
+  private scheduleNextRun(): void {
+    if (!this.running) {
+      return;
+    }
+    // 次の間隔境界で算出する
+    const delay = this.intervalMs - (Date.now() % this.intervalMs);
+    this.timer = setTimeout(() => {
+      this.currentRun = this.run()
+        .catch((error) => {
+          logger.error('Order book metrics cycle failed', error);
+          this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        })
+        .finally(() => {
+          this.currentRun = null;
+          this.scheduleNextRun();
+        });
+    }, delay);
+  }
+
+  private async run(): Promise<void> {
+    const startedAt = Date.now();
+    const timestamp = startedAt - (startedAt % this.intervalMs);
+
+    const metrics = this.source
+      .getSyncedOrderBooks()
+      .flatMap((book) => this.computeMetrics(book, timestamp));
+    if (metrics.length === 0) {
+      return;
+    }
+
+    await this.databaseManager.saveOrderBookMetrics(metrics);
+    this.emit('metricsStored', metrics.length, Date.now() - startedAt);
+  }
+
+  private sumNotional(book: LocalOrderBook, levels: OrderBookLevel[]): number {
+    let notional = 0;
+    for (const [price, quantity] of levels) {
+      notional += toQuoteNotional(book.marketType, book.symbol, price, quantity);
+    }
+    return notional;
+  }
+}
@@ -0,0 +1,156 @@
+import { DepthDiffEvent, DepthSnapshot, MarketType, OrderBookLevel } from '../types';
+
+/**
+ * 差分イベントの適用結果
+ * - applied: 板に反映した
+ * - stale: スナップショット以前の更新のため破棄した
+ * - gap: 更新 ID が連続しておらず、スナップショットの取り直しが必要
+ */
+export type DepthApplyResult = 'applied' | 'stale' | 'gap';
+
+/**
+ * REST スナップショットと @depth 差分から組み立てるローカル板
+ *
+ * Binance のドキュメントに従い、更新 ID の連続性を市場ごとに検証する。
+ * - Spot: u <= lastUpdateId は破棄し、最初のイベントは U <= lastUpdateId + 1 <= u、以降は U = 直前の u + 1
+ * - 先物: u < lastUpdateId は破棄し、最初のイベントは U <= lastUpdateId <= u、以降は pu = 直前の u
+ */
+export class LocalOrderBook {
+  private readonly bids = new Map<number, number>();
+  private readonly asks = new Map<number, number>();
+  private lastUpdateId: number | null = null;
+  private bridged = false;
+  private lastEventTime: number | null = null;
+
+  constructor(
+    readonly symbol: string,
+    readonly marketType: MarketType
+  ) {}
+
+  loadSnapshot(snapshot: DepthSnapshot): void {
+    this.reset();
+    this.lastUpdateId = snapshot.lastUpdateId;
+    this.applyLevels(this.bids, snapshot.bids);
+    this.applyLevels(this.asks, snapshot.asks);
+  }
+
+  reset(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = null;
+    this.bridged = false;
+    this.lastEventTime = null;
+  }
+
+  applyDiff(event: DepthDiffEvent): DepthApplyResult {
+    if (this.lastUpdateId === null) {
+      return 'gap';
+    }
+
+    const sequence = this.marketType === 'SPOT' ? this.checkSpotSequence(event) : this.checkFuturesSequence(event);
+    if (sequence !== 'applied') {
+      return sequence;
+    }
+
+    this.applyLevels(this.bids, event.bids);
+    this.applyLevels(this.asks, event.asks);
+    this.lastUpdateId = event.finalUpdateId;
+    this.lastEventTime = event.eventTime;
+    this.bridged = true;
+    return 'applied';
+  }
+
+  /**
+   * スナップショット以降の最初の差分を適用済みで、板が最新の状態に追従しているか
+   */
+  isSynced(): boolean {
+    return this.lastUpdateId !== null && this.bridged;
+  }
+
+  getLastUpdateId(): number | null {
+    return this.lastUpdateId;
+  }
+
+  getLastEventTime(): number | null {
+    return this.lastEventTime;
+  }
+
+  getTopLevels(depth: number): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } {
+    return {
+      bids: this.sortLevels(this.bids, 'desc').slice(0, depth),
+      asks: this.sortLevels(this.asks, 'asc').slice(0, depth),
+    };
+  }
+
+  getBestBid(): number | null {
+    return this.bestPrice(this.bids, 'desc');
+  }
+
+  getBestAsk(): number | null {
+    return this.bestPrice(this.asks, 'asc');
+  }
+
+  /**
+   * 指定価格までの範囲にある価格帯を返す (買い板は boundary 以上、売り板は boundary 以下)。順序は保証しない
+   */
+  getLevelsWithin(side: 'bid' | 'ask', boundary: number): OrderBookLevel[] {
+    const levels: OrderBookLevel[] = [];
+    const source = side === 'bid' ? this.bids : this.asks;
+    for (const [price, quantity] of source) {
+      if (side === 'bid' ? price >= boundary : price <= boundary) {
+        levels.push([price, quantity]);
+      }
+    }
+    return levels;
+  }
+
+  private checkSpotSequence(event: DepthDiffEvent): DepthApplyResult {
+    const lastUpdateId = this.lastUpdateId!;
+    if (event.finalUpdateId <= lastUpdateId) {
+      return 'stale';
+    }
+    if (!this.bridged) {
+      return event.firstUpdateId <= lastUpdateId + 1 ? 'applied' : 'gap';
+    }
+    return event.firstUpdateId === lastUpdateId + 1 ? 'applied' : 'gap';
+  }
+
+  private checkFuturesSequence(event: DepthDiffEvent): DepthApplyResult {
+    const lastUpdateId = this.lastUpdateId!;
+    // u == lastUpdateId の差分はスナップショットに反映済みのため、ブリッジ前後とも適用しない
+    if (event.finalUpdateId <= lastUpdateId) {
+      return 'stale';
+    }
+    if (!this.bridged) {
+      // 直前の差分がスナップショットの境界で終わっていた場合は pu で連続性を確認する
+      const bridges = event.firstUpdateId <= lastUpdateId || event.previousFinalUpdateId === lastUpdateId;
+      return bridges ? 'applied' : 'gap';
+    }
+    return event.previousFinalUpdateId === lastUpdateId ? 'applied' : 'gap';
+  }
+
+  private applyLevels(side: Map<number, number>, levels: OrderBookLevel[]): void {
+    for (const [price, quantity] of levels) {
+      if (quantity === 0) {
+        side.delete(price);
+      } else {
+        side.set(price, quantity);
+      }
+    }
+  }
+
+  private bestPrice(side: Map<number, number>, order: 'asc' | 'desc'): number | null {
+    let best: number | null = null;
+    for (const price of side.keys()) {
+      if (best === null || (order === 'asc' ? price < best : price > best)) {
+        best = price;
+      }
+    }
+    return best;
+  }
+
+  private sortLevels(side: Map<number, number>, order: 'asc' | 'desc'): OrderBookLevel[] {
+    const levels = Array.from(side.entries()) as OrderBookLevel[];
+    return levels.sort((a, b) => (order === 'asc' ? a[0] - b[0] : b[0] - a[0]));
+  }
+}
@@ -7,6 +7,7 @@ import {
   IRateLimiter,
   RateLimiterRequest,
 } from './interfaces';
+import { REQUEST_WEIGHT_RATE_LIMIT_KEYS } from './binance-rest-client';
 import { MarketType, SymbolMetadata } from '../types';
 
 interface SymbolManagerOptions {
@@ -23,6 +24,7 @@ type ExchangeInfoResponse = {
     baseAsset: string;
     quoteAsset: string;
     contractType?: string;
+    contractSize?: number;
     deliveryDate?: number;
     onboardDate?: number;
   permissions?: string[];
@@ -131,7 +133,7 @@ export class SymbolManager extends EventEmitter implements ISymbolManager {
 
   private async fetchSpotSymbols(): Promise<SymbolMetadata[]> {
     const response = await this.requestWithRateLimit(
-      { weight: 10, identifier: 'exchangeInfo:spot' },
+      { weight: 10, identifier: REQUEST_WEIGHT_RATE_LIMIT_KEYS['SPOT'] },
       () => this.spotClient.get<ExchangeInfoResponse>('/api/v3/exchangeInfo')
     );
     return response.data.symbols
@@ -141,7 +143,7 @@ export class SymbolManager extends EventEmitter implements ISymbolManager {
 
   private async fetchUsdMSymbols(): Promise<SymbolMetadata[]> {
     const response = await this.requestWithRateLimit(
-      { weight: 10, identifier: 'exchangeInfo:usdm' },
+      { weight: 10, identifier: REQUEST_WEIGHT_RATE_LIMIT_KEYS['USDT-M'] },
       () => this.usdMClient.get<ExchangeInfoResponse>('/fapi/v1/exchangeInfo')
     );
     return response.data.symbols.map((symbol) => this.mapSymbol(symbol, 'USDT-M'));
@@ -149,7 +151,7 @@ export class SymbolManager extends EventEmitter implements ISymbolManager {
 
   private async fetchCoinMSymbols(): Promise<SymbolMetadata[]> {
     const response = await this.requestWithRateLimit(
-      { weight: 10, identifier: 'exchangeInfo:coinm' },
+      { weight: 10, identifier: REQUEST_WEIGHT_RATE_LIMIT_KEYS['COIN-M'] },
       () => this.coinMClient.get<ExchangeInfoResponse>('/dapi/v1/exchangeInfo')
     );
     return response.data.symbols.map((symbol) => this.mapSymbol(symbol, 'COIN-M'));
@@ -182,6 +184,10 @@ export class SymbolManager extends EventEmitter implements ISymbolManager {
       metadata.deliveryDate = symbol.deliveryDate;
     }
 
+    if (market === 'COIN-M' && symbol.contractSize !== undefined) {
+      metadata.contractSize = Number(symbol.contractSize);
+    }
+
     return metadata;
   }
 
@@ -1,7 +1,9 @@
 import { EventEmitter } from 'events';
-import { TradeData, CvdStreamConfig, MarketType } from '../types';
+import { AggTrade, TradeData, CvdStreamConfig, MarketType } from '../types';
 import { IDatabaseManager, ITradeDataCollector } from './interfaces';
 import { BinanceTradeWebSocketClient } from './binance-trade-websocket-client';
+import { BinanceStreamManager } from './binance-stream-manager';
+import { BinanceRestClient } from './binance-rest-client';
 import { logger } from '../utils/logger';
 
 export interface TradeDataCollectorOptions {
@@ -13,26 +15,79 @@ export interface TradeDataCollectorOptions {
     marketType: MarketType;
     streamType: NonNullable<CvdStreamConfig['streamType']>;
   }>;
+  streamManager?: BinanceStreamManager;
+  /** 指定時は WebSocket 切断中に取りこぼした aggTrade を再接続時に REST で補完する */
+  restClient?: BinanceRestClient;
   flushIntervalMs?: number;
   maxBufferSize?: number;
+  backfillLimit?: number;
+  /** 1 回の補完で取得するページ数の上限。超えた分は backfillRetryDelayMs 後に続きの aggTradeId から補完する */
+  backfillMaxPages?: number;
+  backfillMaxRetries?: number;
+  backfillRetryDelayMs?: number;
 }
 
+export interface TradeBackfillResult {
+  symbol: string;
+  marketType: MarketType;
+  from: number;
+  to: number;
+  count: number;
+  /** false の場合は to まで到達しておらず、残りの区間は保持されている */
+  complete: boolean;
+  durationMs: number;
+}
+
+type Subscription = TradeDataCollectorOptions['subscriptions'][number];
+type BackfillRequest = { startTime: number } | { fromId: number };
+
+interface TradeOutage {
+  /** 欠落区間の開始時刻 (最後に受信した約定の直後、未受信なら切断時刻) */
+  from: number;
+  /** 補完済みの最後の aggTradeId の次。未設定なら from から startTime で取得する */
+  fromId?: number;
+  /** 補完の終端。再接続時に確定し、補完中に再び切断された場合は次の再接続まで未確定に戻す */
+  to?: number;
+}
+
+const DEFAULT_BACKFILL_MAX_PAGES = 50;
+const BACKFILL_COOLDOWN_MS = 500;
+
 export declare interface TradeDataCollector {
   on(event: 'tradeCollectionStarted', listener: () => void): this;
   on(event: 'tradeDataReceived', listener: (trades: TradeData[]) => void): this;
-  on(event: 'tradeDataSaved', listener: (count: number) => void): this;
+  on(event: 'tradeDataSaved', listener: (count: number, durationMs: number) => void): this;
+  on(event: 'websocketConnected', listener: (market: MarketType, connectionId: number) => void): this;
+  on(
+    event: 'websocketDisconnected',
+    listener: (market: MarketType, connectionId: number, code: number, reason: string) => void
+  ): this;
   on(event: 'websocketError', listener: (error: Error) => void): this;
+  on(event: 'tradeBackfillCompleted', listener: (result: TradeBackfillResult) => void): this;
   on(event: 'error', listener: (error: Error) => void): this;
 }
 
 /**
  * Binance からの約定データを WebSocket で取得しバッファリング・保存する
+ * 切断から再接続までの区間は購読ごとに記録し、再接続時に REST の aggTrades で補完する。
+ * 補完分は再接続後に受信した約定より前の rowid となるよう、区間を埋め切るまで当該購読の約定の書き込みを保留する。
  */
 export class TradeDataCollector extends EventEmitter implements ITradeDataCollector {
   private readonly databaseManager: IDatabaseManager;
   private readonly wsClient: BinanceTradeWebSocketClient;
   private readonly flushIntervalMs: number;
   private readonly maxBufferSize: number;
+  private readonly subscriptions: Subscription[];
+  private readonly restClient: BinanceRestClient | null;
+  private readonly backfillLimit: number;
+  private readonly backfillMaxPages: number;
+  private readonly backfillMaxRetries: number;
+  private readonly backfillRetryDelayMs: number;
+  private readonly lastTradeTime = new Map<string, number>();
+  private readonly outages = new Map<string, TradeOutage>();
+  private readonly heldTrades = new Map<string, TradeData[]>();
+  private readonly backfillJobs = new Map<MarketType, Promise<void>>();
+  private readonly backfillResumeTimers = new Map<MarketType, NodeJS.Timeout>();
   private tradeBuffer: TradeData[] = [];
   private flushTimer: NodeJS.Timeout | null = null;
   private running = false;
@@ -42,11 +97,18 @@ export class TradeDataCollector extends EventEmitter implements ITradeDataCollec
     this.databaseManager = databaseManager;
     this.flushIntervalMs = options.flushIntervalMs ?? 5_000;
     this.maxBufferSize = options.maxBufferSize ?? 1_000;
+    this.subscriptions = options.subscriptions;
+    this.restClient = options.restClient ?? null;
+    this.backfillLimit = options.backfillLimit ?? 1_000;
+    this.backfillMaxPages = Math.max(1, options.backfillMaxPages ?? DEFAULT_BACKFILL_MAX_PAGES);
+    this.backfillMaxRetries = Math.max(1, options.backfillMaxRetries ?? 3);
+    this.backfillRetryDelayMs = options.backfillRetryDelayMs ?? 5_000;
     this.wsClient = new BinanceTradeWebSocketClient({
       spotUrl: options.spotWsUrl,
       usdMUrl: options.usdMWsUrl,
       coinMUrl: options.coinMWsUrl,
       subscriptions: options.subscriptions,
+      ...(options.streamManager ? { streamManager: options.streamManager } : {}),
     });
     this.setupWebSocketHandlers();
   }
@@ -81,10 +143,29 @@ export class TradeDataCollector extends EventEmitter implements ITradeDataCollec
     logger.info('Stopping Binance trade data collector');
     this.running = false;
     this.stopFlushTimer();
+    for (const timer of this.backfillResumeTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.backfillResumeTimers.clear();
     this.wsClient.disconnect();
+    await Promise.allSettled(Array.from(this.backfillJobs.values()));
+
+    // 停止時は補完が終わっていなくても保留中の約定を失わないよう書き込む
+    for (const trades of this.heldTrades.values()) {
+      this.tradeBuffer.push(...trades);
+    }
+    this.heldTrades.clear();
     await this.flushTradeBuffer();
   }
 
+  getBufferSize(): number {
+    let held = 0;
+    for (const trades of this.heldTrades.values()) {
+      held += trades.length;
+    }
+    return this.tradeBuffer.length + held;
+  }
+
   private setupWebSocketHandlers(): void {
     this.wsClient.on('trade', (trade: TradeData) => {
       this.handleTrade(trade);
@@ -94,12 +175,34 @@ export class TradeDataCollector extends EventEmitter implements ITradeDataCollec
       logger.error('Binance trade WebSocket error', error);
       this.emit('websocketError', error);
     });
+
+    this.wsClient.on('connected', (market, connectionId) => {
+      this.emit('websocketConnected', market, connectionId);
+      this.closeOutages(market);
+      void this.backfillOutages(market);
+    });
+
+    this.wsClient.on('disconnected', (market, connectionId, code, reason) => {
+      this.emit('websocketDisconnected', market, connectionId, code, reason);
+      this.recordOutages(market);
+    });
   }
 
   private handleTrade(trade: TradeData): void {
-    this.tradeBuffer.push(trade);
+    const key = this.subscriptionKey(trade.symbol, trade.marketType);
+    this.lastTradeTime.set(key, trade.timestamp);
     this.emit('tradeDataReceived', [trade]);
 
+    // 補完中の購読は再接続後の約定が補完分より先に書き込まれないよう、補完が終わるまで保留する
+    if (this.outages.has(key)) {
+      const held = this.heldTrades.get(key) ?? [];
+      held.push(trade);
+      this.heldTrades.set(key, held);
+      return;
+    }
+
+    this.tradeBuffer.push(trade);
+
     if (this.tradeBuffer.length >= this.maxBufferSize) {
       void this.flushTradeBuffer();
     }
@@ -127,13 +230,248 @@ export class TradeDataCollector extends EventEmitter implements ITradeDataCollec
     const trades = this.tradeBuffer;
     this.tradeBuffer = [];
 
+    const startedAt = Date.now();
     try {
       await this.databaseManager.saveTradeData(trades);
-      this.emit('tradeDataSaved', trades.length);
+      this.emit('tradeDataSaved', trades.length, Date.now() - startedAt);
     } catch (error) {
       logger.error('Failed to persist Binance trade data', error);
       this.emit('error', error as Error);
       this.tradeBuffer.unshift(...trades);
     }
   }
+
+  /**
+   * 切断された市場の aggTrade 購読ごとに欠落区間の開始時刻を記録する。
+   * 最後に受信した約定の直後から、未受信の場合は切断時刻から補完する。
+   * 補完中に再び切断された場合は区間の終端を未確定に戻し、次の再接続時刻まで延長する。
+   */
+  private recordOutages(market: MarketType): void {
+    if (!this.restClient || !this.running) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const subscription of this.subscriptions) {
+      if (subscription.marketType !== market) {
+        continue;
+      }
+      if (subscription.streamType !== 'aggTrade') {
+        logger.warn('Trade stream outage cannot be backfilled from REST aggTrades', subscription);
+        continue;
+      }
+      const key = this.subscriptionKey(subscription.symbol, market);
+      const existing = this.outages.get(key);
+      if (existing) {
+        delete existing.to;
+        continue;
+      }
+      const lastSeen = this.lastTradeTime.get(key);
+      this.outages.set(key, { from: lastSeen !== undefined ? lastSeen + 1 : now });
+    }
+  }
+
+  /** 再接続した市場の欠落区間の終端を再接続時刻で確定する */
+  private closeOutages(market: MarketType): void {
+    const now = Date.now();
+    for (const subscription of this.subscriptions) {
+      if (subscription.marketType !== market) {
+        continue;
+      }
+      const outage = this.outages.get(this.subscriptionKey(subscription.symbol, market));
+      if (outage && outage.to === undefined) {
+        outage.to = now;
+      }
+    }
+  }
+
+  /** 同じ市場の補完が並行しないよう、市場ごとに直列に実行する */
+  private backfillOutages(market: MarketType): Promise<void> {
+    const previous = this.backfillJobs.get(market) ?? Promise.resolve();
+    const job = previous.then(() => this.runBackfill(market));
+    this.backfillJobs.set(market, job);
+    void job.finally(() => {
+      if (this.backfillJobs.get(market) === job) {
+        this.backfillJobs.delete(market);
+      }
+    });
+    return job;
+  }
+
+  private async runBackfill(market: MarketType): Promise<void> {
+    if (!this.restClient || !this.running) {
+      return;
+    }
+
+    const targets = this.subscriptions.filter(
+      (subscription) =>
+        subscription.marketType === market &&
+        this.outages.get(this.subscriptionKey(subscription.symbol, market))?.to !== undefined
+    );
+    if (targets.length === 0) {
+      return;
+    }
+
+    // 切断前に受信済みの約定を先に書き込み、補完分がその後ろに並ぶようにする
+    await this.flushTradeBuffer();
+
+    for (const subscription of targets) {
+      const key = this.subscriptionKey(subscription.symbol, market);
+      const outage = this.outages.get(key);
+      const to = outage?.to;
+      if (!outage || to === undefined || !this.running) {
+        continue;
+      }
+      const startedAt = Date.now();
+      try {
+        const result = await this.backfillRange(subscription.symbol, market, outage, to);
+        // 区間の終端が変わっていなければ補完完了とし、保留していた約定を補完分の後ろに書き込む
+        const complete = result.complete && outage.to === to;
+        if (complete) {
+          this.outages.delete(key);
+          this.tradeBuffer.push(...(this.heldTrades.get(key) ?? []));
+          this.heldTrades.delete(key);
+        } else {
+          logger.warn('Binance trade backfill stopped before the end of the outage', {
+            symbol: subscription.symbol,
+            marketType: market,
+            from: outage.from,
+            to,
+            resumeFromId: outage.fromId,
+            count: result.count,
+          });
+        }
+        this.emit('tradeBackfillCompleted', {
+          symbol: subscription.symbol,
+          marketType: market,
+          from: outage.from,
+          to,
+          count: result.count,
+          complete,
+          durationMs: Date.now() - startedAt,
+        });
+      } catch (error) {
+        // 区間と保留中の約定は保持したまま、タイマーで続きから補完する
+        logger.error('Failed to backfill Binance trades after reconnect', {
+          symbol: subscription.symbol,
+          marketType: market,
+          from: outage.from,
+          to,
+          resumeFromId: outage.fromId,
+          error: (error as Error).message,
+        });
+        this.emit('error', error as Error);
+      }
+    }
+
+    await this.flushTradeBuffer();
+
+    const pending = targets.some(
+      (subscription) => this.outages.get(this.subscriptionKey(subscription.symbol, market))?.to !== undefined
+    );
+    if (pending) {
+      this.scheduleBackfillResume(market);
+    }
+  }
+
+  /** 区間を埋め切れなかった市場は再接続を待たずにタイマーで補完を続ける */
+  private scheduleBackfillResume(market: MarketType): void {
+    if (!this.running || this.backfillResumeTimers.has(market)) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.backfillResumeTimers.delete(market);
+      void this.backfillOutages(market);
+    }, this.backfillRetryDelayMs);
+    this.backfillResumeTimers.set(market, timer);
+  }
+
+  /**
+   * 初回は from 以降を startTime で取得し、以降は aggTradeId で続きを辿る。
+   * 同一ミリ秒の約定が 1 ページに収まらない場合でも取りこぼさないよう、時刻ではなく ID で進め、
+   * 保存した最後の aggTradeId の次を outage.fromId に再開位置として残す。
+   */
+  private async backfillRange(
+    symbol: string,
+    market: MarketType,
+    outage: TradeOutage,
+    to: number
+  ): Promise<{ count: number; complete: boolean }> {
+    let stored = 0;
+
+    for (let page = 0; page < this.backfillMaxPages && this.running; page += 1) {
+      const request: BackfillRequest =
+        outage.fromId !== undefined ? { fromId: outage.fromId } : { startTime: outage.from };
+      const trades = await this.fetchAggTradesWithRetry(symbol, market, request);
+      const inRange = trades.filter((trade) => trade.tradeTime <= to).map((trade) => this.toTradeData(trade));
+      if (inRange.length > 0) {
+        await this.databaseManager.saveTradeData(inRange);
+        stored += inRange.length;
+      }
+
+      const lastTrade = trades[trades.length - 1];
+      if (lastTrade) {
+        outage.fromId = lastTrade.tradeId + 1;
+      }
+      if (!lastTrade || trades.length < this.backfillLimit || lastTrade.tradeTime >= to) {
+        return { count: stored, complete: true };
+      }
+      await this.delay(BACKFILL_COOLDOWN_MS);
+    }
+
+    return { count: stored, complete: false };
+  }
+
+  private async fetchAggTradesWithRetry(
+    symbol: string,
+    market: MarketType,
+    request: BackfillRequest
+  ): Promise<AggTrade[]> {
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= this.backfillMaxRetries && this.running; attempt += 1) {
+      try {
+        return await this.restClient!.fetchAggTrades(symbol, market, {
+          ...request,
+          limit: this.backfillLimit,
+        });
+      } catch (error) {
+        lastError = error;
+        if (attempt >= this.backfillMaxRetries) {
+          break;
+        }
+        logger.warn('Trade backfill REST request failed, retrying', {
+          symbol,
+          marketType: market,
+          attempt,
+          error: (error as Error).message,
+        });
+        await this.delay(this.backfillRetryDelayMs);
+      }
+    }
+    throw lastError ?? new Error('Trade backfill REST request failed');
+  }
+
+  private toTradeData(trade: AggTrade): TradeData {
+    return {
+      symbol: trade.symbol,
+      marketType: trade.marketType,
+      streamType: 'aggTrade',
+      tradeId: String(trade.tradeId),
+      price: trade.price,
+      amount: trade.quantity,
+      timestamp: trade.tradeTime,
+      direction: trade.isBuyerMaker ? 'sell' : 'buy',
+    };
+  }
+
+  private subscriptionKey(symbol: string, market: MarketType): string {
+    return `${market}:${symbol.toUpperCase()}`;
+  }
+
+  private async delay(ms: number): Promise<void> {
+    if (ms <= 0) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
 }
@@ -16,6 +16,8 @@ export interface SymbolMetadata {
   onboardDate: number;
   contractType?: string;
   deliveryDate?: number;
+  /** COIN-M の 1 コントラクトあたりの USD 額 */
+  contractSize?: number;
   filters: {
     tickSize?: number;
     stepSize?: number;
@@ -28,6 +30,7 @@ export type OHLCVTimeframe = '1m' | '30m' | '1d';
 
 export interface OHLCVData {
   symbol: string;
+  marketType: MarketType;
   interval: OHLCVTimeframe;
   openTime: number;
   closeTime: number;
@@ -38,13 +41,15 @@ export interface OHLCVData {
   volume: number;
   quoteVolume: number;
   trades: number;
+  /** テイカー買いの出来高 (volume と同じ単位。REST の kline のみ) */
+  takerBuyVolume?: number;
 }
 
 export type AggTradeSource = 'ws' | 'rest';
 
 export interface AggTrade {
   symbol: string;
-  marketType: Extract<MarketType, 'SPOT' | 'USDT-M'>;
+  marketType: MarketType;
   tradeId: number;
   price: number;
   quantity: number;
@@ -54,10 +59,50 @@ export interface AggTrade {
   isBuyerMaker: boolean;
   isBestMatch: boolean;
   source: AggTradeSource;
+  /** COIN-M の場合のみ。quantity はコントラクト数のため名目額の換算に用いる */
+  contractSize?: number;
+}
+
+/**
+ * agg_trades 内で trade_id が連続していない区間 (start / end は欠落している ID の両端を含む)
+ */
+export interface AggTradeGap {
+  symbol: string;
+  marketType: AggTrade['marketType'];
+  startTradeId: number;
+  endTradeId: number;
+  missingCount: number;
+}
+
+export type AggTradeGapStatus = 'open' | 'partial' | 'repaired' | 'failed';
+
+export interface AggTradeGapLogEntry extends AggTradeGap {
+  id: number;
+  status: AggTradeGapStatus;
+  repairedCount: number;
+  attempts: number;
+  detectedAt: number;
+  repairedAt: number | null;
+  lastAttemptAt: number | null;
+  lastError: string | null;
 }
 
+export interface AggTradeGapStats {
+  detectedGaps: number;
+  repairedGaps: number;
+  missingTrades: number;
+  repairedTrades: number;
+}
+
+export type TopTraderMarket = Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+
+/**
+ * Top Trader のポジション比率。COIN-M は pair 単位 (BTCUSD など) で集計されるため symbol に pair を入れる
+ */
 export interface TopTraderPositionData {
   symbol: string;
+  marketType: TopTraderMarket;
+  period: FuturesDataPeriod;
   timestamp: number;
   longShortRatio: number;
   longAccount: number;
@@ -68,12 +113,32 @@ export interface TopTraderPositionData {
 
 export interface TopTraderAccountData {
   symbol: string;
+  marketType: TopTraderMarket;
+  period: FuturesDataPeriod;
   timestamp: number;
   longShortRatio: number;
   longAccount: number;
   shortAccount: number;
 }
 
+/** 全アカウントの Long/Short 比率 (globalLongShortAccountRatio) */
+export interface GlobalLongShortAccountData {
+  symbol: string;
+  timestamp: number;
+  longShortRatio: number;
+  longAccount: number;
+  shortAccount: number;
+}
+
+/** テイカーの買い/売り出来高比率 (takerlongshortRatio)。出来高は基軸通貨建て */
+export interface TakerBuySellVolumeData {
+  symbol: string;
+  timestamp: number;
+  buySellRatio: number;
+  buyVolume: number;
+  sellVolume: number;
+}
+
 export interface WebSocketKlinePayload {
   stream: string;
   data: {
@@ -137,16 +202,26 @@ export interface TradeDataRow extends TradeData {
   rowId: number;
 }
 
-export interface AlertQueueRecord {
+interface AlertQueueRecordBase {
   id: number;
-  alertType: string;
-  payload: CvdAlertPayload;
   attemptCount: number;
   lastError?: string | null;
   processedAt?: number | null;
   enqueuedAt?: number;
 }
 
+export interface CvdAlertQueueRecord extends AlertQueueRecordBase {
+  alertType: 'CVD_ZSCORE';
+  payload: CvdAlertPayload;
+}
+
+export interface LiquidationAlertQueueRecord extends AlertQueueRecordBase {
+  alertType: 'LIQUIDATION_SPIKE';
+  payload: LiquidationAlertPayload;
+}
+
+export type AlertQueueRecord = CvdAlertQueueRecord | LiquidationAlertQueueRecord;
+
 export interface LiquidationEvent {
   /**
    * 重複排除のためのユニークキー
@@ -172,6 +247,102 @@ export interface LiquidationEvent {
   createdAt: number;
 }
 
+/**
+ * 保持期間による間引き対象のテーブル
+ */
+export type RetentionTable =
+  | 'trade_data'
+  | 'cvd_data'
+  | 'liquidation_events'
+  | 'alert_queue'
+  | 'alert_history'
+  | 'order_book_snapshots'
+  | 'order_book_metrics'
+  | 'mark_prices'
+  | 'open_interest';
+
+export interface PruneResult {
+  table: RetentionTable;
+  cutoff: number;
+  deletedRows: number;
+  batches: number;
+}
+
+export interface LiquidationEventRow extends LiquidationEvent {
+  rowId: number;
+}
+
+export type LiquidationBucketInterval = '1m' | '5m';
+
+/**
+ * 清算イベントの時間バケット集計。long はロング建玉の清算 (SELL 注文)、short はショートの清算 (BUY 注文)
+ */
+export interface LiquidationBucket {
+  symbol: string;
+  marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+  interval: LiquidationBucketInterval;
+  bucketStart: number;
+  longNotional: number;
+  shortNotional: number;
+  longCount: number;
+  shortCount: number;
+  longZScore: number;
+  shortZScore: number;
+}
+
+export type LiquidationCoverageReason = 'ws_disconnected' | 'process_restart';
+
+/**
+ * 欠損区間の 1 分足との突き合わせ状況。
+ * checked: 全銘柄を区間全体で集計済み、partial: 一部の銘柄・期間のみ、unavailable: 対象銘柄や REST クライアントがなく突き合わせていない
+ */
+export type LiquidationCoverageCrossCheck = 'checked' | 'partial' | 'unavailable';
+
+/**
+ * 清算 WebSocket が受信できていなかった区間。Binance は公開 REST で過去の強制清算を提供していないため、
+ * この区間の liquidation_events・liquidation_buckets は欠損を含む可能性がある
+ */
+export interface LiquidationCoverageGap {
+  id?: number;
+  marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+  windowStart: number;
+  windowEnd: number;
+  status: 'incomplete';
+  reason: LiquidationCoverageReason;
+  /** 欠損した銘柄。未設定の場合は市場全体 (全銘柄ストリームの切断やプロセス停止) */
+  symbols?: string[];
+  /** 未設定の場合は突き合わせが終わっていない */
+  crossCheck?: LiquidationCoverageCrossCheck;
+}
+
+/**
+ * 欠損区間の 1 分足テイカー出来高による突き合わせ結果。強制清算はテイカー注文として約定するため、
+ * 区間内の買い清算・売り清算の数量はそれぞれテイカー買い・売り出来高を超えない (単位は清算の数量と同じ)
+ */
+export interface LiquidationCoverageCheck {
+  coverageId: number;
+  symbol: string;
+  marketType: LiquidationCoverageGap['marketType'];
+  klineCount: number;
+  takerBuyVolume: number;
+  takerSellVolume: number;
+  /** 取得ページ数の上限に達し、区間の一部しか集計できなかった場合は false */
+  complete: boolean;
+}
+
+export interface LiquidationAlertPayload {
+  symbol: string;
+  marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+  interval: LiquidationBucketInterval;
+  timestamp: number;
+  side: 'long' | 'short';
+  notional: number;
+  zScore: number;
+  threshold: number;
+  longNotional: number;
+  shortNotional: number;
+}
+
 export interface CvdStreamConfig {
   symbol: string;
   marketType: MarketType;
@@ -185,6 +356,139 @@ export interface CvdAggregatorConfig {
   alertsEnabled?: boolean;
 }
 
+export interface LiquidationStreamConfig {
+  marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+  /** 'ALL' の場合は !forceOrder@arr で市場全体の強制清算を購読する */
+  symbols: string[] | 'ALL';
+}
+
+export interface MarkPriceStreamConfig {
+  marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+  /** 'ALL' の場合は市場の全無期限銘柄を対象にする (USDT-M は !markPrice@arr@1s を購読) */
+  symbols: string[] | 'ALL';
+}
+
+/**
+ * @markPrice@1s の更新。fundingRate は次回精算の予測値
+ */
+export interface MarkPriceUpdate {
+  symbol: string;
+  marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+  eventTime: number;
+  markPrice: number;
+  indexPrice: number;
+  estimatedSettlePrice?: number;
+  fundingRate: number;
+  nextFundingTime: number;
+}
+
+/**
+ * 保存間隔ごとに間引いたマーク価格。timestamp は保存間隔の境界、eventTime は採用した更新の時刻
+ */
+export interface MarkPriceSample extends MarkPriceUpdate {
+  timestamp: number;
+}
+
+/**
+ * 精算済みの資金調達率 (/fapi/v1/fundingRate, /dapi/v1/fundingRate)
+ */
+export interface FundingRate {
+  symbol: string;
+  marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+  fundingTime: number;
+  fundingRate: number;
+  markPrice?: number;
+}
+
+/** /futures/data 系エンドポイントの集計期間 */
+export type FuturesDataPeriod = '5m' | '15m' | '30m' | '1h' | '2h' | '4h' | '6h' | '12h' | '1d';
+
+/**
+ * 建玉。hist は openInterestHist の期間集計 (timestamp は期間の開始時刻)、live は openInterest の取得時点の値
+ */
+export interface OpenInterestData {
+  symbol: string;
+  marketType: Extract<MarketType, 'USDT-M' | 'COIN-M'>;
+  source: 'hist' | 'live';
+  timestamp: number;
+  /** 建玉数量 (USDT-M は基軸通貨建て、COIN-M はコントラクト数) */
+  openInterest: number;
+  /** 建玉の評価額 (USDT-M は USDT 建て、COIN-M は基軸通貨建て)。live では取得できない */
+  openInterestValue?: number;
+}
+
+export interface DepthStreamConfig {
+  symbol: string;
+  marketType: MarketType;
+}
+
+/**
+ * 板の 1 価格帯。[価格, 数量] の組で保持する
+ */
+export type OrderBookLevel = [price: number, quantity: number];
+
+/**
+ * REST /depth で取得した板のスナップショット
+ */
+export interface DepthSnapshot {
+  symbol: string;
+  marketType: MarketType;
+  lastUpdateId: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+/**
+ * @depth@100ms の差分イベント。数量 0 の価格帯は削除を表す
+ */
+export interface DepthDiffEvent {
+  symbol: string;
+  marketType: MarketType;
+  eventTime: number;
+  /** U: このイベントに含まれる最初の更新 ID */
+  firstUpdateId: number;
+  /** u: このイベントに含まれる最後の更新 ID */
+  finalUpdateId: number;
+  /** pu: 直前のイベントの最後の更新 ID (先物のみ) */
+  previousFinalUpdateId?: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+/**
+ * ローカル板から定期的に切り出して保存する上位 N 段の板
+ */
+export interface OrderBookSnapshot {
+  symbol: string;
+  marketType: MarketType;
+  timestamp: number;
+  lastUpdateId: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+/**
+ * ローカル板から算出した価格帯 (仲値 ± bandBps) ごとの板厚と偏り
+ */
+export interface OrderBookMetrics {
+  symbol: string;
+  marketType: MarketType;
+  /** 算出間隔に揃えた時刻 */
+  timestamp: number;
+  bandBps: number;
+  bestBid: number;
+  bestAsk: number;
+  midPrice: number;
+  spread: number;
+  spreadBps: number;
+  /** 帯内の買い板のクォート通貨建て名目額 */
+  bidNotional: number;
+  /** 帯内の売り板のクォート通貨建て名目額 */
+  askNotional: number;
+  /** (bid - ask) / (bid + ask)。-1 (売り板のみ) 〜 1 (買い板のみ) */
+  imbalance: number;
+}
+
 export interface WebSocketAggTradePayload {
   stream: string;
   data: {
@@ -0,0 +1,19 @@
+import { resolveContractSize, toQuoteNotional } from '../notional';
+
+describe('toQuoteNotional', () => {
+  it('multiplies price by quantity for SPOT and USDT-M', () => {
+    expect(toQuoteNotional('SPOT', 'BTCUSDT', 50_000, 0.5)).toBe(25_000);
+    expect(toQuoteNotional('USDT-M', 'ETHUSDT', 3_000, 2)).toBe(6_000);
+  });
+
+  it('uses the contract size for COIN-M quantities', () => {
+    expect(toQuoteNotional('COIN-M', 'BTCUSD_PERP', 50_000, 3)).toBe(300);
+    expect(toQuoteNotional('COIN-M', 'ETHUSD_PERP', 3_000, 3)).toBe(30);
+    expect(toQuoteNotional('COIN-M', 'ETHUSD_PERP', 3_000, 3, 25)).toBe(75);
+  });
+
+  it('falls back to the default contract size for invalid values', () => {
+    expect(resolveContractSize('BTCUSD_PERP', 0)).toBe(100);
+    expect(resolveContractSize('SOLUSD_PERP', Number.NaN)).toBe(10);
+  });
+});
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { createSqliteSnapshot, MANIFEST_SUFFIX } from '../sqlite-snapshot';
+
+const exec = (db: sqlite3.Database, sql: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    db.exec(sql, (error) => (error ? reject(error) : resolve()));
+  });
+
+describe('createSqliteSnapshot', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-snapshot-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('captures rows still in the WAL and writes a verified manifest', async () => {
+    const sourcePath = path.join(directory, 'source.sqlite');
+    const backupPath = path.join(directory, 'backup.sqlite');
+
+    const source = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const db = new sqlite3.Database(sourcePath, (error) => (error ? reject(error) : resolve(db)));
+    });
+    await exec(source, 'PRAGMA journal_mode = WAL');
+    await exec(source, 'PRAGMA wal_autocheckpoint = 0');
+    await exec(source, 'CREATE TABLE trades (id INTEGER PRIMARY KEY, price REAL)');
+    await exec(source, 'INSERT INTO trades (price) VALUES (1), (2), (3)');
+
+    try {
+      // 書き込み中の接続を開いたまま取得し、-wal 内の行も含まれることを確認する
+      const manifest = await createSqliteSnapshot(sourcePath, backupPath);
+
+      expect(manifest.integrityCheck).toBe('ok');
+      expect(manifest.tables).toEqual({ trades: 3 });
+      expect(manifest.sha256).toBe(
+        crypto.createHash('sha256').update(fs.readFileSync(backupPath)).digest('hex')
+      );
+
+      const written = JSON.parse(fs.readFileSync(`${backupPath}${MANIFEST_SUFFIX}`, 'utf8'));
+      expect(written).toEqual(manifest);
+      expect(fs.readdirSync(directory).some((name) => name.includes('.tmp-'))).toBe(false);
+    } finally {
+      await new Promise<void>((resolve) => source.close(() => resolve()));
+    }
+  });
+
+  it('leaves no partial file behind when the source cannot be read', async () => {
+    const backupPath = path.join(directory, 'backup.sqlite');
+
+    await expect(
+      createSqliteSnapshot(path.join(directory, 'missing.sqlite'), backupPath)
+    ).rejects.toThrow();
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+});
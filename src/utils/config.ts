@@ -7,10 +7,21 @@ import * as os from 'os';
 import * as path from 'path';
 import { AppConfig } from '../services/interfaces';
 import { LogLevel } from '../types/config';
-import { CvdAggregatorConfig, CvdStreamConfig, MarketType } from '../types';
+import {
+  CvdAggregatorConfig,
+  CvdStreamConfig,
+  DepthStreamConfig,
+  FuturesDataPeriod,
+  LiquidationStreamConfig,
+  MarketType,
+  TopTraderMarket,
+} from '../types';
 
 dotenv.config();
 
+const TOP_TRADER_MARKETS: TopTraderMarket[] = ['USDT-M', 'COIN-M'];
+const FUTURES_DATA_PERIODS: FuturesDataPeriod[] = ['5m', '15m', '30m', '1h', '2h', '4h', '6h', '12h', '1d'];
+
 export class ConfigManager {
   private config: AppConfig | null = null;
 
@@ -22,8 +33,18 @@ export class ConfigManager {
       this.getEnvVar('DATABASE_BACKUP_PATH', '/Volumes/buffalohd/crypto-data/backups/binance')
     );
     const retentionDays = this.getNumberEnvVar('DATABASE_RETENTION_DAYS', 3);
-    const databaseRetentionMs =
-      retentionDays > 0 ? Math.floor(retentionDays * 24 * 60 * 60 * 1000) : null;
+    const databaseRetentionMs = this.toRetentionMs(retentionDays);
+    const tableRetentionMs = {
+      trade_data: this.toRetentionMs(this.getNumberEnvVar('TRADE_DATA_RETENTION_DAYS', retentionDays)),
+      cvd_data: this.toRetentionMs(this.getNumberEnvVar('CVD_DATA_RETENTION_DAYS', 30)),
+      liquidation_events: this.toRetentionMs(this.getNumberEnvVar('LIQUIDATION_RETENTION_DAYS', 30)),
+      alert_queue: this.toRetentionMs(this.getNumberEnvVar('ALERT_QUEUE_RETENTION_DAYS', 7)),
+      alert_history: this.toRetentionMs(this.getNumberEnvVar('ALERT_HISTORY_RETENTION_DAYS', 90)),
+      order_book_snapshots: this.toRetentionMs(this.getNumberEnvVar('ORDER_BOOK_RETENTION_DAYS', 7)),
+      order_book_metrics: this.toRetentionMs(this.getNumberEnvVar('ORDER_BOOK_METRICS_RETENTION_DAYS', 30)),
+      mark_prices: this.toRetentionMs(this.getNumberEnvVar('MARK_PRICE_RETENTION_DAYS', 30)),
+      open_interest: this.toRetentionMs(this.getNumberEnvVar('OPEN_INTEREST_RETENTION_DAYS', 90)),
+    };
 
     const aggTradeDataDirectory = this.expandPath(
       this.getEnvVar(
@@ -33,19 +54,26 @@ export class ConfigManager {
     );
 
     const enableCvdAlerts = this.getBooleanEnvVar('ENABLE_CVD_ALERTS', false);
-    const discordWebhookUrl = enableCvdAlerts
+    const enableLiquidationAlerts = this.getBooleanEnvVar('ENABLE_LIQUIDATION_ALERTS', false);
+    const discordWebhookUrl = enableCvdAlerts || enableLiquidationAlerts
       ? this.getRequiredEnvVar('DISCORD_WEBHOOK_URL')
       : this.getEnvVar('DISCORD_WEBHOOK_URL', '');
 
+    const cvdAggregators = this.resolveCvdAggregators();
+
     const config: AppConfig = {
       discordWebhookUrl,
       enableCvdAlerts,
+      enableLiquidationAlerts,
       databasePath,
       databaseBackupEnabled: this.getBooleanEnvVar('DATABASE_BACKUP_ENABLED', true),
+      databasePruneEnabled: this.getBooleanEnvVar('DATABASE_PRUNE_ENABLED', true),
       databaseBackupDirectory,
       databaseBackupInterval: this.getNumberEnvVar('DATABASE_BACKUP_INTERVAL_MS', 24 * 60 * 60 * 1000),
       databaseBackupSingleFile: this.getBooleanEnvVar('DATABASE_BACKUP_SINGLE_FILE', false),
       databaseRetentionMs,
+      tableRetentionMs,
+      databasePruneBatchSize: this.getNumberEnvVar('DATABASE_PRUNE_BATCH_SIZE', 5_000),
       logLevel: this.getLogLevel(this.getEnvVar('LOG_LEVEL', 'info') as LogLevel),
       binanceRestBaseUrl: this.getEnvVar('BINANCE_REST_URL', 'https://api.binance.com'),
       binanceUsdMRestBaseUrl: this.getEnvVar('BINANCE_USDM_REST_URL', 'https://fapi.binance.com'),
@@ -53,22 +81,59 @@ export class ConfigManager {
       binanceSpotWsUrl: this.getEnvVar('BINANCE_SPOT_WS_URL', 'wss://stream.binance.com:9443/stream'),
       binanceUsdMWsUrl: this.getEnvVar('BINANCE_USDM_WS_URL', 'wss://fstream.binance.com/stream'),
       binanceCoinMWsUrl: this.getEnvVar('BINANCE_COINM_WS_URL', 'wss://dstream.binance.com/stream'),
+      wsMaxStreamsPerConnection: this.getNumberEnvVar('BINANCE_WS_MAX_STREAMS_PER_CONNECTION', 200),
+      wsReconnectBaseDelayMs: this.getNumberEnvVar('BINANCE_WS_RECONNECT_BASE_DELAY_MS', 1_000),
+      wsReconnectMaxDelayMs: this.getNumberEnvVar('BINANCE_WS_RECONNECT_MAX_DELAY_MS', 60_000),
+      wsRolloverMs: this.getNumberEnvVar('BINANCE_WS_ROLLOVER_MS', 23 * 60 * 60 * 1000),
+      wsStaleThresholdMs: {
+        'SPOT': this.getNumberEnvVar('BINANCE_SPOT_WS_STALE_MS', 60_000),
+        'USDT-M': this.getNumberEnvVar('BINANCE_USDM_WS_STALE_MS', 60_000),
+        'COIN-M': this.getNumberEnvVar('BINANCE_COINM_WS_STALE_MS', 180_000),
+      },
       rateLimitBuffer: this.getNumberEnvVar('RATE_LIMIT_BUFFER', 0.1),
       restRequestTimeout: this.getNumberEnvVar('REST_REQUEST_TIMEOUT_MS', 10_000),
       symbolUpdateHourUtc: this.getNumberEnvVar('SYMBOL_UPDATE_HOUR_UTC', 1),
       aggTradeDataDirectory,
       cvdZScoreThreshold: this.getNumberEnvVar('CVD_ZSCORE_THRESHOLD', 2.5),
-      cvdAggregators: this.resolveCvdAggregators(),
+      cvdAggregators,
       tradeFlushIntervalMs: this.getNumberEnvVar('BINANCE_TRADE_FLUSH_INTERVAL_MS', 5_000),
       tradeMaxBufferSize: this.getNumberEnvVar('BINANCE_TRADE_MAX_BUFFER_SIZE', 1_000),
       liquidationFlushIntervalMs: this.getNumberEnvVar('BINANCE_LIQUIDATION_FLUSH_INTERVAL_MS', 5_000),
       liquidationMaxBufferSize: this.getNumberEnvVar('BINANCE_LIQUIDATION_MAX_BUFFER_SIZE', 500),
+      liquidationStreams: this.resolveFuturesStreams('BINANCE_LIQUIDATION_STREAMS', cvdAggregators),
+      depthStreams: this.resolveDepthStreams(cvdAggregators),
+      depthRestLimit: this.getNumberEnvVar('BINANCE_DEPTH_REST_LIMIT', 1_000),
+      depthSnapshotLevels: this.getNumberEnvVar('BINANCE_DEPTH_SNAPSHOT_LEVELS', 20),
+      depthSnapshotIntervalMs: this.getNumberEnvVar('BINANCE_DEPTH_SNAPSHOT_INTERVAL_MS', 10_000),
+      depthMetricsBandsBps: this.getNumberListEnvVar('BINANCE_DEPTH_METRICS_BANDS_BPS', [10, 25, 50, 100]),
+      depthMetricsIntervalMs: this.getNumberEnvVar('BINANCE_DEPTH_METRICS_INTERVAL_MS', 10_000),
+      markPriceStreams: this.resolveFuturesStreams('BINANCE_MARK_PRICE_STREAMS', cvdAggregators),
+      markPriceSampleIntervalMs: this.getNumberEnvVar('BINANCE_MARK_PRICE_SAMPLE_INTERVAL_MS', 60_000),
+      fundingBackfillIntervalMs: this.getNumberEnvVar('BINANCE_FUNDING_BACKFILL_INTERVAL_MS', 60 * 60 * 1000),
+      fundingInitialLookbackMs:
+        this.getNumberEnvVar('BINANCE_FUNDING_INITIAL_LOOKBACK_DAYS', 30) * 24 * 60 * 60 * 1000,
+      openInterestIntervalMs: this.getNumberEnvVar('BINANCE_OPEN_INTEREST_INTERVAL_MS', 5 * 60 * 1000),
+      openInterestInitialLookbackMs:
+        this.getNumberEnvVar('BINANCE_OPEN_INTEREST_INITIAL_LOOKBACK_DAYS', 7) * 24 * 60 * 60 * 1000,
+      topTraderMarkets: this.getListEnvVar('BINANCE_TOP_TRADER_MARKETS', ['USDT-M', 'COIN-M']) as TopTraderMarket[],
+      topTraderPeriods: this.getListEnvVar('BINANCE_TOP_TRADER_PERIODS', ['5m']) as FuturesDataPeriod[],
+      topTraderBackfillMs: this.getNumberEnvVar('BINANCE_TOP_TRADER_BACKFILL_DAYS', 30) * 24 * 60 * 60 * 1000,
+      klineFlushIntervalMs: this.getNumberEnvVar('BINANCE_KLINE_FLUSH_INTERVAL_MS', 5_000),
+      klineMaxBufferSize: this.getNumberEnvVar('BINANCE_KLINE_MAX_BUFFER_SIZE', 1_000),
       cvdAggregationBatchSize: this.getNumberEnvVar('CVD_AGGREGATION_BATCH_SIZE', 500),
       cvdAggregationPollIntervalMs: this.getNumberEnvVar('CVD_AGGREGATION_POLL_INTERVAL_MS', 2_000),
       cvdAlertSuppressionMinutes: this.getNumberEnvVar('CVD_ALERT_SUPPRESSION_MINUTES', 30),
+      liquidationZScoreThreshold: this.getNumberEnvVar('LIQUIDATION_ZSCORE_THRESHOLD', 3),
+      liquidationZScoreWindowMinutes: this.getNumberEnvVar('LIQUIDATION_ZSCORE_WINDOW_MINUTES', 24 * 60),
+      liquidationAlertMinNotional: this.getNumberEnvVar('LIQUIDATION_ALERT_MIN_NOTIONAL', 100_000),
+      liquidationAlertSuppressionMinutes: this.getNumberEnvVar('LIQUIDATION_ALERT_SUPPRESSION_MINUTES', 15),
       alertQueuePollIntervalMs: this.getNumberEnvVar('ALERT_QUEUE_POLL_INTERVAL_MS', 2_000),
       alertQueueBatchSize: this.getNumberEnvVar('ALERT_QUEUE_BATCH_SIZE', 20),
       alertQueueMaxAttempts: this.getNumberEnvVar('ALERT_QUEUE_MAX_ATTEMPTS', 5),
+      metricsEnabled: this.getBooleanEnvVar('METRICS_ENABLED', true),
+      metricsHost: this.getEnvVar('METRICS_HOST', '127.0.0.1'),
+      metricsPort: this.getNumberEnvVar('METRICS_PORT', 9464),
+      healthWsDisconnectThresholdMs: this.getNumberEnvVar('HEALTH_WS_DISCONNECT_THRESHOLD_MS', 60_000),
     };
 
     this.validateConfig(config);
@@ -97,9 +162,9 @@ export class ConfigManager {
       errors.push('AGG_TRADE_DATA_DIR must not be empty');
     }
 
-    if (config.enableCvdAlerts !== false) {
+    if (config.enableCvdAlerts || config.enableLiquidationAlerts) {
       if (!config.discordWebhookUrl) {
-        errors.push('DISCORD_WEBHOOK_URL is required when ENABLE_CVD_ALERTS is true');
+        errors.push('DISCORD_WEBHOOK_URL is required when ENABLE_CVD_ALERTS or ENABLE_LIQUIDATION_ALERTS is true');
       } else if (!this.isValidDiscordWebhookUrl(config.discordWebhookUrl)) {
         errors.push('DISCORD_WEBHOOK_URL must be a valid Discord webhook URL');
       }
@@ -179,6 +244,10 @@ export class ConfigManager {
       }
     }
 
+    if (config.databasePruneBatchSize <= 0) {
+      errors.push('DATABASE_PRUNE_BATCH_SIZE must be greater than 0');
+    }
+
     if (config.tradeFlushIntervalMs <= 0) {
       errors.push('BINANCE_TRADE_FLUSH_INTERVAL_MS must be greater than 0');
     }
@@ -195,6 +264,96 @@ export class ConfigManager {
       errors.push('BINANCE_LIQUIDATION_MAX_BUFFER_SIZE must be greater than 0');
     }
 
+    if (config.wsMaxStreamsPerConnection <= 0) {
+      errors.push('BINANCE_WS_MAX_STREAMS_PER_CONNECTION must be greater than 0');
+    }
+
+    if (config.wsReconnectBaseDelayMs <= 0) {
+      errors.push('BINANCE_WS_RECONNECT_BASE_DELAY_MS must be greater than 0');
+    }
+
+    if (config.wsReconnectMaxDelayMs < config.wsReconnectBaseDelayMs) {
+      errors.push('BINANCE_WS_RECONNECT_MAX_DELAY_MS must be greater than or equal to BINANCE_WS_RECONNECT_BASE_DELAY_MS');
+    }
+
+    if (config.wsRolloverMs < 0 || config.wsRolloverMs >= 24 * 60 * 60 * 1000) {
+      errors.push('BINANCE_WS_ROLLOVER_MS must be between 0 and 24 hours');
+    }
+
+    for (const stream of config.depthStreams) {
+      if (!this.isValidMarketType(stream.marketType)) {
+        errors.push(`BINANCE_DEPTH_STREAMS has unsupported marketType ${stream.marketType}`);
+      }
+    }
+
+    if (config.depthRestLimit <= 0 || config.depthRestLimit > 1_000) {
+      errors.push('BINANCE_DEPTH_REST_LIMIT must be between 1 and 1000');
+    }
+
+    if (config.depthSnapshotLevels <= 0 || config.depthSnapshotLevels > config.depthRestLimit) {
+      errors.push('BINANCE_DEPTH_SNAPSHOT_LEVELS must be between 1 and BINANCE_DEPTH_REST_LIMIT');
+    }
+
+    if (config.depthSnapshotIntervalMs <= 0) {
+      errors.push('BINANCE_DEPTH_SNAPSHOT_INTERVAL_MS must be greater than 0');
+    }
+
+    if (config.depthMetricsBandsBps.length === 0 || config.depthMetricsBandsBps.some((band) => band <= 0)) {
+      errors.push('BINANCE_DEPTH_METRICS_BANDS_BPS must be a comma-separated list of positive numbers');
+    }
+
+    if (config.depthMetricsIntervalMs < 1_000) {
+      errors.push('BINANCE_DEPTH_METRICS_INTERVAL_MS must be at least 1000');
+    }
+
+    if (config.markPriceSampleIntervalMs < 1_000) {
+      errors.push('BINANCE_MARK_PRICE_SAMPLE_INTERVAL_MS must be at least 1000');
+    }
+
+    if (config.fundingBackfillIntervalMs <= 0) {
+      errors.push('BINANCE_FUNDING_BACKFILL_INTERVAL_MS must be greater than 0');
+    }
+
+    if (config.fundingInitialLookbackMs <= 0) {
+      errors.push('BINANCE_FUNDING_INITIAL_LOOKBACK_DAYS must be greater than 0');
+    }
+
+    if (config.openInterestIntervalMs < 60_000) {
+      errors.push('BINANCE_OPEN_INTEREST_INTERVAL_MS must be at least 60000');
+    }
+
+    // openInterestHist は直近 30 日分しか提供されない
+    if (config.openInterestInitialLookbackMs <= 0 || config.openInterestInitialLookbackMs > 30 * 24 * 60 * 60 * 1000) {
+      errors.push('BINANCE_OPEN_INTEREST_INITIAL_LOOKBACK_DAYS must be greater than 0 and at most 30');
+    }
+
+    if (
+      config.topTraderMarkets.length === 0 ||
+      config.topTraderMarkets.some((market) => !TOP_TRADER_MARKETS.includes(market))
+    ) {
+      errors.push(`BINANCE_TOP_TRADER_MARKETS must be a comma-separated list of ${TOP_TRADER_MARKETS.join(', ')}`);
+    }
+
+    if (
+      config.topTraderPeriods.length === 0 ||
+      config.topTraderPeriods.some((period) => !FUTURES_DATA_PERIODS.includes(period))
+    ) {
+      errors.push(`BINANCE_TOP_TRADER_PERIODS must be a comma-separated list of ${FUTURES_DATA_PERIODS.join(', ')}`);
+    }
+
+    // /futures/data 系は直近 30 日分しか提供されない
+    if (config.topTraderBackfillMs < 0 || config.topTraderBackfillMs > 30 * 24 * 60 * 60 * 1000) {
+      errors.push('BINANCE_TOP_TRADER_BACKFILL_DAYS must be between 0 and 30');
+    }
+
+    if (config.klineFlushIntervalMs <= 0) {
+      errors.push('BINANCE_KLINE_FLUSH_INTERVAL_MS must be greater than 0');
+    }
+
+    if (config.klineMaxBufferSize <= 0) {
+      errors.push('BINANCE_KLINE_MAX_BUFFER_SIZE must be greater than 0');
+    }
+
     if (config.cvdAggregationBatchSize <= 0) {
       errors.push('CVD_AGGREGATION_BATCH_SIZE must be greater than 0');
     }
@@ -207,6 +366,22 @@ export class ConfigManager {
       errors.push('CVD_ALERT_SUPPRESSION_MINUTES must be greater than 0');
     }
 
+    if (config.liquidationZScoreThreshold <= 0) {
+      errors.push('LIQUIDATION_ZSCORE_THRESHOLD must be greater than 0');
+    }
+
+    if (config.liquidationZScoreWindowMinutes < 5) {
+      errors.push('LIQUIDATION_ZSCORE_WINDOW_MINUTES must be at least 5');
+    }
+
+    if (config.liquidationAlertMinNotional < 0) {
+      errors.push('LIQUIDATION_ALERT_MIN_NOTIONAL must be 0 or greater');
+    }
+
+    if (config.liquidationAlertSuppressionMinutes <= 0) {
+      errors.push('LIQUIDATION_ALERT_SUPPRESSION_MINUTES must be greater than 0');
+    }
+
     if (config.alertQueuePollIntervalMs <= 0) {
       errors.push('ALERT_QUEUE_POLL_INTERVAL_MS must be greater than 0');
     }
@@ -219,6 +394,16 @@ export class ConfigManager {
       errors.push('ALERT_QUEUE_MAX_ATTEMPTS must be greater than 0');
     }
 
+    const validPort =
+      Number.isInteger(config.metricsPort) && config.metricsPort > 0 && config.metricsPort <= 65_535;
+    if (config.metricsEnabled && !validPort) {
+      errors.push('METRICS_PORT must be an integer between 1 and 65535');
+    }
+
+    if (config.healthWsDisconnectThresholdMs <= 0) {
+      errors.push('HEALTH_WS_DISCONNECT_THRESHOLD_MS must be greater than 0');
+    }
+
     if (errors.length > 0) {
       errors.forEach((err) => console.error(err));
       throw new Error('Configuration validation failed');
@@ -261,6 +446,36 @@ export class ConfigManager {
     }
   }
 
+  private getListEnvVar(name: string, defaultValue: string[]): string[] {
+    const value = process.env[name];
+    if (value === undefined || value.trim() === '') {
+      return defaultValue;
+    }
+
+    return Array.from(
+      new Set(
+        value
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter((entry) => entry.length > 0)
+      )
+    );
+  }
+
+  private getNumberListEnvVar(name: string, defaultValue: number[]): number[] {
+    const value = process.env[name];
+    if (value === undefined || value.trim() === '') {
+      return defaultValue;
+    }
+
+    const parsed = value.split(',').map((entry) => Number(entry.trim()));
+    if (parsed.some((entry) => Number.isNaN(entry))) {
+      console.warn(`Invalid numeric list for ${name}: ${value}. Using default: ${defaultValue.join(',')}`);
+      return defaultValue;
+    }
+    return parsed;
+  }
+
   private getNumberEnvVar(name: string, defaultValue: number): number {
     const value = process.env[name];
     if (value === undefined || value === '') {
@@ -275,6 +490,13 @@ export class ConfigManager {
     return parsed;
   }
 
+  /**
+   * 日数指定の保持期間をミリ秒に変換する。0 以下は無期限 (null) として扱う
+   */
+  private toRetentionMs(days: number): number | null {
+    return days > 0 ? Math.floor(days * 24 * 60 * 60 * 1000) : null;
+  }
+
   private getLogLevel(value: LogLevel): LogLevel {
     if (['error', 'warn', 'info', 'debug'].includes(value)) {
       return value;
@@ -355,6 +577,151 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * BINANCE_LIQUIDATION_STREAMS / BINANCE_MARK_PRICE_STREAMS から先物ストリームの購読設定を組み立てる。
+   * - 未設定: CVD 集計対象の先物ストリームと同じ銘柄を購読
+   * - ALL: USDT-M / COIN-M の全銘柄を購読 (清算は !forceOrder@arr、マーク価格は USDT-M のみ !markPrice@arr@1s)
+   * - JSON 配列: [{"marketType":"USDT-M","symbols":"ALL"},{"marketType":"COIN-M","symbols":["BTCUSD_PERP"]}]
+   */
+  private resolveFuturesStreams(name: string, aggregators: CvdAggregatorConfig[]): LiquidationStreamConfig[] {
+    const raw = process.env[name];
+    const fallback = this.deriveFuturesStreams(aggregators);
+
+    if (!raw || raw.trim() === '') {
+      return fallback;
+    }
+
+    if (raw.trim().toUpperCase() === 'ALL') {
+      return [
+        { marketType: 'USDT-M', symbols: 'ALL' },
+        { marketType: 'COIN-M', symbols: 'ALL' },
+      ];
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        console.warn(`${name} must be "ALL" or a JSON array. Falling back to defaults.`);
+        return fallback;
+      }
+
+      const streams: LiquidationStreamConfig[] = [];
+      for (const entry of parsed) {
+        const stream = this.normalizeFuturesStream(entry);
+        if (stream) {
+          streams.push(stream);
+        } else {
+          console.warn(`Ignoring invalid ${name} entry`, entry);
+        }
+      }
+      return streams;
+    } catch (error) {
+      console.warn(`Failed to parse ${name}. Falling back to defaults.`, error);
+      return fallback;
+    }
+  }
+
+  private normalizeFuturesStream(entry: any): LiquidationStreamConfig | null {
+    if (!entry || typeof entry !== 'object') {
+      return null;
+    }
+
+    const marketRaw = typeof entry.marketType === 'string' ? entry.marketType.trim() : '';
+    const marketType = this.normalizeMarketType(marketRaw);
+    if (marketType !== 'USDT-M' && marketType !== 'COIN-M') {
+      return null;
+    }
+
+    if (typeof entry.symbols === 'string' && entry.symbols.trim().toUpperCase() === 'ALL') {
+      return { marketType, symbols: 'ALL' };
+    }
+
+    if (!Array.isArray(entry.symbols)) {
+      return null;
+    }
+
+    const symbols = entry.symbols
+      .filter((symbol: unknown): symbol is string => typeof symbol === 'string')
+      .map((symbol: string) => symbol.trim().toUpperCase())
+      .filter((symbol: string) => symbol.length > 0);
+
+    return symbols.length > 0 ? { marketType, symbols } : null;
+  }
+
+  /**
+   * BINANCE_DEPTH_STREAMS から板の購読設定を組み立てる。
+   * - 未設定: CVD 集計対象と同じ銘柄・市場を購読
+   * - NONE: 板の収集を無効化
+   * - JSON 配列: [{"symbol":"BTCUSDT","marketType":"USDT-M"},{"symbol":"BTCUSDT","marketType":"SPOT"}]
+   */
+  private resolveDepthStreams(aggregators: CvdAggregatorConfig[]): DepthStreamConfig[] {
+    const raw = process.env['BINANCE_DEPTH_STREAMS'];
+    const fallback = this.deriveDepthStreams(aggregators);
+
+    if (!raw || raw.trim() === '') {
+      return fallback;
+    }
+
+    if (raw.trim().toUpperCase() === 'NONE') {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        console.warn('BINANCE_DEPTH_STREAMS must be "NONE" or a JSON array. Falling back to defaults.');
+        return fallback;
+      }
+
+      const streams: DepthStreamConfig[] = [];
+      for (const entry of parsed) {
+        const symbol = typeof entry?.symbol === 'string' ? entry.symbol.trim().toUpperCase() : '';
+        const marketType = typeof entry?.marketType === 'string'
+          ? this.normalizeMarketType(entry.marketType.trim())
+          : null;
+        if (symbol && marketType) {
+          streams.push({ symbol, marketType });
+        } else {
+          console.warn('Ignoring invalid BINANCE_DEPTH_STREAMS entry', entry);
+        }
+      }
+      return streams;
+    } catch (error) {
+      console.warn('Failed to parse BINANCE_DEPTH_STREAMS. Falling back to defaults.', error);
+      return fallback;
+    }
+  }
+
+  private deriveDepthStreams(aggregators: CvdAggregatorConfig[]): DepthStreamConfig[] {
+    const deduped = new Map<string, DepthStreamConfig>();
+    for (const aggregator of aggregators) {
+      for (const stream of aggregator.streams) {
+        const symbol = stream.symbol.toUpperCase();
+        deduped.set(`${stream.marketType}:${symbol}`, { symbol, marketType: stream.marketType });
+      }
+    }
+    return Array.from(deduped.values());
+  }
+
+  private deriveFuturesStreams(aggregators: CvdAggregatorConfig[]): LiquidationStreamConfig[] {
+    const byMarket = new Map<LiquidationStreamConfig['marketType'], Set<string>>();
+    for (const aggregator of aggregators) {
+      for (const stream of aggregator.streams) {
+        if (stream.marketType !== 'USDT-M' && stream.marketType !== 'COIN-M') {
+          continue;
+        }
+        const symbols = byMarket.get(stream.marketType) ?? new Set<string>();
+        symbols.add(stream.symbol.toUpperCase());
+        byMarket.set(stream.marketType, symbols);
+      }
+    }
+
+    return Array.from(byMarket.entries()).map(([marketType, symbols]) => ({
+      marketType,
+      symbols: Array.from(symbols),
+    }));
+  }
+
   private normalizeAggregator(entry: any): CvdAggregatorConfig | null {
     if (!entry || typeof entry !== 'object') {
       return null;
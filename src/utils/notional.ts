@@ -0,0 +1,32 @@
+import { MarketType } from '../types';
+
+// COIN-M は 1 コントラクトあたりの USD 額が固定 (BTC 系は 100 USD、その他は 10 USD)
+const COIN_M_BTC_CONTRACT_SIZE_USD = 100;
+const COIN_M_DEFAULT_CONTRACT_SIZE_USD = 10;
+
+/**
+ * COIN-M のコントラクトサイズを返す。exchangeInfo の値がない場合はシンボルから推定する
+ */
+export function resolveContractSize(symbol: string, contractSize?: number): number {
+  if (contractSize !== undefined && Number.isFinite(contractSize) && contractSize > 0) {
+    return contractSize;
+  }
+  return symbol.toUpperCase().startsWith('BTC') ? COIN_M_BTC_CONTRACT_SIZE_USD : COIN_M_DEFAULT_CONTRACT_SIZE_USD;
+}
+
+/**
+ * 約定・清算の数量をクォート通貨 (USDT / USD) 建ての名目額に換算する。
+ * COIN-M の数量はコントラクト数のため価格ではなくコントラクトサイズを掛ける。
+ */
+export function toQuoteNotional(
+  marketType: MarketType,
+  symbol: string,
+  price: number,
+  quantity: number,
+  contractSize?: number
+): number {
+  if (marketType === 'COIN-M') {
+    return quantity * resolveContractSize(symbol, contractSize);
+  }
+  return quantity * price;
+}
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import sqlite3 from 'sqlite3';
+
+export interface SqliteSnapshotManifest {
+  sourcePath: string;
+  backupPath: string;
+  createdAt: string;
+  sizeBytes: number;
+  sha256: string;
+  integrityCheck: string;
+  tables: Record<string, number>;
+  sourceFingerprint?: string;
+}
+
+export const MANIFEST_SUFFIX = '.manifest.json';
+
+/**
+ * 稼働中 (WAL モード) の SQLite から VACUUM INTO で一貫したスナップショットを作成し、
+ * integrity_check・行数・SHA-256 を記録したマニフェストを backupPath と並べて書き出す。
+ * 検証に失敗した場合は一時ファイルを削除して例外を投げ、既存のバックアップは上書きしない。
+ */
+export async function createSqliteSnapshot(
+  sourcePath: string,
+  backupPath: string,
+  options: { sourceFingerprint?: string } = {}
+): Promise<SqliteSnapshotManifest> {
+  const tempPath = `${backupPath}.tmp-${process.pid}`;
+  await fs.promises.rm(tempPath, { force: true });
+
+  try {
+    const source = await openDatabase(sourcePath, sqlite3.OPEN_READONLY);
+    try {
+      await run(source, 'VACUUM INTO ?', [tempPath]);
+    } finally {
+      await closeDatabase(source);
+    }
+
+    const snapshot = await openDatabase(tempPath, sqlite3.OPEN_READONLY);
+    let integrityCheck: string;
+    const tables: Record<string, number> = {};
+    try {
+      const checks = await all<{ integrity_check: string }>(snapshot, 'PRAGMA integrity_check');
+      integrityCheck = checks.map((row) => row.integrity_check).join('; ');
+      if (integrityCheck !== 'ok') {
+        throw new Error(`Integrity check failed for snapshot of ${sourcePath}: ${integrityCheck}`);
+      }
+
+      const tableRows = await all<{ name: string }>(
+        snapshot,
+        `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`
+      );
+      for (const { name } of tableRows) {
+        const [row] = await all<{ count: number }>(
+          snapshot,
+          `SELECT COUNT(*) AS count FROM "${name.replace(/"/g, '""')}"`
+        );
+        tables[name] = Number(row?.count ?? 0);
+      }
+    } finally {
+      await closeDatabase(snapshot);
+    }
+
+    const sha256 = await hashFile(tempPath);
+    const stats = await fs.promises.stat(tempPath);
+    await fs.promises.rename(tempPath, backupPath);
+
+    const manifest: SqliteSnapshotManifest = {
+      sourcePath,
+      backupPath,
+      createdAt: new Date().toISOString(),
+      sizeBytes: stats.size,
+      sha256,
+      integrityCheck,
+      tables,
+    };
+    if (options.sourceFingerprint !== undefined) {
+      manifest.sourceFingerprint = options.sourceFingerprint;
+    }
+    await fs.promises.writeFile(`${backupPath}${MANIFEST_SUFFIX}`, `${JSON.stringify(manifest, null, 2)}\n`);
+    return manifest;
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function openDatabase(filePath: string, mode: number): Promise<sqlite3.Database> {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(filePath, mode, (error) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(db);
+      }
+    });
+  });
+}
+
+function closeDatabase(db: sqlite3.Database): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.close((error) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+function run(db: sqlite3.Database, sql: string, params: unknown[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, (error) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+function all<T>(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (error, rows) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve((rows as T[]) ?? []);
+      }
+    });
+  });
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    const stream = fs.createReadStream(filePath);
+    stream.on('error', reject);
+    stream.on('data', (chunk) => hash.update(chunk));
+    stream.on('end', () => resolve(hash.digest('hex')));
+  });
+}